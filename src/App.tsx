@@ -4,16 +4,26 @@ import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import VisibilityOutlinedIcon from '@mui/icons-material/VisibilityOutlined';
 import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
 import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
-import { detectAndValidate, dfGroupPreview, dfCustom, recomputeClusterMetrics, checkBackendHealth } from "./lib/api";
+import { detectAndValidate, dfGroupPreview, dfCustom, recomputeClusterMetrics, checkBackendHealth, resultsLoad } from "./lib/api";
 import { flattenScores, normalizeMetricsColumnNames } from "./lib/normalize";
-import { parseFile, inferColumns } from "./lib/parse";
+import { parseFile, inferColumns, type MalformedLine } from "./lib/parse";
 import { detectMethodFromColumns, ensureOpenAIFormat } from "./lib/traces";
 import DataTable from "./components/DataTable";
 import ConversationTrace from "./components/ConversationTrace";
 import SideBySideTrace from "./components/SideBySideTrace";
 import FormattedCell from "./components/FormattedCell";
 import FilterSummary from "./components/FilterSummary";
+import { CheckpointMenu } from "./components/CheckpointMenu";
+import { useOperationHistory } from "./hooks/useOperationHistory";
+import { useExtractionJobs } from "./hooks/useExtractionJobs";
+import { mergePropertiesById } from "./lib/extractionJobs";
+import { normalizeFailures, mergeFailures, type ExtractionFailure } from "./lib/extractionFailures";
+import { loadCheckpoints, saveCheckpoint, deleteCheckpoint, instantiateCheckpoint, type OperationCheckpoint } from "./lib/checkpoints";
 import PropertyTraceHeader from "./components/PropertyTraceHeader";
+import TraceAuthoredProperties from "./components/TraceAuthoredProperties";
+import { ManualPropertyDialog } from "./components/ManualPropertyDialog";
+import { applyVerdict, type ReviewVerdict } from "./lib/propertyReview";
+import { draftFromSelection, draftFromProperty, createManualProperty, updateManualProperty, manualPropertiesForRow, type ManualPropertyDraft } from "./lib/manualProperties";
 // import BenchmarkChart from "./components/BenchmarkChart";
 import DataTabBenchmarkTable from "./components/metrics/DataTabBenchmarkTable";
 
@@ -27,11 +37,28 @@ import ClusteringPanel from "./components/sidebar-sections/ClusteringPanel";
 // recomputeClusterMetrics imported above
 import ClustersTab from "./components/ClustersTab";
 import MetricsPanel from "./components/sidebar-sections/MetricsPanel";
-import type { MetricsFilters, MetricsSummary } from "./types/metrics";
+import type { MetricsFilters, MetricsSummary, ModelClusterRow } from "./types/metrics";
+import type { PropertyLike } from "./components/cards/PropertyCard";
 import { ColumnSelector, type ColumnMapping } from "./components/ColumnSelector";
 import { MetricsTab } from "./components/metrics/MetricsTab";
 import type { DataOperation } from "./types/operations";
-import { createFilterOperation, createCustomCodeOperation, createSortOperation } from "./types/operations";
+import { createFilterOperation, createCustomCodeOperation, createSortOperation, isRowFilterOperation, getOperationDescription } from "./types/operations";
+import { buildRowPredicate, parseFilterExpression } from "./lib/filterOps";
+import { runJsCustomCode } from "./lib/jsSandbox";
+import { DEFAULT_METRICS_FILTERS, hasViewState, readViewStateFromUrl, writeViewStateToUrl, type ViewState } from "./lib/urlState";
+import { saveSession, loadSession, type SessionMeta, type SessionSnapshot } from "./lib/sessions";
+import { SessionsDialog } from "./components/SessionsDialog";
+import { buildResultsZip, buildClusterEditsZip, downloadBlob } from "./lib/exportResults";
+import { readResultsFolder } from "./lib/resultsFolder";
+import type { ResultsRun } from "./lib/runDiff";
+import { DEFAULT_BOOTSTRAP, type BootstrapOptions } from "./lib/clusterMetrics";
+import { computeModelClusterScores, computePairwiseMetrics, type MetricsBootstrapProgress } from "./lib/metricsBootstrap";
+import { recomputeClusterMetricsLocally } from "./lib/localClustering";
+import { withPairwiseScores, pairwiseDecidingMetric, type PairwiseClusterMetrics } from "./lib/pairwiseMetrics";
+import { RunDiffDialog } from "./components/RunDiffDialog";
+import RegressionReport from "./components/RegressionReport";
+import type { PairedConversation } from "./lib/modelRegression";
+import { clusterKey, clusterLabel, clusterPropertyIds, editedClusterKeys, type ClusterEdit, type ClusterLike } from "./lib/clusterEdits";
 
 
 
@@ -231,6 +258,22 @@ class ErrorBoundary extends Component<{children: React.ReactNode}, {hasError: bo
   }
 }
 
+// Comparator for a sort operation: nulls last, numbers numerically, otherwise case-insensitive text
+function compareForSort(aVal: any, bVal: any, direction: 'asc' | 'desc'): number {
+  if (aVal == null && bVal == null) return 0;
+  if (aVal == null) return direction === 'asc' ? 1 : -1;
+  if (bVal == null) return direction === 'asc' ? -1 : 1;
+
+  const aNum = Number(aVal);
+  const bNum = Number(bVal);
+  if (!isNaN(aNum) && !isNaN(bNum)) {
+    const diff = aNum - bNum;
+    return direction === 'asc' ? diff : -diff;
+  }
+  const comp = String(aVal).toLowerCase().localeCompare(String(bVal).toLowerCase());
+  return direction === 'asc' ? comp : -comp;
+}
+
 function App() {
   // Data management layers as suggested
   const [originalRows, setOriginalRows] = useState<Record<string, any>[]>([]); // Raw uploaded data
@@ -248,23 +291,56 @@ function App() {
   const [selectedProperty, setSelectedProperty] = useState<any | null>(null); // Track the property when viewing from properties table
   const [propertiesByKey, setPropertiesByKey] = useState<Map<string, any[]>>(new Map());
   const [propertiesRows, setPropertiesRows] = useState<any[]>([]);
+  const [extractionFailures, setExtractionFailures] = useState<ExtractionFailure[]>([]);
+  // Text selected in the open trace, and the property being authored/edited from the drawer
+  const [traceSelection, setTraceSelection] = useState<{ text: string; model: string } | null>(null);
+  const [propertyEditor, setPropertyEditor] = useState<{ draft: ManualPropertyDraft; propertyId?: string } | null>(null);
   const [activeSection, setActiveSection] = useState<SidebarSection>('data');
   const [sidebarExpanded, setSidebarExpanded] = useState<boolean>(false);
   const [activeTab, setActiveTab] = useState<'table'|'properties'|'clusters'|'metrics'>('table');
   const [hasViewedClusters, setHasViewedClusters] = useState<boolean>(false);
   const [clusterSearchQuery, setClusterSearchQuery] = useState<string>('');
+  // Property ids picked elsewhere (behavior map lasso, heatmap cell) and where they came from
+  const [propertySelection, setPropertySelection] = useState<{ ids: string[]; source: string } | null>(null);
   
   // Results loading indicator
   const [isLoadingResults, setIsLoadingResults] = useState<boolean>(false);
   const [resultsLoadingMessage, setResultsLoadingMessage] = useState<string>('');
+  const [resultsLoadingProgress, setResultsLoadingProgress] = useState<number | null>(null); // 0-100 when known
   const [resultsError, setResultsError] = useState<string | null>(null);
   // -------- Clustering State ---------
   const [clusters, setClusters] = useState<any[]>([]);
+  const [clusterEdits, setClusterEdits] = useState<ClusterEdit[]>([]); // manual merges/splits/renames/moves since clustering
   const [totalConversationsByModel, setTotalConversationsByModel] = useState<Record<string, number> | null>(null);
   const [totalUniqueConversations, setTotalUniqueConversations] = useState<number | null>(null);
   // Results mode (when loading full_dataset.json)
   const [isResultsMode, setIsResultsMode] = useState<boolean>(false);
   const [resultsMetrics, setResultsMetrics] = useState<{ model_cluster_scores?: any; cluster_scores?: any; model_scores?: any } | null>(null);
+  // Set when metrics are computed in the browser rather than loaded; their CIs are bootstrapped in a worker
+  const [clientMetrics, setClientMetrics] = useState<boolean>(false);
+  const [metricsBootstrap, setMetricsBootstrap] = useState<BootstrapOptions>(DEFAULT_BOOTSTRAP);
+  const [metricsBootstrapProgress, setMetricsBootstrapProgress] = useState<MetricsBootstrapProgress | null>(null);
+  // Latest client-computed model_cluster_scores; kept apart from resultsMetrics so recomputes don't read as a new source
+  const [bootstrappedScores, setBootstrappedScores] = useState<ModelClusterRow[] | null>(null);
+  // The metrics in effect: loaded or backend tables, with the bootstrapped rows in place when computed in the browser
+  const metricsData = useMemo(() => {
+    if (!clientMetrics || !bootstrappedScores) return resultsMetrics;
+    return { ...resultsMetrics, model_cluster_scores: bootstrappedScores };
+  }, [resultsMetrics, clientMetrics, bootstrappedScores]);
+  // Side-by-side win/tie/loss and preference shifts per cluster (null when not pairwise data)
+  const [pairwiseMetrics, setPairwiseMetrics] = useState<PairwiseClusterMetrics[] | null>(null);
+  // Server-side results directory (only set when results were loaded through the backend)
+  const [resultsDir, setResultsDir] = useState<string | null>(null);
+  // Saved workspace session (IndexedDB) that the current data was saved to or resumed from
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [sessionsDialogOpen, setSessionsDialogOpen] = useState<boolean>(false);
+  // Baseline run for the cross-run cluster diff (kept when a new source is loaded)
+  const [baselineRun, setBaselineRun] = useState<ResultsRun | null>(null);
+  const [runDiffOpen, setRunDiffOpen] = useState<boolean>(false);
+  // Undo/redo for the Data tab operation chain (cleared when a new source is loaded)
+  const operationHistory = useOperationHistory();
+  const { record: recordOperationHistory, clear: clearOperationHistory, restore: restoreOperationHistory } = operationHistory;
+  const [checkpoints, setCheckpoints] = useState<OperationCheckpoint[]>(() => loadCheckpoints());
   // Removed explainBusy (no separate panel submit)
   const [backendAvailable, setBackendAvailable] = useState<boolean>(false);
 
@@ -272,15 +348,22 @@ function App() {
   const [decimalPrecision, setDecimalPrecision] = useState<number>(2);
 
   // -------- Metrics Tab State ---------
-  const [metricsFilters, setMetricsFilters] = useState<MetricsFilters>({
-    selectedModels: [],
-    selectedGroups: [],
-    qualityMetric: '',
-    sortBy: 'proportion_delta_desc',
-    topN: 15,
-    significanceOnly: false,
-    showCI: false,
+  const [metricsFilters, setMetricsFilters] = useState<MetricsFilters>(DEFAULT_METRICS_FILTERS);
+
+  // -------- Shareable View State ---------
+  // View state decoded from the URL on first load; applied once data is available, then cleared
+  const pendingViewStateRef = useRef<ViewState | null>(null);
+  const [initialViewState] = useState<ViewState>(() => {
+    const state = readViewStateFromUrl();
+    if (hasViewState(state)) pendingViewStateRef.current = state;
+    return state;
   });
+  // Info banner for share links (what a copied link carries, or that an opened one has no data)
+  const [shareNotice, setShareNotice] = useState<string | null>(() =>
+    hasViewState(initialViewState) && !initialViewState.resultsDir
+      ? 'This link carries a view but no data. Load the same dataset to apply it.'
+      : null
+  );
 
   // Metrics data for sidebar
   const [metricsAvailableModels, setMetricsAvailableModels] = useState<string[]>([]);
@@ -288,26 +371,18 @@ function App() {
   const [metricsAvailableQualityMetrics, setMetricsAvailableQualityMetrics] = useState<string[]>([]);
   const [metricsSummary, setMetricsSummary] = useState<MetricsSummary | null>(null);
 
-  // Reset metrics filters when new data is loaded
+  // Reset metrics filters when new data is loaded (a new metrics table, or metrics now computed in the browser)
   React.useEffect(() => {
-    if (resultsMetrics) {
+    if (resultsMetrics || clientMetrics) {
       // Reset filters to defaults when new data is loaded
-      setMetricsFilters({
-        selectedModels: [],
-        selectedGroups: [],
-        qualityMetric: '',
-        sortBy: 'proportion_delta_desc',
-        topN: 15,
-        significanceOnly: false,
-        showCI: false,
-      });
+      setMetricsFilters(DEFAULT_METRICS_FILTERS);
       // Clear previous metrics metadata
       setMetricsAvailableModels([]);
       setMetricsAvailableGroups([]);
       setMetricsAvailableQualityMetrics([]);
       setMetricsSummary(null);
     }
-  }, [resultsMetrics]);
+  }, [resultsMetrics, clientMetrics]);
 
   // Auto-switch to Clustering section only the first time clusters appear
   const hasAutoSwitchedToClustersRef = useRef<boolean>(false);
@@ -322,9 +397,6 @@ function App() {
   // (reserved) keying strategies for recomputes can be added later when needed
 
   // Remove auto-recompute; metrics will be explicitly recomputed by the ClustersTab when filters change
-  const [batchRunning, setBatchRunning] = useState<boolean>(false);
-  const [batchProgress, setBatchProgress] = useState<number>(0);
-  const [batchState, setBatchState] = useState<string | null>(null);
   
   // Flexible column mapping state
   const [showColumnSelector, setShowColumnSelector] = useState(false);
@@ -334,9 +406,12 @@ function App() {
   const [mappingValid, setMappingValid] = useState(false);
   const [mappingErrors, setMappingErrors] = useState<string[]>([]); // reserved for future validation UI
   const [filterNotice, setFilterNotice] = useState<string | null>(null);
+  const [parseNotice, setParseNotice] = useState<{ count: number; lines: MalformedLine[] } | null>(null);
   
   // Ref for results folder picker
   const resultsInputRef = useRef<HTMLInputElement>(null);
+  // Set once the extraction job hook exists; makes running jobs refetch into the cleared properties
+  const resetJobResultsRef = useRef<() => void>(() => {});
 
   // Backend availability check on mount
   React.useEffect(() => {
@@ -356,14 +431,21 @@ function App() {
     setAutoDetectedMapping(null);
     setColumnMapping(null);
     setFilterNotice(null);
+    setParseNotice(null);
     setMethod('unknown');
     setIsResultsMode(mode === 'results');
     setResultsMetrics(null);
+    setClientMetrics(false);
+    setBootstrappedScores(null);
+    setPairwiseMetrics(null);
+    setResultsDir(null);
+    setActiveSessionId(null);
 
     // Panels, tabs, and sidebar
     setActiveSection('data');
     setActiveTab('table');
     setHasViewedClusters(false);
+    setPropertySelection(null);
     setSidebarExpanded(false);
 
     // Drawer and selections
@@ -378,10 +460,14 @@ function App() {
     // Properties and clusters
     setPropertiesByKey(new Map());
     setPropertiesRows([]);
+    resetJobResultsRef.current();
+    setExtractionFailures([]);
     setClusters([]);
+    setClusterEdits([]);
 
     // Operations, filters, grouping, sorting
     setOperationChain([]);
+    clearOperationHistory();
     setGroupBy(null);
     setGroupPreview([]);
     setExpandedGroup(null);
@@ -395,7 +481,7 @@ function App() {
     // Custom code sandbox
     setCustomCode("");
     setCustomError(null);
-  }, []);
+  }, [clearOperationHistory]);
 
   // Reuse: prepare UI to map columns for a newly provided dataset
   const applyAutoMappingFromColumns = React.useCallback((columns: string[]) => {
@@ -431,17 +517,34 @@ function App() {
     resetUiStateForNewSource('file');
     setIsLoadingResults(true);
     setResultsLoadingMessage('Parsing file and preparing data...');
+    setResultsLoadingProgress(0);
     
-    // Parse the file
-    const { rows, columns } = await parseFile(file);
-    
-    // Store raw data and columns
-    setOriginalRows(rows);
-    setAvailableColumns(columns);
-    setFilterNotice(null);
-    
-    // Prepare UI to select mapping for these columns
-    applyAutoMappingFromColumns(columns);
+    try {
+      // Parse the file in a worker, streaming progress into the toolbar
+      const { rows, columns, malformedLines, malformedCount } = await parseFile(file, (p) => {
+        setResultsLoadingMessage(`Parsing file... ${p.rowsParsed.toLocaleString()} rows${p.malformedCount > 0 ? ` (${p.malformedCount} malformed)` : ''}`);
+        setResultsLoadingProgress(p.totalBytes > 0 ? Math.min(100, (p.bytesRead / p.totalBytes) * 100) : null);
+      });
+      if (malformedCount > 0) {
+        console.warn(`⚠️ Skipped ${malformedCount} malformed line(s) in ${file.name}`, malformedLines.slice(0, 20));
+        setParseNotice({ count: malformedCount, lines: malformedLines });
+      }
+      
+      // Store raw data and columns
+      setOriginalRows(rows);
+      setAvailableColumns(columns);
+      setFilterNotice(null);
+      
+      // Prepare UI to select mapping for these columns
+      applyAutoMappingFromColumns(columns);
+    } catch (e: any) {
+      console.error('❌ Failed to parse file:', e);
+      setResultsError(`Failed to parse ${file.name}: ${String(e?.message || e)}`);
+      setIsLoadingResults(false);
+      setResultsLoadingMessage('');
+      setResultsLoadingProgress(null);
+      return;
+    }
     
     try {
       await detectAndValidate(file); // optional backend validation
@@ -449,6 +552,7 @@ function App() {
     finally {
       setIsLoadingResults(false);
       setResultsLoadingMessage('');
+      setResultsLoadingProgress(null);
     }
   }
 
@@ -511,298 +615,193 @@ function App() {
     }
   }, [resetUiStateForNewSource, applyAutoMappingFromColumns]);
 
-  // Load results from local folder
-  const onLoadResultsLocal = React.useCallback(async (files: FileList) => {
-    resetUiStateForNewSource('results');
-    setIsLoadingResults(true);
-    setResultsLoadingMessage('Loading results from local folder...');
-
-    try {
-      // Parse all JSON/JSONL files from the folder
-      const fileArray = Array.from(files);
-      const jsonFiles = fileArray.filter(f => f.name.endsWith('.json') || f.name.endsWith('.jsonl'));
-      
-      console.log('📁 All files in folder:', fileArray.map(f => f.name));
-      console.log('📄 JSON/JSONL files found:', jsonFiles.map(f => f.name));
+  // Populate the three data layers, properties, clusters and metrics from a parsed results directory
+  const applyResultsData = React.useCallback(async ({ conversations, properties, clusters, metrics }: {
+    conversations: any[];
+    properties: any[];
+    clusters: any[];
+    metrics: any;
+  }) => {
+    // Set up conversations with three-layer data structure
+    console.log('🔧 Processing conversations...');
+    const columns = inferColumns(conversations);
+    console.log('📋 Detected columns:', columns);
+
+    // Detect method from columns
+    const detectedMethod = detectMethodFromColumns(columns);
+    console.log('🎯 Detected method:', detectedMethod);
+    setMethod(detectedMethod);
+
+    // Layer 1: originalRows - keep raw format for PropertiesTab enrichment
+    setOriginalRows(conversations);
+    setAvailableColumns(columns);
 
-      if (jsonFiles.length === 0) {
-        throw new Error('No JSON or JSONL files found in selected folder');
-      }
+    // Layer 2: operationalRows - map to backend format with score objects
+    // conversation.jsonl already has scores as objects, so just add __index
+    const operational = conversations.map((conv, idx) => ({
+      __index: idx,
+      question_id: conv.question_id,
+      prompt: conv.prompt,
+
+      // Single model fields
+      ...(conv.model && {
+        model: conv.model,
+        model_response: conv.model_response,
+        score: conv.score  // Already an object in conversation.jsonl
+      }),
+
+      // Side-by-side fields
+      ...(conv.model_a && {
+        model_a: conv.model_a,
+        model_b: conv.model_b,
+        model_a_response: conv.model_a_response,
+        model_b_response: conv.model_b_response,
+        score_a: conv.score_a,  // Already an object
+        score_b: conv.score_b   // Already an object
+      })
+    }));
 
-      let conversations: any[] = [];
-      let properties: any[] = [];
-      let clusters: any[] = [];
-      let metrics: any = null;
+    console.log('🔧 DEBUG: Setting operationalRows:', {
+      count: operational.length,
+      sampleRow: operational[0],
+      method: detectedMethod,
+      hasScores: operational[0]?.score || operational[0]?.score_a || operational[0]?.score_b
+    });
+    setOperationalRows(operational);
 
-      // Load each file based on name
-      for (const file of jsonFiles) {
-        const text = await file.text();
-        const name = file.name.toLowerCase();
+    // Layer 3: currentRows - flatten scores for DataTable display
+    const modelNames = detectedMethod === 'side_by_side' && operational.length > 0
+      ? { modelA: operational[0]?.model_a, modelB: operational[0]?.model_b }
+      : undefined;
 
-        console.log(`🔍 Processing file: ${file.name} (${text.length} bytes)`);
+    const { rows: flattened, columns: flattenedColumns } = flattenScores(operational, detectedMethod, modelNames);
+    console.log('📊 DEBUG: After flattening:', {
+      outputRows: flattened.length,
+      sampleOutputRow: flattened[0],
+      columns: flattenedColumns,
+      scoreColumns: flattenedColumns.filter(c => c.startsWith('score_'))
+    });
+    setCurrentRows(flattened);
 
-        try {
-          if (name === 'conversation.jsonl') {
-            // New primary format: conversation.jsonl
-            const lines = text.split('\n').filter(l => l.trim());
-            conversations = lines.map(line => JSON.parse(line));
-            console.log(`✅ Loaded ${conversations.length} conversations from ${file.name}`);
-            console.log(`📊 Sample conversation:`, conversations[0]);
-          } else if (name === 'full_dataset.json' || name === 'conversations.json') {
-            // Only load if we don't already have conversations from conversation.jsonl
-            if (conversations.length > 0) {
-              console.log(`⏭️ Skipping ${file.name} - already loaded conversations from conversation.jsonl`);
-              continue;
-            }
+    // Load properties (no pre-enrichment needed - PropertiesTab handles at render time)
+    // Don't add __index since property index doesn't match conversation index
+    if (properties.length > 0) {
+      setPropertiesRows(properties);
+      console.log(`✅ Loaded ${properties.length} properties`);
+    }
 
-            const data = JSON.parse(text);
-
-            // Handle different data structures
-            if (Array.isArray(data)) {
-              conversations = data;
-            } else if (data && typeof data === 'object') {
-              // Extract conversations
-              if (Array.isArray(data.conversations)) {
-                conversations = data.conversations;
-              } else if (Array.isArray(data.data)) {
-                conversations = data.data;
-              } else if (Array.isArray(data.rows)) {
-                conversations = data.rows;
-              } else if (Array.isArray(data.results)) {
-                conversations = data.results;
-              } else {
-                // If it's a single object, wrap it in an array
-                conversations = [data];
-              }
-              
-              // Also extract properties and clusters from full_dataset.json
-              if (Array.isArray(data.properties) && properties.length === 0) {
-                properties = data.properties;
-                console.log(`✅ Loaded ${properties.length} properties from ${file.name}`);
-              }
-              if (Array.isArray(data.clusters) && clusters.length === 0) {
-                clusters = data.clusters;
-                console.log(`✅ Loaded ${clusters.length} clusters from ${file.name}`);
-              }
-            }
-            
-            console.log(`✅ Loaded ${conversations.length} conversations from ${file.name}`);
-            console.log(`📊 Sample conversation:`, conversations[0]);
-            console.log(`📊 Sample conversation keys:`, Object.keys(conversations[0] || {}));
-          } else if (name === 'properties.jsonl') {
-            // New primary format: properties.jsonl
-            const lines = text.split('\n').filter(l => l.trim());
-            properties = lines.map(line => JSON.parse(line));
-            console.log(`✅ Loaded ${properties.length} properties from ${file.name}`);
-          } else if (name === 'parsed_properties.jsonl') {
-            // Legacy format fallback
-            if (properties.length === 0) {
-              const lines = text.split('\n').filter(l => l.trim());
-              properties = lines.map(line => JSON.parse(line));
-              console.log(`✅ Loaded ${properties.length} properties from ${file.name} (legacy format)`);
-            }
-          } else if (name === 'clusters.jsonl') {
-            // New primary format: clusters.jsonl
-            const lines = text.split('\n').filter(l => l.trim());
-            clusters = lines.map(line => JSON.parse(line));
-            console.log(`✅ Loaded ${clusters.length} clusters from ${file.name}`);
-          } else if (name === 'model_cluster_scores_df.jsonl') {
-            const lines = text.split('\n').filter(l => l.trim());
-            const scores = lines.map(line => JSON.parse(line));
-            if (!metrics) metrics = {};
-            metrics.model_cluster_scores = scores;
-            console.log(`✅ Loaded ${scores.length} model_cluster_scores from ${file.name}`);
-          } else if (name === 'cluster_scores_df.jsonl') {
-            const lines = text.split('\n').filter(l => l.trim());
-            const scores = lines.map(line => JSON.parse(line));
-            if (!metrics) metrics = {};
-            metrics.cluster_scores = scores;
-            console.log(`✅ Loaded ${scores.length} cluster_scores from ${file.name}`);
-          } else if (name === 'model_scores_df.jsonl') {
-            const lines = text.split('\n').filter(l => l.trim());
-            const scores = lines.map(line => JSON.parse(line));
-            if (!metrics) metrics = {};
-            metrics.model_scores = scores;
-            console.log(`✅ Loaded ${scores.length} model_scores from ${file.name}`);
-          } else {
-            console.log(`⚠️ Skipping unrecognized file: ${file.name}`);
-          }
-        } catch (e) {
-          console.error(`❌ Failed to parse ${file.name}:`, e);
-          throw new Error(`Failed to parse ${file.name}: ${e}`);
+    // Load or compute metrics and enrich clusters
+    if (clusters.length > 0) {
+      if (metrics && Object.keys(metrics).length > 0) {
+        // Use pre-computed metrics if available
+        const normalizedMetrics = normalizeMetricsColumnNames(metrics);
+        console.log('✅ Using pre-computed metrics:', Object.keys(normalizedMetrics));
+        setResultsMetrics(normalizedMetrics);
+
+        if (normalizedMetrics.model_cluster_scores) {
+          const enrichedClusters = enrichClustersWithQualityData(
+            clusters,
+            normalizedMetrics.model_cluster_scores
+          );
+          setClusters(enrichedClusters);
+          console.log(`✅ Loaded ${enrichedClusters.length} clusters (enriched with pre-computed metrics)`);
+        } else {
+          setClusters(clusters);
+          console.log(`✅ Loaded ${clusters.length} clusters (no model_cluster_scores to enrich with)`);
         }
-      }
-
-      if (conversations.length === 0) {
-        throw new Error('No conversation data found. Expected file named "conversation.jsonl", "full_dataset.json", or "conversations.json"');
-      }
-
-      // Set up conversations with three-layer data structure
-      console.log('🔧 Processing conversations...');
-      const columns = inferColumns(conversations);
-      console.log('📋 Detected columns:', columns);
-
-      // Detect method from columns
-      const detectedMethod = detectMethodFromColumns(columns);
-      console.log('🎯 Detected method:', detectedMethod);
-      setMethod(detectedMethod);
-
-      // Layer 1: originalRows - keep raw format for PropertiesTab enrichment
-      setOriginalRows(conversations);
-      setAvailableColumns(columns);
-
-      // Layer 2: operationalRows - map to backend format with score objects
-      // conversation.jsonl already has scores as objects, so just add __index
-      const operational = conversations.map((conv, idx) => ({
-        __index: idx,
-        question_id: conv.question_id,
-        prompt: conv.prompt,
-
-        // Single model fields
-        ...(conv.model && {
-          model: conv.model,
-          model_response: conv.model_response,
-          score: conv.score  // Already an object in conversation.jsonl
-        }),
-
-        // Side-by-side fields
-        ...(conv.model_a && {
-          model_a: conv.model_a,
-          model_b: conv.model_b,
-          model_a_response: conv.model_a_response,
-          model_b_response: conv.model_b_response,
-          score_a: conv.score_a,  // Already an object
-          score_b: conv.score_b   // Already an object
-        })
-      }));
-
-      console.log('🔧 DEBUG: Setting operationalRows:', {
-        count: operational.length,
-        sampleRow: operational[0],
-        method: detectedMethod,
-        hasScores: operational[0]?.score || operational[0]?.score_a || operational[0]?.score_b
-      });
-      setOperationalRows(operational);
-
-      // Layer 3: currentRows - flatten scores for DataTable display
-      const modelNames = detectedMethod === 'side_by_side' && operational.length > 0
-        ? { modelA: operational[0]?.model_a, modelB: operational[0]?.model_b }
-        : undefined;
-
-      const { rows: flattened, columns: flattenedColumns } = flattenScores(operational, detectedMethod, modelNames);
-      console.log('📊 DEBUG: After flattening:', {
-        outputRows: flattened.length,
-        sampleOutputRow: flattened[0],
-        columns: flattenedColumns,
-        scoreColumns: flattenedColumns.filter(c => c.startsWith('score_'))
-      });
-      setCurrentRows(flattened);
-
-      // Load properties (no pre-enrichment needed - PropertiesTab handles at render time)
-      // Don't add __index since property index doesn't match conversation index
-      if (properties.length > 0) {
-        setPropertiesRows(properties);
-        console.log(`✅ Loaded ${properties.length} properties`);
-      }
+      } else if (conversations.length > 0 && properties.length > 0) {
+        // Compute metrics on-the-fly from raw data
+        console.log('🔢 Computing metrics on-the-fly from conversations + properties + clusters');
+        console.log('🔢 Data available:', {
+          conversations: conversations.length,
+          operational: operational.length,
+          properties: properties.length,
+          clusters: clusters.length
+        });
 
-      // Load or compute metrics and enrich clusters
-      if (clusters.length > 0) {
-        if (Object.keys(metrics).length > 0) {
-          // Use pre-computed metrics if available
-          const normalizedMetrics = normalizeMetricsColumnNames(metrics);
-          console.log('✅ Using pre-computed metrics:', Object.keys(normalizedMetrics));
-          setResultsMetrics(normalizedMetrics);
-
-          if (normalizedMetrics.model_cluster_scores) {
-            const enrichedClusters = enrichClustersWithQualityData(
-              clusters,
-              normalizedMetrics.model_cluster_scores
-            );
-            setClusters(enrichedClusters);
-            console.log(`✅ Loaded ${enrichedClusters.length} clusters (enriched with pre-computed metrics)`);
-          }
-        } else if (conversations.length > 0 && properties.length > 0) {
-          // Compute metrics on-the-fly from raw data
-          console.log('🔢 Computing metrics on-the-fly from conversations + properties + clusters');
-          console.log('🔢 Data available:', {
-            conversations: conversations.length,
-            operational: operational.length,
-            properties: properties.length,
-            clusters: clusters.length
-          });
+        try {
+          const { computeClusterMetrics } = await import('./lib/clusterMetrics');
 
-          try {
-            const { computeClusterMetrics } = await import('./lib/clusterMetrics');
+          const clusterMetrics = computeClusterMetrics(
+            operational, // Use operational rows which have score objects
+            properties,
+            clusters
+          );
 
-            const clusterMetrics = computeClusterMetrics(
-              operational, // Use operational rows which have score objects
-              properties,
-              clusters
-            );
+          console.log('🔢 Computed metrics for clusters:', clusterMetrics.length);
+          console.log('🔢 Sample cluster metrics:', clusterMetrics[0]);
 
-            console.log('🔢 Computed metrics for clusters:', clusterMetrics.length);
-            console.log('🔢 Sample cluster metrics:', clusterMetrics[0]);
+          // Enrich clusters with computed metrics
+          const enrichedClusters = clusters.map(cluster => {
+            const metrics = clusterMetrics.find(m => String(m.cluster_id) === String(cluster.id));
+            if (!metrics) {
+              console.warn('⚠️ No metrics found for cluster:', cluster.id);
+              return cluster;
+            }
 
-            // Enrich clusters with computed metrics
-            const enrichedClusters = clusters.map(cluster => {
-              const metrics = clusterMetrics.find(m => String(m.cluster_id) === String(cluster.id));
-              if (!metrics) {
-                console.warn('⚠️ No metrics found for cluster:', cluster.id);
-                return cluster;
-              }
+            console.log(`📊 Enriching cluster ${cluster.label} with:`, {
+              quality_delta_by_model: metrics.quality_delta_by_model,
+              total_unique_conversations: metrics.total_unique_conversations
+            });
 
-              console.log(`📊 Enriching cluster ${cluster.label} with:`, {
+            return {
+              ...cluster,
+              meta: {
+                ...cluster.meta,
+                proportion_overall: metrics.proportion_overall,
+                proportion_by_model: metrics.proportion_by_model,
+                quality_by_model: metrics.quality_by_model,
                 quality_delta_by_model: metrics.quality_delta_by_model,
                 total_unique_conversations: metrics.total_unique_conversations
-              });
-
-              return {
-                ...cluster,
-                meta: {
-                  ...cluster.meta,
-                  proportion_overall: metrics.proportion_overall,
-                  proportion_by_model: metrics.proportion_by_model,
-                  quality_by_model: metrics.quality_by_model,
-                  quality_delta_by_model: metrics.quality_delta_by_model,
-                  total_unique_conversations: metrics.total_unique_conversations
-                }
-              };
-            });
+              }
+            };
+          });
 
-            setClusters(enrichedClusters);
-            console.log(`✅ Loaded ${enrichedClusters.length} clusters (enriched with computed metrics)`);
-            console.log('✅ Sample enriched cluster meta:', enrichedClusters[0]?.meta);
-          } catch (error) {
-            console.error('❌ Error computing cluster metrics:', error);
-            setClusters(clusters);
-            console.log(`⚠️ Loaded ${clusters.length} clusters without metrics due to error`);
-          }
-        } else {
-          // No metrics and can't compute - load clusters without enrichment
+          setClusters(enrichedClusters);
+          setClientMetrics(true);
+          console.log(`✅ Loaded ${enrichedClusters.length} clusters (enriched with computed metrics)`);
+          console.log('✅ Sample enriched cluster meta:', enrichedClusters[0]?.meta);
+        } catch (error) {
+          console.error('❌ Error computing cluster metrics:', error);
           setClusters(clusters);
-          console.log(`✅ Loaded ${clusters.length} clusters (no metrics available)`);
+          console.log(`⚠️ Loaded ${clusters.length} clusters without metrics due to error`);
         }
-      }
-
-      // Switch to appropriate tab based on loaded data
-      if (clusters.length > 0) {
-        setActiveTab('clusters');
-        setActiveSection('clustering');
-        console.log('📊 Switched to Clusters tab');
-      } else if (properties.length > 0) {
-        setActiveTab('properties');
-        console.log('📊 Switched to Properties tab');
       } else {
-        console.log('📊 Staying on Data tab');
+        // No metrics and can't compute - load clusters without enrichment
+        setClusters(clusters);
+        console.log(`✅ Loaded ${clusters.length} clusters (no metrics available)`);
       }
+    }
 
-      console.log('✅ Results loaded successfully:', {
-        conversations: conversations.length,
-        properties: properties.length,
-        clusters: clusters.length,
-        hasMetrics: !!metrics
-      });
+    // Switch to appropriate tab based on loaded data
+    if (clusters.length > 0) {
+      setActiveTab('clusters');
+      setActiveSection('clustering');
+      console.log('📊 Switched to Clusters tab');
+    } else if (properties.length > 0) {
+      setActiveTab('properties');
+      console.log('📊 Switched to Properties tab');
+    } else {
+      console.log('📊 Staying on Data tab');
+    }
 
+    console.log('✅ Results loaded successfully:', {
+      conversations: conversations.length,
+      properties: properties.length,
+      clusters: clusters.length,
+      hasMetrics: !!metrics
+    });
+  }, []);
+
+  // Load results from local folder
+  const onLoadResultsLocal = React.useCallback(async (files: FileList) => {
+    resetUiStateForNewSource('results');
+    setIsLoadingResults(true);
+    setResultsLoadingMessage('Loading results from local folder...');
+
+    try {
+      const { conversations, properties, clusters, metrics } = await readResultsFolder(files);
+      await applyResultsData({ conversations, properties, clusters, metrics });
     } catch (e: any) {
       console.error('❌ Failed to load results:', e);
       setResultsError(String(e?.message || e));
@@ -810,7 +809,68 @@ function App() {
       setIsLoadingResults(false);
       setResultsLoadingMessage('');
     }
-  }, [resetUiStateForNewSource, processDataWithMapping]);
+  }, [resetUiStateForNewSource, applyResultsData]);
+
+  // Load results from a results directory on the backend (used when opening a shared link)
+  const onLoadResultsFromServer = React.useCallback(async (dir: string) => {
+    resetUiStateForNewSource('results');
+    setIsLoadingResults(true);
+    setResultsLoadingMessage(`Loading results from ${dir}...`);
+
+    try {
+      const res = await resultsLoad(dir);
+      if (!res.conversations || res.conversations.length === 0) {
+        throw new Error(`No conversation data found in results directory "${dir}"`);
+      }
+      await applyResultsData({
+        conversations: res.conversations || [],
+        properties: res.properties || [],
+        clusters: res.clusters || [],
+        metrics: res.metrics || null,
+      });
+      setTotalConversationsByModel(res.total_conversations_by_model || null);
+      setTotalUniqueConversations(res.total_unique_conversations ?? null);
+      setResultsDir(dir);
+    } catch (e: any) {
+      console.error('❌ Failed to load results from server:', e);
+      setResultsError(String(e?.message || e));
+      // Nothing to apply the shared view to; let the URL follow the UI again
+      pendingViewStateRef.current = null;
+    } finally {
+      setIsLoadingResults(false);
+      setResultsLoadingMessage('');
+    }
+  }, [resetUiStateForNewSource, applyResultsData]);
+
+  // Load a second results directory to diff the current run's clusters against
+  const onLoadBaselineFolder = React.useCallback(async (files: FileList) => {
+    const data = await readResultsFolder(files);
+    const folder = files[0]?.webkitRelativePath?.split('/')[0];
+    setBaselineRun({ name: folder || 'Baseline', ...data });
+  }, []);
+
+  const onLoadBaselineServer = React.useCallback(async (dir: string) => {
+    const res = await resultsLoad(dir);
+    if (!res.conversations || res.conversations.length === 0) {
+      throw new Error(`No conversation data found in results directory "${dir}"`);
+    }
+    setBaselineRun({ name: dir, conversations: res.conversations, properties: res.properties || [], clusters: res.clusters || [], metrics: res.metrics });
+  }, []);
+
+  const currentRun = React.useMemo<ResultsRun>(() => ({
+    name: resultsDir || 'Current run',
+    conversations: operationalRows,
+    properties: propertiesRows,
+    clusters,
+  }), [resultsDir, operationalRows, propertiesRows, clusters]);
+
+  // Open the results directory referenced by a shared link (once, even under StrictMode)
+  const openedSharedResultsRef = useRef<boolean>(false);
+  React.useEffect(() => {
+    if (openedSharedResultsRef.current || !initialViewState.resultsDir) return;
+    openedSharedResultsRef.current = true;
+    void onLoadResultsFromServer(initialViewState.resultsDir);
+  }, [initialViewState, onLoadResultsFromServer]);
 
   // Removed local results folder loader (unused)
 
@@ -1124,6 +1184,30 @@ function App() {
     }
   }, [method]);
 
+  // Open a baseline/candidate pair from the regression report side by side
+  const onViewModelPair = useCallback((pair: PairedConversation) => {
+    const prompt = String(pair.prompt ?? "");
+    setSelectedTrace({
+      type: "sbs",
+      messagesA: ensureOpenAIFormat(prompt, pair.baseline.response),
+      messagesB: ensureOpenAIFormat(prompt, pair.candidate.response),
+      modelA: pair.baseline.model,
+      modelB: pair.candidate.model,
+    });
+    setSelectedRow({
+      question_id: pair.question_id,
+      prompt: pair.prompt,
+      model_a: pair.baseline.model,
+      model_b: pair.candidate.model,
+      model_a_response: pair.baseline.response,
+      model_b_response: pair.candidate.response,
+    });
+    setSelectedEvidence(null);
+    setEvidenceTargetModel(undefined);
+    setSelectedProperty(null);
+    setDrawerOpen(true);
+  }, []);
+
   const responseKeys = useMemo(() =>
     method === "single_model"
       ? ["model_response"]
@@ -1228,87 +1312,109 @@ function App() {
     };
   }, [currentRows]);
 
-  // Apply the entire operation chain to operational data
-  const applyOperationChain = useCallback(async (operations: DataOperation[]) => {
+  // Apply the entire operation chain to operational data.
+  // Returns the first custom-code error (also shown in the custom code box), or null.
+  const applyOperationChain = useCallback(async (operations: DataOperation[]): Promise<string | null> => {
     console.log('🔄 Applying operation chain:', operations);
-
-    // Start from operational data (with score dicts)
+    // Disabled operations stay in the chain (and history) but are skipped
+    operations = operations.filter(op => !op.disabled);
+
+    // Custom code runs on operational rows (the backend needs score dicts) while filters
+    // and sorts run on their flattened form (so score_* columns can be used). Both lists are
+    // kept index-aligned so each operation sees the output of the ones before it.
+    const flatten = (rows: typeof operationalRows) => {
+      const modelNames = method === 'side_by_side' && rows.length > 0
+        ? { modelA: rows[0]?.model_a, modelB: rows[0]?.model_b }
+        : undefined;
+      return flattenScores(rows, method, modelNames).rows;
+    };
     let opData = [...operationalRows];
+    let displayData = flatten(opData);
+    let firstError: string | null = null;
 
-    // Apply custom operations on operational data (backend needs score dicts)
     for (const operation of operations) {
       if (operation.type === 'custom') {
-        const customOp = operation as any;
+        if (operation.runtime === 'javascript') {
+          // Client-side sandbox; works without a backend
+          const res = await runJsCustomCode(opData, operation.code, operation.jsMode || 'predicate');
+          if (res.error) {
+            console.error('JS custom operation failed:', res.error);
+            firstError = firstError || res.error;
+          } else {
+            opData = res.rows || opData;
+            displayData = flatten(opData);
+            console.log(`🟨 JS custom code: ${opData.length} rows`);
+          }
+          continue;
+        }
         try {
-          const res = await dfCustom({ rows: opData, code: customOp.code });
+          const res = await dfCustom({ rows: opData, code: operation.code });
           if (res.error) {
             console.error('Custom operation failed:', res.error);
+            firstError = firstError || String(res.error);
           } else {
             opData = res.rows || opData;
+            displayData = flatten(opData);
             console.log(`🐍 Custom code: ${opData.length} rows`);
           }
-        } catch (e) {
+        } catch (e: any) {
           console.error('Custom operation error:', e);
+          firstError = firstError || String(e?.message || e);
         }
-      }
-    }
-
-    // Always flatten for UI display
-    const modelNames = method === 'side_by_side' && opData.length > 0
-      ? { modelA: opData[0]?.model_a, modelB: opData[0]?.model_b }
-      : undefined;
-    const { rows: flattenedRows } = flattenScores(opData, method, modelNames);
-    let displayData = flattenedRows;
-
-    // Apply filter operations on flattened data (so score_* columns can be filtered)
-    for (const operation of operations) {
-      if (operation.type === 'filter') {
-        const filterOp = operation as any;
-        displayData = displayData.filter(row => {
-          const rowValue = String(row[filterOp.column] ?? '');
-          const matchesValues = filterOp.values.includes(rowValue);
-          return filterOp.negated ? !matchesValues : matchesValues;
-        });
-        console.log(`🔍 Filter ${filterOp.column}: ${displayData.length} rows`);
-      }
-    }
-
-    // Apply sort operations on flattened data (so score_* columns sort correctly)
-    const sortOp = operations.find(op => op.type === 'sort') as any | undefined;
-    if (sortOp) {
-      displayData = [...displayData].sort((a, b) => {
-        let aVal = a[sortOp.column];
-        let bVal = b[sortOp.column];
-
-        if (aVal == null && bVal == null) return 0;
-        if (aVal == null) return sortOp.direction === 'asc' ? 1 : -1;
-        if (bVal == null) return sortOp.direction === 'asc' ? -1 : 1;
-
-        const aNum = Number(aVal);
-        const bNum = Number(bVal);
-        if (!isNaN(aNum) && !isNaN(bNum)) {
-          const diff = aNum - bNum;
-          return sortOp.direction === 'asc' ? diff : -diff;
-        } else {
-          const comp = String(aVal).toLowerCase().localeCompare(String(bVal).toLowerCase());
-          return sortOp.direction === 'asc' ? comp : -comp;
+      } else if (operation.type === 'sort') {
+        // Sorts are stable, so a later sort in the chain orders ties by the earlier ones
+        const order = displayData.map((_, i) => i).sort((i, j) =>
+          compareForSort(displayData[i][operation.column], displayData[j][operation.column], operation.direction)
+        );
+        opData = order.map(i => opData[i]);
+        displayData = order.map(i => displayData[i]);
+        console.log(`🔄 Sort ${operation.column} ${operation.direction}: ${displayData.length} rows`);
+      } else if (isRowFilterOperation(operation)) {
+        try {
+          const predicate = buildRowPredicate(operation);
+          const keep = displayData.map(row => predicate(row));
+          opData = opData.filter((_, i) => keep[i]);
+          displayData = displayData.filter((_, i) => keep[i]);
+          console.log(`🔍 Filter ${getOperationDescription(operation)}: ${displayData.length} rows`);
+        } catch (e) {
+          console.error('Filter operation skipped:', e);
         }
-      });
-      console.log(`🔄 Sort ${sortOp.column} ${sortOp.direction}: ${displayData.length} rows`);
+      }
     }
+    setCustomError(firstError);
 
     console.log(`Final result (flattened): ${displayData.length} rows`);
     setCurrentRows(displayData);
+    return firstError;
   }, [operationalRows, method]);
 
+  // Keep the column header sort indicator in line with the chain's last enabled sort (the primary order)
+  const syncSortState = useCallback((operations: DataOperation[]) => {
+    const sortOp = [...operations].reverse().find(op => op.type === 'sort' && !op.disabled);
+    if (sortOp && sortOp.type === 'sort') {
+      setSortColumn(sortOp.column);
+      setSortDirection(sortOp.direction);
+    } else {
+      setSortColumn(null);
+      setSortDirection(null);
+    }
+  }, []);
+
+  // Replace the chain as a single undoable edit and re-apply it
+  const commitOperationChain = useCallback((newChain: DataOperation[]) => {
+    recordOperationHistory(operationChain);
+    setOperationChain(newChain);
+    syncSortState(newChain);
+    return applyOperationChain(newChain);
+  }, [operationChain, recordOperationHistory, syncSortState, applyOperationChain]);
+
   // Legacy wrapper for backward compatibility
   const applyFilters = useCallback(async (newFilters: Filter[]) => {
     const filterOps = newFilters.map(f => createFilterOperation(f.column, f.values, f.negated));
     const nonFilterOps = operationChain.filter(op => op.type !== 'filter');
     const newChain = [...filterOps, ...nonFilterOps];
-    setOperationChain(newChain);
-    await applyOperationChain(newChain);
-  }, [operationChain, applyOperationChain]);
+    await commitOperationChain(newChain);
+  }, [operationChain, commitOperationChain]);
 
   const resetAll = useCallback(() => {
     const modelNames = method === 'side_by_side' && operationalRows.length > 0
@@ -1316,6 +1422,7 @@ function App() {
       : undefined;
     const { rows: flattened } = flattenScores(operationalRows, method, modelNames);
     setCurrentRows(flattened);
+    if (operationChain.length > 0) recordOperationHistory(operationChain);
     setOperationChain([]);
     setGroupBy(null);
     setGroupPreview([]);
@@ -1324,7 +1431,7 @@ function App() {
     setCustomError(null);
     setSortColumn(null);
     setSortDirection(null);
-  }, [operationalRows, method]);
+  }, [operationalRows, method, operationChain, recordOperationHistory]);
 
   // -------- GroupBy State ---------
   const [groupBy, setGroupBy] = useState<string | null>(null);
@@ -1341,28 +1448,190 @@ function App() {
 
   // Sort function
   const handleSort = useCallback((column: string) => {
-    let newDirection: 'asc' | 'desc' | null = 'asc';
-    
-    if (sortColumn === column) {
-      if (sortDirection === 'asc') {
-        newDirection = 'desc';
-      } else if (sortDirection === 'desc') {
-        newDirection = null;
+    // Clicking a header edits one sort op in place, so other sorts in a multi-sort chain stay put:
+    // the column's own sort cycles asc -> desc -> removed; otherwise the last sort switches to this column
+    const sortIndexes = operationChain.flatMap((op, i) => op.type === 'sort' ? [i] : []);
+    const ownIndex = operationChain.findIndex(op => op.type === 'sort' && op.column === column);
+    const newChain = [...operationChain];
+
+    const own = operationChain[ownIndex];
+    if (own?.type === 'sort') {
+      // A disabled sort is switched back on before it cycles
+      if (own.disabled) {
+        newChain[ownIndex] = { ...own, direction: 'asc', disabled: false };
+      } else if (own.direction === 'asc') {
+        newChain[ownIndex] = { ...own, direction: 'desc' };
+      } else {
+        newChain.splice(ownIndex, 1);
       }
+    } else if (sortIndexes.length > 0) {
+      newChain[sortIndexes[sortIndexes.length - 1]] = createSortOperation(column, 'asc');
+    } else {
+      newChain.push(createSortOperation(column, 'asc'));
     }
-    
-    setSortColumn(newDirection ? column : null);
-    setSortDirection(newDirection);
-    
-    // Update operation chain
-    const nonSortOps = operationChain.filter(op => op.type !== 'sort');
-    const newChain = newDirection 
-      ? [...nonSortOps, createSortOperation(column, newDirection)]
-      : nonSortOps;
-    
-    setOperationChain(newChain);
-    void applyOperationChain(newChain);
-  }, [sortColumn, sortDirection, operationChain, applyOperationChain]);
+
+    void commitOperationChain(newChain);
+  }, [operationChain, commitOperationChain]);
+
+  // Apply view state from a shared link once its data has finished loading
+  React.useEffect(() => {
+    const pending = pendingViewStateRef.current;
+    if (!pending || isLoadingResults || operationalRows.length === 0) return;
+    pendingViewStateRef.current = null;
+    setShareNotice(null);
+
+    if (pending.operations && pending.operations.length > 0) {
+      syncSortState(pending.operations);
+      setOperationChain(pending.operations);
+      void applyOperationChain(pending.operations);
+    }
+    if (pending.clusterSearchQuery) setClusterSearchQuery(pending.clusterSearchQuery);
+    if (pending.metricsFilters) setMetricsFilters(prev => ({ ...prev, ...pending.metricsFilters }));
+    if (pending.activeTab) {
+      setActiveTab(pending.activeTab);
+      if (pending.activeTab === 'metrics') setActiveSection('metrics');
+    }
+    if (pending.trace) {
+      const { questionId, model } = pending.trace;
+      const row = operationalRows.find(r =>
+        String(r?.question_id) === questionId && (!model || String(r?.model ?? '') === model)
+      );
+      if (row) onView(row);
+    }
+  }, [isLoadingResults, operationalRows, applyOperationChain, syncSortState, onView]);
+
+  // Mirror the shareable view state into the URL (skipped until a shared link has been applied)
+  React.useEffect(() => {
+    if (pendingViewStateRef.current) return;
+    writeViewStateToUrl({
+      resultsDir,
+      activeTab,
+      operations: operationChain,
+      clusterSearchQuery,
+      metricsFilters,
+      trace: drawerOpen && selectedRow?.question_id != null
+        ? {
+            questionId: String(selectedRow.question_id),
+            model: method === 'single_model' && selectedRow.model != null ? String(selectedRow.model) : undefined,
+          }
+        : null,
+    });
+  }, [resultsDir, activeTab, operationChain, clusterSearchQuery, metricsFilters, drawerOpen, selectedRow, method]);
+
+  const onCopyShareLink = useCallback(() => {
+    void navigator.clipboard?.writeText(window.location.href);
+    const notes = [
+      resultsDir
+        ? 'Link copied.'
+        : 'Link copied without data: this run was not loaded from a backend results directory, so recipients must load the same dataset themselves.',
+    ];
+    if (operationChain.some(op => op.type === 'custom')) notes.push('Custom code operations are not included.');
+    setShareNotice(notes.join(' '));
+  }, [resultsDir, operationChain]);
+
+  // -------- Workspace Sessions ---------
+  const onSaveSession = useCallback(async (name: string, id?: string) => {
+    const snapshot: SessionSnapshot = {
+      originalRows,
+      operationalRows,
+      currentRows,
+      availableColumns,
+      columnMapping,
+      method,
+      operationChain,
+      sortColumn,
+      sortDirection,
+      operationHistory: operationHistory.stacks,
+      propertiesRows,
+      clusters,
+      clusterEdits,
+      resultsMetrics: metricsData,
+      clientMetrics,
+      isResultsMode,
+      resultsDir,
+      totalConversationsByModel,
+      totalUniqueConversations,
+    };
+    const meta = await saveSession(name, snapshot, id);
+    setActiveSessionId(meta.id);
+    console.log(`💾 Saved session "${meta.name}" (${meta.rowCount} rows)`);
+  }, [originalRows, operationalRows, currentRows, availableColumns, columnMapping, method, operationChain, sortColumn, sortDirection, operationHistory.stacks, propertiesRows, clusters, clusterEdits, metricsData, clientMetrics, isResultsMode, resultsDir, totalConversationsByModel, totalUniqueConversations]);
+
+  const onResumeSession = useCallback(async (session: SessionMeta) => {
+    setIsLoadingResults(true);
+    setResultsLoadingMessage(`Restoring session "${session.name}"...`);
+    try {
+      const snapshot = await loadSession(session.id);
+      resetUiStateForNewSource(snapshot.isResultsMode ? 'results' : 'file');
+      pendingViewStateRef.current = null;
+
+      // Restore all three data layers directly so no re-mapping or re-filtering is needed
+      setOriginalRows(snapshot.originalRows);
+      setOperationalRows(snapshot.operationalRows);
+      setCurrentRows(snapshot.currentRows);
+      setAvailableColumns(snapshot.availableColumns);
+      setColumnMapping(snapshot.columnMapping);
+      setAutoDetectedMapping(snapshot.columnMapping);
+      setMethod(snapshot.method);
+      setShowColumnSelector(false);
+      setOperationChain(snapshot.operationChain);
+      setSortColumn(snapshot.sortColumn);
+      setSortDirection(snapshot.sortDirection);
+      if (snapshot.operationHistory) restoreOperationHistory(snapshot.operationHistory);
+
+      setPropertiesRows(snapshot.propertiesRows);
+      setClusters(snapshot.clusters);
+      setClusterEdits(snapshot.clusterEdits || []);
+      setResultsMetrics(snapshot.resultsMetrics);
+      // Client metrics are re-bootstrapped from the restored clusters
+      setClientMetrics(snapshot.clientMetrics ?? false);
+      setResultsDir(snapshot.resultsDir);
+      setTotalConversationsByModel(snapshot.totalConversationsByModel);
+      setTotalUniqueConversations(snapshot.totalUniqueConversations);
+      setActiveSessionId(session.id);
+
+      if (snapshot.clusters.length > 0) {
+        setActiveTab('clusters');
+        setActiveSection('clustering');
+      } else if (snapshot.propertiesRows.length > 0) {
+        setActiveTab('properties');
+      }
+      console.log(`📂 Restored session "${session.name}" (${snapshot.originalRows.length} rows)`);
+    } finally {
+      setIsLoadingResults(false);
+      setResultsLoadingMessage('');
+    }
+  }, [resetUiStateForNewSource, restoreOperationHistory]);
+
+  // -------- Results Export ---------
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const onExportResults = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      // Results mode keeps the loaded conversation.jsonl records in originalRows; otherwise export the
+      // operational rows (standardized columns + score dicts) which is exactly what the loader expects
+      const conversations = isResultsMode
+        ? originalRows
+        : operationalRows.map(({ __index, ...rest }) => rest);
+      // Loaded score files describe the clusters before any edits; leave them out then, so the
+      // loader recomputes metrics from the exported clusters instead of overriding their meta
+      const metricsStale = clusterEdits.length > 0 && !clientMetrics;
+      const folderName = `stringsight_results_${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}`;
+      const blob = await buildResultsZip({
+        conversations,
+        properties: propertiesRows,
+        clusters,
+        metrics: metricsStale ? null : metricsData,
+      }, folderName);
+      downloadBlob(blob, `${folderName}.zip`);
+      console.log(`📦 Exported ${conversations.length} conversations, ${propertiesRows.length} properties, ${clusters.length} clusters`);
+    } catch (e: any) {
+      console.error('❌ Failed to export results:', e);
+      setResultsError(String(e?.message || e));
+    } finally {
+      setIsExporting(false);
+    }
+  }, [isResultsMode, originalRows, operationalRows, propertiesRows, clusters, metricsData, clusterEdits, clientMetrics]);
 
   // Auto-select first row for extraction when data changes
   React.useEffect(() => {
@@ -1488,6 +1757,13 @@ function App() {
   // -------- Custom Code ---------
   const [customCode, setCustomCode] = useState<string>("");
   const [customError, setCustomError] = useState<string | null>(null);
+  // Python needs the backend; JavaScript runs in a browser sandbox (default when no backend)
+  const [customRuntime, setCustomRuntime] = useState<'python' | 'javascript'>(() => backendAvailable ? 'python' : 'javascript');
+  // Follow the backend as it comes and goes; a manual choice holds until it changes again
+  React.useEffect(() => {
+    setCustomRuntime(backendAvailable ? 'python' : 'javascript');
+  }, [backendAvailable]);
+  const [customJsMode, setCustomJsMode] = useState<'predicate' | 'transform'>('predicate');
   
   const handleCustomCodeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setCustomCode(e.target.value);
@@ -1498,32 +1774,105 @@ function App() {
     
     try {
       // Add custom operation to chain
-      const customOp = createCustomCodeOperation(customCode);
+      const customOp = createCustomCodeOperation(customCode, customRuntime, customJsMode);
       const newChain = [...operationChain, customOp];
       setOperationChain(newChain);
       setCustomError(null);
-      await applyOperationChain(newChain);
+      const error = await applyOperationChain(newChain);
+      if (error) {
+        // Keep the code for editing and drop the failing operation from the chain
+        setOperationChain(operationChain);
+        await applyOperationChain(operationChain);
+        setCustomError(error);
+        return;
+      }
+      // Only successful runs become an undoable edit
+      recordOperationHistory(operationChain);
       setCustomCode(""); // Clear after successful application
     } catch (e: any) {
       console.error('runCustom error:', e);
       setCustomError(String(e?.message || e));
     }
-  }, [customCode, operationChain, applyOperationChain]);
+  }, [customCode, customRuntime, customJsMode, operationChain, applyOperationChain, recordOperationHistory]);
 
   // Operation management callbacks
   const removeOperation = useCallback((operationId: string) => {
-    const newChain = operationChain.filter(op => op.id !== operationId);
-    setOperationChain(newChain);
-    
-    // Update UI state for removed operations
-    const removedOp = operationChain.find(op => op.id === operationId);
-    if (removedOp?.type === 'sort') {
-      setSortColumn(null);
-      setSortDirection(null);
+    void commitOperationChain(operationChain.filter(op => op.id !== operationId));
+  }, [operationChain, commitOperationChain]);
+
+  const toggleOperation = useCallback((operationId: string) => {
+    void commitOperationChain(operationChain.map(op => op.id === operationId ? { ...op, disabled: !op.disabled } : op));
+  }, [operationChain, commitOperationChain]);
+
+  const moveOperation = useCallback((fromIndex: number, toIndex: number) => {
+    const newChain = [...operationChain];
+    const [moved] = newChain.splice(fromIndex, 1);
+    newChain.splice(toIndex, 0, moved);
+    void commitOperationChain(newChain);
+  }, [operationChain, commitOperationChain]);
+
+  const undoOperation = useCallback(() => {
+    const previous = operationHistory.undo(operationChain);
+    if (!previous) return;
+    setOperationChain(previous);
+    syncSortState(previous);
+    void applyOperationChain(previous);
+  }, [operationHistory, operationChain, syncSortState, applyOperationChain]);
+
+  const redoOperation = useCallback(() => {
+    const next = operationHistory.redo(operationChain);
+    if (!next) return;
+    setOperationChain(next);
+    syncSortState(next);
+    void applyOperationChain(next);
+  }, [operationHistory, operationChain, syncSortState, applyOperationChain]);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), except while typing in a field
+  React.useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || operationalRows.length === 0) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoOperation();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redoOperation();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [operationalRows.length, undoOperation, redoOperation]);
+
+  // -------- Operation Checkpoints ---------
+  const onSaveCheckpoint = useCallback((name: string) => {
+    setCheckpoints(saveCheckpoint(name, operationChain));
+  }, [operationChain]);
+
+  // Throws (shown by the checkpoint menu) when the data lacks columns the checkpoint uses.
+  // Checked against every flattened row column, including ones the table hides (model_a/model_b).
+  const onApplyCheckpoint = useCallback((checkpoint: OperationCheckpoint) => {
+    const modelNames = method === 'side_by_side' && operationalRows.length > 0
+      ? { modelA: operationalRows[0]?.model_a, modelB: operationalRows[0]?.model_b }
+      : undefined;
+    const columns = new Set<string>();
+    for (const row of flattenScores(operationalRows, method, modelNames).rows) {
+      for (const key of Object.keys(row)) columns.add(key);
     }
-    
-    void applyOperationChain(newChain);
-  }, [operationChain, applyOperationChain]);
+    void commitOperationChain(instantiateCheckpoint(checkpoint, [...columns]));
+  }, [operationalRows, method, commitOperationChain]);
+
+  const onDeleteCheckpoint = useCallback((id: string) => {
+    setCheckpoints(deleteCheckpoint(id));
+  }, []);
+
+  // Add a structured filter from an expression like "score_helpfulness < 3" (throws on invalid input)
+  const addFilterExpression = useCallback((expression: string) => {
+    const op = parseFilterExpression(expression, allowedColumns);
+    void commitOperationChain([...operationChain, op]);
+  }, [allowedColumns, operationChain, commitOperationChain]);
 
   // Legacy filter removal for backward compatibility
   const removeFilter = useCallback((index: number) => {
@@ -1619,6 +1968,18 @@ function App() {
           }}
           filters={filters}
           onRemoveFilter={removeFilter}
+          onAddFilterExpression={addFilterExpression}
+          showCustomCode={true}
+          customCodeValue={customCode}
+          onCustomCodeChange={setCustomCode}
+          onCustomCodeRun={() => { void runCustom(); }}
+          onReset={resetAll}
+          customCodeError={customError}
+          customCodeRuntime={customRuntime}
+          onCustomCodeRuntimeChange={setCustomRuntime}
+          pythonRuntimeAvailable={backendAvailable}
+          customCodeJsMode={customJsMode}
+          onCustomCodeJsModeChange={setCustomJsMode}
           uniqueValuesFor={uniqueValuesFor}
           resultCount={sortedRows.length}
           resultLabel="rows"
@@ -1799,6 +2160,18 @@ function App() {
           }}
           filters={filters}
           onRemoveFilter={removeFilter}
+          onAddFilterExpression={addFilterExpression}
+          showCustomCode={true}
+          customCodeValue={customCode}
+          onCustomCodeChange={setCustomCode}
+          onCustomCodeRun={() => { void runCustom(); }}
+          onReset={resetAll}
+          customCodeError={customError}
+          customCodeRuntime={customRuntime}
+          onCustomCodeRuntimeChange={setCustomRuntime}
+          pythonRuntimeAvailable={backendAvailable}
+          customCodeJsMode={customJsMode}
+          onCustomCodeJsModeChange={setCustomJsMode}
           uniqueValuesFor={uniqueValuesFor}
           resultCount={sortedRows.length}
           resultLabel="rows"
@@ -1833,7 +2206,189 @@ function App() {
       />
       </>
     );
-  }, [activeTab, operationalRows, groupBy, groupPreview, sortedRows, allowedColumns, responseKeys, onView, groupPagination, sortColumn, sortDirection, handleSort, dataSearchQuery, categoricalColumns, pendingColumn, pendingValues, pendingNegated, filters, removeFilter, uniqueValuesFor, refreshGroupPreview, customCode, handleCustomCodeChange, runCustom, resetAll, customError]);
+  }, [activeTab, operationalRows, groupBy, groupPreview, sortedRows, allowedColumns, responseKeys, onView, groupPagination, sortColumn, sortDirection, handleSort, dataSearchQuery, categoricalColumns, pendingColumn, pendingValues, pendingNegated, filters, removeFilter, addFilterExpression, uniqueValuesFor, refreshGroupPreview, customCode, handleCustomCodeChange, runCustom, resetAll, customError, customRuntime, customJsMode, backendAvailable]);
+
+  // Each recompute takes a ticket; a result is applied only if no later recompute has started,
+  // so a slow response for an earlier edit cannot overwrite a newer one
+  const recomputeSeqRef = useRef(0);
+  const recomputeMetricsFor = useCallback(async (baseClusters: ClusterLike[], included_property_ids?: string[], edits: ClusterEdit[] = clusterEdits) => {
+    const seq = ++recomputeSeqRef.current;
+    // Detect score columns from operationalRows
+    const scoreColumns = operationalRows[0] ? Object.keys(operationalRows[0]).filter(k => k.startsWith('score_')) : [];
+    
+    let res: Awaited<ReturnType<typeof recomputeClusterMetrics>>;
+    try {
+      // Without a backend, or for clusters whose metrics are computed in the browser, recompute locally
+      res = !backendAvailable || clientMetrics
+        ? recomputeClusterMetricsLocally({ clusters: baseClusters, properties: propertiesRows, operationalRows, included_property_ids })
+        : await recomputeClusterMetrics({
+          clusters: baseClusters,
+          properties: propertiesRows,
+          operationalRows,
+          included_property_ids,
+          score_columns: scoreColumns.length > 0 ? scoreColumns : undefined,
+        });
+    } catch (e) {
+      // A superseded recompute has nothing left to report
+      if (seq !== recomputeSeqRef.current) return;
+      throw e;
+    }
+    if (seq !== recomputeSeqRef.current) return;
+    
+    // Re-enrich clusters with quality data from cached metrics (edited clusters keep the recomputed values)
+    let updatedClusters = res.clusters || [];
+    if (metricsData?.model_cluster_scores) {
+      const recomputed = updatedClusters;
+      const edited = editedClusterKeys(edits);
+      updatedClusters = enrichClustersWithQualityData(
+        recomputed, 
+        metricsData.model_cluster_scores
+      ).map((cluster, i) => edited.has(clusterKey(recomputed[i])) ? recomputed[i] : cluster);
+    }
+    
+    setClusters(updatedClusters);
+  }, [propertiesRows, operationalRows, metricsData, clusterEdits, backendAvailable, clientMetrics]);
+
+  const onRequestRecomputeCb = useCallback((included_property_ids?: string[]) => {
+    recomputeMetricsFor(clusters, included_property_ids).catch(e => {
+      console.error('recompute (filters) failed', e);
+    });
+  }, [clusters, recomputeMetricsFor]);
+
+  // Client-side metrics: rebuild model_cluster_scores with bootstrap CIs whenever the inputs or resampling options change
+  React.useEffect(() => {
+    if (!clientMetrics || clusters.length === 0) return;
+    const controller = new AbortController();
+    setMetricsBootstrapProgress({ done: 0, total: metricsBootstrap.samples });
+    computeModelClusterScores(operationalRows, propertiesRows, clusters, metricsBootstrap, setMetricsBootstrapProgress, controller.signal)
+      .then(rows => {
+        if (controller.signal.aborted) return;
+        setBootstrappedScores(rows);
+        setMetricsBootstrapProgress(null);
+      })
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        console.error('❌ Failed to bootstrap cluster metrics:', e);
+        setResultsError(`Confidence intervals could not be computed: ${String(e?.message || e)}`);
+        setMetricsBootstrapProgress(null);
+      });
+    return () => controller.abort();
+  }, [clientMetrics, operationalRows, propertiesRows, clusters, metricsBootstrap]);
+
+  // Battles without a winner column are decided by the Metrics tab's quality metric when both sides have it
+  const pairwiseMetric = useMemo(
+    () => method === 'side_by_side' ? pairwiseDecidingMetric(operationalRows, metricsFilters.qualityMetric) : undefined,
+    [method, operationalRows, metricsFilters.qualityMetric]
+  );
+
+  // Side-by-side data: per-cluster win/tie/loss rates and preference shifts for the Clusters and Metrics tabs
+  React.useEffect(() => {
+    if (method !== 'side_by_side' || clusters.length === 0) {
+      setPairwiseMetrics(null);
+      return;
+    }
+    const controller = new AbortController();
+    computePairwiseMetrics(operationalRows, propertiesRows, clusters, pairwiseMetric, metricsBootstrap, undefined, controller.signal)
+      .then(result => {
+        if (!controller.signal.aborted) setPairwiseMetrics(result.length > 0 ? result : null);
+      })
+      .catch(e => {
+        if (!controller.signal.aborted) console.error('❌ Failed to compute preference shifts:', e);
+      });
+    return () => controller.abort();
+  }, [method, operationalRows, propertiesRows, clusters, pairwiseMetric, metricsBootstrap]);
+
+  const metricsForTab = useMemo(() => {
+    if (!metricsData?.model_cluster_scores || !pairwiseMetrics) return metricsData;
+    return { ...metricsData, model_cluster_scores: withPairwiseScores(metricsData.model_cluster_scores, pairwiseMetrics) };
+  }, [metricsData, pairwiseMetrics]);
+
+  // -------- Cluster Editing ---------
+  // Edited clusters show immediately; metrics refresh once the backend recomputes them
+  const onEditClusters = useCallback((nextClusters: ClusterLike[], edit: ClusterEdit) => {
+    setClusters(nextClusters);
+    setClusterEdits(prev => [...prev, edit]);
+    recomputeMetricsFor(nextClusters, undefined, [...clusterEdits, edit]).catch((e: unknown) => {
+      console.error('recompute (cluster edit) failed', e);
+      setResultsError(`Cluster metrics could not be recomputed after the edit: ${e instanceof Error ? e.message : String(e)}`);
+    });
+  }, [recomputeMetricsFor, clusterEdits]);
+
+  const onExportClusterEdits = useCallback(async () => {
+    try {
+      const folderName = `stringsight_cluster_edits_${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}`;
+      const blob = await buildClusterEditsZip(clusters, clusterEdits, folderName);
+      downloadBlob(blob, `${folderName}.zip`);
+    } catch (e: unknown) {
+      console.error('❌ Failed to export cluster edits:', e);
+      setResultsError(e instanceof Error ? e.message : String(e));
+    }
+  }, [clusters, clusterEdits]);
+
+  // Open a property's conversation in the drawer, highlighting its evidence
+  const openPropertyById = useCallback((pid: string) => {
+    // Find property row in propertiesRows and open in the right drawer
+    const prop = propertiesRows.find((p: any) => String(p.id) === String(pid));
+    if (!prop) return;
+    
+    const idx = (prop as any).__index ?? (prop as any).row_index;
+    let row: any | null = null;
+    if (idx != null) {
+      row = operationalRows.find(r => Number(r?.__index) === Number(idx)) || null;
+    }
+    if (!row) {
+      const qid = (prop as any).question_id;
+      const modelName = String((prop as any).model || '');
+      row = operationalRows.find(r => {
+        const rq = r?.question_id;
+        if (method === 'single_model') {
+          return rq === qid && String(r?.model || '') === modelName;
+        } else if (method === 'side_by_side') {
+          return rq === qid && (String(r?.model_a || '') === modelName || String(r?.model_b || '') === modelName);
+        }
+        return false;
+      }) || null;
+    }
+    
+    if (!row) {
+      console.warn('[App] Could not locate row for property', { prop, idx, method });
+    }
+    
+    // Process evidence (same logic as PropertiesTab)
+    const rawEvidence = (prop as any).evidence;
+    let ev: string[] = [];
+
+    if (Array.isArray(rawEvidence)) {
+      // Already an array
+      ev = rawEvidence;
+    } else if (rawEvidence && typeof rawEvidence === 'string') {
+      // Parse comma-separated quoted strings: "\"text1\", \"text2\", \"text3\""
+      ev = rawEvidence
+        .split(',')
+        .map(s => s.trim())
+        .map(s => s.replace(/^["']|["']$/g, '')) // Remove leading/trailing quotes
+        .filter(s => s.length > 0);
+    } else if (rawEvidence) {
+      // Single value, wrap in array
+      ev = [String(rawEvidence)];
+    }
+
+    console.log('[App] onOpenPropertyById - Raw evidence:', rawEvidence);
+    console.log('[App] onOpenPropertyById - Parsed evidence:', ev);
+
+    setSelectedEvidence(ev);
+    setEvidenceTargetModel((prop as any).model);
+    setSelectedProperty(prop);
+    
+    if (row) {
+      onView(row, true);
+    }
+  }, [propertiesRows, operationalRows, method, onView]);
+
+  // Review verdicts are stored on the property rows themselves
+  const setReviewVerdict = useCallback((propertyId: string, verdict: ReviewVerdict | null, note?: string) => {
+    setPropertiesRows(prev => prev.map(p => String(p.id) === propertyId ? applyVerdict(p, verdict, note) : p));
+  }, []);
 
   // Memoized properties content
   const propertiesContent = useMemo(() => {
@@ -1851,6 +2406,12 @@ function App() {
       <PropertiesTab
         rows={propertiesRows}
         originalData={originalRows}
+        clusters={clusters}
+        onReviewVerdict={setReviewVerdict}
+        onRecomputeAccepted={onRequestRecomputeCb}
+        selectedIds={propertySelection?.ids ?? null}
+        selectionSource={propertySelection?.source}
+        onClearSelection={() => setPropertySelection(null)}
         onOpenProperty={(prop) => {
           // Use operationalRows (with consolidated score objects) instead of currentRows (flattened)
           // Prefer direct index if present
@@ -1928,7 +2489,7 @@ function App() {
         }}
       />
     );
-  }, [activeTab, propertiesRows, currentRows, operationalRows, method, onView]);
+  }, [activeTab, propertiesRows, currentRows, operationalRows, method, onView, clusters, setReviewVerdict, onRequestRecomputeCb, propertySelection]);
 
 
 
@@ -1941,38 +2502,90 @@ function App() {
     setCustomError(null);
   }, []);
 
+  // -------- Background Extraction Jobs ---------
+  // Partial and final job results are merged into propertiesRows by property id
+  const onExtractionJobProperties = useCallback((_jobId: string, props: PropertyLike[], final: boolean) => {
+    const enriched = props.map(prop => {
+      const matchingRow = operationalRows.find(opRow => {
+        if (method === 'single_model') {
+          return opRow.question_id === prop.question_id && opRow.model === prop.model;
+        } else if (method === 'side_by_side') {
+          return opRow.question_id === prop.question_id &&
+                 (opRow.model_a === prop.model || opRow.model_b === prop.model);
+        }
+        return false;
+      });
+      return {
+        ...prop,
+        model_response: matchingRow?.model_response ||
+                       matchingRow?.model_a_response ||
+                       matchingRow?.model_b_response ||
+                       'No response found'
+      };
+    });
+    setPropertiesRows(prev => mergePropertiesById(prev, enriched));
+    if (final) setActiveTab('properties');
+  }, [operationalRows, method]);
+  const addExtractionFailures = useCallback((failures: ExtractionFailure[]) => {
+    if (failures.length > 0) setExtractionFailures(prev => mergeFailures(prev, failures));
+  }, []);
+  const resolveExtractionFailures = useCallback((ids: string[]) => {
+    setExtractionFailures(prev => prev.filter(f => !ids.includes(f.id)));
+  }, []);
+  const onExtractionJobFailures = useCallback((_jobId: string, failures: Record<string, unknown>[]) => {
+    addExtractionFailures(normalizeFailures(failures, 'job'));
+  }, [addExtractionFailures]);
+  const extractionJobs = useExtractionJobs(onExtractionJobProperties, onExtractionJobFailures, operationalRows.length > 0);
+  resetJobResultsRef.current = extractionJobs.resetFetchedResults;
+
+  // -------- Manual Properties ---------
+  React.useEffect(() => {
+    setTraceSelection(null);
+  }, [selectedRow]);
+
+  const manualPropertyModels = useMemo(() => {
+    if (!selectedRow) return [];
+    const models = method === 'side_by_side' ? [selectedRow.model_a, selectedRow.model_b] : [selectedRow.model];
+    return models.filter(m => m != null).map(String);
+  }, [selectedRow, method]);
+
+  const propertyCategories = useMemo(() => {
+    return Array.from(new Set(propertiesRows.map(p => p?.category).filter(Boolean).map(String))).sort();
+  }, [propertiesRows]);
+
+  const responseForModel = useCallback((row: Record<string, unknown>, model: string) => {
+    if (method === 'side_by_side') {
+      return String(row.model_b ?? '') === model ? row.model_b_response : row.model_a_response;
+    }
+    return row.model_response;
+  }, [method]);
+
+  const saveManualProperty = useCallback((draft: ManualPropertyDraft) => {
+    if (!selectedRow || !propertyEditor) return;
+    const editingId = propertyEditor.propertyId;
+    if (editingId) {
+      const edit = <P extends object>(p: P) => ({ ...updateManualProperty(p, draft), model_response: responseForModel(selectedRow, draft.model) });
+      setPropertiesRows(prev => prev.map(p => p.id === editingId ? edit(p) : p));
+      setSelectedProperty((prev: PropertyLike | null) => prev?.id === editingId ? edit(prev) : prev);
+    } else {
+      const property = createManualProperty(selectedRow, draft);
+      setPropertiesRows(prev => [...prev, { ...property, model_response: responseForModel(selectedRow, draft.model) }]);
+      setTraceSelection(null);
+      window.getSelection()?.removeAllRanges();
+    }
+    setPropertyEditor(null);
+  }, [selectedRow, propertyEditor, responseForModel]);
+
+  const deleteManualProperty = useCallback((property: PropertyLike) => {
+    if (!window.confirm(`Delete property "${property.property_description}"?`)) return;
+    setPropertiesRows(prev => prev.filter(p => p.id !== property.id));
+    setSelectedProperty((prev: PropertyLike | null) => prev?.id === property.id ? null : prev);
+    setPropertyEditor(null);
+  }, []);
+
   // Memoized callbacks to prevent unnecessary effect triggers in children
   const getPropertiesRowsCb = useCallback(() => propertiesRows, [propertiesRows]);
   const getOperationalRowsCb = useCallback(() => operationalRows, [operationalRows]);
-  const onRequestRecomputeCb = useCallback((included_property_ids?: string[]) => {
-    (async () => {
-      try {
-        // Detect score columns from operationalRows
-        const scoreColumns = operationalRows[0] ? Object.keys(operationalRows[0]).filter(k => k.startsWith('score_')) : [];
-        
-        const res = await recomputeClusterMetrics({
-          clusters,
-          properties: propertiesRows,
-          operationalRows,
-          included_property_ids,
-          score_columns: scoreColumns.length > 0 ? scoreColumns : undefined,
-        });
-        
-        // Re-enrich clusters with quality data from cached metrics
-        let updatedClusters = res.clusters || [];
-        if (resultsMetrics?.model_cluster_scores) {
-          updatedClusters = enrichClustersWithQualityData(
-            updatedClusters, 
-            resultsMetrics.model_cluster_scores
-          );
-        }
-        
-        setClusters(updatedClusters);
-      } catch (e) {
-        console.error('recompute (filters) failed', e);
-      }
-    })();
-  }, [clusters, propertiesRows, operationalRows, resultsMetrics]);
 
   return (
     <Box sx={{ minHeight: '100vh', display: 'flex', flexDirection: 'column' }}>
@@ -1988,6 +2601,17 @@ function App() {
           </Box>
         </Box>
       )}
+      {shareNotice && !resultsError && (
+        <Box sx={{ position: 'fixed', top: 12, left: '50%', transform: 'translateX(-50%)', zIndex: 1500 }}>
+          <Box sx={{
+            px: 2, py: 1, borderRadius: 1, border: '1px solid', borderColor: 'info.light',
+            backgroundColor: '#EFF6FF', color: '#1E3A8A', display: 'flex', alignItems: 'center', gap: 2
+          }}>
+            <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>{shareNotice}</Typography>
+            <Button size="small" variant="outlined" onClick={() => setShareNotice(null)} sx={{ ml: 'auto' }}>Dismiss</Button>
+          </Box>
+        </Box>
+      )}
       <AppBar position="fixed">
         <Toolbar sx={{ gap: 2 }}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexGrow: 1 }}>
@@ -1997,7 +2621,11 @@ function App() {
           <Stack direction="row" spacing={1} alignItems="center">
             {isLoadingResults && (
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, width: 320 }}>
-                <LinearProgress sx={{ flexGrow: 1 }} />
+                <LinearProgress
+                  sx={{ flexGrow: 1 }}
+                  variant={resultsLoadingProgress != null ? 'determinate' : 'indeterminate'}
+                  value={resultsLoadingProgress ?? undefined}
+                />
                 <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.9)' }}>
                   {resultsLoadingMessage || 'Loading...'}
                 </Typography>
@@ -2012,7 +2640,7 @@ function App() {
               <input
                 type="file"
                 hidden
-                accept=".csv,.json,.jsonl"
+                accept=".csv,.json,.jsonl,.parquet,.pq,.arrow,.arrows,.feather,.ipc"
                 onChange={onFileChange}
               />
             </Button>
@@ -2047,6 +2675,45 @@ function App() {
                 }}
               />
             </Button>
+            <Button
+              variant="outlined"
+              color="primary"
+              size="small"
+              onClick={() => setSessionsDialogOpen(true)}
+            >
+              Sessions
+            </Button>
+            {clusters.length > 0 && (
+              <Button
+                variant="outlined"
+                color="primary"
+                size="small"
+                onClick={() => setRunDiffOpen(true)}
+              >
+                Compare Runs
+              </Button>
+            )}
+            {operationalRows.length > 0 && (
+              <Button
+                variant="outlined"
+                color="secondary"
+                size="small"
+                onClick={onCopyShareLink}
+              >
+                Copy Link
+              </Button>
+            )}
+            {operationalRows.length > 0 && (
+              <Button
+                variant="outlined"
+                color="secondary"
+                size="small"
+                onClick={() => { void onExportResults(); }}
+                disabled={isExporting}
+              >
+                {isExporting ? 'Exporting...' : 'Export Results'}
+              </Button>
+            )}
             {availableColumns.length > 0 && !showColumnSelector && (
               <Button 
                 variant="outlined" 
@@ -2060,6 +2727,27 @@ function App() {
           </Stack>
         </Toolbar>
       </AppBar>
+      <SessionsDialog
+        open={sessionsDialogOpen}
+        onClose={() => setSessionsDialogOpen(false)}
+        canSave={originalRows.length > 0 && !isLoadingResults}
+        activeSessionId={activeSessionId}
+        onSave={onSaveSession}
+        onResume={onResumeSession}
+      />
+      <RunDiffDialog
+        open={runDiffOpen}
+        onClose={() => setRunDiffOpen(false)}
+        current={currentRun}
+        baseline={baselineRun}
+        onLoadBaselineFolder={onLoadBaselineFolder}
+        onLoadBaselineServer={backendAvailable ? onLoadBaselineServer : undefined}
+        onClearBaseline={() => setBaselineRun(null)}
+        onOpenCurrentProperty={(pid) => {
+          setRunDiffOpen(false);
+          openPropertyById(pid);
+        }}
+      />
       {/* offset for fixed AppBar */}
       <Box sx={{ height: (theme) => theme.mixins.toolbar.minHeight }} />
       
@@ -2167,12 +2855,6 @@ function App() {
               setPropertiesRows(enrichedRows);
               setActiveTab('properties'); // Switch to properties tab to see results
             }}
-            onBatchStart={() => setBatchRunning(true)}
-            onBatchStatus={(progress, state) => {
-              setBatchProgress(progress);
-              setBatchState(state);
-            }}
-            onBatchDone={() => setBatchRunning(false)}
             onOpenTrace={(row) => {
               // Format trace data properly based on method (same as onView function)
               if (method === "single_model") {
@@ -2203,14 +2885,22 @@ function App() {
               setEvidenceTargetModel(undefined);
               setSelectedProperty(null);
             }}
+            backendAvailable={backendAvailable}
+            jobs={extractionJobs.jobs}
+            jobFeeds={extractionJobs.feeds}
+            jobTransports={extractionJobs.transports}
+            onJobStarted={extractionJobs.trackJob}
+            onCancelJob={extractionJobs.cancelJob}
+            onDismissJob={extractionJobs.dismissJob}
+            failures={extractionFailures}
+            onFailures={addExtractionFailures}
+            onResolveFailures={resolveExtractionFailures}
           />
-          {(isResultsMode || !backendAvailable) && (
+          {isResultsMode && (
             <Box sx={{ position: 'absolute', inset: 0, zIndex: (theme) => theme.zIndex.modal + 1, bgcolor: 'rgba(255,255,255,0.75)', display: 'flex', alignItems: 'center', justifyContent: 'center', borderRadius: 1, pointerEvents: 'all' }}>
               <Box sx={{ bgcolor: '#F97316', color: '#FFFFFF', px: 2, py: 1.25, borderRadius: 1, boxShadow: 4, border: '1px solid #EA580C', textAlign: 'center' }}>
                 <Typography variant="body2" sx={{ fontWeight: 700 }}>
-                  {isResultsMode
-                    ? 'Extraction disabled in results mode. Upload raw data to enable extraction.'
-                    : 'Backend not connected. Set VITE_BACKEND to your backend URL to enable extraction.'}
+                  Extraction disabled in results mode. Upload raw data to enable extraction.
                 </Typography>
               </Box>
             </Box>
@@ -2221,6 +2911,7 @@ function App() {
           <Box sx={{ position: 'relative' }}>
           <ClusteringPanel 
             hasAnyProperties={propertiesRows.length > 0}
+            backendAvailable={backendAvailable}
             getOperationalRows={getOperationalRowsCb}
             getPropertiesRows={getPropertiesRowsCb}
             onClustersUpdated={(data) => {
@@ -2237,6 +2928,9 @@ function App() {
               }
               
               setClusters(enrichedClusters);
+              setClusterEdits([]);
+              // Local clustering ids properties that had none; the clusters point at those ids
+              if (data.properties) setPropertiesRows(data.properties);
               setTotalConversationsByModel(data.total_conversations_by_model || null);
               setTotalUniqueConversations(data.total_unique_conversations || null);
 
@@ -2256,21 +2950,23 @@ function App() {
                 console.log('🟢 After normalization:', normalizedMetrics.model_cluster_scores?.[0]);
 
                 setResultsMetrics(normalizedMetrics);
+                setClientMetrics(false);
                 
                 // Automatically switch to metrics section to show the metrics panel
                 setActiveSection('metrics');
+              } else if ((data.clusters || []).length > 0) {
+                // No metrics table (e.g. in-browser clustering): compute it, with CIs, client-side
+                setClientMetrics(true);
               } else {
                 console.warn('⚠️ No metrics in clustering response!');
               }
             }}
           />
-          {(isResultsMode || !backendAvailable) && (
+          {isResultsMode && (
             <Box sx={{ position: 'absolute', inset: 0, zIndex: (theme) => theme.zIndex.modal + 1, bgcolor: 'rgba(255,255,255,0.75)', display: 'flex', alignItems: 'center', justifyContent: 'center', borderRadius: 1, pointerEvents: 'all' }}>
               <Box sx={{ bgcolor: '#F97316', color: '#FFFFFF', px: 2, py: 1.25, borderRadius: 1, boxShadow: 4, border: '1px solid #EA580C', textAlign: 'center' }}>
                 <Typography variant="body2" sx={{ fontWeight: 700 }}>
-                  {isResultsMode
-                    ? 'Clustering disabled in results mode. Upload raw data to re-cluster.'
-                    : 'Backend not connected. Set VITE_BACKEND to your backend URL to enable clustering.'}
+                  Clustering disabled in results mode. Upload raw data to re-cluster.
                 </Typography>
               </Box>
             </Box>
@@ -2285,6 +2981,9 @@ function App() {
             availableGroups={metricsAvailableGroups}
             availableQualityMetrics={metricsAvailableQualityMetrics}
             summary={metricsSummary || undefined}
+            bootstrap={clientMetrics ? metricsBootstrap : undefined}
+            onBootstrapChange={setMetricsBootstrap}
+            bootstrapProgress={metricsBootstrapProgress}
           />
         )}
       </ExpandedSidebar>
@@ -2329,6 +3028,24 @@ function App() {
           />
         )}
 
+        {/* Show parse notice if any lines in the uploaded file were malformed */}
+        {parseNotice && (
+          <Box sx={{ mb: 1, p: 1.5, border: '1px solid #F59E0B', background: '#FFFBEB', color: '#92400E', borderRadius: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography variant="body2" sx={{ fontWeight: 600, flexGrow: 1 }}>
+                Skipped {parseNotice.count.toLocaleString()} malformed line(s) while parsing the file.
+              </Typography>
+              <Button size="small" onClick={() => setParseNotice(null)}>Dismiss</Button>
+            </Box>
+            <Box component="ul" sx={{ m: 0, mt: 0.5, pl: 2.5, maxHeight: 160, overflow: 'auto', fontFamily: 'monospace', fontSize: 12 }}>
+              {parseNotice.lines.slice(0, 50).map((m) => (
+                <li key={m.line}>Line {m.line}: {m.error}{m.preview ? ` — ${m.preview.slice(0, 80)}` : ''}</li>
+              ))}
+              {parseNotice.count > 50 && <li>…and {(parseNotice.count - 50).toLocaleString()} more</li>}
+            </Box>
+          </Box>
+        )}
+
         {/* Show filter notice if any rows were dropped due to missing scores */}
         {filterNotice && (
           <Box sx={{ mb: 1, p: 1.5, border: '1px solid #F59E0B', background: '#FFFBEB', color: '#92400E', borderRadius: 1 }}>
@@ -2357,10 +3074,27 @@ function App() {
 
 
         {/* Operation Chain Summary */}
-        <FilterSummary
-          operations={operationChain}
-          onRemoveOperation={removeOperation}
-        />
+        {operationalRows.length > 0 && (
+          <FilterSummary
+            operations={operationChain}
+            onRemoveOperation={removeOperation}
+            onToggleOperation={toggleOperation}
+            onMoveOperation={moveOperation}
+            onUndo={undoOperation}
+            onRedo={redoOperation}
+            canUndo={operationHistory.canUndo}
+            canRedo={operationHistory.canRedo}
+            actions={(operationChain.length > 0 || checkpoints.length > 0) ? (
+              <CheckpointMenu
+                checkpoints={checkpoints}
+                canSave={operationChain.length > 0}
+                onSave={onSaveCheckpoint}
+                onApply={onApplyCheckpoint}
+                onDelete={onDeleteCheckpoint}
+              />
+            ) : undefined}
+          />
+        )}
 
         {/* Tabs for switching between Data, Properties, and Clusters */}
         <Box sx={{ mb: 1 }}>
@@ -2392,74 +3126,27 @@ function App() {
               totalUniqueConversations={totalUniqueConversations}
               getPropertiesRows={getPropertiesRowsCb}
               onRequestRecompute={onRequestRecomputeCb}
+              onEditClusters={onEditClusters}
+              clusterEdits={clusterEdits}
+              onExportEdits={onExportClusterEdits}
+              getOperationalRows={getOperationalRowsCb}
+              onSelectProperties={(ids) => {
+                setPropertySelection({ ids, source: 'selected on the behavior map' });
+                setActiveTab('properties');
+              }}
               externalSearchQuery={clusterSearchQuery}
-              modelClusterScores={resultsMetrics?.model_cluster_scores}
-              onOpenPropertyById={(pid) => {
-              // Find property row in propertiesRows and open in the right drawer
-              const prop = propertiesRows.find((p: any) => String(p.id) === String(pid));
-              if (!prop) return;
-              
-              const idx = (prop as any).__index ?? (prop as any).row_index;
-              let row: any | null = null;
-              if (idx != null) {
-                row = operationalRows.find(r => Number(r?.__index) === Number(idx)) || null;
-              }
-              if (!row) {
-                const qid = (prop as any).question_id;
-                const modelName = String((prop as any).model || '');
-                row = operationalRows.find(r => {
-                  const rq = r?.question_id;
-                  if (method === 'single_model') {
-                    return rq === qid && String(r?.model || '') === modelName;
-                  } else if (method === 'side_by_side') {
-                    return rq === qid && (String(r?.model_a || '') === modelName || String(r?.model_b || '') === modelName);
-                  }
-                  return false;
-                }) || null;
-              }
-              
-              if (!row) {
-                console.warn('[App] Could not locate row for property', { prop, idx, method });
-              }
-              
-              // Process evidence (same logic as PropertiesTab)
-              const rawEvidence = (prop as any).evidence;
-              let ev: string[] = [];
-
-              if (Array.isArray(rawEvidence)) {
-                // Already an array
-                ev = rawEvidence;
-              } else if (rawEvidence && typeof rawEvidence === 'string') {
-                // Parse comma-separated quoted strings: "\"text1\", \"text2\", \"text3\""
-                ev = rawEvidence
-                  .split(',')
-                  .map(s => s.trim())
-                  .map(s => s.replace(/^["']|["']$/g, '')) // Remove leading/trailing quotes
-                  .filter(s => s.length > 0);
-              } else if (rawEvidence) {
-                // Single value, wrap in array
-                ev = [String(rawEvidence)];
-              }
-
-              console.log('[App] onOpenPropertyById - Raw evidence:', rawEvidence);
-              console.log('[App] onOpenPropertyById - Parsed evidence:', ev);
-
-              setSelectedEvidence(ev);
-              setEvidenceTargetModel((prop as any).model);
-              setSelectedProperty(prop);
-              
-              if (row) {
-                onView(row, true);
-              }
-            }}
+              onSearchChange={setClusterSearchQuery}
+              modelClusterScores={metricsData?.model_cluster_scores}
+              pairwiseMetrics={pairwiseMetrics}
+              onOpenPropertyById={openPropertyById}
             />
           </Box>
         )}
         {activeTab === 'metrics' && (
           <Box sx={{ mt: 1 }}>
-            {resultsMetrics ? (
+            {metricsForTab ? (
               <MetricsTab
-                resultsData={resultsMetrics}
+                resultsData={metricsForTab}
                 filters={metricsFilters}
                 totalUniqueConversations={totalUniqueConversations}
                 onDataProcessed={(data) => {
@@ -2488,6 +3175,16 @@ function App() {
                   setActiveTab('clusters');
                   setHasViewedClusters(true);
                 }}
+                onOpenClusterProperties={(clusterName, model) => {
+                  const cluster = clusters.find(c => clusterLabel(c) === clusterName);
+                  if (!cluster) return;
+                  const members = new Set(clusterPropertyIds(cluster));
+                  const ids = propertiesRows
+                    .filter(p => members.has(String(p?.id)) && p?.model === model)
+                    .map(p => String(p.id));
+                  setPropertySelection({ ids, source: `from the heatmap cell "${clusterName}" × ${model}` });
+                  setActiveTab('properties');
+                }}
                 onViewExample={(cluster) => {
                   // Randomly select an example from the cluster
                   if (!cluster.examples || cluster.examples.length === 0) return;
@@ -2604,6 +3301,14 @@ function App() {
                 </Typography>
               </Box>
             )}
+            {clusters.length > 0 && (
+              <RegressionReport
+                operationalRows={operationalRows}
+                properties={propertiesRows}
+                clusters={clusters}
+                onViewPair={onViewModelPair}
+              />
+            )}
           </Box>
         )}
       </Container>
@@ -2666,6 +3371,19 @@ function App() {
                 )}
               </>
             )}
+            {(selectedTrace?.type === "single" || selectedTrace?.type === "sbs") && (
+              <TraceAuthoredProperties
+                selection={traceSelection}
+                properties={manualPropertiesForRow(propertiesRows, selectedRow)}
+                onCreateFromSelection={() => {
+                  if (!traceSelection) return;
+                  setPropertyEditor({ draft: draftFromSelection(traceSelection.text, traceSelection.model || manualPropertyModels[0] || '') });
+                }}
+                onClearSelection={() => setTraceSelection(null)}
+                onEdit={(p) => setPropertyEditor({ draft: draftFromProperty(p), propertyId: p.id })}
+                onDelete={deleteManualProperty}
+              />
+            )}
             {selectedTrace?.type === "single" && (() => {
               console.log('[App] Rendering ConversationTrace with highlights:', selectedEvidence);
               return (
@@ -2673,6 +3391,7 @@ function App() {
                   messages={selectedTrace.messages}
                   highlights={selectedEvidence || undefined}
                   rawResponse={selectedRow?.model_response}
+                  onSelectText={(text) => setTraceSelection({ text, model: String(selectedRow?.model ?? '') })}
                 />
               );
             })()}
@@ -2686,10 +3405,24 @@ function App() {
                 targetModel={evidenceTargetModel}
                 rawResponseA={selectedRow?.model_a_response}
                 rawResponseB={selectedRow?.model_b_response}
+                onSelectText={(text, model) => setTraceSelection({ text, model })}
               />
             )}
           </>
       </Drawer>
+      <ManualPropertyDialog
+        open={Boolean(propertyEditor)}
+        mode={propertyEditor?.propertyId ? 'edit' : 'create'}
+        initial={propertyEditor?.draft ?? null}
+        models={manualPropertyModels}
+        categories={propertyCategories}
+        onSave={saveManualProperty}
+        onDelete={propertyEditor?.propertyId ? () => {
+          const property = propertiesRows.find(p => p.id === propertyEditor.propertyId);
+          if (property) deleteManualProperty(property);
+        } : undefined}
+        onClose={() => setPropertyEditor(null)}
+      />
       {/* Transparent center overlay to close only the right drawer when clicked */}
       {drawerOpen && (
         <Box
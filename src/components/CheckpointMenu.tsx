@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Menu,
+  MenuItem,
+  ListItemText,
+  IconButton,
+  Divider,
+  TextField,
+  Typography,
+} from '@mui/material';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import BookmarkBorderIcon from '@mui/icons-material/BookmarkBorder';
+import type { OperationCheckpoint } from '../lib/checkpoints';
+
+interface CheckpointMenuProps {
+  checkpoints: OperationCheckpoint[];
+  canSave: boolean;
+  onSave: (name: string) => void;
+  // Throws with a user-facing message when the checkpoint doesn't fit the current data
+  onApply: (checkpoint: OperationCheckpoint) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * Save the current operation chain under a name and reapply saved chains
+ */
+export function CheckpointMenu({ checkpoints, canSave, onSave, onApply, onDelete }: CheckpointMenuProps) {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [name, setName] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const close = () => {
+    setAnchorEl(null);
+    setName('');
+  };
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name);
+    setError(null);
+    close();
+  };
+
+  const apply = (checkpoint: OperationCheckpoint) => {
+    try {
+      onApply(checkpoint);
+      setError(null);
+    } catch (e: any) {
+      setError(String(e?.message || e));
+    }
+    close();
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+      {error && (
+        <Typography variant="caption" color="error" sx={{ maxWidth: 420 }}>
+          {error}
+        </Typography>
+      )}
+      <Button
+        size="small"
+        variant="outlined"
+        startIcon={<BookmarkBorderIcon fontSize="small" />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+      >
+        Checkpoints{checkpoints.length > 0 ? ` (${checkpoints.length})` : ''}
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={close}>
+        <Box sx={{ px: 2, py: 1, display: 'flex', gap: 1 }} onKeyDown={(e) => e.stopPropagation()}>
+          <TextField
+            size="small"
+            placeholder="Checkpoint name"
+            value={name}
+            disabled={!canSave}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+          />
+          <Button size="small" variant="contained" disabled={!canSave || !name.trim()} onClick={save}>
+            Save
+          </Button>
+        </Box>
+        <Divider />
+        {checkpoints.length === 0 && (
+          <MenuItem disabled>
+            <ListItemText primary="No saved checkpoints" />
+          </MenuItem>
+        )}
+        {checkpoints.map(checkpoint => (
+          <MenuItem key={checkpoint.id} onClick={() => apply(checkpoint)}>
+            <ListItemText
+              primary={checkpoint.name}
+              secondary={`${checkpoint.operations.length} operation${checkpoint.operations.length === 1 ? '' : 's'} · ${new Date(checkpoint.createdAt).toLocaleString()}`}
+            />
+            <IconButton
+              size="small"
+              edge="end"
+              sx={{ ml: 1 }}
+              onClick={(e) => { e.stopPropagation(); onDelete(checkpoint.id); }}
+            >
+              <DeleteOutlineIcon fontSize="small" />
+            </IconButton>
+          </MenuItem>
+        ))}
+      </Menu>
+    </Box>
+  );
+}
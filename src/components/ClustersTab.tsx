@@ -5,7 +5,12 @@ import createPlotlyComponent from 'react-plotly.js/factory';
 const Plot = createPlotlyComponent(Plotly);
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import InfoOutlinedIcon from '@mui/icons-material/InfoOutlined';
+import EditOutlinedIcon from '@mui/icons-material/EditOutlined';
+import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
+import { mergeClusters, splitCluster, renameCluster, moveProperties, clusterKey, clusterLabel, describeEdit, editedClusterKeys, type ClusterEdit, type ClusterEditResult, type ClusterLike } from '../lib/clusterEdits';
 import { FormControl, InputLabel, Select, MenuItem, TextField, Checkbox, ListItemText, OutlinedInput } from '@mui/material';
+import PropertyMap from './PropertyMap';
+import { describeDecidedBy, type PairwiseClusterMetrics, type PairwiseModelStats } from '../lib/pairwiseMetrics';
 
 // Shared base layout to avoid label/tick overlap and redundant config
 const CLUSTER_PLOT_LAYOUT_BASE = {
@@ -27,7 +32,14 @@ interface ClustersTabProps {
   getPropertiesRows?: () => any[];
   onRequestRecompute?: (included_property_ids?: string[]) => void;
   externalSearchQuery?: string;
+  onSearchChange?: (query: string) => void;  // Notified when the search box changes (kept in the URL)
   modelClusterScores?: any[];  // Metrics from model_cluster_scores_df.jsonl
+  onEditClusters?: (clusters: ClusterLike[], edit: ClusterEdit) => void;  // Manual curation; App recomputes metrics
+  clusterEdits?: ClusterEdit[];
+  onExportEdits?: () => void;
+  getOperationalRows?: () => Record<string, unknown>[];  // Scores for the behavior map
+  onSelectProperties?: (propertyIds: string[]) => void;  // Lasso selection on the behavior map
+  pairwiseMetrics?: PairwiseClusterMetrics[] | null;  // Side-by-side win/tie/loss per cluster
 }
 
 function formatPercent(p?: number): string {
@@ -35,20 +47,24 @@ function formatPercent(p?: number): string {
   return `${(p * 100).toFixed(1)}%`;
 }
 
-function ClustersTab({ clusters, totalConversationsByModel, totalUniqueConversations, onOpenPropertyById, getPropertiesRows, onRequestRecompute, externalSearchQuery, modelClusterScores }: ClustersTabProps) {
+function ClustersTab({ clusters, totalConversationsByModel, totalUniqueConversations, onOpenPropertyById, getPropertiesRows, onRequestRecompute, externalSearchQuery, onSearchChange, modelClusterScores, onEditClusters, clusterEdits = [], onExportEdits, getOperationalRows, onSelectProperties, pairwiseMetrics }: ClustersTabProps) {
   // Enrich clusters with metrics data at render time
   const enrichedClusters = React.useMemo(() => {
     if (!modelClusterScores || modelClusterScores.length === 0) {
       return clusters;
     }
 
+    const edited = editedClusterKeys(clusterEdits);
     return clusters.map(cluster => {
+      // Edited clusters keep the metrics recomputed into their meta
+      if (edited.has(clusterKey(cluster))) return cluster;
       const clusterLabel = cluster.label || cluster.cluster_label || String(cluster.id);
 
       // Find all metrics rows for this cluster
       const clusterMetrics = modelClusterScores.filter((m: any) =>
         m.cluster === clusterLabel || String(m.cluster_id) === String(cluster.id)
       );
+      if (clusterMetrics.length === 0) return cluster;
 
       // Build proportion_by_model, quality_by_model, and quality_delta_by_model
       const proportionByModel: Record<string, number> = {};
@@ -113,7 +129,7 @@ function ClustersTab({ clusters, totalConversationsByModel, totalUniqueConversat
         }
       };
     });
-  }, [clusters, modelClusterScores]);
+  }, [clusters, modelClusterScores, clusterEdits]);
 
   // Smooth entrance animation on initial mount
   const animateOnMountRef = React.useRef(true);
@@ -130,6 +146,21 @@ function ClustersTab({ clusters, totalConversationsByModel, totalUniqueConversat
   const [sortBy, setSortBy] = React.useState<'freqAsc' | 'freqDesc' | 'qualAsc' | 'qualDesc'>('freqDesc');
   const debouncedApplyRef = React.useRef<number | null>(null);
 
+  // Edit mode: checked clusters (to merge), checked properties per cluster (to split or drag together)
+  const [editMode, setEditMode] = React.useState<boolean>(false);
+  const [showMap, setShowMap] = React.useState<boolean>(false);
+  const mapProperties = React.useMemo(() => (showMap && getPropertiesRows ? getPropertiesRows() : []), [showMap, getPropertiesRows]);
+  const [checkedClusters, setCheckedClusters] = React.useState<string[]>([]);
+  const [checkedProperties, setCheckedProperties] = React.useState<Record<string, string[]>>({});
+  const [dropTarget, setDropTarget] = React.useState<string | null>(null);
+  const [editError, setEditError] = React.useState<string | null>(null);
+  const dragRef = React.useRef<{ from: string; ids: string[] } | null>(null);
+
+  const updateSearch = React.useCallback((query: string) => {
+    setSearch(query);
+    onSearchChange?.(query);
+  }, [onSearchChange]);
+
   // Update search when externalSearchQuery changes
   React.useEffect(() => {
     if (externalSearchQuery !== undefined && externalSearchQuery !== search) {
@@ -180,6 +211,91 @@ function ClustersTab({ clusters, totalConversationsByModel, totalUniqueConversat
     return map;
   }, [getPropertiesRows]);
 
+  const runEdit = (edit: () => ClusterEditResult) => {
+    if (!onEditClusters) return;
+    try {
+      const result = edit();
+      onEditClusters(result.clusters, result.edit);
+      setCheckedClusters([]);
+      setCheckedProperties({});
+      setEditError(null);
+    } catch (e: unknown) {
+      setEditError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const mergeChecked = () => {
+    const first = clusters.find(c => clusterKey(c) === checkedClusters[0]);
+    const label = window.prompt('Label for the merged cluster', clusterLabel(first));
+    if (label === null || !label.trim()) return;
+    runEdit(() => mergeClusters(clusters, checkedClusters, label.trim(), propertiesById));
+  };
+
+  const renameFor = (c: ClusterLike) => {
+    const label = window.prompt('Cluster label', clusterLabel(c));
+    if (label === null || !label.trim() || label.trim() === clusterLabel(c)) return;
+    runEdit(() => renameCluster(clusters, clusterKey(c), label.trim()));
+  };
+
+  const splitFor = (c: ClusterLike) => {
+    const label = window.prompt('Label for the new cluster', `${clusterLabel(c)} (split)`);
+    if (label === null || !label.trim()) return;
+    runEdit(() => splitCluster(clusters, clusterKey(c), checkedProperties[clusterKey(c)] || [], label.trim(), propertiesById));
+  };
+
+  const toggleProperty = (key: string, pid: string) => {
+    setCheckedProperties(prev => {
+      const current = prev[key] || [];
+      return { ...prev, [key]: current.includes(pid) ? current.filter(id => id !== pid) : [...current, pid] };
+    });
+  };
+
+  // Dragging a checked property carries every checked property of its cluster
+  const propertyEditProps = (key: string, pid: string | undefined) => {
+    if (!editMode || !pid) return {};
+    return {
+      draggable: true,
+      onDragStart: (e: React.DragEvent) => {
+        const checked = checkedProperties[key] || [];
+        dragRef.current = { from: key, ids: checked.includes(pid) ? checked : [pid] };
+        e.dataTransfer.effectAllowed = 'move';
+      },
+      onDragEnd: () => {
+        dragRef.current = null;
+        setDropTarget(null);
+      },
+    };
+  };
+
+  const propertyEditControls = (key: string, pid: string | undefined) => {
+    if (!editMode || !pid) return null;
+    return (
+      <>
+        <DragIndicatorIcon sx={{ fontSize: 18, color: '#9CA3AF', cursor: 'grab' }} />
+        <Checkbox size="small" sx={{ p: 0.25 }} checked={(checkedProperties[key] || []).includes(pid)} onChange={() => toggleProperty(key, pid)} />
+      </>
+    );
+  };
+
+  const clusterDropProps = (key: string) => {
+    if (!editMode) return {};
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!dragRef.current || dragRef.current.from === key) return;
+        e.preventDefault();
+        setDropTarget(key);
+      },
+      onDragLeave: () => setDropTarget(prev => prev === key ? null : prev),
+      onDrop: (e: React.DragEvent) => {
+        e.preventDefault();
+        const drag = dragRef.current;
+        dragRef.current = null;
+        setDropTarget(null);
+        if (drag) runEdit(() => moveProperties(clusters, drag.from, key, drag.ids, propertiesById));
+      },
+    };
+  };
+
   const applyRecompute = React.useCallback(() => {
     if (!onRequestRecompute) return;
     const hasModelFilter = selectedModels.length > 0;
@@ -226,6 +342,13 @@ function ClustersTab({ clusters, totalConversationsByModel, totalUniqueConversat
     }, 300);
   }, [applyRecompute]);
 
+  // Side-by-side outcomes per cluster, matched on id and falling back to the label
+  const pairwiseFor = React.useMemo(() => {
+    const byId = new Map((pairwiseMetrics || []).map(p => [p.cluster_id, p]));
+    const byLabel = new Map((pairwiseMetrics || []).map(p => [p.cluster_label, p]));
+    return (c: ClusterLike): PairwiseClusterMetrics | undefined => byId.get(String(c?.id)) ?? byLabel.get(clusterLabel(c));
+  }, [pairwiseMetrics]);
+
   const visibleClusters = React.useMemo(() => {
     const query = search.trim().toLowerCase();
     const hasSearch = query.length > 0;
@@ -318,7 +441,7 @@ function ClustersTab({ clusters, totalConversationsByModel, totalUniqueConversat
             size="small"
             placeholder="Search clusters or properties..."
             value={search}
-            onChange={(e) => setSearch(e.target.value)}
+            onChange={(e) => updateSearch(e.target.value)}
             sx={{ minWidth: 260 }}
           />
           <FormControl size="small" sx={{ minWidth: 160 }}>
@@ -380,6 +503,16 @@ function ClustersTab({ clusters, totalConversationsByModel, totalUniqueConversat
               <MenuItem value={'qualDesc'}>Quality ▼</MenuItem>
             </Select>
           </FormControl>
+          {getPropertiesRows && (
+            <Button size="small" variant={showMap ? 'contained' : 'outlined'} onClick={() => setShowMap(!showMap)}>
+              {showMap ? 'Hide map' : 'Behavior map'}
+            </Button>
+          )}
+          {onEditClusters && (
+            <Button size="small" variant={editMode ? 'contained' : 'outlined'} onClick={() => { setEditMode(!editMode); setEditError(null); }}>
+              {editMode ? 'Done editing' : 'Edit clusters'}
+            </Button>
+          )}
           <FormControl size="small" sx={{ minWidth: 120 }}>
             <InputLabel id="decimals-label">Decimals</InputLabel>
             <Select labelId="decimals-label" value={decimals} label="Decimals" onChange={(e) => setDecimals(Number(e.target.value))}>
@@ -391,6 +524,38 @@ function ClustersTab({ clusters, totalConversationsByModel, totalUniqueConversat
           </FormControl>
         </Stack>
       </Box>
+      {showMap && (
+        <PropertyMap
+          properties={mapProperties}
+          clusters={clusters}
+          getOperationalRows={getOperationalRows}
+          onOpenProperty={onOpenPropertyById}
+          onSelectProperties={onSelectProperties}
+        />
+      )}
+      {editMode && (
+        <Box sx={{ px: 1.5, py: 1, borderBottom: '1px solid #E5E7EB', display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', background: '#EFF6FF' }}>
+          <Typography variant="caption" sx={{ color: '#1E3A8A', flex: 1, minWidth: 240 }}>
+            Check clusters to merge them, check properties to split them off, or drag properties onto another cluster. Metrics are recomputed after every edit.
+          </Typography>
+          {clusterEdits.length > 0 && (
+            <Typography variant="caption" sx={{ color: '#6B7280' }}>
+              Last edit: {describeEdit(clusterEdits[clusterEdits.length - 1])}
+            </Typography>
+          )}
+          <Button size="small" variant="contained" disabled={checkedClusters.length < 2} onClick={mergeChecked}>
+            Merge selected ({checkedClusters.length})
+          </Button>
+          {onExportEdits && (
+            <Button size="small" variant="outlined" disabled={clusterEdits.length === 0} onClick={onExportEdits}>
+              Export edits ({clusterEdits.length})
+            </Button>
+          )}
+          {editError && (
+            <Typography variant="caption" sx={{ color: 'error.main', width: '100%' }}>{editError}</Typography>
+          )}
+        </Box>
+      )}
       {(selectedModels.length > 0 || selectedGroups.length > 0 || (search.trim().length > 0)) && (
         <Box sx={{ px: 1.5, py: 1, borderBottom: '1px solid #E5E7EB', display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', background: '#F9FAFB' }}>
           <Typography variant="caption" sx={{ color: '#6B7280' }}>Active filters:</Typography>
@@ -447,27 +612,48 @@ function ClustersTab({ clusters, totalConversationsByModel, totalUniqueConversat
               color="default"
               variant="outlined"
               label={`Search: ${search}`}
-              onDelete={() => setSearch('')}
+              onDelete={() => updateSearch('')}
             />
           )}
-          <Button size="small" variant="text" onClick={() => { setSelectedModels([]); setSelectedGroups([]); setSearch(''); requestRecomputeDebounced(); }}>Clear all</Button>
+          <Button size="small" variant="text" onClick={() => { setSelectedModels([]); setSelectedGroups([]); updateSearch(''); requestRecomputeDebounced(); }}>Clear all</Button>
         </Box>
       )}
       {visibleClusters.map((c, idx) => {
         const meta = (c && c.meta) || {};
+        const pairwise = pairwiseFor(c);
         const overallQuality: Record<string, number> = meta.quality || {};
         const overallQualityDelta: Record<string, number> = meta.quality_delta || {};
         const overallProp: number | undefined = meta.proportion_overall;
         const group: string | undefined = meta.group;
         const perModelProps: Record<string, number> = meta.proportion_by_model || {};
         const clusterUniqueConversations: number | undefined = meta.total_unique_conversations;
+        const key = clusterKey(c);
+        const pickedCount = (checkedProperties[key] || []).length;
 
         const accordion = (
-          <Accordion key={c.id ?? idx} sx={{ '&:before': { display: 'none' }, boxShadow: 'none', borderBottom: '1px solid #E5E7EB' }}>
+          <Accordion key={c.id ?? idx} sx={{ '&:before': { display: 'none' }, boxShadow: 'none', borderBottom: '1px solid #E5E7EB', outline: dropTarget === key ? '2px dashed #3B82F6' : 'none' }} {...clusterDropProps(key)}>
             <AccordionSummary expandIcon={<ExpandMoreIcon />} sx={{ '& .MuiAccordionSummary-content': { my: 1 } }}>
               <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5, width: '100%' }}>
                 <Box sx={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 2 }}>
-                  <Typography variant="body1" sx={{ fontWeight: 600, color: '#111827' }}>{String(c.label || '')}</Typography>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                    {editMode && (
+                      <Checkbox
+                        size="small"
+                        sx={{ p: 0.25 }}
+                        checked={checkedClusters.includes(key)}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={() => setCheckedClusters(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key])}
+                      />
+                    )}
+                    <Typography variant="body1" sx={{ fontWeight: 600, color: '#111827' }}>{String(c.label || '')}</Typography>
+                    {editMode && (
+                      <Tooltip title="Rename cluster">
+                        <IconButton size="small" onClick={(e) => { e.stopPropagation(); renameFor(c); }}>
+                          <EditOutlinedIcon sx={{ fontSize: 16 }} />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </Box>
                   {/* Overall quality metrics (cluster-level) */}
                   {overallQuality && Object.keys(overallQuality).length > 0 && (
                     <Tooltip title="Overall cluster quality across all models">
@@ -655,9 +841,83 @@ function ClustersTab({ clusters, totalConversationsByModel, totalUniqueConversat
                       })()}
                     </Box>
                   )}
+
+                  {/* Side-by-side outcomes when the behavior is present */}
+                  {pairwise && Object.keys(pairwise.by_model).length > 0 && (
+                    <Box sx={{ flex: 1, minWidth: 400 }}>
+                      <Stack direction="row" spacing={0.5} alignItems="center" sx={{ mb: 1 }}>
+                        <Typography variant="subtitle2" sx={{ color: '#334155' }}>Win / Tie / Loss per Model</Typography>
+                        <Tooltip title="Outcomes of each model's side-by-side battles in which it shows this behavior. Preference Δ compares (wins + ½ ties) / battles with the model's overall rate.">
+                          <IconButton size="small"><InfoOutlinedIcon sx={{ fontSize: 16 }} /></IconButton>
+                        </Tooltip>
+                      </Stack>
+                      {(() => {
+                        const entries = Object.entries(pairwise.by_model).sort((a, b) => a[0].localeCompare(b[0]));
+                        const models = entries.map(([m]) => m);
+                        const hover = (s: PairwiseModelStats) => {
+                          const ci = s.preference_delta_ci;
+                          return `Battles: ${s.battles}<br>Preference Δ: ${(s.preference_delta * 100).toFixed(1)} pts` +
+                            (ci ? ` [${(ci.lower * 100).toFixed(1)}, ${(ci.upper * 100).toFixed(1)}]${ci.significant ? ' · significant' : ''}` : '');
+                        };
+                        const traces = ([
+                          ['Win', 'win_rate', '#10B981'],
+                          ['Tie', 'tie_rate', '#94A3B8'],
+                          ['Loss', 'loss_rate', '#EF4444'],
+                        ] as const).map(([name, field, color]) => ({
+                          type: 'bar' as const,
+                          name,
+                          x: models,
+                          y: entries.map(([, s]) => s[field]),
+                          marker: { color },
+                          customdata: entries.map(([, s]) => hover(s)),
+                          hovertemplate: `${name} · %{x}: %{y:.1%}<br>%{customdata}<extra></extra>`,
+                        }));
+                        return (
+                          <>
+                            <Plot
+                              data={traces}
+                              layout={{
+                                barmode: 'stack',
+                                height: 320,
+                                margin: { l: 70, r: 10, t: 60, b: 110 },
+                                xaxis: { tickangle: -30, automargin: true },
+                                yaxis: { title: { text: 'Share of battles', standoff: 15 }, range: [0, 1], tickformat: '.0%' },
+                                paper_bgcolor: '#FAFAFA',
+                                plot_bgcolor: '#FAFAFA',
+                                legend: { orientation: 'h', y: 1.15, x: 0.5, xanchor: 'center', yanchor: 'bottom' }
+                              }}
+                              config={{ displayModeBar: false, responsive: true }}
+                              style={{ width: '100%' }}
+                            />
+                            <Stack direction="row" spacing={0.5} sx={{ flexWrap: 'wrap', rowGap: 0.5 }}>
+                              {entries.map(([model, s]) => (
+                                <Chip
+                                  key={model}
+                                  size="small"
+                                  variant="outlined"
+                                  color={s.preference_delta_ci?.significant ? (s.preference_delta > 0 ? 'success' : 'error') : 'default'}
+                                  label={`${model}: ${s.preference_delta >= 0 ? '+' : ''}${(s.preference_delta * 100).toFixed(1)} pts`}
+                                />
+                              ))}
+                            </Stack>
+                            <Typography variant="caption" sx={{ display: 'block', mt: 0.5, color: '#64748B' }}>
+                              Winner decided by: {describeDecidedBy(pairwise.decided_by)}
+                            </Typography>
+                          </>
+                        );
+                      })()}
+                    </Box>
+                  )}
                 </Box>
 
-                <Typography variant="subtitle2" sx={{ mb: 1, color: '#334155' }}>Properties</Typography>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                  <Typography variant="subtitle2" sx={{ color: '#334155' }}>Properties</Typography>
+                  {editMode && (
+                    <Button size="small" variant="outlined" disabled={pickedCount === 0} onClick={() => splitFor(c)}>
+                      Split {pickedCount > 0 ? `${pickedCount} ` : ''}into new cluster
+                    </Button>
+                  )}
+                </Box>
                 {(() => {
                   const hasItems = Array.isArray((c.meta && (c.meta as any).property_items)) && (c.meta as any).property_items.length > 0;
                   const items: any[] = hasItems ? (c.meta as any).property_items : [];
@@ -680,8 +940,9 @@ function ClustersTab({ clusters, totalConversationsByModel, totalUniqueConversat
                         }}>
                           <Stack spacing={1} sx={{ p: 1 }}>
                             {limited.map((item: any, i: number) => (
-                              <Box key={`${c.id}-${item.property_id || i}`} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', border: '1px solid #E5E7EB', borderRadius: 1, p: 1, background: '#FAFAFA' }}>
+                              <Box key={`${c.id}-${item.property_id || i}`} {...propertyEditProps(key, item.property_id != null ? String(item.property_id) : undefined)} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', border: '1px solid #E5E7EB', borderRadius: 1, p: 1, background: '#FAFAFA' }}>
                                 <Box sx={{ mr: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                                  {propertyEditControls(key, item.property_id != null ? String(item.property_id) : undefined)}
                                   <Typography variant="body2">
                                     {String(item.property_description || '')}
                                   </Typography>
@@ -739,8 +1000,9 @@ function ClustersTab({ clusters, totalConversationsByModel, totalUniqueConversat
                             const modelName = prop?.model != null ? String(prop.model) : null;
                             
                             return (
-                              <Box key={`${c.id}-${pid || i}`} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', border: '1px solid #E5E7EB', borderRadius: 1, p: 1, background: '#FAFAFA' }}>
+                              <Box key={`${c.id}-${pid || i}`} {...propertyEditProps(key, pid)} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', border: '1px solid #E5E7EB', borderRadius: 1, p: 1, background: '#FAFAFA' }}>
                                 <Box sx={{ mr: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                                  {propertyEditControls(key, pid)}
                                   <Typography variant="body2">
                                     {pd}
                                   </Typography>
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useRef } from "react";
 import type { Message } from "../lib/traces";
 import { Box, Typography, Chip, Stack, Accordion, AccordionSummary, AccordionDetails, FormControlLabel, Switch } from "@mui/material";
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
@@ -296,13 +296,23 @@ function applyHighlightToChildren(children: React.ReactNode, highlights?: string
 // Helper function to apply regex highlighting to nodes
 // applyHighlightRegex is unused in the simplified version; removing to keep surface area minimal
 
-export function ConversationTrace({ messages, highlights, rawResponse }: { messages: Message[]; highlights?: string[]; rawResponse?: any }) {
+export function ConversationTrace({ messages, highlights, rawResponse, onSelectText }: { messages: Message[]; highlights?: string[]; rawResponse?: any; onSelectText?: (text: string) => void }) {
   const [prettyPrintEnabled, setPrettyPrintEnabled] = useState(true);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // Report text selected inside this trace (used to author properties from a span)
+  const handleMouseUp = () => {
+    if (!onSelectText) return;
+    const selection = window.getSelection();
+    const text = selection?.toString().trim();
+    if (!text || !selection?.anchorNode || !rootRef.current?.contains(selection.anchorNode)) return;
+    onSelectText(text);
+  };
 
   console.log('[ConversationTrace] Rendering with highlights:', highlights);
 
   return (
-    <Box sx={{ display: "flex", flexDirection: "column", gap: 1 }}>
+    <Box ref={rootRef} onMouseUp={handleMouseUp} sx={{ display: "flex", flexDirection: "column", gap: 1 }}>
       {messages.map((m, i) => {
         const isStructuredContent = typeof m.content === 'object' && m.content !== null;
         const hasToolCalls = isStructuredContent && m.content.tool_calls;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Box, TextField, Chip, Stack, Autocomplete, Button, FormControlLabel, Switch, Divider } from '@mui/material';
+import { Box, TextField, Chip, Stack, Autocomplete, Button, FormControlLabel, Switch, Divider, MenuItem } from '@mui/material';
 
 interface Filter {
   column: string;
@@ -25,6 +25,8 @@ interface FilterBarProps {
   filters?: Filter[];
   onRemoveFilter?: (index: number) => void;
   uniqueValuesFor?: (column: string) => string[];
+  // Structured filter expressions (e.g. "score_helpfulness < 3"); should throw on invalid input
+  onAddFilterExpression?: (expression: string) => void;
   
   // Fixed column filtering (for properties tab)
   fixedFilters?: {
@@ -50,6 +52,12 @@ interface FilterBarProps {
   onCustomCodeRun?: () => void;
   onReset?: () => void;
   customCodeError?: string | null;
+  // Custom code runtime: backend Python (dfCustom) or in-browser JavaScript sandbox
+  customCodeRuntime?: 'python' | 'javascript';
+  onCustomCodeRuntimeChange?: (runtime: 'python' | 'javascript') => void;
+  pythonRuntimeAvailable?: boolean;
+  customCodeJsMode?: 'predicate' | 'transform';
+  onCustomCodeJsModeChange?: (mode: 'predicate' | 'transform') => void;
 }
 
 export default function FilterBar({
@@ -67,6 +75,7 @@ export default function FilterBar({
   filters = [],
   onRemoveFilter,
   uniqueValuesFor,
+  onAddFilterExpression,
   fixedFilters = [],
   resultCount,
   resultLabel = 'results',
@@ -79,8 +88,26 @@ export default function FilterBar({
   onCustomCodeChange,
   onCustomCodeRun,
   onReset,
-  customCodeError
+  customCodeError,
+  customCodeRuntime = 'python',
+  onCustomCodeRuntimeChange,
+  pythonRuntimeAvailable = true,
+  customCodeJsMode = 'predicate',
+  onCustomCodeJsModeChange
 }: FilterBarProps) {
+  const [expression, setExpression] = React.useState('');
+  const [expressionError, setExpressionError] = React.useState<string | null>(null);
+
+  const addExpression = () => {
+    if (!onAddFilterExpression || !expression.trim()) return;
+    try {
+      onAddFilterExpression(expression);
+      setExpression('');
+      setExpressionError(null);
+    } catch (e: any) {
+      setExpressionError(String(e?.message || e));
+    }
+  };
   
   return (
     <Box sx={{ 
@@ -147,6 +174,24 @@ export default function FilterBar({
               >
                 Add Filter
               </Button>
+              {onAddFilterExpression && (
+                <>
+                  <TextField
+                    size="small"
+                    label="Filter expression"
+                    placeholder="score_helpfulness < 3"
+                    value={expression}
+                    onChange={(e) => { setExpression(e.target.value); setExpressionError(null); }}
+                    onKeyDown={(e) => { if (e.key === 'Enter') addExpression(); }}
+                    error={Boolean(expressionError)}
+                    sx={{ minWidth: 220, flex: '0 1 auto' }}
+                    InputProps={{ sx: { fontFamily: 'monospace', fontSize: 13 } }}
+                  />
+                  <Button variant="outlined" disabled={!expression.trim()} onClick={addExpression}>
+                    Apply
+                  </Button>
+                </>
+              )}
               {filters.map((f, i) => (
                 <Chip 
                   key={`${f.column}-${i}`} 
@@ -191,12 +236,42 @@ export default function FilterBar({
           <>
             <Divider orientation="vertical" flexItem sx={{ display: { xs: 'none', md: 'block' } }} />
             <Stack direction="row" spacing={1} alignItems="center" sx={{ flex: 1 }}>
+              {onCustomCodeRuntimeChange && (
+                <TextField
+                  select
+                  size="small"
+                  label="Runtime"
+                  value={customCodeRuntime}
+                  onChange={(e) => onCustomCodeRuntimeChange(e.target.value as 'python' | 'javascript')}
+                  sx={{ minWidth: 110 }}
+                >
+                  <MenuItem value="javascript">JS</MenuItem>
+                  <MenuItem value="python" disabled={!pythonRuntimeAvailable}>Python</MenuItem>
+                </TextField>
+              )}
+              {customCodeRuntime === 'javascript' && onCustomCodeJsModeChange && (
+                <TextField
+                  select
+                  size="small"
+                  label="Mode"
+                  value={customCodeJsMode}
+                  onChange={(e) => onCustomCodeJsModeChange(e.target.value as 'predicate' | 'transform')}
+                  sx={{ minWidth: 120 }}
+                >
+                  <MenuItem value="predicate">Filter</MenuItem>
+                  <MenuItem value="transform">Transform</MenuItem>
+                </TextField>
+              )}
               <TextField 
                 size="small" 
                 fullWidth 
-                placeholder={"Custom expression"} 
+                placeholder={customCodeRuntime === 'javascript'
+                  ? (customCodeJsMode === 'transform' ? "({ ...row, len: String(row.model_response).length })" : "row.score?.helpfulness > 3")
+                  : "Custom expression"} 
                 value={customCodeValue} 
                 onChange={(e) => onCustomCodeChange?.(e.target.value)} 
+                onKeyDown={(e) => { if (e.key === 'Enter') onCustomCodeRun?.(); }}
+                InputProps={{ sx: { fontFamily: 'monospace', fontSize: 13 } }}
               />
               <Button variant="outlined" onClick={onCustomCodeRun}>Run</Button>
               <Button variant="text" onClick={onReset}>Reset</Button>
@@ -205,6 +280,13 @@ export default function FilterBar({
         )}
       </Stack>
       
+      {/* Filter Expression Error */}
+      {expressionError && (
+        <Box sx={{ color: '#b91c1c', mt: 1, fontSize: 12 }}>
+          {expressionError}
+        </Box>
+      )}
+
       {/* Custom Code Error */}
       {customCodeError && (
         <Box sx={{ color: '#b91c1c', mt: 1, fontSize: 12 }}>
@@ -1,24 +1,55 @@
-import React from 'react';
-import { Box, Chip, Typography, Stack } from '@mui/material';
+import React, { useState } from 'react';
+import { Box, Chip, Typography, Stack, IconButton, Tooltip } from '@mui/material';
+import UndoIcon from '@mui/icons-material/Undo';
+import RedoIcon from '@mui/icons-material/Redo';
+import VisibilityOutlinedIcon from '@mui/icons-material/VisibilityOutlined';
+import VisibilityOffOutlinedIcon from '@mui/icons-material/VisibilityOffOutlined';
 import type { DataOperation } from '../types/operations';
 import { getOperationDescription } from '../types/operations';
 
 interface FilterSummaryProps {
   operations: DataOperation[];
   onRemoveOperation: (operationId: string) => void;
+  onToggleOperation?: (operationId: string) => void;
+  onMoveOperation?: (fromIndex: number, toIndex: number) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  // Extra controls rendered in the header (e.g. checkpoints)
+  actions?: React.ReactNode;
 }
 
 const FilterSummary: React.FC<FilterSummaryProps> = ({
   operations,
-  onRemoveOperation
+  onRemoveOperation,
+  onToggleOperation,
+  onMoveOperation,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  actions
 }) => {
-  if (operations.length === 0) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Stay visible with an empty chain while there is history or an actions slot to use
+  if (operations.length === 0 && !canUndo && !canRedo && !actions) {
     return null;
   }
 
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
   const getOperationColor = (type: string) => {
     switch (type) {
-      case 'filter': return { bg: '#DBEAFE', text: '#1E40AF' };
+      case 'filter':
+      case 'numeric_filter':
+      case 'text_filter':
+      case 'empty_filter': return { bg: '#DBEAFE', text: '#1E40AF' };
       case 'custom': return { bg: '#FEF3C7', text: '#92400E' };
       case 'sort': return { bg: '#D1FAE5', text: '#065F46' };
       default: return { bg: '#F3F4F6', text: '#374151' };
@@ -27,7 +58,10 @@ const FilterSummary: React.FC<FilterSummaryProps> = ({
 
   const getOperationTypeLabel = (type: string) => {
     switch (type) {
-      case 'filter': return 'Filter';
+      case 'filter':
+      case 'numeric_filter':
+      case 'text_filter':
+      case 'empty_filter': return 'Filter';
       case 'custom': return 'Custom';
       case 'sort': return 'Sort';
       default: return 'Unknown';
@@ -44,15 +78,37 @@ const FilterSummary: React.FC<FilterSummaryProps> = ({
       fontSize: 14
     }}>
       <Stack spacing={1.5}>
-        <Typography variant="subtitle2" sx={{ 
-          color: '#1E40AF', 
-          fontWeight: 600, 
-          fontSize: 13, 
-          textTransform: 'uppercase',
-          letterSpacing: 0.5
-        }}>
-          Operation Chain ({operations.length})
-        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="subtitle2" sx={{ 
+            color: '#1E40AF', 
+            fontWeight: 600, 
+            fontSize: 13, 
+            textTransform: 'uppercase',
+            letterSpacing: 0.5
+          }}>
+            Operation Chain ({operations.length})
+          </Typography>
+          {onUndo && (
+            <Tooltip title="Undo (Ctrl+Z)">
+              <span>
+                <IconButton size="small" onClick={onUndo} disabled={!canUndo}>
+                  <UndoIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          )}
+          {onRedo && (
+            <Tooltip title="Redo (Ctrl+Shift+Z)">
+              <span>
+                <IconButton size="small" onClick={onRedo} disabled={!canRedo}>
+                  <RedoIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          )}
+          <Box sx={{ flex: 1 }} />
+          {actions}
+        </Box>
 
         <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
           {operations.map((operation, index) => {
@@ -62,11 +118,44 @@ const FilterSummary: React.FC<FilterSummaryProps> = ({
                 key={operation.id}
                 label={`${index + 1}. ${getOperationTypeLabel(operation.type)}: ${getOperationDescription(operation)}`}
                 onDelete={() => onRemoveOperation(operation.id)}
+                icon={onToggleOperation ? (
+                  <Tooltip title={operation.disabled ? 'Enable operation' : 'Disable operation'}>
+                    {operation.disabled
+                      ? <VisibilityOffOutlinedIcon onClick={() => onToggleOperation(operation.id)} />
+                      : <VisibilityOutlinedIcon onClick={() => onToggleOperation(operation.id)} />}
+                  </Tooltip>
+                ) : undefined}
                 size="small"
+                draggable={Boolean(onMoveOperation)}
+                onDragStart={(e) => {
+                  setDragIndex(index);
+                  e.dataTransfer.effectAllowed = 'move';
+                }}
+                onDragOver={(e) => {
+                  if (dragIndex === null) return;
+                  e.preventDefault();
+                  setDropIndex(index);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (onMoveOperation && dragIndex !== null && dragIndex !== index) {
+                    onMoveOperation(dragIndex, index);
+                  }
+                  endDrag();
+                }}
+                onDragEnd={endDrag}
                 sx={{
                   backgroundColor: colors.bg,
                   color: colors.text,
                   fontFamily: operation.type === 'custom' ? 'monospace' : 'inherit',
+                  opacity: operation.disabled ? 0.5 : 1,
+                  textDecoration: operation.disabled ? 'line-through' : 'none',
+                  cursor: onMoveOperation ? 'grab' : 'default',
+                  outline: dropIndex === index && dragIndex !== index ? `2px dashed ${colors.text}` : 'none',
+                  '& .MuiChip-icon': {
+                    color: colors.text,
+                    cursor: 'pointer'
+                  },
                   '& .MuiChip-deleteIcon': {
                     color: colors.text,
                     '&:hover': {
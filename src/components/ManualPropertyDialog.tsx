@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  TextField,
+  MenuItem,
+  Autocomplete,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import { BEHAVIOR_TYPES, type ManualPropertyDraft } from '../lib/manualProperties';
+
+interface ManualPropertyDialogProps {
+  open: boolean;
+  mode: 'create' | 'edit';
+  initial: ManualPropertyDraft | null;
+  models: string[]; // models the property can describe (both sides for side-by-side rows)
+  categories: string[]; // existing categories, offered as suggestions
+  onSave: (draft: ManualPropertyDraft) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Create or edit a human-authored property
+ */
+export function ManualPropertyDialog({
+  open,
+  mode,
+  initial,
+  models,
+  categories,
+  onSave,
+  onDelete,
+  onClose,
+}: ManualPropertyDialogProps) {
+  const [draft, setDraft] = useState<ManualPropertyDraft | null>(initial);
+
+  React.useEffect(() => {
+    if (open) setDraft(initial);
+  }, [open, initial]);
+
+  if (!draft) return null;
+  const update = (patch: Partial<ManualPropertyDraft>) => setDraft({ ...draft, ...patch });
+  const behaviorTypes = draft.behavior_type && !BEHAVIOR_TYPES.includes(draft.behavior_type)
+    ? [...BEHAVIOR_TYPES, draft.behavior_type]
+    : BEHAVIOR_TYPES;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{mode === 'create' ? 'New property' : 'Edit property'}</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <TextField
+            label="Property description"
+            value={draft.property_description}
+            onChange={(e) => update({ property_description: e.target.value })}
+            multiline
+            minRows={2}
+            autoFocus
+          />
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Autocomplete
+              freeSolo
+              options={categories}
+              inputValue={draft.category}
+              onInputChange={(_, v) => update({ category: v })}
+              renderInput={(params) => <TextField {...params} label="Category" size="small" />}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              select
+              size="small"
+              label="Behavior type"
+              value={draft.behavior_type}
+              onChange={(e) => update({ behavior_type: e.target.value })}
+              sx={{ flex: 1 }}
+            >
+              {behaviorTypes.map(t => (
+                <MenuItem key={t} value={t}>{t}</MenuItem>
+              ))}
+            </TextField>
+          </Box>
+          {models.length > 1 && (
+            <TextField
+              select
+              size="small"
+              label="Model"
+              value={draft.model}
+              onChange={(e) => update({ model: e.target.value })}
+            >
+              {models.map(m => (
+                <MenuItem key={m} value={m}>{m}</MenuItem>
+              ))}
+            </TextField>
+          )}
+          <TextField
+            label="Evidence (one quote per line)"
+            value={draft.evidence.join('\n')}
+            onChange={(e) => update({ evidence: e.target.value.split('\n') })}
+            multiline
+            minRows={2}
+            maxRows={8}
+          />
+          <TextField
+            label="Reason"
+            value={draft.reason}
+            onChange={(e) => update({ reason: e.target.value })}
+            multiline
+            minRows={2}
+          />
+          <Box>
+            <FormControlLabel
+              control={<Checkbox size="small" checked={draft.contains_errors} onChange={(e) => update({ contains_errors: e.target.checked })} />}
+              label="Contains errors"
+            />
+            <FormControlLabel
+              control={<Checkbox size="small" checked={draft.unexpected_behavior} onChange={(e) => update({ unexpected_behavior: e.target.checked })} />}
+              label="Unexpected behavior"
+            />
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        {onDelete && (
+          <Button color="error" onClick={onDelete} sx={{ mr: 'auto' }}>Delete</Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          disabled={!draft.property_description.trim()}
+          onClick={() => onSave(draft)}
+        >
+          {mode === 'create' ? 'Add property' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
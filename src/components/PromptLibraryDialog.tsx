@@ -0,0 +1,369 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Divider,
+  Alert,
+} from '@mui/material';
+import {
+  createPrompt,
+  addPromptVersion,
+  renamePrompt,
+  deletePrompt,
+  getPromptVersion,
+  latestVersion,
+  exportPromptLibrary,
+  importPromptLibrary,
+  diffLines,
+  sideBySideRows,
+  type LibraryPrompt,
+  type DiffLine,
+} from '../lib/promptLibrary';
+import { downloadBlob } from '../lib/exportResults';
+
+interface PromptLibraryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  prompts: LibraryPrompt[];
+  onChange: (prompts: LibraryPrompt[]) => void;
+  builtinPrompts: string[];
+  loadBuiltinText: (name: string) => Promise<string>;
+  onUse: (promptId: string, version: number) => void;
+  initialPromptId?: string | null;
+}
+
+const MONO = 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace';
+
+const DIFF_COLORS: Record<DiffLine['type'], string> = {
+  same: 'transparent',
+  add: '#DCFCE7',
+  del: '#FEE2E2',
+};
+
+function DiffView({ before, after }: { before: string; after: string }) {
+  const rows = React.useMemo(() => sideBySideRows(diffLines(before, after)), [before, after]);
+  const cell = (line: DiffLine | null) => (
+    <Box sx={{
+      px: 1,
+      whiteSpace: 'pre-wrap',
+      wordBreak: 'break-word',
+      minHeight: '1.5em',
+      backgroundColor: line ? DIFF_COLORS[line.type] : '#F3F4F6',
+    }}>
+      {line?.text ?? ''}
+    </Box>
+  );
+  return (
+    <Box sx={{
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr',
+      columnGap: 1,
+      border: '1px solid',
+      borderColor: 'divider',
+      borderRadius: 1,
+      maxHeight: 360,
+      overflow: 'auto',
+      fontFamily: MONO,
+      fontSize: 12,
+      lineHeight: 1.5,
+    }}>
+      {rows.map((r, i) => (
+        <React.Fragment key={i}>
+          {cell(r.left)}
+          {cell(r.right)}
+        </React.Fragment>
+      ))}
+    </Box>
+  );
+}
+
+/**
+ * Dialog for creating, forking, editing and comparing versioned extraction prompts
+ */
+export function PromptLibraryDialog({
+  open,
+  onClose,
+  prompts,
+  onChange,
+  builtinPrompts,
+  loadBuiltinText,
+  onUse,
+  initialPromptId,
+}: PromptLibraryDialogProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [version, setVersion] = useState<number | null>(null);
+  const [draft, setDraft] = useState<string>('');
+  const [note, setNote] = useState<string>('');
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = prompts.find(p => p.id === selectedId) || null;
+  const current = selected ? getPromptVersion(selected, version) : null;
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setInfo(null);
+    setSelectedId(initialPromptId || prompts[0]?.id || null);
+    setVersion(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  // Load the selected version into the editor
+  useEffect(() => {
+    setDraft(current?.text ?? '');
+    setNote('');
+    if (selected) {
+      const last = latestVersion(selected).version;
+      setCompareFrom(Math.max(1, last - 1));
+      setCompareTo(last);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedId, current?.version]);
+
+  const select = (id: string, v: number | null = null) => {
+    setSelectedId(id);
+    setVersion(v);
+  };
+
+  const createFrom = (name: string, text: string, forkedFrom?: string) => {
+    const res = createPrompt(prompts, name, text, forkedFrom);
+    onChange(res.prompts);
+    select(res.prompt.id);
+  };
+
+  const forkBuiltin = async (name: string) => {
+    setError(null);
+    try {
+      createFrom(`${name} (fork)`, await loadBuiltinText(name), name);
+    } catch (e: unknown) {
+      setError(`Failed to load prompt '${name}': ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const saveVersion = () => {
+    if (!selected) return;
+    if (draft === latestVersion(selected).text) {
+      setInfo('No changes from the latest version');
+      return;
+    }
+    onChange(addPromptVersion(prompts, selected.id, draft, note));
+    setInfo(null);
+    setVersion(null); // jump to the new latest version
+  };
+
+  const onImportFile = async (file: File) => {
+    setError(null);
+    try {
+      const res = importPromptLibrary(await file.text(), prompts);
+      onChange(res.prompts);
+      setInfo(`Imported ${res.added} new prompt${res.added === 1 ? '' : 's'}, updated ${res.updated}`);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const exportPrompts = (list: LibraryPrompt[], filename: string) => {
+    downloadBlob(new Blob([exportPromptLibrary(list)], { type: 'application/json' }), filename);
+  };
+
+  const dirty = Boolean(selected && current && draft !== current.text);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Prompt library</DialogTitle>
+      <DialogContent dividers sx={{ display: 'flex', gap: 2, minHeight: 480 }}>
+        <Box sx={{ width: 240, flexShrink: 0, display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <Button size="small" variant="outlined" onClick={() => createFrom('New prompt', '')}>
+            New prompt
+          </Button>
+          <TextField
+            select
+            size="small"
+            label="Fork built-in"
+            value=""
+            onChange={(e) => void forkBuiltin(e.target.value)}
+          >
+            {builtinPrompts.map(name => (
+              <MenuItem key={name} value={name}>{name}</MenuItem>
+            ))}
+          </TextField>
+          <Divider />
+          <List dense sx={{ flex: 1, overflow: 'auto' }}>
+            {prompts.length === 0 && (
+              <Typography variant="caption" sx={{ color: 'text.secondary', px: 1 }}>
+                No saved prompts yet
+              </Typography>
+            )}
+            {prompts.map(p => (
+              <ListItemButton key={p.id} selected={p.id === selectedId} onClick={() => select(p.id)}>
+                <ListItemText
+                  primary={p.name}
+                  secondary={`v${latestVersion(p).version} · ${new Date(p.updatedAt).toLocaleDateString()}`}
+                />
+              </ListItemButton>
+            ))}
+          </List>
+          <Divider />
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button size="small" onClick={() => fileInputRef.current?.click()}>Import</Button>
+            <Button size="small" disabled={prompts.length === 0} onClick={() => exportPrompts(prompts, 'stringsight-prompts.json')}>
+              Export all
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void onImportFile(file);
+                e.target.value = '';
+              }}
+            />
+          </Box>
+        </Box>
+
+        <Box sx={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {error && <Alert severity="error" onClose={() => setError(null)}>{error}</Alert>}
+          {info && <Alert severity="info" onClose={() => setInfo(null)}>{info}</Alert>}
+          {!selected && (
+            <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+              Create a prompt or fork a built-in one to start editing.
+            </Typography>
+          )}
+          {selected && current && (
+            <>
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <TextField
+                  size="small"
+                  label="Name"
+                  key={selected.id}
+                  defaultValue={selected.name}
+                  onBlur={(e) => {
+                    if (e.target.value !== selected.name) onChange(renamePrompt(prompts, selected.id, e.target.value));
+                  }}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  select
+                  size="small"
+                  label="Version"
+                  value={current.version}
+                  onChange={(e) => setVersion(Number(e.target.value))}
+                  sx={{ width: 220 }}
+                >
+                  {[...selected.versions].reverse().map(v => (
+                    <MenuItem key={v.version} value={v.version}>
+                      v{v.version} · {new Date(v.createdAt).toLocaleString()}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              </Box>
+              {(current.note || selected.forkedFrom) && (
+                <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                  {current.note || `Forked from ${selected.forkedFrom}`}
+                </Typography>
+              )}
+              <TextField
+                label="System prompt"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                multiline
+                minRows={10}
+                maxRows={18}
+                InputProps={{ sx: { fontFamily: MONO, fontSize: 12 } }}
+              />
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+                <TextField
+                  size="small"
+                  label="Version note (optional)"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  sx={{ flex: 1, minWidth: 200 }}
+                />
+                <Button variant="contained" size="small" disabled={!dirty} onClick={saveVersion}>
+                  Save as v{latestVersion(selected).version + 1}
+                </Button>
+                <Button
+                  size="small"
+                  onClick={() => createFrom(`${selected.name} (fork)`, draft, `custom:${selected.id}@${current.version}`)}
+                >
+                  Fork
+                </Button>
+                <Button size="small" onClick={() => exportPrompts([selected], `${selected.name.replace(/[^\w-]+/g, '_')}.json`)}>
+                  Export
+                </Button>
+                <Button
+                  size="small"
+                  color="error"
+                  onClick={() => {
+                    if (!window.confirm(`Delete prompt "${selected.name}" and all its versions?`)) return;
+                    onChange(deletePrompt(prompts, selected.id));
+                    setSelectedId(null);
+                  }}
+                >
+                  Delete
+                </Button>
+              </Box>
+
+              {selected.versions.length > 1 && compareFrom !== null && compareTo !== null && (
+                <Box>
+                  <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 1 }}>
+                    <Typography variant="subtitle2" sx={{ mr: 1 }}>Compare</Typography>
+                    {[{ value: compareFrom, set: setCompareFrom }, { value: compareTo, set: setCompareTo }].map((c, i) => (
+                      <TextField
+                        key={i}
+                        select
+                        size="small"
+                        value={c.value}
+                        onChange={(e) => c.set(Number(e.target.value))}
+                        sx={{ width: 100 }}
+                      >
+                        {selected.versions.map(v => (
+                          <MenuItem key={v.version} value={v.version}>v{v.version}</MenuItem>
+                        ))}
+                      </TextField>
+                    ))}
+                  </Box>
+                  <DiffView
+                    before={getPromptVersion(selected, compareFrom).text}
+                    after={getPromptVersion(selected, compareTo).text}
+                  />
+                </Box>
+              )}
+            </>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        {selected && current && (
+          <Button
+            variant="outlined"
+            disabled={dirty}
+            onClick={() => {
+              onUse(selected.id, current.version);
+              onClose();
+            }}
+          >
+            Use v{current.version} for extraction
+          </Button>
+        )}
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,303 @@
+import React, { useState, useRef } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  MenuItem,
+  Chip,
+  LinearProgress,
+  Alert,
+  Link,
+} from '@mui/material';
+import {
+  runPlaygroundRow,
+  computePlaygroundStats,
+  sampleRows,
+  type PlaygroundVariant,
+  type PlaygroundRowResult,
+  type PlaygroundStats,
+} from '../lib/promptPlayground';
+import type { PropertyLike } from './cards/PropertyCard';
+
+type VariantKey = 'A' | 'B';
+
+interface VariantConfig {
+  prompt: string;
+  model: string;
+}
+
+interface PromptPlaygroundDialogProps {
+  open: boolean;
+  onClose: () => void;
+  method: 'single_model' | 'side_by_side';
+  getRows: () => Record<string, unknown>[];
+  promptChoices: { value: string; label: string }[];
+  defaultPrompt: string;
+  defaultModel: string;
+  resolvePrompt: (value: string) => Omit<PlaygroundVariant, 'model_name'>;
+  settings: { temperature: number; top_p: number; max_tokens: number };
+  onPromote: (properties: PropertyLike[]) => void;
+}
+
+// Rows extracted in parallel (each runs both variants)
+const CONCURRENCY = 2;
+
+function truncate(text: unknown, n: number): string {
+  const s = typeof text === 'string' ? text : JSON.stringify(text ?? '');
+  return s.length > n ? `${s.slice(0, n)}…` : s;
+}
+
+function StatsColumn({ stats }: { stats: PlaygroundStats }) {
+  const topCategories = Object.entries(stats.categories).sort((a, b) => b[1] - a[1]).slice(0, 6);
+  return (
+    <Box>
+      <Typography variant="body2">
+        <strong>{stats.propertyCount}</strong> properties · {stats.propertiesPerRow.toFixed(1)} per row
+        {stats.failedRows > 0 && ` · ${stats.failedRows} failed row${stats.failedRows === 1 ? '' : 's'}`}
+      </Typography>
+      <Typography variant="body2">
+        Evidence match: {stats.evidenceMatchRate === null
+          ? '—'
+          : `${Math.round(stats.evidenceMatchRate * 100)}% (${stats.evidenceMatched}/${stats.evidenceItems})`}
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
+        {topCategories.map(([category, count]) => (
+          <Chip key={category} size="small" label={`${category} · ${count}`} />
+        ))}
+      </Box>
+    </Box>
+  );
+}
+
+function ResultColumn({ result }: { result?: PlaygroundRowResult }) {
+  const [showDebug, setShowDebug] = useState<boolean>(false);
+  if (!result) {
+    return <Typography variant="caption" sx={{ color: 'text.secondary' }}>Pending…</Typography>;
+  }
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.75 }}>
+      {result.error && (
+        <Typography variant="caption" sx={{ color: 'error.main' }}>{result.error}</Typography>
+      )}
+      {result.properties.length === 0 && !result.error && (
+        <Typography variant="caption" sx={{ color: 'text.secondary' }}>No properties</Typography>
+      )}
+      {result.properties.map((p, i) => (
+        <Box key={i} sx={{ p: 1, border: '1px solid', borderColor: 'divider', borderRadius: 1 }}>
+          <Typography variant="body2" sx={{ fontWeight: 600 }}>{p.property_description || `Property ${i + 1}`}</Typography>
+          <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 0.5 }}>
+            {p.category && <Chip size="small" label={p.category} />}
+            {p.behavior_type && <Chip size="small" variant="outlined" label={p.behavior_type} />}
+            {p.model && <Chip size="small" variant="outlined" label={p.model} />}
+          </Box>
+          {p.evidence && (
+            <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mt: 0.5 }}>
+              Evidence: {truncate(p.evidence, 200)}
+            </Typography>
+          )}
+        </Box>
+      ))}
+      {result.debug != null && (
+        <>
+          <Link component="button" variant="caption" onClick={() => setShowDebug(!showDebug)} sx={{ alignSelf: 'flex-start' }}>
+            {showDebug ? 'Hide debug output' : 'Show debug output'}
+          </Link>
+          {showDebug && (
+            <Box component="pre" sx={{ m: 0, p: 1, fontSize: 11, maxHeight: 200, overflow: 'auto', bgcolor: '#F9FAFB', borderRadius: 1 }}>
+              {JSON.stringify(result.debug, null, 2)}
+            </Box>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Run the same sample of rows through two extraction variants and compare the results
+ */
+export function PromptPlaygroundDialog({
+  open,
+  onClose,
+  method,
+  getRows,
+  promptChoices,
+  defaultPrompt,
+  defaultModel,
+  resolvePrompt,
+  settings,
+  onPromote,
+}: PromptPlaygroundDialogProps) {
+  const [variants, setVariants] = useState<Record<VariantKey, VariantConfig>>({
+    A: { prompt: defaultPrompt, model: defaultModel },
+    B: { prompt: defaultPrompt, model: defaultModel },
+  });
+  const [sampleSize, setSampleSize] = useState<number>(5);
+  const [offset, setOffset] = useState<number>(0);
+  const [sample, setSample] = useState<Record<string, unknown>[]>([]);
+  const [results, setResults] = useState<Record<VariantKey, (PlaygroundRowResult | undefined)[]>>({ A: [], B: [] });
+  const [running, setRunning] = useState<boolean>(false);
+  const [promoted, setPromoted] = useState<string | null>(null);
+  const cancelRef = useRef<boolean>(false);
+
+  // Start from the panel's current prompt/model until a comparison has been run
+  React.useEffect(() => {
+    if (!open || sample.length > 0) return;
+    setVariants({
+      A: { prompt: defaultPrompt, model: defaultModel },
+      B: { prompt: defaultPrompt, model: defaultModel },
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const setVariant = (key: VariantKey, patch: Partial<VariantConfig>) => {
+    setVariants(prev => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+  };
+
+  const run = async () => {
+    const rows = sampleRows(getRows(), Math.max(1, sampleSize), offset);
+    const resolved: Record<VariantKey, PlaygroundVariant> = {
+      A: { ...resolvePrompt(variants.A.prompt), model_name: variants.A.model },
+      B: { ...resolvePrompt(variants.B.prompt), model_name: variants.B.model },
+    };
+    setSample(rows);
+    setResults({ A: new Array(rows.length).fill(undefined), B: new Array(rows.length).fill(undefined) });
+    setPromoted(null);
+    setRunning(true);
+    cancelRef.current = false;
+
+    let next = 0;
+    const worker = async () => {
+      while (next < rows.length && !cancelRef.current) {
+        const i = next++;
+        await Promise.all((['A', 'B'] as VariantKey[]).map(async key => {
+          const result = await runPlaygroundRow(rows[i], method, resolved[key], settings);
+          setResults(prev => {
+            const list = [...prev[key]];
+            list[i] = result;
+            return { ...prev, [key]: list };
+          });
+        }));
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, rows.length) }, worker));
+    setRunning(false);
+  };
+
+  const stats = {
+    A: computePlaygroundStats(sample, results.A, method),
+    B: computePlaygroundStats(sample, results.B, method),
+  };
+  const finished = results.A.filter(Boolean).length + results.B.filter(Boolean).length;
+  const total = sample.length * 2;
+  const rowCount = getRows().length;
+
+  const promote = (key: VariantKey) => {
+    const properties = results[key].flatMap(r => r?.properties || []);
+    onPromote(properties);
+    setPromoted(`Promoted ${properties.length} properties from variant ${key}`);
+  };
+
+  return (
+    <Dialog open={open} onClose={running ? undefined : onClose} maxWidth="xl" fullWidth>
+      <DialogTitle>Prompt A/B playground</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mb: 2 }}>
+          {(['A', 'B'] as VariantKey[]).map(key => (
+            <Box key={key} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              <Typography variant="subtitle2" sx={{ width: 20 }}>{key}</Typography>
+              <TextField
+                select
+                size="small"
+                label="Prompt"
+                value={variants[key].prompt}
+                onChange={(e) => setVariant(key, { prompt: e.target.value })}
+                sx={{ flex: 2 }}
+                disabled={running}
+              >
+                {promptChoices.map(c => (
+                  <MenuItem key={c.value} value={c.value}>{c.label}</MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                size="small"
+                label="Model"
+                value={variants[key].model}
+                onChange={(e) => setVariant(key, { model: e.target.value })}
+                sx={{ flex: 1 }}
+                disabled={running}
+              />
+            </Box>
+          ))}
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+          <TextField
+            size="small"
+            label="Rows"
+            type="number"
+            value={sampleSize}
+            onChange={(e) => setSampleSize(Math.max(1, Number(e.target.value) || 1))}
+            sx={{ width: 100 }}
+            disabled={running}
+          />
+          <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+            of {rowCount} rows (evenly spaced sample; both variants see the same rows)
+          </Typography>
+          <Button size="small" disabled={running} onClick={() => setOffset(o => o + 1)}>
+            Shift sample
+          </Button>
+          <Box sx={{ flex: 1 }} />
+          {running ? (
+            <Button variant="outlined" color="error" onClick={() => { cancelRef.current = true; }}>
+              Stop
+            </Button>
+          ) : (
+            <Button variant="contained" onClick={run} disabled={rowCount === 0}>
+              Run A/B
+            </Button>
+          )}
+        </Box>
+        {running && <LinearProgress variant="determinate" value={total > 0 ? (finished / total) * 100 : 0} sx={{ mb: 2 }} />}
+        {promoted && <Alert severity="success" sx={{ mb: 2 }}>{promoted}</Alert>}
+
+        {sample.length > 0 && (
+          <>
+            <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mb: 2, p: 1.5, bgcolor: '#F9FAFB', borderRadius: 1 }}>
+              {(['A', 'B'] as VariantKey[]).map(key => (
+                <Box key={key}>
+                  <Typography variant="subtitle2" sx={{ mb: 0.5 }}>Variant {key}</Typography>
+                  <StatsColumn stats={stats[key]} />
+                </Box>
+              ))}
+            </Box>
+            {sample.map((row, i) => (
+              <Box key={i} sx={{ mb: 2, borderTop: '1px solid', borderColor: 'divider', pt: 1 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>
+                  {row.__index !== undefined ? `Row ${row.__index}` : `Question ${row.question_id}`} · {truncate(row.prompt, 160)}
+                </Typography>
+                <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+                  <ResultColumn result={results.A[i]} />
+                  <ResultColumn result={results.B[i]} />
+                </Box>
+              </Box>
+            ))}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button disabled={running || stats.A.propertyCount === 0} onClick={() => promote('A')}>
+          Promote A ({stats.A.propertyCount})
+        </Button>
+        <Button disabled={running || stats.B.propertyCount === 0} onClick={() => promote('B')}>
+          Promote B ({stats.B.propertyCount})
+        </Button>
+        <Button onClick={onClose} disabled={running}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -4,6 +4,8 @@ import VisibilityOutlinedIcon from '@mui/icons-material/VisibilityOutlined';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import FilterBar from './FilterBar';
 import FormattedCell from './FormattedCell';
+import PropertyReviewPanel from './PropertyReviewPanel';
+import type { ReviewVerdict, ReviewedCluster } from '../lib/propertyReview';
 
 interface Filter {
   column: string;
@@ -15,10 +17,22 @@ export default function PropertiesTab({
   rows,
   originalData,
   onOpenProperty,
+  clusters,
+  onReviewVerdict,
+  onRecomputeAccepted,
+  selectedIds,
+  selectionSource = 'selected on the behavior map',
+  onClearSelection,
 }: {
   rows: any[];
   originalData?: any[]; // Original dataset to get model_response from
   onOpenProperty: (prop: any) => void;
+  clusters?: ReviewedCluster[]; // for per-cluster rejection rates in review mode
+  onReviewVerdict?: (propertyId: string, verdict: ReviewVerdict | null, note?: string) => void;
+  onRecomputeAccepted?: (includedPropertyIds: string[]) => void;
+  selectedIds?: string[] | null; // restrict to properties picked elsewhere (e.g. lasso on the behavior map)
+  selectionSource?: string; // how the selection was made, e.g. "selected on the behavior map"
+  onClearSelection?: () => void;
 }) {
   // (No prompt/task description controls here; Properties table remains focused on data only.)
 
@@ -28,6 +42,7 @@ export default function PropertiesTab({
   const [pendingNegated, setPendingNegated] = React.useState<boolean>(false);
   const [filters, setFilters] = React.useState<Filter[]>([]);
   const [groupBy, setGroupBy] = React.useState<string | null>(null);
+  const [reviewMode, setReviewMode] = React.useState<boolean>(false);
 
   // Enrich properties with model_response from original data for display
   const enrichedRows = React.useMemo(() => {
@@ -94,7 +109,7 @@ export default function PropertiesTab({
     const allKeysArray = Array.from(allKeys);
     
     // Columns to exclude
-    const excludedColumns = new Set(['id', 'meta', 'raw_response', 'row_index', '__index']);
+    const excludedColumns = new Set(['id', 'meta', 'raw_response', 'row_index', '__index', 'reviewed_at', 'created_at', 'updated_at']);
     
     // Filter out excluded columns and columns with all NaN/null values
     const validColumns = allKeysArray.filter(col => {
@@ -168,6 +183,11 @@ export default function PropertiesTab({
   // Apply filters and search
   const filtered = React.useMemo(() => {
     let result = enrichedRows;
+
+    if (selectedIds) {
+      const picked = new Set(selectedIds);
+      result = result.filter(r => picked.has(String(r?.id)));
+    }
     
     // Apply search filter
     if (query.trim()) {
@@ -191,7 +211,7 @@ export default function PropertiesTab({
     });
     
     return result;
-  }, [enrichedRows, query, filters, availableColumns]);
+  }, [enrichedRows, query, filters, availableColumns, selectedIds]);
 
   // Filter management functions
   const addFilter = React.useCallback(() => {
@@ -335,9 +355,36 @@ export default function PropertiesTab({
         onGroupByChange={setGroupBy}
         onReset={resetAll}
       />
-      
-      {/* Render grouped or ungrouped table */}
-      {groupedData ? (
+
+      {selectedIds && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <Chip
+            size="small"
+            color="primary"
+            label={`${selectedIds.length} properties ${selectionSource}`}
+            onDelete={onClearSelection}
+          />
+        </Box>
+      )}
+      {onReviewVerdict && (
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 1 }}>
+          <Button size="small" variant={reviewMode ? 'contained' : 'outlined'} onClick={() => setReviewMode(!reviewMode)}>
+            {reviewMode ? 'Back to table' : 'Review mode'}
+          </Button>
+        </Box>
+      )}
+
+      {/* Render review mode, or the grouped or ungrouped table */}
+      {reviewMode && onReviewVerdict ? (
+        <PropertyReviewPanel
+          properties={filtered}
+          allProperties={enrichedRows}
+          clusters={clusters}
+          onVerdict={onReviewVerdict}
+          onRecomputeAccepted={onRecomputeAccepted}
+          onOpenProperty={onOpenProperty}
+        />
+      ) : groupedData ? (
         // Grouped view
         <Box sx={{ border: '1px solid #C7D2FE', borderRadius: 0.5, overflow: 'auto', backgroundColor: '#FFFFFF' }}>
           {groupedData.map((group, groupIndex) => (
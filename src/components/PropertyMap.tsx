@@ -0,0 +1,224 @@
+import React from 'react';
+import { Box, Typography, Button, FormControl, InputLabel, Select, MenuItem, LinearProgress } from '@mui/material';
+import { PlotlyChartBase, MODEL_COLORS } from './metrics/charts/PlotlyChartBase';
+import type { Data, PlotMouseEvent, PlotSelectionEvent } from 'plotly.js';
+import { projectProperties, hasEmbeddings, MAX_PROJECTION_POINTS, type ProjectableProperty, type ProjectionPoint, type ProjectionProgress, type ProjectionSource } from '../lib/propertyProjection';
+import { conversationsForMetrics } from '../lib/localClustering';
+import { clusterLabel, clusterPropertyIds, type ClusterLike } from '../lib/clusterEdits';
+
+type ColorBy = 'cluster' | 'model' | 'category' | 'score';
+
+interface PropertyMapProps {
+  properties: ProjectableProperty[];
+  clusters: ClusterLike[];
+  getOperationalRows?: () => Record<string, unknown>[]; // for coloring by score
+  onOpenProperty: (propertyId: string) => void;
+  onSelectProperties?: (propertyIds: string[]) => void;
+}
+
+// Categorical legends beyond this many entries are hidden to keep the plot readable
+const MAX_LEGEND_ENTRIES = 20;
+
+function shorten(text: string, max = 120): string {
+  return text.length > max ? text.slice(0, max - 1) + '…' : text;
+}
+
+/**
+ * "Behavior map": properties projected to 2D with t-SNE, colored by cluster, model,
+ * category or score. Click a point to open its trace; lasso points to list them.
+ */
+export default function PropertyMap({ properties, clusters, getOperationalRows, onOpenProperty, onSelectProperties }: PropertyMapProps) {
+  const embeddingsAvailable = React.useMemo(() => hasEmbeddings(properties), [properties]);
+  const [source, setSource] = React.useState<ProjectionSource>(embeddingsAvailable ? 'embedding' : 'tfidf');
+  const [colorBy, setColorBy] = React.useState<ColorBy>('cluster');
+  const [scoreMetric, setScoreMetric] = React.useState<string>('');
+  const [points, setPoints] = React.useState<ProjectionPoint[] | null>(null);
+  const [busy, setBusy] = React.useState<boolean>(false);
+  const [progress, setProgress] = React.useState<ProjectionProgress | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const propertiesById = React.useMemo(() => new Map(properties.filter(p => p?.id != null).map(p => [String(p.id), p])), [properties]);
+
+  const clusterByProperty = React.useMemo(() => {
+    const out = new Map<string, string>();
+    for (const c of clusters) {
+      for (const pid of clusterPropertyIds(c)) out.set(pid, clusterLabel(c));
+    }
+    return out;
+  }, [clusters]);
+
+  // Scores are per conversation; a property takes the score of its (question, model)
+  const scores = React.useMemo(() => {
+    if (colorBy !== 'score' || !getOperationalRows) return new Map<string, Record<string, number>>();
+    const out = new Map<string, Record<string, number>>();
+    for (const c of conversationsForMetrics(getOperationalRows())) {
+      if (c.score) out.set(`${c.question_id}|${c.model}`, c.score);
+    }
+    return out;
+  }, [colorBy, getOperationalRows]);
+
+  const scoreMetrics = React.useMemo(() => {
+    const keys = new Set<string>();
+    scores.forEach(s => Object.keys(s).forEach(k => { if (typeof s[k] === 'number') keys.add(k); }));
+    return Array.from(keys).sort();
+  }, [scores]);
+
+  React.useEffect(() => {
+    if (scoreMetrics.length > 0 && !scoreMetrics.includes(scoreMetric)) setScoreMetric(scoreMetrics[0]);
+  }, [scoreMetrics, scoreMetric]);
+
+  const compute = async () => {
+    setBusy(true);
+    setError(null);
+    setProgress(null);
+    try {
+      setPoints(await projectProperties(properties, source, setProgress));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const traces = React.useMemo((): Data[] => {
+    if (!points) return [];
+    const visible = points.filter(pt => propertiesById.has(pt.id));
+    const hover = (p: ProjectableProperty | undefined) => shorten(String(p?.property_description || ''));
+
+    if (colorBy === 'score') {
+      const valueOf = (p: ProjectableProperty | undefined) => p ? scores.get(`${p.question_id}|${p.model}`)?.[scoreMetric] : undefined;
+      const scored = visible.filter(pt => typeof valueOf(propertiesById.get(pt.id)) === 'number');
+      const unscored = visible.filter(pt => typeof valueOf(propertiesById.get(pt.id)) !== 'number');
+      return [
+        {
+          type: 'scattergl',
+          mode: 'markers',
+          name: scoreMetric || 'score',
+          x: scored.map(pt => pt.x),
+          y: scored.map(pt => pt.y),
+          customdata: scored.map(pt => pt.id),
+          text: scored.map(pt => hover(propertiesById.get(pt.id))),
+          marker: {
+            size: 7,
+            color: scored.map(pt => valueOf(propertiesById.get(pt.id))),
+            colorscale: 'Viridis',
+            showscale: true,
+            colorbar: { title: { text: scoreMetric }, thickness: 12 },
+          },
+          hovertemplate: `%{text}<br>${scoreMetric}: %{marker.color:.3f}<extra></extra>`,
+        },
+        ...(unscored.length > 0 ? [{
+          type: 'scattergl' as const,
+          mode: 'markers' as const,
+          name: 'No score',
+          x: unscored.map(pt => pt.x),
+          y: unscored.map(pt => pt.y),
+          customdata: unscored.map(pt => pt.id),
+          text: unscored.map(pt => hover(propertiesById.get(pt.id))),
+          marker: { size: 6, color: '#D1D5DB' },
+          hovertemplate: '%{text}<br>No score<extra></extra>',
+        }] : []),
+      ];
+    }
+
+    const keyOf = (pid: string, p: ProjectableProperty | undefined): string => {
+      if (colorBy === 'cluster') return clusterByProperty.get(pid) ?? 'Unclustered';
+      if (colorBy === 'model') return String(p?.model ?? 'unknown');
+      return String(p?.category ?? 'uncategorized');
+    };
+    const groups = new Map<string, ProjectionPoint[]>();
+    for (const pt of visible) {
+      const key = keyOf(pt.id, propertiesById.get(pt.id));
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(pt);
+    }
+    return Array.from(groups.entries())
+      .sort((a, b) => b[1].length - a[1].length)
+      .map(([key, pts], i) => ({
+        type: 'scattergl',
+        mode: 'markers',
+        name: shorten(key, 40),
+        x: pts.map(pt => pt.x),
+        y: pts.map(pt => pt.y),
+        customdata: pts.map(pt => pt.id),
+        text: pts.map(pt => hover(propertiesById.get(pt.id))),
+        marker: { size: 7, color: key === 'Unclustered' ? '#D1D5DB' : MODEL_COLORS[i % MODEL_COLORS.length], opacity: 0.85 },
+        hovertemplate: `%{text}<br>${shorten(key, 60).replace(/%/g, '%%')}<extra></extra>`,
+      }));
+  }, [points, propertiesById, colorBy, scores, scoreMetric, clusterByProperty]);
+
+  const idsFromEvent = (event: Readonly<PlotMouseEvent | PlotSelectionEvent> | undefined): string[] =>
+    Array.from(new Set<string>((event?.points || []).map(pt => pt?.customdata).filter(id => id != null).map(String)));
+
+  return (
+    <Box sx={{ p: 1.5, borderBottom: '1px solid #E5E7EB' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mb: 1 }}>
+        <Typography variant="subtitle2" sx={{ color: '#334155', mr: 1 }}>Behavior map</Typography>
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel id="map-source-label">Vectors</InputLabel>
+          <Select labelId="map-source-label" value={source} label="Vectors" onChange={(e) => setSource(e.target.value as ProjectionSource)}>
+            <MenuItem value={'tfidf'}>TF-IDF of descriptions</MenuItem>
+            <MenuItem value={'embedding'} disabled={!embeddingsAvailable}>Property embeddings</MenuItem>
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 130 }}>
+          <InputLabel id="map-color-label">Color by</InputLabel>
+          <Select labelId="map-color-label" value={colorBy} label="Color by" onChange={(e) => setColorBy(e.target.value as ColorBy)}>
+            <MenuItem value={'cluster'}>Cluster</MenuItem>
+            <MenuItem value={'model'}>Model</MenuItem>
+            <MenuItem value={'category'}>Category</MenuItem>
+            <MenuItem value={'score'} disabled={!getOperationalRows}>Score</MenuItem>
+          </Select>
+        </FormControl>
+        {colorBy === 'score' && (
+          <FormControl size="small" sx={{ minWidth: 140 }} disabled={scoreMetrics.length === 0}>
+            <InputLabel id="map-metric-label">Metric</InputLabel>
+            <Select labelId="map-metric-label" value={scoreMetrics.includes(scoreMetric) ? scoreMetric : ''} label="Metric" onChange={(e) => setScoreMetric(String(e.target.value))}>
+              {scoreMetrics.map(m => <MenuItem key={m} value={m}>{m}</MenuItem>)}
+            </Select>
+          </FormControl>
+        )}
+        <Button size="small" variant="outlined" onClick={compute} disabled={busy || properties.length === 0}>
+          {points ? 'Recompute map' : 'Compute map'}
+        </Button>
+        <Typography variant="caption" color="text.secondary">
+          {properties.length > MAX_PROJECTION_POINTS
+            ? `Showing a sample of ${MAX_PROJECTION_POINTS} of ${properties.length} properties. `
+            : ''}
+          Click a point to open its trace; lasso points to list them in the Properties tab.
+        </Typography>
+      </Box>
+      {busy && (
+        <LinearProgress
+          variant={progress && progress.total > 0 ? 'determinate' : 'indeterminate'}
+          value={progress && progress.total > 0 ? (progress.done / progress.total) * 100 : undefined}
+          sx={{ mb: 1 }}
+        />
+      )}
+      {error && <Typography variant="body2" color="error" sx={{ mb: 1 }}>{error}</Typography>}
+      {points && (
+        <PlotlyChartBase
+          data={traces}
+          height={520}
+          layout={{
+            dragmode: 'lasso',
+            showlegend: traces.length > 1 && traces.length <= MAX_LEGEND_ENTRIES,
+            margin: { t: 40, r: 20, b: 20, l: 20 },
+            xaxis: { showticklabels: false, zeroline: false, showgrid: false },
+            yaxis: { showticklabels: false, zeroline: false, showgrid: false },
+          }}
+          config={{ modeBarButtonsToRemove: ['autoScale2d', 'toggleSpikelines', 'hoverCompareCartesian', 'hoverClosestCartesian'] }}
+          onClick={(event) => {
+            const [id] = idsFromEvent(event);
+            if (id) onOpenProperty(id);
+          }}
+          onSelected={(event) => {
+            const ids = idsFromEvent(event);
+            if (ids.length > 0) onSelectProperties?.(ids);
+          }}
+        />
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,210 @@
+import React from 'react';
+import { Box, Typography, Button, Chip, TextField, LinearProgress, FormControlLabel, Switch, Table, TableHead, TableRow, TableCell, TableBody } from '@mui/material';
+import PropertyCard, { type ConversationLike, type PropertyLike } from './cards/PropertyCard';
+import { formatResponse } from '../lib/localLlm';
+import { REVIEW_VERDICTS, computeReviewStats, acceptedPropertyIds, type ReviewVerdict, type RejectionRate, type ReviewedCluster } from '../lib/propertyReview';
+
+interface PropertyReviewPanelProps {
+  properties: ReviewedProperty[]; // the properties being reviewed (after the table's search and filters)
+  allProperties: PropertyLike[];
+  clusters?: ReviewedCluster[];
+  onVerdict: (propertyId: string, verdict: ReviewVerdict | null, note?: string) => void;
+  onRecomputeAccepted?: (includedPropertyIds: string[]) => void;
+  onOpenProperty: (prop: ReviewedProperty) => void;
+}
+
+// Properties in the table carry the response they describe
+type ReviewedProperty = PropertyLike & { model_response?: unknown };
+
+function RateTable({ title, rows }: { title: string; rows: RejectionRate[] }) {
+  if (rows.length === 0) return null;
+  return (
+    <Box sx={{ flex: 1, minWidth: 280 }}>
+      <Typography variant="subtitle2" sx={{ mb: 0.5 }}>{title}</Typography>
+      <Box sx={{ maxHeight: 260, overflow: 'auto', border: '1px solid #E5E7EB', borderRadius: 0.5 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>Name</TableCell>
+              <TableCell align="right">Reviewed</TableCell>
+              <TableCell align="right">Rejected</TableCell>
+              <TableCell align="right">Rate</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map(r => (
+              <TableRow key={r.key}>
+                <TableCell sx={{ maxWidth: 260, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={r.key}>{r.key}</TableCell>
+                <TableCell align="right">{r.reviewed}/{r.total}</TableCell>
+                <TableCell align="right">{r.rejected}</TableCell>
+                <TableCell align="right">{r.rate === null ? '—' : `${Math.round(r.rate * 100)}%`}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * Step through properties one at a time and record accept / reject / needs-edit verdicts
+ */
+export default function PropertyReviewPanel({
+  properties,
+  allProperties,
+  clusters,
+  onVerdict,
+  onRecomputeAccepted,
+  onOpenProperty,
+}: PropertyReviewPanelProps) {
+  const [unreviewedOnly, setUnreviewedOnly] = React.useState<boolean>(false);
+  const [index, setIndex] = React.useState<number>(0);
+  const [note, setNote] = React.useState<string>('');
+
+  // Keep the queue stable while reviewing: a property leaves the "unreviewed" queue only when moving on
+  const [queueIds, setQueueIds] = React.useState<string[]>([]);
+  const propertyIdsKey = properties.map(p => String(p.id)).join('|');
+  React.useEffect(() => {
+    setQueueIds(properties.filter(p => !unreviewedOnly || !p.review_verdict).map(p => String(p.id)));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [propertyIdsKey, unreviewedOnly]);
+
+  const byId = React.useMemo(() => new Map(properties.map(p => [String(p.id), p])), [properties]);
+  const queue = React.useMemo(() => queueIds.map(id => byId.get(id)).filter((p): p is ReviewedProperty => p !== undefined), [queueIds, byId]);
+  const current = queue[Math.min(index, queue.length - 1)];
+  const stats = React.useMemo(() => computeReviewStats(allProperties, clusters), [allProperties, clusters]);
+  const acceptedIds = React.useMemo(() => acceptedPropertyIds(allProperties), [allProperties]);
+
+  React.useEffect(() => {
+    setNote(current?.review_note || '');
+  }, [current?.id, current?.review_note]);
+
+  React.useEffect(() => {
+    if (index > 0 && index >= queue.length) setIndex(Math.max(0, queue.length - 1));
+  }, [index, queue.length]);
+
+  const move = React.useCallback((delta: number) => {
+    setIndex(i => Math.max(0, Math.min(queue.length - 1, i + delta)));
+  }, [queue.length]);
+
+  const decide = React.useCallback((verdict: ReviewVerdict | null) => {
+    if (!current) return;
+    onVerdict(String(current.id), verdict, note);
+    if (verdict) move(1);
+  }, [current, note, onVerdict, move]);
+
+  // Shortcuts: a/r/e verdicts, u clears, j/k or arrows move; ignored while typing
+  React.useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      const key = e.key.toLowerCase();
+      const verdict = REVIEW_VERDICTS.find(v => v.shortcut === key);
+      if (verdict) decide(verdict.value);
+      else if (key === 'u') decide(null);
+      else if (key === 'j' || e.key === 'ArrowRight') move(1);
+      else if (key === 'k' || e.key === 'ArrowLeft') move(-1);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [decide, move]);
+
+  const conversation: ConversationLike | null = current?.model_response != null
+    ? { question_id: String(current.question_id), model: String(current.model), responses: formatResponse(current.model_response) }
+    : null;
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1, flexWrap: 'wrap' }}>
+        <Typography variant="body2">
+          Reviewed <strong>{stats.reviewed}</strong> of {stats.total}
+        </Typography>
+        {REVIEW_VERDICTS.map(v => (
+          <Chip key={v.value} size="small" color={v.color} variant="outlined" label={`${v.label}: ${stats.counts[v.value]}`} />
+        ))}
+        <FormControlLabel
+          control={<Switch size="small" checked={unreviewedOnly} onChange={(e) => { setUnreviewedOnly(e.target.checked); setIndex(0); }} />}
+          label="Unreviewed only"
+        />
+        <Box sx={{ flex: 1 }} />
+        {onRecomputeAccepted && (
+          <Button
+            size="small"
+            variant="outlined"
+            disabled={acceptedIds.length === 0 || !clusters || clusters.length === 0}
+            onClick={() => onRecomputeAccepted(acceptedIds)}
+          >
+            Recompute metrics with accepted only ({acceptedIds.length})
+          </Button>
+        )}
+      </Box>
+      <LinearProgress variant="determinate" value={stats.total > 0 ? (stats.reviewed / stats.total) * 100 : 0} sx={{ mb: 2 }} />
+
+      {current ? (
+        <Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <Button size="small" onClick={() => move(-1)} disabled={index === 0}>Previous (k)</Button>
+            <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+              {Math.min(index, queue.length - 1) + 1} / {queue.length}
+            </Typography>
+            <Button size="small" onClick={() => move(1)} disabled={index >= queue.length - 1}>Next (j)</Button>
+            {current.review_verdict && (
+              <Chip
+                size="small"
+                color={REVIEW_VERDICTS.find(v => v.value === current.review_verdict)?.color}
+                label={REVIEW_VERDICTS.find(v => v.value === current.review_verdict)?.label}
+                onDelete={() => decide(null)}
+              />
+            )}
+          </Box>
+          <PropertyCard
+            property={current}
+            conversation={conversation}
+            method="single_model"
+            onOpenConversation={() => onOpenProperty(current)}
+          />
+          <TextField
+            size="small"
+            fullWidth
+            label="Note (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            onBlur={() => {
+              if (current.review_verdict && note !== (current.review_note || '')) {
+                onVerdict(String(current.id), current.review_verdict, note);
+              }
+            }}
+            sx={{ mb: 1 }}
+          />
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            {REVIEW_VERDICTS.map(v => (
+              <Button
+                key={v.value}
+                variant={current.review_verdict === v.value ? 'contained' : 'outlined'}
+                color={v.color}
+                onClick={() => decide(v.value)}
+              >
+                {v.label} ({v.shortcut})
+              </Button>
+            ))}
+          </Box>
+        </Box>
+      ) : (
+        <Box sx={{ p: 2, border: '1px solid #E5E7EB', borderRadius: 0.5, background: '#FFFFFF' }}>
+          <Typography variant="body2" color="text.secondary">
+            {unreviewedOnly ? 'Every property in this view has been reviewed.' : 'No properties match the current filters.'}
+          </Typography>
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2, mt: 3, flexWrap: 'wrap' }}>
+        <RateTable title="Rejection rate by cluster" rows={stats.byCluster} />
+        <RateTable title="Rejection rate by category" rows={stats.byCategory} />
+      </Box>
+    </Box>
+  );
+}
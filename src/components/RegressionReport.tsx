@@ -0,0 +1,200 @@
+import React from 'react';
+import { Box, Typography, Button, Chip, TextField, FormControl, InputLabel, Select, MenuItem, FormControlLabel, Switch, Alert, Stack, LinearProgress } from '@mui/material';
+import { computeModelRegression, type MetricsBootstrapProgress } from '../lib/metricsBootstrap';
+import { modelsInRows, DEFAULT_REGRESSION, type RegressionReport as Report, type RegressionEntry, type RegressionKind, type PairedConversation } from '../lib/modelRegression';
+import type { ClusterLike } from '../lib/clusterEdits';
+import type { PropertyLike } from './cards/PropertyCard';
+
+interface RegressionReportProps {
+  operationalRows: Record<string, unknown>[];
+  properties: PropertyLike[];
+  clusters: ClusterLike[];
+  onViewPair: (pair: PairedConversation) => void;
+}
+
+const SECTIONS: { kind: RegressionKind; title: string; color: string; empty: string }[] = [
+  { kind: 'regression', title: 'Regressions', color: '#B91C1C', empty: 'No significant regressions.' },
+  { kind: 'improvement', title: 'Improvements', color: '#047857', empty: 'No significant improvements.' },
+  { kind: 'shift', title: 'Other shifts', color: '#475569', empty: 'No significant shifts in neutral behaviors.' },
+];
+
+// Example pairs listed per direction
+const EXAMPLES_PER_ENTRY = 5;
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function pts(value: number): string {
+  return `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}`;
+}
+
+function EntryRow({ entry, report, onViewPair }: { entry: RegressionEntry; report: Report; onViewPair: (pair: PairedConversation) => void }) {
+  const pairsById = React.useMemo(() => new Map(report.pairs.map(p => [p.question_id, p])), [report.pairs]);
+  // Lead with examples in the direction of the change
+  const groups = entry.change >= 0
+    ? [{ title: `Only ${report.candidate}`, ids: entry.gained }, { title: `Only ${report.baseline}`, ids: entry.lost }]
+    : [{ title: `Only ${report.baseline}`, ids: entry.lost }, { title: `Only ${report.candidate}`, ids: entry.gained }];
+  return (
+    <Box sx={{ p: 1.25, border: '1px solid #E5E7EB', borderRadius: 1, opacity: entry.significant ? 1 : 0.6 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+        <Typography variant="body2" sx={{ fontWeight: 600, flex: 1, minWidth: 240 }}>{entry.label}</Typography>
+        {entry.valence !== 'neutral' && (
+          <Chip size="small" variant="outlined" color={entry.valence === 'negative' ? 'error' : 'success'} label={entry.valence} />
+        )}
+        {!entry.significant && <Chip size="small" variant="outlined" label="not significant" />}
+      </Box>
+      <Typography variant="caption" sx={{ display: 'block', color: 'text.secondary' }}>
+        {report.baseline} {pct(entry.baseline_proportion)} → {report.candidate} {pct(entry.candidate_proportion)}
+        {' · '}<strong>{pts(entry.change)} pts</strong> ({Math.round((1 - report.alpha) * 1000) / 10}% CI {pts(entry.ci_lower)} to {pts(entry.ci_upper)})
+        {' · '}q = {entry.q_value < 0.001 ? '<0.001' : entry.q_value.toFixed(3)}
+      </Typography>
+      {groups.map(g => g.ids.length > 0 && (
+        <Box key={g.title} sx={{ display: 'flex', alignItems: 'center', gap: 0.5, flexWrap: 'wrap', mt: 0.5 }}>
+          <Typography variant="caption" sx={{ color: '#64748B', mr: 0.5 }}>{g.title} ({g.ids.length}):</Typography>
+          {g.ids.slice(0, EXAMPLES_PER_ENTRY).map(qid => (
+            <Chip
+              key={qid}
+              size="small"
+              variant="outlined"
+              label={qid}
+              onClick={() => { const pair = pairsById.get(qid); if (pair) onViewPair(pair); }}
+            />
+          ))}
+        </Box>
+      ))}
+    </Box>
+  );
+}
+
+/**
+ * Ranked regressions / improvements in behavior frequency between two models answering the same prompts
+ */
+export default function RegressionReport({ operationalRows, properties, clusters, onViewPair }: RegressionReportProps) {
+  const models = React.useMemo(() => modelsInRows(operationalRows), [operationalRows]);
+  const [baseline, setBaseline] = React.useState<string>('');
+  const [candidate, setCandidate] = React.useState<string>('');
+  const [samples, setSamples] = React.useState<number>(DEFAULT_REGRESSION.samples);
+  const [alpha, setAlpha] = React.useState<number>(DEFAULT_REGRESSION.alpha);
+  const [showAll, setShowAll] = React.useState<boolean>(false);
+  const [report, setReport] = React.useState<Report | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [progress, setProgress] = React.useState<MetricsBootstrapProgress | null>(null);
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  React.useEffect(() => {
+    if (!models.includes(baseline)) setBaseline(models[0] || '');
+    if (!models.includes(candidate)) setCandidate(models[1] || '');
+  }, [models, baseline, candidate]);
+
+  const cancel = React.useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  }, []);
+
+  // Results go stale when the inputs change
+  React.useEffect(() => {
+    cancel();
+    setReport(null);
+  }, [operationalRows, properties, clusters, cancel]);
+  React.useEffect(() => cancel, [cancel]);
+
+  const compute = () => {
+    cancel();
+    setError(null);
+    // Empty or out-of-range fields fall back to the defaults
+    const options = {
+      ...DEFAULT_REGRESSION,
+      samples: Math.min(10000, Math.max(100, Math.round(samples) || DEFAULT_REGRESSION.samples)),
+      alpha: alpha > 0 && alpha <= 0.5 ? alpha : DEFAULT_REGRESSION.alpha,
+    };
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: options.samples });
+    computeModelRegression(operationalRows, properties, clusters, baseline, candidate, options, setProgress, controller.signal)
+      .then(result => {
+        if (controller.signal.aborted) return;
+        setReport(result);
+      })
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        setReport(null);
+        setError(String(e?.message || e));
+      })
+      .finally(() => {
+        if (abortRef.current !== controller) return;
+        abortRef.current = null;
+        setProgress(null);
+      });
+  };
+
+  if (models.length < 2) return null;
+
+  return (
+    <Box sx={{ mt: 3, p: 2, border: '1px solid #E5E7EB', borderRadius: 0.5, background: '#FFFFFF' }}>
+      <Typography variant="h6" sx={{ mb: 0.5 }}>Model-version regression</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Pairs the two models' answers by question and tests which behaviors became more or less frequent, using an exact paired sign test over questions (with bootstrap confidence intervals) and Benjamini–Hochberg correction across clusters.
+      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+        <FormControl size="small" sx={{ minWidth: 180 }}>
+          <InputLabel id="regression-baseline-label">Baseline model</InputLabel>
+          <Select labelId="regression-baseline-label" value={models.includes(baseline) ? baseline : ''} label="Baseline model" onChange={(e) => setBaseline(String(e.target.value))}>
+            {models.map(m => <MenuItem key={m} value={m}>{m}</MenuItem>)}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 180 }}>
+          <InputLabel id="regression-candidate-label">Candidate model</InputLabel>
+          <Select labelId="regression-candidate-label" value={models.includes(candidate) ? candidate : ''} label="Candidate model" onChange={(e) => setCandidate(String(e.target.value))}>
+            {models.map(m => <MenuItem key={m} value={m}>{m}</MenuItem>)}
+          </Select>
+        </FormControl>
+        <TextField size="small" type="number" label="Bootstrap samples" value={samples} onChange={(e) => setSamples(Number(e.target.value))} inputProps={{ min: 100, max: 10000, step: 100 }} sx={{ width: 150 }} />
+        <TextField size="small" type="number" label="FDR (α)" value={alpha} onChange={(e) => setAlpha(Number(e.target.value))} inputProps={{ min: 0.001, max: 0.5, step: 0.01 }} sx={{ width: 110 }} />
+        {progress ? (
+          <Button variant="outlined" size="small" onClick={cancel}>
+            Cancel
+          </Button>
+        ) : (
+          <Button variant="contained" size="small" onClick={compute} disabled={!baseline || !candidate || baseline === candidate || clusters.length === 0}>
+            Compute
+          </Button>
+        )}
+        {report && (
+          <FormControlLabel control={<Switch size="small" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />} label="Show non-significant" />
+        )}
+      </Box>
+      {progress && (
+        <LinearProgress variant="determinate" value={progress.total > 0 ? (100 * progress.done) / progress.total : 0} sx={{ mb: 2 }} />
+      )}
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+      {report && (
+        <>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1.5 }}>
+            {report.pairs.length} paired questions · {report.samples} bootstrap samples · α = {report.alpha}. Click a question id to open the pair side by side.
+          </Typography>
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', lg: '1fr 1fr 1fr' }, gap: 2 }}>
+            {SECTIONS.map(section => {
+              const entries = report.entries.filter(e => e.kind === section.kind && (showAll || e.significant));
+              return (
+                <Box key={section.kind}>
+                  <Typography variant="subtitle2" sx={{ color: section.color, mb: 1 }}>
+                    {section.title} ({entries.length})
+                  </Typography>
+                  {entries.length === 0 ? (
+                    <Typography variant="body2" color="text.secondary">{section.empty}</Typography>
+                  ) : (
+                    <Stack spacing={1}>
+                      {entries.map(entry => <EntryRow key={entry.cluster_id} entry={entry} report={report} onViewPair={onViewPair} />)}
+                    </Stack>
+                  )}
+                </Box>
+              );
+            })}
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,302 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  Chip,
+  Alert,
+  CircularProgress,
+  Table,
+  TableHead,
+  TableRow,
+  TableCell,
+  TableBody,
+  Collapse,
+  IconButton,
+} from '@mui/material';
+import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
+import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
+import PropertyCard, { type ConversationLike } from './cards/PropertyCard';
+import { diffRuns, clusterProperties, type ResultsRun, type ClusterDiffRow, type ClusterDiffStatus } from '../lib/runDiff';
+import { clusterLabel, type ClusterLike } from '../lib/clusterEdits';
+import { formatResponse } from '../lib/localLlm';
+
+interface RunDiffDialogProps {
+  open: boolean;
+  onClose: () => void;
+  current: ResultsRun;
+  baseline: ResultsRun | null;
+  onLoadBaselineFolder: (files: FileList) => Promise<void>;
+  onLoadBaselineServer?: (dir: string) => Promise<void>; // only when the backend is reachable
+  onClearBaseline: () => void;
+  onOpenCurrentProperty: (propertyId: string) => void;
+}
+
+const STATUS_STYLE: Record<ClusterDiffStatus, { label: string; color: 'success' | 'error' | 'warning' | 'default' }> = {
+  appeared: { label: 'Appeared', color: 'success' },
+  disappeared: { label: 'Disappeared', color: 'error' },
+  changed: { label: 'Changed size', color: 'warning' },
+  unchanged: { label: 'Unchanged', color: 'default' },
+};
+
+// Examples shown per run when a row is expanded
+const EXAMPLES_PER_RUN = 5;
+
+function pct(value: number | null): string {
+  return value == null ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+function signed(value: number | null, digits = 3): string {
+  if (value == null) return '—';
+  return `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+function changeColor(value: number | null): string | undefined {
+  if (value == null || Math.abs(value) < 1e-9) return undefined;
+  return value > 0 ? '#047857' : '#B91C1C';
+}
+
+// Look up the response a property was extracted from, for the example cards
+function conversationFor(run: ResultsRun, prop: Record<string, unknown>): ConversationLike | null {
+  const qid = String(prop?.question_id ?? '');
+  const model = String(prop?.model ?? '');
+  const row = run.conversations.find(r => String(r?.question_id ?? '') === qid
+    && (String(r?.model ?? '') === model || String(r?.model_a ?? '') === model || String(r?.model_b ?? '') === model));
+  if (!row) return null;
+  const response = row.model != null ? row.model_response : String(row.model_a) === model ? row.model_a_response : row.model_b_response;
+  return { question_id: qid, model, responses: formatResponse(response) };
+}
+
+function ExampleColumn({ title, run, cluster, onOpen }: { title: string; run: ResultsRun; cluster: ClusterLike | undefined; onOpen?: (propertyId: string) => void }) {
+  const propertiesById = useMemo(() => new Map(run.properties.filter(p => p?.id != null).map(p => [String(p.id), p])), [run.properties]);
+  const examples = useMemo(() => (cluster ? clusterProperties(cluster, propertiesById).slice(0, EXAMPLES_PER_RUN) : []), [cluster, propertiesById]);
+  return (
+    <Box sx={{ flex: 1, minWidth: 0 }}>
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>
+        {title}{cluster ? ` · ${clusterLabel(cluster)}` : ''}
+      </Typography>
+      {!cluster ? (
+        <Typography variant="body2" color="text.secondary">Not present in this run.</Typography>
+      ) : examples.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">No example properties.</Typography>
+      ) : (
+        examples.map((prop, i) => (
+          <PropertyCard
+            key={`${prop.id}-${i}`}
+            property={{ ...prop, id: String(prop.id), question_id: String(prop.question_id ?? ''), model: String(prop.model ?? '') }}
+            conversation={conversationFor(run, prop)}
+            method="single_model"
+            onOpenConversation={onOpen ? () => onOpen(String(prop.id)) : undefined}
+          />
+        ))
+      )}
+    </Box>
+  );
+}
+
+function DiffRow({ row, current, baseline, onOpenCurrentProperty }: { row: ClusterDiffRow; current: ResultsRun; baseline: ResultsRun; onOpenCurrentProperty: (propertyId: string) => void }) {
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const style = STATUS_STYLE[row.status];
+  const previousLabel = row.baseline && row.current && clusterLabel(row.baseline) !== row.label ? clusterLabel(row.baseline) : null;
+  return (
+    <>
+      <TableRow hover sx={{ '& > td': { verticalAlign: 'top' } }}>
+        <TableCell padding="checkbox">
+          <IconButton size="small" onClick={() => setExpanded(!expanded)}>
+            {expanded ? <KeyboardArrowUpIcon fontSize="small" /> : <KeyboardArrowDownIcon fontSize="small" />}
+          </IconButton>
+        </TableCell>
+        <TableCell><Chip size="small" color={style.color} label={style.label} /></TableCell>
+        <TableCell sx={{ maxWidth: 360 }}>
+          <Typography variant="body2" sx={{ fontWeight: 600 }}>{row.label}</Typography>
+          {previousLabel && (
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>was: {previousLabel}</Typography>
+          )}
+          {row.match && (
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+              match {row.match.score.toFixed(2)} · property overlap {pct(row.match.propertyOverlap)} · label {row.match.labelSimilarity.toFixed(2)}
+            </Typography>
+          )}
+        </TableCell>
+        <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+          {row.size.baseline} → {row.size.current}
+          <Typography variant="caption" sx={{ display: 'block', color: changeColor(row.size.change) }}>
+            {row.size.change > 0 ? '+' : ''}{row.size.change}
+          </Typography>
+        </TableCell>
+        <TableCell>
+          {row.models.map(m => (
+            <Typography key={m.model} variant="caption" sx={{ display: 'block', whiteSpace: 'nowrap' }}>
+              {m.model}: {pct(m.proportion.baseline)} → {pct(m.proportion.current)}
+              {m.proportion.change != null && (
+                <Box component="span" sx={{ color: changeColor(m.proportion.change), ml: 0.5 }}>
+                  ({m.proportion.change > 0 ? '+' : ''}{(m.proportion.change * 100).toFixed(1)} pts)
+                </Box>
+              )}
+            </Typography>
+          ))}
+        </TableCell>
+        <TableCell>
+          {row.models.flatMap(m => m.quality_delta.map(q => (
+            <Typography key={`${m.model}-${q.metric}`} variant="caption" sx={{ display: 'block', whiteSpace: 'nowrap' }}>
+              {m.model} · {q.metric}: {signed(q.baseline)} → {signed(q.current)}
+              {q.change != null && (
+                <Box component="span" sx={{ color: changeColor(q.change), ml: 0.5 }}>({signed(q.change)})</Box>
+              )}
+            </Typography>
+          )))}
+        </TableCell>
+      </TableRow>
+      <TableRow>
+        <TableCell colSpan={6} sx={{ py: 0, borderBottom: expanded ? undefined : 'none' }}>
+          <Collapse in={expanded} timeout="auto" unmountOnExit>
+            <Box sx={{ display: 'flex', gap: 2, py: 2 }}>
+              <ExampleColumn title="Baseline" run={baseline} cluster={row.baseline} />
+              <ExampleColumn title="Current" run={current} cluster={row.current} onOpen={onOpenCurrentProperty} />
+            </Box>
+          </Collapse>
+        </TableCell>
+      </TableRow>
+    </>
+  );
+}
+
+/**
+ * Dialog for loading a baseline results directory and diffing its clusters against the current run
+ */
+export function RunDiffDialog({
+  open,
+  onClose,
+  current,
+  baseline,
+  onLoadBaselineFolder,
+  onLoadBaselineServer,
+  onClearBaseline,
+  onOpenCurrentProperty,
+}: RunDiffDialogProps) {
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [serverDir, setServerDir] = useState<string>('');
+  const [statusFilter, setStatusFilter] = useState<ClusterDiffStatus | null>(null);
+
+  const diff = useMemo(() => {
+    if (!open || !baseline) return null;
+    try {
+      return diffRuns(current, baseline);
+    } catch (e) {
+      console.error('❌ Failed to diff runs:', e);
+      return null;
+    }
+  }, [open, current, baseline]);
+
+  const load = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setStatusFilter(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rows = diff ? diff.rows.filter(r => !statusFilter || r.status === statusFilter) : [];
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xl">
+      <DialogTitle>Compare runs</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+          <Typography variant="body2" sx={{ mr: 1 }}>
+            {baseline
+              ? <>Baseline: <strong>{baseline.name}</strong> ({baseline.clusters.length} clusters) vs. current: <strong>{current.name}</strong> ({current.clusters.length} clusters)</>
+              : 'Load a baseline results directory to compare its clusters with the current run.'}
+          </Typography>
+          <Button size="small" variant="outlined" component="label" disabled={busy}>
+            Load baseline folder
+            <input
+              type="file"
+              hidden
+              /* @ts-ignore - webkitdirectory is not in TypeScript types but widely supported */
+              webkitdirectory=""
+              directory=""
+              multiple
+              onChange={(e) => {
+                const files = e.target.files;
+                if (files && files.length > 0) void load(() => onLoadBaselineFolder(files));
+                e.target.value = '';
+              }}
+            />
+          </Button>
+          {onLoadBaselineServer && (
+            <>
+              <TextField
+                size="small"
+                placeholder="Server results directory"
+                value={serverDir}
+                onChange={(e) => setServerDir(e.target.value)}
+                sx={{ minWidth: 240 }}
+              />
+              <Button size="small" variant="outlined" disabled={busy || !serverDir.trim()} onClick={() => void load(() => onLoadBaselineServer(serverDir.trim()))}>
+                Load from server
+              </Button>
+            </>
+          )}
+          {baseline && (
+            <Button size="small" color="error" disabled={busy} onClick={onClearBaseline}>Clear baseline</Button>
+          )}
+          {busy && <CircularProgress size={18} />}
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {diff && (
+          <>
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 1 }}>
+              {(Object.keys(STATUS_STYLE) as ClusterDiffStatus[]).map(status => (
+                <Chip
+                  key={status}
+                  size="small"
+                  color={STATUS_STYLE[status].color}
+                  variant={statusFilter === status ? 'filled' : 'outlined'}
+                  label={`${STATUS_STYLE[status].label}: ${diff.counts[status]}`}
+                  onClick={() => setStatusFilter(statusFilter === status ? null : status)}
+                />
+              ))}
+            </Box>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+              Clusters are matched by property overlap, conversation overlap and label similarity. Proportion is the share of each model's conversations in the cluster; quality Δ is relative to the model's average in that run. Expand a row to see both runs' example properties.
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox" />
+                  <TableCell>Status</TableCell>
+                  <TableCell>Cluster</TableCell>
+                  <TableCell align="right">Size</TableCell>
+                  <TableCell>Proportion by model</TableCell>
+                  <TableCell>Quality Δ by model</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.map(row => (
+                  <DiffRow key={row.key} row={row} current={current} baseline={baseline!} onOpenCurrentProperty={onOpenCurrentProperty} />
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import SaveOutlinedIcon from '@mui/icons-material/SaveOutlined';
+import { listSessions, deleteSession, type SessionMeta } from '../lib/sessions';
+
+interface SessionsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  canSave: boolean;
+  activeSessionId: string | null;
+  onSave: (name: string, id?: string) => Promise<void>;
+  onResume: (session: SessionMeta) => Promise<void>;
+}
+
+function formatTimestamp(ts: number): string {
+  return new Date(ts).toLocaleString();
+}
+
+/**
+ * Dialog for saving the current workspace and resuming or deleting saved sessions
+ */
+export function SessionsDialog({
+  open,
+  onClose,
+  canSave,
+  activeSessionId,
+  onSave,
+  onResume,
+}: SessionsDialogProps) {
+  const [sessions, setSessions] = useState<SessionMeta[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState<string>('');
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSessions(await listSessions());
+    } catch (e: any) {
+      setError(String(e?.message || e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    void refresh();
+  }, [open, refresh]);
+
+  // Prefill the name with the active session so "Save" updates it in place
+  useEffect(() => {
+    if (!open) return;
+    const active = sessions.find(s => s.id === activeSessionId);
+    setName(active ? active.name : '');
+  }, [open, activeSessionId, sessions]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setError(String(e?.message || e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => runAction(async () => {
+    const existing = sessions.find(s => s.id === activeSessionId && s.name === name.trim());
+    await onSave(name, existing?.id);
+    await refresh();
+  });
+
+  const handleSaveAsNew = () => runAction(async () => {
+    await onSave(name);
+    await refresh();
+  });
+
+  const handleOverwrite = (session: SessionMeta) => runAction(async () => {
+    await onSave(session.name, session.id);
+    await refresh();
+  });
+
+  const handleResume = (session: SessionMeta) => runAction(async () => {
+    await onResume(session);
+    onClose();
+  });
+
+  const handleDelete = (session: SessionMeta) => runAction(async () => {
+    if (!window.confirm(`Delete session "${session.name}"?`)) return;
+    await deleteSession(session.id);
+    await refresh();
+  });
+
+  const canUpdateActive = Boolean(activeSessionId && sessions.some(s => s.id === activeSessionId && s.name === name.trim()));
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Sessions</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Sessions are stored in this browser and include the loaded data, column mapping, operations, properties, clusters and metrics.
+        </Typography>
+
+        {/* Save current workspace */}
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+          <TextField
+            size="small"
+            label="Session name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={!canSave || busy}
+            sx={{ flexGrow: 1 }}
+          />
+          <Button variant="contained" size="small" onClick={() => void handleSave()} disabled={!canSave || busy}>
+            {canUpdateActive ? 'Update' : 'Save'}
+          </Button>
+          {canUpdateActive && (
+            <Button variant="outlined" size="small" onClick={() => void handleSaveAsNew()} disabled={busy}>
+              Save as New
+            </Button>
+          )}
+        </Box>
+        {!canSave && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+            Load data to save a session.
+          </Typography>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Box sx={{ border: '1px solid #E5E7EB', borderRadius: 1, maxHeight: 400, overflow: 'auto' }}>
+            <List dense>
+              {sessions.map((session) => (
+                <ListItem
+                  key={session.id}
+                  disablePadding
+                  sx={{ backgroundColor: session.id === activeSessionId ? '#E0E7FF' : 'transparent' }}
+                  secondaryAction={
+                    <Box sx={{ display: 'flex', gap: 0.5 }}>
+                      {canSave && (
+                        <Tooltip title="Overwrite with current workspace">
+                          <span>
+                            <IconButton size="small" onClick={() => void handleOverwrite(session)} disabled={busy}>
+                              <SaveOutlinedIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      )}
+                      <Tooltip title="Delete session">
+                        <span>
+                          <IconButton size="small" onClick={() => void handleDelete(session)} disabled={busy}>
+                            <DeleteOutlineIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </Box>
+                  }
+                >
+                  <ListItemButton onClick={() => void handleResume(session)} disabled={busy} sx={{ pr: 12 }}>
+                    <ListItemText
+                      primary={session.name}
+                      secondary={`${session.rowCount.toLocaleString()} rows · ${session.propertyCount.toLocaleString()} properties · ${session.clusterCount.toLocaleString()} clusters · ${formatTimestamp(session.updatedAt)}`}
+                    />
+                  </ListItemButton>
+                </ListItem>
+              ))}
+
+              {/* Empty state */}
+              {sessions.length === 0 && (
+                <ListItem>
+                  <ListItemText
+                    primary="No saved sessions"
+                    secondary="Save the current workspace to resume it later"
+                    sx={{ textAlign: 'center', color: 'text.secondary' }}
+                  />
+                </ListItem>
+              )}
+            </List>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {busy && <CircularProgress size={20} sx={{ mr: 1 }} />}
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
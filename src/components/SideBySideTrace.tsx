@@ -12,6 +12,7 @@ export function SideBySideTrace({
   targetModel,
   rawResponseA,
   rawResponseB,
+  onSelectText,
 }: {
   messagesA: Message[];
   messagesB: Message[];
@@ -21,6 +22,7 @@ export function SideBySideTrace({
   targetModel?: string;
   rawResponseA?: any;
   rawResponseB?: any;
+  onSelectText?: (text: string, model: string) => void;
 }) {
   return (
     <Box sx={{
@@ -30,11 +32,11 @@ export function SideBySideTrace({
     }}>
       <Box>
         <Typography variant="subtitle2" sx={{ mb: 1 }}>{modelA}</Typography>
-        <ConversationTrace messages={messagesA} highlights={targetModel && targetModel !== modelA ? [] : highlights} rawResponse={rawResponseA} />
+        <ConversationTrace messages={messagesA} highlights={targetModel && targetModel !== modelA ? [] : highlights} rawResponse={rawResponseA} onSelectText={onSelectText ? (text) => onSelectText(text, modelA) : undefined} />
       </Box>
       <Box>
         <Typography variant="subtitle2" sx={{ mb: 1 }}>{modelB}</Typography>
-        <ConversationTrace messages={messagesB} highlights={targetModel && targetModel !== modelB ? [] : highlights} rawResponse={rawResponseB} />
+        <ConversationTrace messages={messagesB} highlights={targetModel && targetModel !== modelB ? [] : highlights} rawResponse={rawResponseB} onSelectText={onSelectText ? (text) => onSelectText(text, modelB) : undefined} />
       </Box>
     </Box>
   );
@@ -0,0 +1,77 @@
+import { Box, Typography, Button, Chip, Stack, IconButton, Tooltip } from '@mui/material';
+import EditOutlinedIcon from '@mui/icons-material/EditOutlined';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import type { PropertyLike } from './cards/PropertyCard';
+
+interface TraceAuthoredPropertiesProps {
+  selection: { text: string; model: string } | null;
+  properties: PropertyLike[]; // human-authored properties for the open row
+  onCreateFromSelection: () => void;
+  onClearSelection: () => void;
+  onEdit: (property: PropertyLike) => void;
+  onDelete: (property: PropertyLike) => void;
+}
+
+/**
+ * Selection bar and human-authored properties for the trace open in the drawer
+ */
+export default function TraceAuthoredProperties({
+  selection,
+  properties,
+  onCreateFromSelection,
+  onClearSelection,
+  onEdit,
+  onDelete,
+}: TraceAuthoredPropertiesProps) {
+  if (!selection && properties.length === 0) {
+    return (
+      <Typography variant="caption" sx={{ display: 'block', color: 'text.secondary', mb: 1 }}>
+        Select text in a response to author a property from it.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ mb: 1.5 }}>
+      {selection && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1, mb: 1, border: '1px solid #BFDBFE', borderRadius: 1, background: '#EFF6FF' }}>
+          <Typography variant="body2" sx={{ flex: 1, minWidth: 0, color: '#1E3A8A' }} noWrap title={selection.text}>
+            “{selection.text}”{selection.model ? ` · ${selection.model}` : ''}
+          </Typography>
+          <Button size="small" variant="contained" onClick={onCreateFromSelection}>
+            Create property
+          </Button>
+          <Button size="small" onClick={onClearSelection}>Clear</Button>
+        </Box>
+      )}
+      {properties.length > 0 && (
+        <Box>
+          <Typography variant="caption" sx={{ fontWeight: 600, color: '#64748B' }}>
+            Your properties for this conversation
+          </Typography>
+          <Stack spacing={0.5} sx={{ mt: 0.5 }}>
+            {properties.map(p => (
+              <Box key={p.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, px: 1, py: 0.5, border: '1px solid #E5E7EB', borderRadius: 1 }}>
+                <Typography variant="body2" sx={{ flex: 1, minWidth: 0 }} noWrap title={p.property_description}>
+                  {p.property_description}
+                </Typography>
+                {p.category && <Chip size="small" variant="outlined" label={p.category} />}
+                <Chip size="small" variant="outlined" label={p.model} />
+                <Tooltip title="Edit">
+                  <IconButton size="small" onClick={() => onEdit(p)}>
+                    <EditOutlinedIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Delete">
+                  <IconButton size="small" onClick={() => onDelete(p)}>
+                    <DeleteOutlineIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            ))}
+          </Stack>
+        </Box>
+      )}
+    </Box>
+  );
+}
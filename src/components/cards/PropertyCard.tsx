@@ -22,6 +22,9 @@ export interface PropertyLike {
   evidence?: string | string[];
   contains_errors?: boolean;
   unexpected_behavior?: boolean;
+  human_authored?: boolean; // authored in the trace drawer rather than extracted
+  review_verdict?: 'accepted' | 'rejected' | 'needs_edit';
+  review_note?: string;
 }
 
 interface PropertyCardProps {
@@ -69,6 +72,16 @@ export default function PropertyCard({ property, conversation, method, onOpenCon
                 />
               )}
               <Chip label={property.model} size="small" variant="outlined" />
+              {property.human_authored && (
+                <Chip label="Human-authored" size="small" color="info" variant="outlined" />
+              )}
+              {property.review_verdict && (
+                <Chip
+                  label={property.review_verdict === 'accepted' ? 'Accepted' : property.review_verdict === 'rejected' ? 'Rejected' : 'Needs edit'}
+                  size="small"
+                  color={property.review_verdict === 'accepted' ? 'success' : property.review_verdict === 'rejected' ? 'error' : 'warning'}
+                />
+              )}
               {property.unexpected_behavior && (
                 <Chip label="Unexpected behavior" size="small" color="warning" variant="outlined" />
               )}
@@ -81,6 +94,11 @@ export default function PropertyCard({ property, conversation, method, onOpenCon
                 Evidence: {evidenceList.join(' | ')}
               </Typography>
             )}
+            {property.review_note && (
+              <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5, display: 'block' }}>
+                Review note: {property.review_note}
+              </Typography>
+            )}
           </Box>
         }
         sx={{ pb: 0.5 }}
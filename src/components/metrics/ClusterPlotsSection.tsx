@@ -6,6 +6,8 @@
  * 2. Frequency Delta (proportion delta with zero line)
  * 3. Quality (absolute quality scores)
  * 4. Quality Delta (quality delta with zero line)
+ * plus, for side-by-side data, Preference Delta (win-rate shift with zero line),
+ * and a model × cluster heatmap that stays readable with many models.
  */
 
 import React from 'react';
@@ -18,6 +20,8 @@ import {
 } from '@mui/material';
 import { FrequencyChart } from './charts/FrequencyChart';
 import { QualityDeltaChart } from './charts/QualityDeltaChart';
+import { PreferenceDeltaChart } from './charts/PreferenceDeltaChart';
+import { ModelClusterHeatmap } from './charts/ModelClusterHeatmap';
 import type { 
   ModelClusterRow, 
   MetricsFilters 
@@ -29,6 +33,7 @@ interface ClusterPlotsSectionProps {
   qualityMetrics: string[];
   showCI: boolean;
   topClusters: string[];
+  onOpenClusterProperties?: (clusterName: string, model: string) => void;
 }
 
 export function ClusterPlotsSection({
@@ -36,8 +41,10 @@ export function ClusterPlotsSection({
   filters,
   qualityMetrics,
   showCI,
-  topClusters
+  topClusters,
+  onOpenClusterProperties
 }: ClusterPlotsSectionProps) {
+  const hasPreference = data.some(row => typeof row.preference_delta === 'number');
 
   return (
     <Box sx={{ mb: 4 }}>
@@ -75,6 +82,33 @@ export function ClusterPlotsSection({
               />
             </Paper>
         </Box>
+
+        {/* Preference Δ Chart (side-by-side data) */}
+        {hasPreference && (
+          <Box sx={{ width: '100%' }}>
+            <Paper elevation={1} sx={{ p: 3, height: 520, width: '100%' }}>
+              <PreferenceDeltaChart
+                data={data}
+                filters={filters}
+                topClusters={topClusters}
+                showCI={showCI}
+                height={470}
+              />
+            </Paper>
+          </Box>
+        )}
+
+        {/* Model × Cluster Heatmap */}
+        <Box sx={{ width: '100%' }}>
+          <Paper elevation={1} sx={{ p: 3, width: '100%' }}>
+            <ModelClusterHeatmap
+              data={data}
+              filters={filters}
+              topClusters={topClusters}
+              onCellClick={onOpenClusterProperties}
+            />
+          </Paper>
+        </Box>
       </Stack>
     </Box>
   );
@@ -39,6 +39,7 @@ interface MetricsMainContentProps {
   showClusterPlots?: boolean;
   showModelCards?: boolean;
   onNavigateToCluster?: (clusterName: string) => void;
+  onOpenClusterProperties?: (clusterName: string, model: string) => void;
   onViewExample?: (cluster: ModelClusterRow) => void;
 }
 
@@ -52,6 +53,7 @@ export function MetricsMainContent({
   showClusterPlots = true,
   showModelCards = true,
   onNavigateToCluster,
+  onOpenClusterProperties,
   onViewExample
 }: MetricsMainContentProps) {
 
@@ -79,6 +81,9 @@ export function MetricsMainContent({
       filtered = filtered.filter(row => {
         // Check proportion significance
         if (row.proportion_delta_significant) return true;
+
+        // Check side-by-side preference significance
+        if (row.preference_delta_significant) return true;
         
         // Check quality significance for current metric
         const qualitySigKey = `quality_delta_${filters.qualityMetric}_significant`;
@@ -236,6 +241,7 @@ export function MetricsMainContent({
           qualityMetrics={qualityMetrics}
           showCI={filters.showCI && (summary?.has_confidence_intervals || false)}
           topClusters={topClusters}
+          onOpenClusterProperties={onOpenClusterProperties}
         />
       )}
     </Box>
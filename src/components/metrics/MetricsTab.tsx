@@ -57,6 +57,9 @@ interface MetricsTabProps {
   /** Callback to navigate to a cluster in the Clusters tab */
   onNavigateToCluster?: (clusterName: string) => void;
 
+  /** Callback to open a cluster's properties for one model (heatmap cell click) */
+  onOpenClusterProperties?: (clusterName: string, model: string) => void;
+
   /** Callback to view a random example from a cluster */
   onViewExample?: (cluster: ModelClusterRow) => void;
 
@@ -73,6 +76,7 @@ export function MetricsTab({
   showClusterPlots = true,
   showModelCards = true,
   onNavigateToCluster,
+  onOpenClusterProperties,
   onViewExample,
   totalUniqueConversations
 }: MetricsTabProps) {
@@ -300,6 +304,7 @@ export function MetricsTab({
           showClusterPlots={showClusterPlots}
           showModelCards={showModelCards}
           onNavigateToCluster={onNavigateToCluster}
+          onOpenClusterProperties={onOpenClusterProperties}
           onViewExample={onViewExample}
         />
       </Box>
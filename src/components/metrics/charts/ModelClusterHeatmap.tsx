@@ -0,0 +1,223 @@
+/**
+ * ModelClusterHeatmap - Models × clusters heatmap.
+ *
+ * Colors each cell by one of the four cluster metrics (frequency, frequency Δ,
+ * quality, quality Δ), marks cells whose delta is significant, and can reorder
+ * rows and columns so similar clusters and models sit together. Clicking a cell
+ * opens that cluster's properties for that model. Reads better than grouped bars
+ * once there are more than a handful of models.
+ */
+
+import { useMemo, useState } from 'react';
+import type { PlotData } from 'plotly.js';
+import { Box, Typography, Alert, FormControl, InputLabel, Select, MenuItem } from '@mui/material';
+import { PlotlyChartBase, truncateLabel } from './PlotlyChartBase';
+import { getDisplayName, getOriginalMetricName, sanitizeMetricName } from '../utils/metricUtils';
+import { clusteredOrder, clusteredColumnOrder } from '../utils/heatmapOrder';
+import type { ModelClusterRow, MetricsFilters, MetricsPlotType } from '../../../types/metrics';
+
+export type HeatmapMetric = Exclude<MetricsPlotType, 'preference_delta' | 'heatmap'>;
+type HeatmapOrder = 'default' | 'clustered';
+
+interface ModelClusterHeatmapProps {
+  /** Model-cluster data */
+  data: ModelClusterRow[];
+  /** Current filters */
+  filters: MetricsFilters;
+  /** Pre-computed top clusters (in order) */
+  topClusters?: string[];
+  /** Called with the cluster label and model of a clicked cell */
+  onCellClick?: (cluster: string, model: string) => void;
+  /** Chart height; defaults to fit the number of clusters */
+  height?: number;
+}
+
+const METRIC_LABELS: Record<HeatmapMetric, string> = {
+  frequency: 'Frequency',
+  frequency_delta: 'Frequency Δ',
+  quality: 'Quality',
+  quality_delta: 'Quality Δ',
+};
+
+function cellValue(row: ModelClusterRow, metric: HeatmapMetric, qualityMetric: string): number | undefined {
+  const original = getOriginalMetricName(qualityMetric);
+  const sanitized = sanitizeMetricName(qualityMetric);
+  const flat = row as unknown as Record<string, unknown>;
+  const pick = (...values: unknown[]) => values.find((v): v is number => typeof v === 'number' && isFinite(v));
+  switch (metric) {
+    case 'frequency':
+      return pick(row.proportion);
+    case 'frequency_delta':
+      return pick(row.proportion_delta);
+    case 'quality':
+      return pick(row.quality?.[original], flat[`quality_${qualityMetric}`], flat[`quality_${sanitized}`]);
+    case 'quality_delta':
+      return pick(row.quality_delta?.[original], flat[`quality_delta_${qualityMetric}`], flat[`quality_delta_${sanitized}`]);
+  }
+}
+
+// Frequency cells use the frequency-delta test, quality cells the quality-delta test
+function cellSignificant(row: ModelClusterRow, metric: HeatmapMetric, qualityMetric: string): boolean {
+  if (metric === 'frequency' || metric === 'frequency_delta') return row.proportion_delta_significant === true;
+  const original = getOriginalMetricName(qualityMetric);
+  return row.quality_delta_significant?.[original] === true || (row as unknown as Record<string, unknown>)[`quality_delta_${qualityMetric}_significant`] === true;
+}
+
+export function ModelClusterHeatmap({
+  data,
+  filters,
+  topClusters,
+  onCellClick,
+  height
+}: ModelClusterHeatmapProps) {
+  const [metric, setMetric] = useState<HeatmapMetric>('frequency_delta');
+  const [order, setOrder] = useState<HeatmapOrder>('default');
+  const isDelta = metric === 'frequency_delta' || metric === 'quality_delta';
+  const isQuality = metric === 'quality' || metric === 'quality_delta';
+
+  const grid = useMemo(() => {
+    const rows = data.filter(row => filters.selectedModels.length === 0 || filters.selectedModels.includes(row.model));
+    const models = filters.selectedModels.length > 0
+      ? filters.selectedModels.filter(m => rows.some(r => r.model === m))
+      : [...new Set(rows.map(r => r.model))].sort();
+    const clusters = (topClusters || [...new Set(rows.map(r => r.cluster))].slice(0, filters.topN))
+      .filter(cluster => rows.some(r => r.cluster === cluster));
+    const byKey = new Map(rows.map(r => [`${r.cluster}\u0000${r.model}`, r]));
+
+    let z = clusters.map(cluster => models.map(model => {
+      const row = byKey.get(`${cluster}\u0000${model}`);
+      const value = row ? cellValue(row, metric, filters.qualityMetric) : undefined;
+      if (value === undefined) return NaN;
+      // Significance filter blanks the cells that didn't pass
+      if (filters.significanceOnly && !cellSignificant(row!, metric, filters.qualityMetric)) return NaN;
+      return value;
+    }));
+    let significant = clusters.map(cluster => models.map(model => {
+      const row = byKey.get(`${cluster}\u0000${model}`);
+      return row ? cellSignificant(row, metric, filters.qualityMetric) : false;
+    }));
+    let clusterOrder = clusters;
+    let modelOrder = models;
+
+    if (order === 'clustered' && clusters.length > 0 && models.length > 0) {
+      const rowOrder = clusteredOrder(z);
+      const colOrder = clusteredColumnOrder(z);
+      clusterOrder = rowOrder.map(i => clusters[i]);
+      modelOrder = colOrder.map(j => models[j]);
+      z = rowOrder.map(i => colOrder.map(j => z[i][j]));
+      significant = rowOrder.map(i => colOrder.map(j => significant[i][j]));
+    }
+    return { clusters: clusterOrder, models: modelOrder, z, significant };
+  }, [data, filters, topClusters, metric, order]);
+
+  const controls = (
+    <Box sx={{ display: 'flex', gap: 1 }}>
+      <FormControl size="small" sx={{ minWidth: 150 }}>
+        <InputLabel id="heatmap-metric-label">Color by</InputLabel>
+        <Select labelId="heatmap-metric-label" value={metric} label="Color by" onChange={(e) => setMetric(e.target.value as HeatmapMetric)}>
+          {(Object.keys(METRIC_LABELS) as HeatmapMetric[]).map(m => <MenuItem key={m} value={m}>{METRIC_LABELS[m]}</MenuItem>)}
+        </Select>
+      </FormControl>
+      <FormControl size="small" sx={{ minWidth: 150 }}>
+        <InputLabel id="heatmap-order-label">Order</InputLabel>
+        <Select labelId="heatmap-order-label" value={order} label="Order" onChange={(e) => setOrder(e.target.value as HeatmapOrder)}>
+          <MenuItem value="default">By cluster ranking</MenuItem>
+          <MenuItem value="clustered">Clustered (similar together)</MenuItem>
+        </Select>
+      </FormControl>
+    </Box>
+  );
+
+  const header = (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1, flexWrap: 'wrap' }}>
+      <Typography variant="h6" component="h3">
+        Model × Cluster Heatmap
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+        {METRIC_LABELS[metric]}{isQuality ? ` (${getDisplayName(filters.qualityMetric)})` : ''} · ● significant · click a cell to open its properties
+      </Typography>
+      {controls}
+    </Box>
+  );
+
+  const hasValues = grid.z.some(row => row.some(v => Number.isFinite(v)));
+  if (!hasValues) {
+    return (
+      <Box>
+        {header}
+        <Alert severity="info">
+          {filters.significanceOnly
+            ? 'No significant cells for this metric. Try disabling the significance filter.'
+            : `No ${METRIC_LABELS[metric].toLowerCase()} data matches the current filters.`}
+        </Alert>
+      </Box>
+    );
+  }
+
+  const finite = grid.z.flat().filter(v => Number.isFinite(v));
+  const maxAbs = Math.max(...finite.map(Math.abs)) || 1;
+  const percent = metric === 'frequency' || metric === 'frequency_delta';
+  const format = (v: number) => (percent ? `${(v * 100).toFixed(1)}%` : v.toFixed(3));
+
+  const heatmap: Partial<PlotData> = {
+    type: 'heatmap',
+    x: grid.models,
+    y: grid.clusters,
+    // Plotly leaves null cells blank
+    z: grid.z.map(row => row.map(v => (Number.isFinite(v) ? v : null))),
+    customdata: grid.z.map((row, i) => row.map((v, j) => Number.isFinite(v)
+      ? `${format(v)}${grid.significant[i][j] ? ' (significant)' : ''}`
+      : 'No data')),
+    hovertemplate: '<b>%{y}</b><br>%{x}<br>' + METRIC_LABELS[metric] + ': %{customdata}<extra></extra>',
+    colorscale: isDelta ? 'RdBu' : 'Blues',
+    reversescale: !isDelta,
+    ...(isDelta ? { zmid: 0, zmin: -maxAbs, zmax: maxAbs } : {}),
+    colorbar: { thickness: 12, tickformat: percent ? (isDelta ? '+.0%' : '.0%') : '.2f' },
+    xgap: 1,
+    ygap: 1,
+  };
+
+  const marks: Partial<PlotData> = {
+    type: 'scatter',
+    mode: 'markers',
+    x: grid.clusters.flatMap((_, i) => grid.models.filter((__, j) => grid.significant[i][j] && Number.isFinite(grid.z[i][j]))),
+    y: grid.clusters.flatMap((cluster, i) => grid.models.filter((__, j) => grid.significant[i][j] && Number.isFinite(grid.z[i][j])).map(() => cluster)),
+    marker: { symbol: 'circle', size: 6, color: '#111827' },
+    hoverinfo: 'skip',
+    showlegend: false,
+  };
+
+  return (
+    <Box>
+      {header}
+      <PlotlyChartBase
+        data={[heatmap, marks]}
+        height={height ?? Math.max(320, 26 * grid.clusters.length + 160)}
+        onClick={(event) => {
+          const point = event.points?.[0];
+          if (point && onCellClick) onCellClick(String(point.y), String(point.x));
+        }}
+        layout={{
+          showlegend: false,
+          margin: { t: 20, r: 30, b: 120, l: 80 },
+          xaxis: {
+            type: 'category',
+            tickangle: -30,
+            tickvals: grid.models,
+            ticktext: grid.models.map(m => truncateLabel(m.split('/').pop() || m, 24)),
+            gridcolor: 'transparent'
+          },
+          yaxis: {
+            type: 'category',
+            autorange: 'reversed',
+            tickvals: grid.clusters,
+            ticktext: grid.clusters.map(c => truncateLabel(c, 40)),
+            gridcolor: 'transparent'
+          }
+        }}
+      />
+    </Box>
+  );
+}
+
+export default ModelClusterHeatmap;
@@ -32,6 +32,12 @@ export interface PlotlyChartBaseProps {
   yAxisLabel?: string;
   /** Loading state */
   loading?: boolean;
+  /** Called when a point is clicked */
+  onClick?: (event: Readonly<Plotly.PlotMouseEvent>) => void;
+  /** Called when points are box/lasso selected */
+  onSelected?: (event: Readonly<Plotly.PlotSelectionEvent>) => void;
+  /** Called when a selection is cleared (double-click) */
+  onDeselect?: () => void;
 }
 
 /**
@@ -72,7 +78,10 @@ export function PlotlyChartBase({
   title,
   xAxisLabel,
   yAxisLabel,
-  loading = false
+  loading = false,
+  onClick,
+  onSelected,
+  onDeselect
 }: PlotlyChartBaseProps) {
   const theme = useTheme();
   
@@ -194,6 +203,9 @@ export function PlotlyChartBase({
         config={defaultConfig}
         style={{ width: '100%', height: '100%', minWidth: 0 }}
         useResizeHandler={true}
+        onClick={onClick}
+        onSelected={onSelected}
+        onDeselect={onDeselect}
       />
     </Box>
   );
@@ -0,0 +1,159 @@
+/**
+ * PreferenceDeltaChart - Side-by-side preference shift by cluster.
+ *
+ * Shows grouped bars by model displaying how much more (or less) often the model
+ * wins its battles when it shows the cluster's behavior, compared with its overall
+ * preference ((wins + ½ ties) / battles). Hover lists the win/tie/loss split.
+ */
+
+import { useMemo } from 'react';
+import { Box, Typography, Alert } from '@mui/material';
+import { PlotlyChartBase, getModelColor, truncateLabel, createHoverTemplate } from './PlotlyChartBase';
+import type { ModelClusterRow, MetricsFilters } from '../../../types/metrics';
+
+interface PreferenceDeltaChartProps {
+  /** Model-cluster data (rows without `preference_delta` are skipped) */
+  data: ModelClusterRow[];
+  /** Current filters */
+  filters: MetricsFilters;
+  /** Pre-computed top clusters (in order) */
+  topClusters?: string[];
+  /** Whether to show confidence intervals */
+  showCI?: boolean;
+  /** Chart height */
+  height?: number;
+}
+
+function pct(value?: number): string {
+  return typeof value === 'number' && isFinite(value) ? `${(value * 100).toFixed(1)}%` : '—';
+}
+
+export function PreferenceDeltaChart({
+  data,
+  filters,
+  topClusters,
+  showCI = false,
+  height = 400
+}: PreferenceDeltaChartProps) {
+
+  const pairwiseData = useMemo(
+    () => data.filter(row => typeof row.preference_delta === 'number' && isFinite(row.preference_delta)),
+    [data]
+  );
+
+  const plotData = useMemo(() => {
+    // Filter data by selected models, then by significance if enabled
+    let finalData = pairwiseData.filter(row =>
+      filters.selectedModels.length === 0 || filters.selectedModels.includes(row.model)
+    );
+    if (filters.significanceOnly) {
+      finalData = finalData.filter(row => row.preference_delta_significant === true);
+    }
+    if (!finalData.length) return [];
+
+    const clustersToShow = (topClusters || Array.from(new Set(finalData.map(row => row.cluster))).slice(0, filters.topN))
+      .filter(cluster => finalData.some(row => row.cluster === cluster));
+    const allModels = filters.selectedModels.length > 0
+      ? filters.selectedModels
+      : [...new Set(pairwiseData.map(row => row.model))].sort();
+
+    return allModels.map(model => {
+      const rows = clustersToShow.map(cluster => finalData.find(r => r.cluster === cluster && r.model === model));
+      const deltas = rows.map(row => row?.preference_delta ?? 0);
+
+      const withCI = showCI && rows.some(row => row?.preference_delta_ci_lower !== undefined);
+
+      return {
+        type: 'bar' as const,
+        name: model.split('/').pop() || model,
+        x: clustersToShow.map(cluster => truncateLabel(cluster, 20)),
+        y: deltas,
+        marker: {
+          color: getModelColor(model, allModels),
+          opacity: 0.8
+        },
+        hovertemplate: clustersToShow.map((cluster, i) => {
+          const row = rows[i];
+          if (!row) return `<b>${cluster}</b><br>No battles<extra></extra>`;
+          return createHoverTemplate(cluster, deltas[i] * 100, 'Preference Δ (pts)', 1) +
+            `<br>Win / tie / loss: ${pct(row.win_rate)} / ${pct(row.tie_rate)} / ${pct(row.loss_rate)}` +
+            `<br>Battles: ${row.battles ?? 0}` +
+            (row.battles_decided_by ? `<br>Winner decided by: ${row.battles_decided_by}` : '') +
+            (row.preference_delta_significant ? '<br><b>Significant</b>' : '');
+        }),
+        ...(withCI ? {
+          error_y: {
+            type: 'data' as const,
+            symmetric: false,
+            array: rows.map((row, i) => row?.preference_delta_ci_upper !== undefined ? Math.abs(row.preference_delta_ci_upper - deltas[i]) : 0),
+            arrayminus: rows.map((row, i) => row?.preference_delta_ci_lower !== undefined ? Math.abs(deltas[i] - row.preference_delta_ci_lower) : 0),
+            visible: true,
+            thickness: 2,
+            width: 5,
+            color: getModelColor(model, allModels)
+          }
+        } : {}),
+      };
+    });
+  }, [pairwiseData, filters, topClusters, showCI]);
+
+  if (!pairwiseData.length) {
+    return (
+      <Box sx={{ height }}>
+        <Alert severity="info">
+          No side-by-side outcomes available. Preference shifts need side-by-side rows with a winner or scores for both models.
+        </Alert>
+      </Box>
+    );
+  }
+
+  if (!plotData.length) {
+    return (
+      <Box sx={{ height }}>
+        <Alert severity="info">
+          {filters.significanceOnly
+            ? 'No significant preference shifts found. Try disabling the significance filter.'
+            : 'No data matches the current filters. Try adjusting your model selection.'}
+        </Alert>
+      </Box>
+    );
+  }
+
+  const maxAbs = Math.max(0.01, ...plotData.flatMap(trace => trace.y.map(Math.abs)));
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1 }}>
+        <Typography variant="h6" component="h3">
+          Preference Δ by Cluster
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Win rate when the behavior is present vs. the model's overall win rate
+          {showCI && ' (with confidence intervals)'}
+        </Typography>
+      </Box>
+
+      <PlotlyChartBase
+        data={plotData}
+        height={height}
+        showZeroLine={true}
+        yAxisLabel="Preference Δ"
+        layout={{
+          barmode: 'group',
+          bargap: 0.2,
+          bargroupgap: 0.1,
+          yaxis: {
+            tickformat: '+.1%',
+            range: [-maxAbs * 1.1, maxAbs * 1.1],
+            zeroline: true
+          },
+          xaxis: {
+            tickangle: -45
+          }
+        }}
+      />
+    </Box>
+  );
+}
+
+export default PreferenceDeltaChart;
@@ -0,0 +1,53 @@
+/**
+ * Row/column ordering for heatmaps: average-linkage hierarchical clustering of
+ * the rows, read off as leaf order so similar rows end up next to each other.
+ */
+
+function euclidean(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    // Missing cells count as 0 so sparse rows still compare
+    const d = (Number.isFinite(a[i]) ? a[i] : 0) - (Number.isFinite(b[i]) ? b[i] : 0);
+    sum += d * d;
+  }
+  return Math.sqrt(sum);
+}
+
+/** Leaf order of the rows of `matrix` under average-linkage clustering. */
+export function clusteredOrder(matrix: number[][]): number[] {
+  const n = matrix.length;
+  if (n <= 2) return matrix.map((_, i) => i);
+
+  const dist = matrix.map(a => matrix.map(b => euclidean(a, b)));
+  let groups = matrix.map((_, i) => [i]);
+  while (groups.length > 1) {
+    let best = { i: 0, j: 1, d: Infinity };
+    for (let i = 0; i < groups.length; i++) {
+      for (let j = i + 1; j < groups.length; j++) {
+        let total = 0;
+        for (const a of groups[i]) for (const b of groups[j]) total += dist[a][b];
+        const d = total / (groups[i].length * groups[j].length);
+        if (d < best.d) best = { i, j, d };
+      }
+    }
+    const left = groups[best.i];
+    const right = groups[best.j];
+    // Join the ends that are closest, so neighbours across the seam are similar too
+    const joins = [
+      [left, right],
+      [left, [...right].reverse()],
+      [[...left].reverse(), right],
+    ];
+    const seam = (pair: number[][]) => dist[pair[0][pair[0].length - 1]][pair[1][0]];
+    const [a, b] = joins.reduce((x, y) => (seam(y) < seam(x) ? y : x));
+    groups = groups.filter((_, k) => k !== best.i && k !== best.j);
+    groups.push([...a, ...b]);
+  }
+  return groups[0];
+}
+
+/** Order of the columns of `matrix` (clusters its transpose). */
+export function clusteredColumnOrder(matrix: number[][]): number[] {
+  const columns = matrix.length > 0 ? matrix[0].length : 0;
+  return clusteredOrder(Array.from({ length: columns }, (_, c) => matrix.map(row => row[c])));
+}
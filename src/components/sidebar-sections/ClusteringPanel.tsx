@@ -1,13 +1,18 @@
 import React from 'react';
 import { Box, Stack, Typography, TextField, Button, MenuItem, Select, FormControl, InputLabel, LinearProgress } from '@mui/material';
 import { getEmbeddingModels, runClustering } from '../../lib/api';
+import { runLocalClustering, DEFAULT_LOCAL_CLUSTERING, type LocalClusteringProgress } from '../../lib/localClustering';
+import type { LocalVectorizer, LocalAlgorithm } from '../../lib/textClustering';
+import type { PropertyLike } from '../cards/PropertyCard';
 
 interface ClusteringPanelProps {
   hasAnyProperties: boolean;
+  backendAvailable?: boolean;
   getOperationalRows: () => any[];
   getPropertiesRows: () => any[];
   onClustersUpdated: (data: { 
     clusters: any[]; 
+    properties?: PropertyLike[]; // replaces the workspace properties (local clustering assigns missing ids)
     total_conversations_by_model?: Record<string, number>;
     total_unique_conversations?: number;
     metrics?: {
@@ -18,7 +23,7 @@ interface ClusteringPanelProps {
   }) => void;
 }
 
-export default function ClusteringPanel({ hasAnyProperties, getOperationalRows, getPropertiesRows, onClustersUpdated }: ClusteringPanelProps) {
+export default function ClusteringPanel({ hasAnyProperties, backendAvailable = true, getOperationalRows, getPropertiesRows, onClustersUpdated }: ClusteringPanelProps) {
   const [minClusterSize, setMinClusterSize] = React.useState<number>(5);
   const [embeddingModel, setEmbeddingModel] = React.useState<string>('openai/text-embedding-3-small');
   const [models, setModels] = React.useState<string[]>([]);
@@ -27,8 +32,20 @@ export default function ClusteringPanel({ hasAnyProperties, getOperationalRows,
   // UI-only LLM configs for clustering labeling/matching (not sent to backend yet)
   const [summarizationModel, setSummarizationModel] = React.useState<string>('gpt-4.1');
   const [matchingModel, setMatchingModel] = React.useState<string>('gpt-4.1-mini');
+  // In-browser clustering (TF-IDF / hashed n-grams) for when there is no backend
+  const [engine, setEngine] = React.useState<'backend'|'local'>(backendAvailable ? 'backend' : 'local');
+  const [vectorizer, setVectorizer] = React.useState<LocalVectorizer>(DEFAULT_LOCAL_CLUSTERING.vectorizer);
+  const [algorithm, setAlgorithm] = React.useState<LocalAlgorithm>(DEFAULT_LOCAL_CLUSTERING.algorithm);
+  const [similarityThreshold, setSimilarityThreshold] = React.useState<number>(DEFAULT_LOCAL_CLUSTERING.similarityThreshold);
+  const [progress, setProgress] = React.useState<LocalClusteringProgress | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
 
   React.useEffect(() => {
+    if (!backendAvailable) setEngine('local');
+  }, [backendAvailable]);
+
+  React.useEffect(() => {
+    if (!backendAvailable) return;
     let cancelled = false;
     (async () => {
       try {
@@ -40,10 +57,34 @@ export default function ClusteringPanel({ hasAnyProperties, getOperationalRows,
       }
     })();
     return () => { cancelled = true; };
-  }, []);
+  }, [backendAvailable]);
+
+  const handleClusterLocally = async () => {
+    if (!hasAnyProperties) return;
+
+    setBusy(true);
+    setError(null);
+    setProgress(null);
+    try {
+      const res = await runLocalClustering(
+        getOperationalRows(),
+        getPropertiesRows(),
+        { minClusterSize, groupBy, vectorizer, algorithm, similarityThreshold },
+        setProgress,
+      );
+      onClustersUpdated(res);
+    } catch (e: unknown) {
+      console.error('Local clustering failed:', e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
 
   const handleClusterProperties = async () => {
     if (!hasAnyProperties) return;
+    if (engine === 'local') return handleClusterLocally();
 
     setBusy(true);
     try {
@@ -124,6 +165,18 @@ export default function ClusteringPanel({ hasAnyProperties, getOperationalRows,
         )}
         
         <Stack spacing={2}>
+          <FormControl size="small" disabled={!hasAnyProperties}>
+            <InputLabel id="clustering-engine-label">Engine</InputLabel>
+            <Select
+              labelId="clustering-engine-label"
+              value={engine}
+              label="Engine"
+              onChange={(e) => setEngine(e.target.value as 'backend' | 'local')}
+            >
+              <MenuItem value={'backend'} disabled={!backendAvailable}>Backend (embeddings + LLM labels)</MenuItem>
+              <MenuItem value={'local'}>In browser (no backend)</MenuItem>
+            </Select>
+          </FormControl>
           <TextField
             size="small"
             label="Min cluster size"
@@ -134,6 +187,7 @@ export default function ClusteringPanel({ hasAnyProperties, getOperationalRows,
             inputProps={{ min: 1, max: 100 }}
             helperText="Minimum number of properties required to form a cluster"
           />
+          {engine === 'backend' ? (
           <FormControl size="small" disabled={!hasAnyProperties}>
             <InputLabel id="embedding-model-label">Embedding model</InputLabel>
             <Select
@@ -147,6 +201,44 @@ export default function ClusteringPanel({ hasAnyProperties, getOperationalRows,
               ))}
             </Select>
           </FormControl>
+          ) : (
+            <>
+              <FormControl size="small" disabled={!hasAnyProperties}>
+                <InputLabel id="local-vectorizer-label">Vectorizer</InputLabel>
+                <Select
+                  labelId="local-vectorizer-label"
+                  value={vectorizer}
+                  label="Vectorizer"
+                  onChange={(e) => setVectorizer(e.target.value as LocalVectorizer)}
+                >
+                  <MenuItem value={'tfidf'}>TF-IDF (words + bigrams)</MenuItem>
+                  <MenuItem value={'hashed'}>Hashed character n-grams</MenuItem>
+                </Select>
+              </FormControl>
+              <FormControl size="small" disabled={!hasAnyProperties}>
+                <InputLabel id="local-algorithm-label">Algorithm</InputLabel>
+                <Select
+                  labelId="local-algorithm-label"
+                  value={algorithm}
+                  label="Algorithm"
+                  onChange={(e) => setAlgorithm(e.target.value as LocalAlgorithm)}
+                >
+                  <MenuItem value={'agglomerative'}>Agglomerative</MenuItem>
+                  <MenuItem value={'density'}>Density (DBSCAN)</MenuItem>
+                </Select>
+              </FormControl>
+              <TextField
+                size="small"
+                label="Similarity threshold"
+                type="number"
+                value={similarityThreshold}
+                onChange={(e) => setSimilarityThreshold(Number(e.target.value))}
+                disabled={!hasAnyProperties}
+                inputProps={{ min: 0.05, max: 0.95, step: 0.05 }}
+                helperText="Cosine similarity needed to join a cluster; higher gives tighter, smaller clusters"
+              />
+            </>
+          )}
 
           <FormControl size="small" disabled={!hasAnyProperties}>
             <InputLabel id="group-by-label">Group by</InputLabel>
@@ -163,6 +255,7 @@ export default function ClusteringPanel({ hasAnyProperties, getOperationalRows,
           </FormControl>
 
           {/* LLM configuration for cluster labeling/matching (UI-only for now) */}
+          {engine === 'backend' && (<>
           <TextField
             size="small"
             label="Summarization model"
@@ -179,6 +272,7 @@ export default function ClusteringPanel({ hasAnyProperties, getOperationalRows,
             disabled={!hasAnyProperties}
             helperText="Passed to backend for cluster/property matching"
           />
+          </>)}
         </Stack>
       </Box>
 
@@ -192,9 +286,17 @@ export default function ClusteringPanel({ hasAnyProperties, getOperationalRows,
             <Typography variant="body2" sx={{ color: 'primary.main', mb: 0.5 }}>
               Clustering properties...
             </Typography>
-            <LinearProgress />
+            {progress && progress.total > 0
+              ? <LinearProgress variant="determinate" value={Math.min(100, (progress.done / progress.total) * 100)} />
+              : <LinearProgress />}
           </Box>
         )}
+
+        {error && (
+          <Typography variant="body2" color="error" sx={{ mb: 2 }}>
+            {error}
+          </Typography>
+        )}
         
         <Stack spacing={1}>
           <Button
@@ -212,6 +314,7 @@ export default function ClusteringPanel({ hasAnyProperties, getOperationalRows,
         <Typography variant="body2" color="text.secondary" sx={{ fontStyle: 'italic' }}>
           Clustering will group similar properties together based on their semantic content. 
           This helps identify patterns and themes in your extracted properties.
+          {engine === 'local' && ' In-browser clustering matches on wording rather than meaning, and labels each cluster with its most central property.'}
         </Typography>
       </Box>
 
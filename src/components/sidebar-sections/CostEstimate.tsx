@@ -0,0 +1,190 @@
+import React from 'react';
+import {
+  Box,
+  Stack,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Alert,
+} from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import {
+  estimateExtraction,
+  findModelPrice,
+  loadModelPrices,
+  saveModelPrices,
+  loadBudget,
+  saveBudget,
+  DEFAULT_MODEL_PRICES,
+  type ModelPrice,
+} from '../../lib/costEstimate';
+import { formatDuration } from '../../lib/extractionJobs';
+
+interface CostEstimateProps {
+  method: 'single_model' | 'side_by_side';
+  getRows: () => Record<string, unknown>[];
+  rowCount: number;
+  systemPrompt: string;
+  modelName: string;
+  maxTokens: number;
+  maxWorkers: number;
+  sampleSize: number | null;
+}
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(2)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+function formatCost(cost: number | null): string {
+  if (cost === null) return '—';
+  return cost < 0.01 ? `<$0.01` : `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Pre-flight estimate for a batch run, with an editable price table and budget
+ */
+export default function CostEstimate({
+  method,
+  getRows,
+  rowCount,
+  systemPrompt,
+  modelName,
+  maxTokens,
+  maxWorkers,
+  sampleSize,
+}: CostEstimateProps) {
+  const [expanded, setExpanded] = React.useState<boolean>(false);
+  const [prices, setPrices] = React.useState<ModelPrice[]>(() => loadModelPrices());
+  const [budget, setBudget] = React.useState<number | null>(() => loadBudget());
+
+  const updatePrices = (next: ModelPrice[]) => {
+    setPrices(next);
+    saveModelPrices(next);
+  };
+
+  // Only measured while the estimate is open; rows are read lazily
+  const estimate = React.useMemo(() => {
+    if (!expanded || rowCount === 0) return null;
+    return estimateExtraction({ rows: getRows(), method, systemPrompt, model: modelName, prices, maxTokens, maxWorkers, sampleSize });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [expanded, rowCount, method, systemPrompt, modelName, prices, maxTokens, maxWorkers, sampleSize]);
+
+  const price = findModelPrice(prices, modelName);
+
+  return (
+    <Accordion expanded={expanded} onChange={(_, v) => setExpanded(v)}>
+      <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+        <Typography variant="subtitle2">Cost estimate</Typography>
+      </AccordionSummary>
+      <AccordionDetails>
+        <Stack spacing={2}>
+          {estimate && (
+            <Box sx={{ display: 'grid', gridTemplateColumns: '140px 1fr', rowGap: 0.5, columnGap: 1 }}>
+              <Typography variant="caption" sx={{ color: 'text.secondary' }}>Requests</Typography>
+              <Typography variant="caption">{estimate.requests}</Typography>
+              <Typography variant="caption" sx={{ color: 'text.secondary' }}>Input tokens</Typography>
+              <Typography variant="caption">{formatTokens(estimate.inputTokens)}</Typography>
+              <Typography variant="caption" sx={{ color: 'text.secondary' }}>Output tokens</Typography>
+              <Typography variant="caption">
+                ~{formatTokens(estimate.typicalOutputTokens)} (max {formatTokens(estimate.maxOutputTokens)})
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'text.secondary' }}>Cost</Typography>
+              <Typography variant="caption" sx={{ fontWeight: 600 }}>
+                ~{formatCost(estimate.typicalCost)} (max {formatCost(estimate.maxCost)})
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'text.secondary' }}>Wall-clock time</Typography>
+              <Typography variant="caption">~{formatDuration(estimate.seconds * 1000)} with {maxWorkers} workers</Typography>
+            </Box>
+          )}
+          {!price && (
+            <Alert severity="info" sx={{ py: 0 }}>
+              No price for "{modelName}". Add it to the price table to estimate cost.
+            </Alert>
+          )}
+          {estimate && budget !== null && estimate.typicalCost !== null && estimate.typicalCost > budget && (
+            <Alert severity="error" sx={{ py: 0 }}>
+              Estimated cost {formatCost(estimate.typicalCost)} exceeds your budget of ${budget.toFixed(2)}.
+            </Alert>
+          )}
+          {estimate && budget !== null && estimate.typicalCost !== null && estimate.typicalCost <= budget &&
+            estimate.maxCost !== null && estimate.maxCost > budget && (
+            <Alert severity="warning" sx={{ py: 0 }}>
+              Worst case {formatCost(estimate.maxCost)} (every response hits max tokens) exceeds your budget.
+            </Alert>
+          )}
+          <TextField
+            size="small"
+            label="Budget (USD)"
+            type="number"
+            value={budget ?? ''}
+            onChange={(e) => {
+              const n = e.target.value ? Number(e.target.value) : null;
+              const next = n !== null && Number.isFinite(n) && n > 0 ? n : null;
+              setBudget(next);
+              saveBudget(next);
+            }}
+            placeholder="No budget"
+          />
+          <Box>
+            <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mb: 1 }}>
+              Prices (USD per 1M tokens)
+            </Typography>
+            <Stack spacing={1}>
+              {prices.map((p, i) => (
+                <Box key={i} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                  <TextField
+                    size="small"
+                    label="Model"
+                    value={p.model}
+                    onChange={(e) => updatePrices(prices.map((q, j) => j === i ? { ...q, model: e.target.value } : q))}
+                    sx={{ flex: 2 }}
+                  />
+                  <TextField
+                    size="small"
+                    label="Input"
+                    type="number"
+                    value={p.input}
+                    onChange={(e) => updatePrices(prices.map((q, j) => j === i ? { ...q, input: Number(e.target.value) || 0 } : q))}
+                    sx={{ flex: 1 }}
+                  />
+                  <TextField
+                    size="small"
+                    label="Output"
+                    type="number"
+                    value={p.output}
+                    onChange={(e) => updatePrices(prices.map((q, j) => j === i ? { ...q, output: Number(e.target.value) || 0 } : q))}
+                    sx={{ flex: 1 }}
+                  />
+                  <IconButton size="small" onClick={() => updatePrices(prices.filter((_, j) => j !== i))}>
+                    <DeleteOutlineIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              ))}
+            </Stack>
+            <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+              <Button
+                size="small"
+                onClick={() => updatePrices([...prices, { model: price ? '' : modelName, input: 0, output: 0 }])}
+              >
+                Add model
+              </Button>
+              <Button size="small" onClick={() => updatePrices(DEFAULT_MODEL_PRICES)}>
+                Reset prices
+              </Button>
+            </Box>
+          </Box>
+          <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+            Tokens are approximated at ~4 characters each; time assumes {maxWorkers} parallel requests.
+          </Typography>
+        </Stack>
+      </AccordionDetails>
+    </Accordion>
+  );
+}
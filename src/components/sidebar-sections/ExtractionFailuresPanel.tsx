@@ -0,0 +1,209 @@
+import React from 'react';
+import {
+  Box,
+  Stack,
+  Typography,
+  TextField,
+  Button,
+  Checkbox,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+} from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import type { ExtractionFailure } from '../../lib/extractionFailures';
+
+interface ExtractionFailuresPanelProps {
+  failures: ExtractionFailure[];
+  defaultModel: string;
+  defaultTemperature: number;
+  busy: boolean;
+  onRetry: (failures: ExtractionFailure[], overrides: { model: string; temperature: number }) => Promise<void>;
+  // Throws with a user-facing message when the JSON can't be parsed into properties
+  onMergeFixed: (failure: ExtractionFailure, json: string) => void;
+  onOpenRow?: (failure: ExtractionFailure) => void;
+  onDismiss: (ids: string[]) => void;
+}
+
+const MONO = 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace';
+
+function FailureItem({
+  failure,
+  checked,
+  onToggle,
+  onMergeFixed,
+  onOpenRow,
+}: {
+  failure: ExtractionFailure;
+  checked: boolean;
+  onToggle: () => void;
+  onMergeFixed: ExtractionFailuresPanelProps['onMergeFixed'];
+  onOpenRow?: ExtractionFailuresPanelProps['onOpenRow'];
+}) {
+  const [fixed, setFixed] = React.useState<string>(failure.raw_response || '');
+  const [fixError, setFixError] = React.useState<string | null>(null);
+
+  // A retry replaces the failure's raw output; start editing from the new one
+  React.useEffect(() => {
+    setFixed(failure.raw_response || '');
+    setFixError(null);
+  }, [failure.raw_response]);
+
+  return (
+    <Accordion disableGutters sx={{ boxShadow: 'none', border: '1px solid', borderColor: 'divider', borderRadius: 1 }}>
+      <AccordionSummary expandIcon={<ExpandMoreIcon />} sx={{ '& .MuiAccordionSummary-content': { alignItems: 'center', minWidth: 0 } }}>
+        <Checkbox
+          size="small"
+          checked={checked}
+          onClick={(e) => e.stopPropagation()}
+          onChange={onToggle}
+          sx={{ p: 0.5, mr: 1 }}
+        />
+        <Box sx={{ minWidth: 0 }}>
+          <Typography variant="body2" sx={{ fontWeight: 600 }} noWrap>
+            Question {failure.question_id}{failure.model ? ` · ${failure.model}` : ''}
+          </Typography>
+          <Typography variant="caption" sx={{ color: 'error.main', display: 'block' }} noWrap title={failure.error}>
+            {failure.error}
+          </Typography>
+        </Box>
+      </AccordionSummary>
+      <AccordionDetails>
+        <Stack spacing={1}>
+          <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+            Parse error
+          </Typography>
+          <Typography variant="caption" sx={{ color: 'error.main', wordBreak: 'break-word' }}>
+            {failure.error}
+          </Typography>
+          <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+            {failure.raw_response ? 'Raw model output (edit to fix, then merge)' : 'No raw output was returned; paste corrected JSON to merge'}
+          </Typography>
+          <TextField
+            value={fixed}
+            onChange={(e) => setFixed(e.target.value)}
+            multiline
+            minRows={4}
+            maxRows={14}
+            InputProps={{ sx: { fontFamily: MONO, fontSize: 12 } }}
+          />
+          {fixError && (
+            <Typography variant="caption" sx={{ color: 'error.main' }}>{fixError}</Typography>
+          )}
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              size="small"
+              variant="outlined"
+              disabled={!fixed.trim()}
+              onClick={() => {
+                try {
+                  onMergeFixed(failure, fixed);
+                  setFixError(null);
+                } catch (e: unknown) {
+                  setFixError(e instanceof Error ? e.message : String(e));
+                }
+              }}
+            >
+              Parse & merge
+            </Button>
+            {onOpenRow && (
+              <Button size="small" onClick={() => onOpenRow(failure)}>
+                View trace
+              </Button>
+            )}
+          </Box>
+        </Stack>
+      </AccordionDetails>
+    </Accordion>
+  );
+}
+
+/**
+ * Failed extraction rows with their raw output, targeted retry and hand-fixed JSON merging
+ */
+export default function ExtractionFailuresPanel({
+  failures,
+  defaultModel,
+  defaultTemperature,
+  busy,
+  onRetry,
+  onMergeFixed,
+  onOpenRow,
+  onDismiss,
+}: ExtractionFailuresPanelProps) {
+  const [selected, setSelected] = React.useState<Set<string>>(new Set());
+  const [retryModel, setRetryModel] = React.useState<string>('');
+  const [retryTemperature, setRetryTemperature] = React.useState<string>('');
+
+  // Drop selections for failures that were resolved
+  React.useEffect(() => {
+    setSelected(prev => new Set([...prev].filter(id => failures.some(f => f.id === id))));
+  }, [failures]);
+
+  if (failures.length === 0) return null;
+
+  const targets = selected.size > 0 ? failures.filter(f => selected.has(f.id)) : failures;
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <Box sx={{ p: 2, border: '1px solid', borderColor: 'error.light', borderRadius: 1 }}>
+      <Typography variant="subtitle2" sx={{ mb: 1, fontWeight: 600 }}>
+        Extraction failures ({failures.length})
+      </Typography>
+      <Stack spacing={1}>
+        {failures.map(f => (
+          <FailureItem
+            key={f.id}
+            failure={f}
+            checked={selected.has(f.id)}
+            onToggle={() => toggle(f.id)}
+            onMergeFixed={onMergeFixed}
+            onOpenRow={onOpenRow}
+          />
+        ))}
+      </Stack>
+      <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+        <TextField
+          size="small"
+          label="Retry model"
+          placeholder={defaultModel}
+          value={retryModel}
+          onChange={(e) => setRetryModel(e.target.value)}
+          sx={{ flex: 2 }}
+        />
+        <TextField
+          size="small"
+          label="Temperature"
+          type="number"
+          placeholder={String(defaultTemperature)}
+          value={retryTemperature}
+          onChange={(e) => setRetryTemperature(e.target.value)}
+          sx={{ flex: 1 }}
+        />
+      </Box>
+      <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+        <Button
+          size="small"
+          variant="contained"
+          disabled={busy}
+          onClick={() => void onRetry(targets, {
+            model: retryModel.trim() || defaultModel,
+            temperature: retryTemperature !== '' && Number.isFinite(Number(retryTemperature)) ? Number(retryTemperature) : defaultTemperature,
+          })}
+        >
+          Retry {selected.size > 0 ? `selected (${selected.size})` : `all (${failures.length})`}
+        </Button>
+        <Button size="small" disabled={busy} onClick={() => onDismiss(targets.map(f => f.id))}>
+          Dismiss {selected.size > 0 ? 'selected' : 'all'}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,144 @@
+import React from 'react';
+import { Box, Stack, Typography, LinearProgress, Button, Chip, Link } from '@mui/material';
+import { isActiveJob, estimateRemainingMs, formatDuration, type ExtractionJobRecord } from '../../lib/extractionJobs';
+import type { JobFeedEvent } from '../../hooks/useExtractionJobs';
+import type { JobEventTransport } from '../../lib/jobEvents';
+
+interface ExtractionJobListProps {
+  jobs: ExtractionJobRecord[];
+  feeds?: Record<string, JobFeedEvent[]>;
+  transports?: Record<string, JobEventTransport>;
+  onCancel: (jobId: string) => void;
+  onDismiss: (jobId: string) => void;
+  onOpenRow?: (event: JobFeedEvent) => void; // open the trace for a finished row
+}
+
+const FEED_PREVIEW = 50;
+
+function describeEvent(event: JobFeedEvent): { text: string; color: string } {
+  const row = event.row_index !== undefined ? `Row ${event.row_index}` : `Question ${event.question_id ?? '?'}`;
+  switch (event.type) {
+    case 'row_started': return { text: `${row} · started`, color: 'text.secondary' };
+    case 'row_properties': return { text: `${row} · ${event.properties?.length || 0} properties`, color: 'success.main' };
+    case 'row_failed': return { text: `${row} · failed${event.error ? `: ${event.error}` : ''}`, color: 'error.main' };
+    case 'row_retry': return { text: `${row} · retry${event.attempt ? ` #${event.attempt}` : ''}${event.error ? ` (${event.error})` : ''}`, color: 'warning.main' };
+    case 'done': return { text: `Job ${event.state || 'finished'}`, color: 'text.primary' };
+    default: return { text: `${event.state || 'status'} · ${event.count_done ?? 0}/${event.count_total ?? '?'}`, color: 'text.secondary' };
+  }
+}
+
+function JobFeed({ events, onOpenRow }: { events: JobFeedEvent[]; onOpenRow?: (event: JobFeedEvent) => void }) {
+  const [open, setOpen] = React.useState<boolean>(false);
+  const rowEvents = events.filter(e => e.type !== 'status');
+  if (rowEvents.length === 0) return null;
+  return (
+    <Box sx={{ mt: 0.5 }}>
+      <Link component="button" variant="caption" onClick={() => setOpen(!open)}>
+        {open ? 'Hide live feed' : `Show live feed (${rowEvents.length})`}
+      </Link>
+      {open && (
+        <Box sx={{ mt: 0.5, maxHeight: 200, overflow: 'auto', border: '1px solid', borderColor: 'divider', borderRadius: 1, p: 1 }}>
+          {rowEvents.slice(0, FEED_PREVIEW).map((event, i) => {
+            const { text, color } = describeEvent(event);
+            const finished = event.type === 'row_properties' || event.type === 'row_failed';
+            return (
+              <Box key={`${event.received_at}-${i}`} sx={{ display: 'flex', gap: 1, alignItems: 'baseline' }}>
+                <Typography variant="caption" sx={{ color, flex: 1, minWidth: 0, wordBreak: 'break-word' }}>
+                  {text}
+                </Typography>
+                {finished && onOpenRow && (
+                  <Link component="button" variant="caption" onClick={() => onOpenRow(event)}>
+                    View trace
+                  </Link>
+                )}
+              </Box>
+            );
+          })}
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+const STATE_COLORS: Record<string, 'default' | 'primary' | 'success' | 'error' | 'warning'> = {
+  queued: 'default',
+  running: 'primary',
+  cancelling: 'warning',
+  done: 'success',
+  cancelled: 'warning',
+  error: 'error',
+};
+
+export default function ExtractionJobList({ jobs, feeds = {}, transports = {}, onCancel, onDismiss, onOpenRow }: ExtractionJobListProps) {
+  // Re-render every second so elapsed time and ETA stay current
+  const [now, setNow] = React.useState<number>(() => Date.now());
+  const anyActive = jobs.some(isActiveJob);
+  React.useEffect(() => {
+    if (!anyActive) return;
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, [anyActive]);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" sx={{ mb: 1, fontWeight: 600 }}>
+        Extraction jobs
+      </Typography>
+      <Stack spacing={1}>
+        {jobs.map(job => {
+          const active = isActiveJob(job);
+          const eta = estimateRemainingMs(job, now);
+          return (
+            <Box
+              key={job.job_id}
+              sx={{ p: 1.5, border: '1px solid', borderColor: job.error ? 'error.main' : 'divider', borderRadius: 1 }}
+            >
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600, flex: 1, minWidth: 0 }} noWrap title={job.job_id}>
+                  {job.label}
+                </Typography>
+                {active && transports[job.job_id] && (
+                  <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                    {transports[job.job_id] === 'polling' ? 'polling' : `live (${transports[job.job_id].toUpperCase()})`}
+                  </Typography>
+                )}
+                <Chip size="small" label={job.state} color={STATE_COLORS[job.state] || 'default'} />
+              </Box>
+              {active && (
+                <LinearProgress
+                  variant={job.progress > 0 ? 'determinate' : 'indeterminate'}
+                  value={job.progress * 100}
+                  sx={{ mb: 0.5 }}
+                />
+              )}
+              <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block' }}>
+                {job.count_done}/{job.count_total || job.row_count} rows · {job.properties_count} properties merged
+                {active && ` · ${formatDuration(now - job.started_at)} elapsed`}
+                {eta !== null && ` · ~${formatDuration(eta)} left`}
+              </Typography>
+              <JobFeed events={feeds[job.job_id] || []} onOpenRow={onOpenRow} />
+              {job.error && (
+                <Typography variant="caption" sx={{ color: 'error.main', display: 'block', wordBreak: 'break-word' }}>
+                  {job.error}
+                </Typography>
+              )}
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 0.5 }}>
+                {active ? (
+                  <Button size="small" color="error" onClick={() => onCancel(job.job_id)} disabled={job.state === 'cancelling'}>
+                    Cancel
+                  </Button>
+                ) : (
+                  <Button size="small" onClick={() => onDismiss(job.job_id)}>
+                    Dismiss
+                  </Button>
+                )}
+              </Box>
+            </Box>
+          );
+        })}
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Autocomplete, Box, Button, MenuItem, Stack, TextField, Typography } from '@mui/material';
+import { getPromptText } from '../../lib/api';
+import { CUSTOM_PROMPT_PREFIX } from '../../lib/promptLibrary';
+import { PromptLibraryDialog } from '../PromptLibraryDialog';
+import type { useExtractionPrompt } from '../../hooks/useExtractionPrompt';
+
+interface ExtractionPromptSectionProps {
+  prompt: ReturnType<typeof useExtractionPrompt>;
+  method: 'single_model' | 'side_by_side' | 'unknown';
+}
+
+// Prompt picker (built-in and prompt library), version and task description
+export default function ExtractionPromptSection({ prompt, method }: ExtractionPromptSectionProps) {
+  const [libraryOpen, setLibraryOpen] = React.useState<boolean>(false);
+  const { promptOptions, promptLibrary, selectedPrompt, customPrompt, customPromptVersion } = prompt;
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" sx={{ mb: 2, fontWeight: 600 }}>
+        Extraction Prompt
+      </Typography>
+      <Stack spacing={2}>
+        <Autocomplete
+          size="small"
+          options={[...promptOptions.map(p => p.name), ...promptLibrary.map(p => `${CUSTOM_PROMPT_PREFIX}${p.id}`)]}
+          getOptionLabel={(option) => {
+            if (!option.startsWith(CUSTOM_PROMPT_PREFIX)) return option;
+            const p = promptLibrary.find(q => `${CUSTOM_PROMPT_PREFIX}${q.id}` === option);
+            return p ? `${p.name} (custom)` : option;
+          }}
+          groupBy={(option) => option.startsWith(CUSTOM_PROMPT_PREFIX) ? 'My prompts' : 'Built-in'}
+          value={selectedPrompt}
+          onChange={(_, v) => {
+            if (v) prompt.choosePrompt(v);
+          }}
+          renderInput={(params) => <TextField {...params} label="Prompt" />}
+        />
+
+        {customPrompt && customPromptVersion && (
+          <TextField
+            select
+            size="small"
+            label="Version"
+            value={customPromptVersion.version}
+            onChange={(e) => prompt.selectPrompt(selectedPrompt, Number(e.target.value))}
+          >
+            {[...customPrompt.versions].reverse().map(v => (
+              <MenuItem key={v.version} value={v.version}>
+                v{v.version}{v.note ? ` · ${v.note}` : ''}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+            {promptOptions.length + promptLibrary.length} prompts available
+          </Typography>
+          <Button size="small" variant="text" onClick={() => setLibraryOpen(true)}>
+            Manage prompts
+          </Button>
+        </Box>
+        <PromptLibraryDialog
+          open={libraryOpen}
+          onClose={() => setLibraryOpen(false)}
+          prompts={promptLibrary}
+          onChange={prompt.updatePromptLibrary}
+          builtinPrompts={promptOptions.map(p => p.name)}
+          loadBuiltinText={async (name) => {
+            const res = await getPromptText(name, undefined, method === 'unknown' ? undefined : method);
+            return res.text;
+          }}
+          onUse={(id, version) => prompt.selectPrompt(`${CUSTOM_PROMPT_PREFIX}${id}`, version)}
+          initialPromptId={customPrompt?.id}
+        />
+
+        {prompt.canTaskDescribe && (
+          <Stack spacing={1}>
+            <TextField
+              label="Task description"
+              value={prompt.taskDescription}
+              onChange={(e) => prompt.editTaskDescription(e.target.value)}
+              minRows={3}
+              multiline
+            />
+            <Box>
+              <Button size="small" variant="text" onClick={prompt.resetTaskDescription}>
+                Reset to default
+              </Button>
+            </Box>
+          </Stack>
+        )}
+      </Stack>
+    </Box>
+  );
+}
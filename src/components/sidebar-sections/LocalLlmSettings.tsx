@@ -0,0 +1,57 @@
+import { Box, Button, TextField, Typography } from '@mui/material';
+import type { useLocalLlm } from '../../hooks/useLocalLlm';
+
+interface LocalLlmSettingsProps {
+  local: ReturnType<typeof useLocalLlm>;
+  hasResolvedPrompt: boolean;
+  modelName: string;
+  onModelName: (model: string) => void;
+}
+
+// Endpoint settings shown under Advanced when extracting against a local server
+export default function LocalLlmSettings({ local, hasResolvedPrompt, modelName, onModelName }: LocalLlmSettingsProps) {
+  async function testConnection() {
+    const models = await local.testConnection();
+    if (models.length > 0 && !models.includes(modelName)) onModelName(models[0]);
+  }
+
+  return (
+    <>
+      <TextField
+        size="small"
+        label="Base URL"
+        value={local.config.baseUrl}
+        onChange={(e) => local.updateConfig({ baseUrl: e.target.value })}
+        placeholder="http://localhost:8000/v1"
+        helperText="vLLM, llama.cpp or any /v1/chat/completions server (must allow CORS)"
+      />
+      <TextField
+        size="small"
+        label="API key (optional)"
+        type="password"
+        value={local.config.apiKey || ''}
+        onChange={(e) => local.updateConfig({ apiKey: e.target.value || undefined })}
+      />
+      <Box>
+        <Button size="small" variant="text" onClick={testConnection}>
+          Test connection
+        </Button>
+        {local.connectionMsg && (
+          <Typography variant="caption" sx={{ display: 'block', color: local.connectionMsg.startsWith('Connected') ? 'success.main' : 'error.main' }}>
+            {local.connectionMsg}
+          </Typography>
+        )}
+      </Box>
+      <TextField
+        size="small"
+        label="System prompt override (optional)"
+        value={local.promptOverride}
+        onChange={(e) => local.setPromptOverride(e.target.value)}
+        helperText={hasResolvedPrompt ? 'Leave empty to use the resolved prompt below' : 'No resolved prompt available; paste one to extract offline'}
+        minRows={2}
+        maxRows={8}
+        multiline
+      />
+    </>
+  );
+}
@@ -1,13 +1,17 @@
 /**
  * MetricsPanel - Sidebar panel for metrics filtering and configuration.
- * 
+ *
  * This wraps the MetricsControlPanel component and provides filter controls
- * for both the Metrics and Model Cards tabs.
+ * for both the Metrics and Model Cards tabs. When metrics are computed in the
+ * browser it also exposes the bootstrap settings for their confidence intervals.
  */
 
-import { Box } from '@mui/material';
+import React from 'react';
+import { Box, Paper, Typography, TextField, Button, LinearProgress, Stack } from '@mui/material';
 import { MetricsControlPanel } from '../metrics/MetricsControlPanel';
 import type { MetricsFilters, MetricsSummary } from '../../types/metrics';
+import type { BootstrapOptions } from '../../lib/clusterMetrics';
+import type { MetricsBootstrapProgress } from '../../lib/metricsBootstrap';
 
 interface MetricsPanelProps {
   filters: MetricsFilters;
@@ -16,6 +20,47 @@ interface MetricsPanelProps {
   availableGroups: string[];
   availableQualityMetrics: string[];
   summary?: MetricsSummary;
+  /** Bootstrap settings, present only for client-computed metrics */
+  bootstrap?: BootstrapOptions;
+  onBootstrapChange?: (options: BootstrapOptions) => void;
+  bootstrapProgress?: MetricsBootstrapProgress | null;
+}
+
+function BootstrapSettings({ value, onChange, progress }: { value: BootstrapOptions; onChange?: (options: BootstrapOptions) => void; progress?: MetricsBootstrapProgress | null }) {
+  const [samples, setSamples] = React.useState<number>(value.samples);
+  const [seed, setSeed] = React.useState<number>(value.seed);
+
+  React.useEffect(() => {
+    setSamples(value.samples);
+    setSeed(value.seed);
+  }, [value]);
+
+  const dirty = samples !== value.samples || seed !== value.seed;
+  const apply = () => onChange?.({ ...value, samples: Math.min(10000, Math.max(100, Math.round(samples) || 100)), seed: Math.round(seed) || 0 });
+
+  return (
+    <Paper elevation={0} sx={{ p: 2, mt: 2, border: '1px solid #E5E7EB' }}>
+      <Typography variant="subtitle2">Confidence Intervals</Typography>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1.5 }}>
+        Metrics were computed in the browser; CIs and significance come from resampling conversations.
+      </Typography>
+      <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
+        <TextField size="small" type="number" label="Resamples" value={samples} onChange={(e) => setSamples(Number(e.target.value))} inputProps={{ min: 100, max: 10000, step: 100 }} />
+        <TextField size="small" type="number" label="Seed" value={seed} onChange={(e) => setSeed(Number(e.target.value))} sx={{ width: 100 }} />
+      </Stack>
+      <Button size="small" variant="outlined" onClick={apply} disabled={!dirty}>
+        Recompute
+      </Button>
+      {progress && (
+        <Box sx={{ mt: 1.5 }}>
+          <LinearProgress variant="determinate" value={progress.total > 0 ? (100 * progress.done) / progress.total : 0} />
+          <Typography variant="caption" color="text.secondary">
+            Resampling {progress.done} / {progress.total}
+          </Typography>
+        </Box>
+      )}
+    </Paper>
+  );
 }
 
 export default function MetricsPanel({
@@ -24,7 +69,10 @@ export default function MetricsPanel({
   availableModels,
   availableGroups,
   availableQualityMetrics,
-  summary
+  summary,
+  bootstrap,
+  onBootstrapChange,
+  bootstrapProgress
 }: MetricsPanelProps) {
   return (
     <Box sx={{ height: '100%', overflow: 'auto' }}>
@@ -36,6 +84,9 @@ export default function MetricsPanel({
         availableQualityMetrics={availableQualityMetrics}
         summary={summary}
       />
+      {bootstrap && (
+        <BootstrapSettings value={bootstrap} onChange={onBootstrapChange} progress={bootstrapProgress} />
+      )}
     </Box>
   );
 }
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Button } from '@mui/material';
+import { getPromptVersion, CUSTOM_PROMPT_PREFIX } from '../../lib/promptLibrary';
+import { PromptPlaygroundDialog } from '../PromptPlaygroundDialog';
+import type { useExtractionPrompt } from '../../hooks/useExtractionPrompt';
+
+interface PromptPlaygroundSectionProps {
+  prompt: ReturnType<typeof useExtractionPrompt>;
+  method: 'single_model' | 'side_by_side';
+  getRows: () => Record<string, unknown>[];
+  modelName: string;
+  settings: { temperature: number; top_p: number; max_tokens: number };
+  disabled: boolean;
+  onPromote: React.ComponentProps<typeof PromptPlaygroundDialog>['onPromote'];
+}
+
+// Button that opens the A/B prompt playground over the extraction panel's prompts and settings
+export default function PromptPlaygroundSection({ prompt, method, getRows, modelName, settings, disabled, onPromote }: PromptPlaygroundSectionProps) {
+  const [open, setOpen] = React.useState<boolean>(false);
+  const { promptOptions, promptLibrary, customPrompt, customPromptVersion, selectedPrompt, taskDescription } = prompt;
+
+  // Playground prompt choices: built-ins by name, custom prompts as `custom:<id>@<version>`
+  const promptChoices = [
+    ...promptOptions.map(p => ({ value: p.name, label: p.name })),
+    ...promptLibrary.flatMap(p => [...p.versions].reverse().map(v => ({
+      value: `${CUSTOM_PROMPT_PREFIX}${p.id}@${v.version}`,
+      label: `${p.name} v${v.version}`,
+    }))),
+  ];
+  const currentPrompt = customPrompt && customPromptVersion
+    ? `${CUSTOM_PROMPT_PREFIX}${customPrompt.id}@${customPromptVersion.version}`
+    : selectedPrompt;
+
+  function resolvePrompt(value: string) {
+    if (value.startsWith(CUSTOM_PROMPT_PREFIX)) {
+      const [id, version] = value.slice(CUSTOM_PROMPT_PREFIX.length).split('@');
+      const libraryPrompt = promptLibrary.find(p => p.id === id);
+      return { system_prompt: libraryPrompt ? getPromptVersion(libraryPrompt, Number(version)).text : '' };
+    }
+    const meta = promptOptions.find(p => p.name === value);
+    const taskDesc = meta?.has_task_description && taskDescription.trim().length > 0 ? taskDescription : undefined;
+    return { system_prompt: value, task_description: taskDesc };
+  }
+
+  return (
+    <>
+      <Button
+        variant="text"
+        size="small"
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        sx={{ alignSelf: 'flex-start' }}
+      >
+        Compare prompts (A/B playground)
+      </Button>
+      <PromptPlaygroundDialog
+        open={open}
+        onClose={() => setOpen(false)}
+        method={method}
+        getRows={getRows}
+        promptChoices={promptChoices}
+        defaultPrompt={currentPrompt}
+        defaultModel={modelName}
+        resolvePrompt={resolvePrompt}
+        settings={settings}
+        onPromote={onPromote}
+      />
+    </>
+  );
+}
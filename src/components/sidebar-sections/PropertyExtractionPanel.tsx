@@ -9,13 +9,44 @@ import {
   Accordion, 
   AccordionSummary, 
   AccordionDetails, 
-  LinearProgress 
+  LinearProgress,
+  MenuItem
 } from '@mui/material';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
-import { getPrompts, getPromptText, extractSingle, extractJobStart, extractJobStatus, extractJobResult, extractJobCancel } from '../../lib/api';
+import { extractSingle, extractJobStart } from '../../lib/api';
+import type { ExtractionJobRecord } from '../../lib/extractionJobs';
+import type { JobFeedEvent } from '../../hooks/useExtractionJobs';
+import { findEventRow, type JobEventTransport } from '../../lib/jobEvents';
+import ExtractionJobList from './ExtractionJobList';
+import ExtractionFailuresPanel from './ExtractionFailuresPanel';
+import { normalizeFailures, findFailureRow, type ExtractionFailure } from '../../lib/extractionFailures';
+import CostEstimate from './CostEstimate';
+import { budgetWarning } from '../../lib/costEstimate';
+import { extractSingleLocal, extractBatchLocal, type ExtractionMethod } from '../../lib/localLlm';
+import { useLocalLlm, type ExtractionProvider } from '../../hooks/useLocalLlm';
+import LocalLlmSettings from './LocalLlmSettings';
+import { useExtractionPrompt } from '../../hooks/useExtractionPrompt';
+import ExtractionPromptSection from './ExtractionPromptSection';
+import PromptPlaygroundSection from './PromptPlaygroundSection';
+import { useFailureRetry, type RowExtractor, type RetryOverrides } from '../../hooks/useFailureRetry';
+
+// Sample rows by prompt (question_id), matching the backend's sample_size semantics
+function sampleRowsByPrompt<R extends Record<string, unknown>>(rows: R[], sampleSize: number): R[] {
+  const ids = Array.from(new Set(rows.map(r => String(r.question_id ?? r.prompt))));
+  if (ids.length <= sampleSize) return rows;
+  for (let i = ids.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [ids[i], ids[j]] = [ids[j], ids[i]];
+  }
+  const keep = new Set(ids.slice(0, sampleSize));
+  return rows.filter(r => keep.has(String(r.question_id ?? r.prompt)));
+}
 
 type Method = 'single_model' | 'side_by_side' | 'unknown';
 
+// Failures reported without row identifiers belong to the row that was extracted
+const rowFailureKey = (row: Record<string, unknown>) => ({ question_id: row.question_id ?? row.__index, model: row.model });
+
 interface PropertyExtractionPanelProps {
   method: Method;
   getSelectedRow: () => Record<string, any> | null;
@@ -28,6 +59,18 @@ interface PropertyExtractionPanelProps {
   onBatchDone?: () => void;
   onOpenTrace?: (row: Record<string, any>) => void; // Add callback to open trace viewer
   onCloseTrace?: () => void; // Add callback to close trace viewer
+  backendAvailable?: boolean; // server extraction needs the backend; local endpoints don't
+  // Backend batch jobs are tracked by App (useExtractionJobs) so they outlive this panel
+  jobs?: ExtractionJobRecord[];
+  jobFeeds?: Record<string, JobFeedEvent[]>;
+  jobTransports?: Record<string, JobEventTransport>;
+  onJobStarted?: (jobId: string, label: string, rowCount: number) => void;
+  onCancelJob?: (jobId: string) => void;
+  onDismissJob?: (jobId: string) => void;
+  // Failed rows from every extraction path, kept by App so job failures land here too
+  failures?: ExtractionFailure[];
+  onFailures?: (failures: ExtractionFailure[]) => void;
+  onResolveFailures?: (ids: string[]) => void;
 }
 
 export default function PropertyExtractionPanel({
@@ -42,20 +85,18 @@ export default function PropertyExtractionPanel({
   onBatchDone,
   onOpenTrace,
   onCloseTrace,
+  backendAvailable = true,
+  jobs = [],
+  jobFeeds,
+  jobTransports,
+  onJobStarted,
+  onCancelJob,
+  onDismissJob,
+  failures = [],
+  onFailures,
+  onResolveFailures,
 }: PropertyExtractionPanelProps) {
   const resultsRef = useRef<HTMLDivElement>(null);
-  const [promptOptions, setPromptOptions] = React.useState<{ name: string; label: string; has_task_description: boolean; preview: string; default_task_description_single?: string | null; default_task_description_sbs?: string | null; }[]>([]);
-  const [selectedPrompt, setSelectedPrompt] = React.useState<string>(
-    () => localStorage.getItem('stringsight.selectedPrompt') || 'default'
-  );
-  const [taskDescription, setTaskDescription] = React.useState<string>(
-    () => localStorage.getItem('stringsight.taskDescription') || ''
-  );
-  const [userEdited, setUserEdited] = React.useState<boolean>(
-    () => (localStorage.getItem('stringsight.taskDescriptionEdited') === 'true') || false
-  );
-  const [resolvedPrompt, setResolvedPrompt] = React.useState<string>('');
-
   const [modelName, setModelName] = React.useState<string>('gpt-4o-mini');
   const [temperature, setTemperature] = React.useState<number>(0.6);
   const [topP, setTopP] = React.useState<number>(0.95);
@@ -63,73 +104,34 @@ export default function PropertyExtractionPanel({
   const [maxWorkers, setMaxWorkers] = React.useState<number>(16);
   const [sampleSize, setSampleSize] = React.useState<number | null>(null);
 
-  const [busy, setBusy] = React.useState<boolean>(false);
+  const [extracting, setExtracting] = React.useState<boolean>(false);
   const [lastExtractProps, setLastExtractProps] = React.useState<any[]>([]);
   const [errorMsg, setErrorMsg] = React.useState<string | null>(null);
 
-  const [jobId, setJobId] = React.useState<string>('');
   const [jobProgress, setJobProgress] = React.useState<number>(0);
   const [jobState, setJobState] = React.useState<string | null>(null);
 
-  const selectedPromptMeta = promptOptions.find(p => p.name === selectedPrompt);
-  const canTaskDescribe = selectedPromptMeta?.has_task_description || false;
+  const prompt = useExtractionPrompt(method, setErrorMsg);
+  const { resolvedPrompt, taskDescription, canTaskDescribe, systemPromptParam, taskDescriptionParam } = prompt;
 
-  // Load prompts on mount
-  React.useEffect(() => {
-    let mounted = true;
-    (async () => {
-      try {
-        const res = await getPrompts();
-        const allowed = new Set(['default', 'agent']);
-        const filtered = (res.prompts || []).filter((p: any) => allowed.has(p.name));
-        if (mounted) setPromptOptions(filtered);
-      } catch (e: any) {
-        if (mounted) setErrorMsg(`Failed to load prompts: ${String(e?.message || e)}`);
-      }
-    })();
-    return () => { mounted = false; };
-  }, []);
-
-  // When promptOptions load or selectedPrompt changes, prefill task description with default if supported and user hasn't edited.
-  React.useEffect(() => {
-    if (!selectedPromptMeta) return;
-    // Persist selected prompt
-    localStorage.setItem('stringsight.selectedPrompt', selectedPrompt);
-    // If prompt supports task description
-    if (selectedPromptMeta.has_task_description) {
-      const defaultDesc = method === 'side_by_side' ? (selectedPromptMeta.default_task_description_sbs || '') : (selectedPromptMeta.default_task_description_single || '');
-      if (!userEdited) {
-        setTaskDescription(defaultDesc);
-        localStorage.setItem('stringsight.taskDescription', defaultDesc);
-        localStorage.setItem('stringsight.taskDescriptionEdited', 'false');
-      }
-    } else {
-      // Clear task description for prompts that don't support it
-      setTaskDescription('');
-      localStorage.setItem('stringsight.taskDescription', '');
-      localStorage.setItem('stringsight.taskDescriptionEdited', 'false');
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedPromptMeta?.name, selectedPromptMeta?.has_task_description]);
+  const local = useLocalLlm(resolvedPrompt);
+  const provider = local.provider;
+  const localOptions = (method: ExtractionMethod, signal?: AbortSignal) =>
+    local.options({ model: modelName, temperature, top_p: topP, max_tokens: maxTokens }, method, signal);
 
-  // Resolve prompt text when selection changes
-  React.useEffect(() => {
-    let mounted = true;
-    (async () => {
-      try {
-        const effectiveTaskDesc = canTaskDescribe && taskDescription.trim().length > 0 ? taskDescription : undefined;
-        const methodParam = method === 'unknown' ? undefined : method;
-        const res = await getPromptText(selectedPrompt, effectiveTaskDesc, methodParam);
-        if (mounted) setResolvedPrompt(res.text);
-      } catch (e: any) {
-        if (mounted) {
-          setResolvedPrompt('');
-          setErrorMsg(`Failed to load prompt '${selectedPrompt}': ${String(e?.message || e)}`);
-        }
-      }
-    })();
-    return () => { mounted = false; };
-  }, [selectedPrompt, canTaskDescribe, taskDescription]);
+  const failureRetry = useFailureRetry({
+    method,
+    getRows: getAllRows,
+    extractRow,
+    onPropertiesMerged,
+    onFailures,
+    onResolveFailures,
+    onError: setErrorMsg,
+  });
+  const busy = extracting || failureRetry.retrying;
+
+  // Estimates measure the prompt that will actually be sent: the local one when extracting locally
+  const estimatePrompt = provider === 'local' ? local.systemPrompt : resolvedPrompt;
 
   // Highlight task description inside resolved prompt (visual only)
   const highlightedResolvedPrompt = React.useMemo(() => {
@@ -154,14 +156,25 @@ export default function PropertyExtractionPanel({
     const methodValid = method === 'single_model' || method === 'side_by_side';
     console.log('[PropertyExtraction] runExtractSingle called', { row, methodValid, method });
     if (!row || !methodValid) return;
-    setBusy(true);
+    setExtracting(true);
     try {
       setErrorMsg(null);
+      if (provider === 'local') {
+        const res = await extractSingleLocal(row, localOptions(method));
+        console.log('[PropertyExtraction] local extraction response:', res);
+        onPropertiesMerged(res.properties);
+        setLastExtractProps(res.properties);
+        if (onOpenTrace) onOpenTrace(row);
+        if (res.properties.length === 0) {
+          setErrorMsg('The model returned no properties. Check the raw output format or try a different model.');
+        }
+        return;
+      }
       const body: any = {
         row,
         method,
-        system_prompt: selectedPrompt,
-        task_description: canTaskDescribe && taskDescription.trim().length > 0 ? taskDescription : undefined,
+        system_prompt: systemPromptParam,
+        task_description: taskDescriptionParam,
         model_name: modelName,
         temperature,
         top_p: topP,
@@ -191,13 +204,17 @@ export default function PropertyExtractionPanel({
       }, 300); // Small delay to ensure results are rendered
       
       if ((res.failures || []).length > 0) {
-        setErrorMsg(`Parsing issues detected (${res.failures.length}). Try a different prompt or check JSON format.`);
+        setErrorMsg(`Parsing issues detected (${res.failures.length}). See Extraction failures below to inspect and retry.`);
+        onFailures?.(normalizeFailures(res.failures, 'single', rowFailureKey(row)));
       }
     } catch (e: any) {
       console.error('[PropertyExtraction] Error in runExtractSingle:', e);
       setErrorMsg(String(e?.message || e));
+      if (provider === 'local') {
+        onFailures?.(normalizeFailures([{ error: String(e?.message || e), raw_response: e?.raw_response }], 'local', rowFailureKey(row)));
+      }
     } finally {
-      setBusy(false);
+      setExtracting(false);
     }
   }
 
@@ -206,20 +223,53 @@ export default function PropertyExtractionPanel({
     const methodValid = method === 'single_model' || method === 'side_by_side';
     if (!rows || rows.length === 0 || !methodValid) return;
 
+    // Budget check against the same estimate shown in the Cost estimate section
+    const warning = budgetWarning({ rows, method, systemPrompt: estimatePrompt, model: modelName, maxTokens, maxWorkers, sampleSize });
+    if (warning && !window.confirm(warning)) return;
+
     // Close the trace viewer to focus on batch progress
     onCloseTrace?.();
 
-    setBusy(true);
+    setExtracting(true);
     onBatchStart?.();
+    if (provider === 'local') {
+      const controller = local.startRun();
+      try {
+        setErrorMsg(null);
+        setJobProgress(0);
+        setJobState('running');
+        const targetRows = sampleSize ? sampleRowsByPrompt(rows, sampleSize) : rows;
+        const res = await extractBatchLocal(targetRows, localOptions(method, controller.signal), maxWorkers, (done, total) => {
+          setJobProgress(done / total);
+          onBatchStatus?.(done / total, 'running');
+        });
+        setJobState(res.cancelled ? 'cancelled' : 'done');
+        onBatchLoaded(res.properties);
+        onBatchDone?.();
+        if (res.cancelled) {
+          setErrorMsg(`Extraction cancelled. Kept ${res.properties.length} properties from finished rows.`);
+        } else if (res.failures.length > 0) {
+          setErrorMsg(`${res.failures.length} of ${targetRows.length} rows failed (first error: ${res.failures[0].error})`);
+        }
+        onFailures?.(normalizeFailures(res.failures, 'local'));
+      } catch (e: unknown) {
+        setJobState('error');
+        setErrorMsg(e instanceof Error ? e.message : String(e));
+      } finally {
+        local.finishRun();
+        setExtracting(false);
+      }
+      return;
+    }
+    // Backend jobs are handed to the job manager, which polls and merges results
     try {
       setErrorMsg(null);
-      setJobProgress(0);
-      setJobState('queued');
+      setJobState(null);
       const startRes = await extractJobStart({
         rows,
         method,
-        system_prompt: selectedPrompt,
-        task_description: canTaskDescribe && taskDescription.trim().length > 0 ? taskDescription : undefined,
+        system_prompt: systemPromptParam,
+        task_description: taskDescriptionParam,
         model_name: modelName,
         temperature,
         top_p: topP,
@@ -227,118 +277,53 @@ export default function PropertyExtractionPanel({
         max_workers: maxWorkers,
         sample_size: sampleSize || undefined,
       });
-      setJobId(startRes.job_id);
-      onBatchStart?.();
-      await new Promise<void>((resolve, reject) => {
-        const t = setInterval(async () => {
-          try {
-            const s = await extractJobStatus(startRes.job_id);
-            setJobState(s.state);
-            setJobProgress(s.progress || 0);
-            onBatchStatus?.(s.progress || 0, s.state);
-            if (s.state === 'done') {
-              clearInterval(t);
-              const r = await extractJobResult(startRes.job_id);
-              (onBatchLoaded as any)?.(r.properties || []);
-              onBatchDone?.();
-              resolve();
-            } else if (s.state === 'cancelled') {
-              clearInterval(t);
-              const r = await extractJobResult(startRes.job_id);
-              (onBatchLoaded as any)?.(r.properties || []);
-              setErrorMsg(`Job cancelled. Retrieved ${r.properties?.length || 0} partial results.`);
-              onBatchDone?.();
-              resolve();
-            } else if (s.state === 'error') {
-              clearInterval(t);
-              reject(new Error(s.error || 'Job error'));
-            }
-          } catch (e) {
-            clearInterval(t);
-            reject(e);
-          }
-        }, 1000);
-      });
+      const label = `${modelName} · ${sampleSize ? `${sampleSize} prompts` : `${rows.length} rows`}`;
+      onJobStarted?.(startRes.job_id, label, rows.length);
+    } catch (e: any) {
+      setErrorMsg(`Failed to start extraction: ${String(e?.message || e)}`);
     } finally {
-      setBusy(false);
+      setExtracting(false);
+      onBatchDone?.();
     }
   }
 
-  async function handleCancelJob() {
-    if (!jobId) return;
-    try {
-      await extractJobCancel(jobId);
-      setJobState('cancelled');
-    } catch (e: any) {
-      setErrorMsg(`Failed to cancel: ${String(e?.message || e)}`);
+  // Open the trace for a row reported by a job's live feed
+  function openFeedRow(event: JobFeedEvent) {
+    const row = findEventRow(getAllRows(), event, method);
+    if (row) onOpenTrace?.(row);
+    else setErrorMsg(`Row for question ${event.question_id ?? event.row_index} is not in the current data view`);
+  }
+
+  // One row through the selected provider, with the model/temperature picked for a retry
+  async function extractRow(row: Record<string, unknown>, method: ExtractionMethod, overrides: RetryOverrides): ReturnType<RowExtractor> {
+    if (provider === 'local') {
+      const res = await extractSingleLocal(row, { ...localOptions(method), model: overrides.model, temperature: overrides.temperature });
+      return { properties: res.properties, failures: [] };
     }
+    const res = await extractSingle({
+      row,
+      method,
+      system_prompt: systemPromptParam,
+      task_description: taskDescriptionParam,
+      model_name: overrides.model,
+      temperature: overrides.temperature,
+      top_p: topP,
+      max_tokens: maxTokens,
+      return_debug: true,
+    });
+    return { properties: res.properties || [], failures: res.failures || [] };
+  }
+
+  function handleCancelLocal() {
+    if (local.cancelRun()) setJobState('cancelled');
   }
 
   const methodValid = method === 'single_model' || method === 'side_by_side';
+  const canRun = methodValid && (provider === 'local' || backendAvailable);
 
   return (
     <Stack spacing={3}>
-      <Box>
-        <Typography variant="subtitle2" sx={{ mb: 2, fontWeight: 600 }}>
-          Extraction Prompt
-        </Typography>
-        <Stack spacing={2}>
-          <Autocomplete
-            size="small"
-            options={promptOptions.map(p => p.name)}
-            value={selectedPrompt}
-            onChange={(_, v) => {
-              if (v) {
-                setSelectedPrompt(v);
-                localStorage.setItem('stringsight.selectedPrompt', v);
-                // Reset edited flag on prompt change
-                setUserEdited(false);
-                localStorage.setItem('stringsight.taskDescriptionEdited', 'false');
-              }
-            }}
-            renderInput={(params) => <TextField {...params} label="Prompt" />}
-          />
-          
-          <Typography variant="caption" sx={{ color: 'text.secondary' }}>
-            {promptOptions.length} prompts available
-          </Typography>
-          
-          {canTaskDescribe && (
-            <Stack spacing={1}>
-              <TextField 
-                label="Task description" 
-                value={taskDescription} 
-                onChange={(e) => {
-                  const val = e.target.value;
-                  setTaskDescription(val);
-                  setUserEdited(true);
-                  localStorage.setItem('stringsight.taskDescription', val);
-                  localStorage.setItem('stringsight.taskDescriptionEdited', 'true');
-                }} 
-                minRows={3} 
-                multiline 
-              />
-              <Box>
-                <Button
-                  size="small"
-                  variant="text"
-                  onClick={() => {
-                    const def = method === 'side_by_side' ? (selectedPromptMeta?.default_task_description_sbs || '') : (selectedPromptMeta?.default_task_description_single || '');
-                    setTaskDescription(def);
-                    setUserEdited(false);
-                    localStorage.setItem('stringsight.taskDescription', def);
-                    localStorage.setItem('stringsight.taskDescriptionEdited', 'false');
-                  }}
-                >
-                  Reset to default
-                </Button>
-              </Box>
-            </Stack>
-          )}
-
-          {/* Resolved system prompt moved to Advanced accordion */}
-        </Stack>
-      </Box>
+      <ExtractionPromptSection prompt={prompt} method={method} />
 
       <Accordion>
         <AccordionSummary expandIcon={<ExpandMoreIcon />}>
@@ -346,12 +331,41 @@ export default function PropertyExtractionPanel({
         </AccordionSummary>
         <AccordionDetails>
           <Stack spacing={2}>
-            <TextField 
-              size="small" 
-              label="Model" 
-              value={modelName} 
-              onChange={(e) => setModelName(e.target.value)} 
-            />
+            <TextField
+              select
+              size="small"
+              label="LLM endpoint"
+              value={provider}
+              onChange={(e) => local.setProvider(e.target.value as ExtractionProvider)}
+            >
+              <MenuItem value="server">StringSight server</MenuItem>
+              <MenuItem value="local">Local OpenAI-compatible server</MenuItem>
+            </TextField>
+            {provider === 'local' && (
+              <LocalLlmSettings
+                local={local}
+                hasResolvedPrompt={!!resolvedPrompt}
+                modelName={modelName}
+                onModelName={setModelName}
+              />
+            )}
+            {provider === 'local' && local.models.length > 0 ? (
+              <Autocomplete
+                size="small"
+                freeSolo
+                options={local.models}
+                value={modelName}
+                onInputChange={(_, v) => setModelName(v)}
+                renderInput={(params) => <TextField {...params} label="Model" />}
+              />
+            ) : (
+              <TextField 
+                size="small" 
+                label="Model" 
+                value={modelName} 
+                onChange={(e) => setModelName(e.target.value)} 
+              />
+            )}
             <TextField 
               size="small" 
               label="Sample size (batch only)" 
@@ -361,6 +375,22 @@ export default function PropertyExtractionPanel({
               placeholder="Leave empty for all prompts"
               helperText={sampleSize ? `Will sample ${sampleSize} prompts total` : 'Process all prompts'}
             />
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <TextField
+                size="small"
+                label="Max tokens"
+                type="number"
+                value={maxTokens}
+                onChange={(e) => setMaxTokens(Math.max(1, Number(e.target.value) || 1))}
+              />
+              <TextField
+                size="small"
+                label="Max workers"
+                type="number"
+                value={maxWorkers}
+                onChange={(e) => setMaxWorkers(Math.max(1, Number(e.target.value) || 1))}
+              />
+            </Box>
             <Accordion>
               <AccordionSummary expandIcon={<ExpandMoreIcon />}>
                 <Typography variant="subtitle2">Full system prompt</Typography>
@@ -419,6 +449,14 @@ export default function PropertyExtractionPanel({
         })()}
       </Button>
 
+      {provider === 'server' && !backendAvailable && (
+        <Box sx={{ p: 1.5, borderRadius: 1, bgcolor: '#FFF7ED', border: '1px solid #F97316' }}>
+          <Typography variant="body2" sx={{ color: '#9A3412' }}>
+            Backend not connected. Set VITE_BACKEND to your backend URL, or switch the LLM endpoint to a local server under Advanced.
+          </Typography>
+        </Box>
+      )}
+
       {busy && (
         <Box sx={{ width: '100%', mb: 2 }}>
           <Typography variant="body2" sx={{ color: 'primary.main', mb: 0.5 }}>
@@ -430,12 +468,12 @@ export default function PropertyExtractionPanel({
             value={(jobProgress||0)*100}
           />
           {/* Cancel button for batch jobs */}
-          {jobId && jobState && !['done', 'error', 'cancelled'].includes(jobState) && (
+          {local.running && jobState && !['done', 'error', 'cancelled'].includes(jobState) && (
             <Button
               size="small"
               variant="outlined"
               color="error"
-              onClick={handleCancelJob}
+              onClick={handleCancelLocal}
               sx={{ mt: 1, width: '100%' }}
             >
               Cancel Extraction
@@ -444,11 +482,36 @@ export default function PropertyExtractionPanel({
         </Box>
       )}
 
+      {methodValid && (
+        <CostEstimate
+          method={method}
+          getRows={getAllRows}
+          rowCount={getAllRows().length}
+          systemPrompt={estimatePrompt}
+          modelName={modelName}
+          maxTokens={maxTokens}
+          maxWorkers={maxWorkers}
+          sampleSize={sampleSize}
+        />
+      )}
+
+      {methodValid && (
+        <PromptPlaygroundSection
+          prompt={prompt}
+          method={method}
+          getRows={getAllRows}
+          modelName={modelName}
+          settings={{ temperature, top_p: topP, max_tokens: maxTokens }}
+          disabled={busy || provider === 'local' || !backendAvailable}
+          onPromote={onPropertiesMerged}
+        />
+      )}
+
       <Box sx={{ display: 'flex', gap: 1, flexDirection: 'column' }}>
           <Button 
             variant="contained" 
             onClick={runExtractSingle} 
-            disabled={busy || !methodValid || !getSelectedRow()}
+            disabled={busy || !canRun || !getSelectedRow()}
             sx={{ width: '100%' }}
           >
             {(() => {
@@ -461,7 +524,7 @@ export default function PropertyExtractionPanel({
           <Button 
             variant="outlined" 
             onClick={runExtractBatch} 
-            disabled={busy || !methodValid}
+            disabled={busy || !canRun}
             sx={{ width: '100%' }}
           >
             {sampleSize && sampleSize > 0 
@@ -470,6 +533,30 @@ export default function PropertyExtractionPanel({
           </Button>
         </Box>
 
+      <ExtractionJobList
+        jobs={jobs}
+        feeds={jobFeeds}
+        transports={jobTransports}
+        onOpenRow={openFeedRow}
+        onCancel={(id) => onCancelJob?.(id)}
+        onDismiss={(id) => onDismissJob?.(id)}
+      />
+
+      <ExtractionFailuresPanel
+        failures={failures}
+        defaultModel={modelName}
+        defaultTemperature={temperature}
+        busy={busy || !canRun}
+        onRetry={failureRetry.retryFailures}
+        onMergeFixed={failureRetry.mergeFixedFailure}
+        onOpenRow={onOpenTrace ? (failure) => {
+          const row = findFailureRow(getAllRows(), failure);
+          if (row) onOpenTrace(row);
+          else setErrorMsg(`Row for question ${failure.question_id} is not in the current data view`);
+        } : undefined}
+        onDismiss={(ids) => onResolveFailures?.(ids)}
+      />
+
       {errorMsg && (
         <Box sx={{ 
           p: 2, 
@@ -0,0 +1,276 @@
+/**
+ * useExtractionJobs - track backend extraction jobs across reloads.
+ *
+ * Active jobs are persisted (see lib/extractionJobs) and polled on an interval,
+ * including jobs restored from a previous page load. Whenever a job reports more
+ * finished rows, the properties added since the last fetch are requested (by
+ * offset) and handed to `onProperties` so the workspace fills in while the job runs.
+ *
+ * Each active job also subscribes to per-row events (SSE, then WebSocket). While a
+ * stream is live the job isn't polled, its properties arrive row by row, and the
+ * events are kept in a short feed. Backends without a stream fall back to polling.
+ *
+ * Rows that fail (`row_failed` events, or the result's `failures` list) are reported
+ * through `onFailures` so they can be inspected and retried.
+ *
+ * Nothing is fetched until `ready` (a dataset is loaded to merge into), so jobs restored
+ * on reload keep their results for the data loaded afterwards. When the merged
+ * properties are discarded, call `resetFetchedResults` (or drop `ready`) and active
+ * jobs are fetched again from offset 0.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { extractJobStatus, extractJobResult, extractJobCancel, type ExtractJobEvent } from '../lib/api';
+import { subscribeToJobEvents, type JobEventTransport } from '../lib/jobEvents';
+import {
+  loadExtractionJobs,
+  saveExtractionJobs,
+  isActiveJob,
+  type ExtractionJobRecord,
+} from '../lib/extractionJobs';
+import type { PropertyLike } from '../components/cards/PropertyCard';
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_FEED_EVENTS = 200;
+
+const errorText = (e: unknown) => e instanceof Error ? e.message : String(e);
+
+export type JobFeedEvent = ExtractJobEvent & { received_at: number };
+
+export function useExtractionJobs(
+  onProperties: (jobId: string, properties: PropertyLike[], final: boolean) => void,
+  onFailures?: (jobId: string, failures: Record<string, unknown>[]) => void,
+  ready = true
+) {
+  const [jobs, setJobs] = useState<ExtractionJobRecord[]>(() => loadExtractionJobs());
+  // Latest values for the polling loop without restarting the interval
+  const jobsRef = useRef(jobs);
+  const onPropertiesRef = useRef(onProperties);
+  const onFailuresRef = useRef(onFailures);
+  const pollingRef = useRef(false);
+  // count_done at the last partial-result fetch, per job
+  const fetchedAtRef = useRef<Map<string, number>>(new Map());
+  // Number of result properties received so far (the next fetch's offset), per job
+  const offsetRef = useRef<Map<string, number>>(new Map());
+  // Bumped on reset so fetches already in flight don't merge into the new properties
+  const generationRef = useRef(0);
+  // Jobs to fetch from the start on the next tick, even if their stream is live
+  const refetchRef = useRef<Set<string>>(new Set());
+  // Event stream per active job; jobs in liveRef are skipped by the poller
+  const subscriptionsRef = useRef<Map<string, () => void>>(new Map());
+  const liveRef = useRef<Set<string>>(new Set());
+  const [feeds, setFeeds] = useState<Record<string, JobFeedEvent[]>>({});
+  const [transports, setTransports] = useState<Record<string, JobEventTransport>>({});
+
+  useEffect(() => {
+    jobsRef.current = jobs;
+    saveExtractionJobs(jobs);
+  }, [jobs]);
+
+  useEffect(() => {
+    onPropertiesRef.current = onProperties;
+  }, [onProperties]);
+
+  useEffect(() => {
+    onFailuresRef.current = onFailures;
+  }, [onFailures]);
+
+  const updateJob = useCallback((jobId: string, patch: Partial<ExtractionJobRecord>) => {
+    setJobs(prev => prev.map(j => j.job_id === jobId ? { ...j, ...patch, updated_at: Date.now() } : j));
+  }, []);
+
+  const pollJob = useCallback(async (job: ExtractionJobRecord) => {
+    const generation = generationRef.current;
+    let status: Awaited<ReturnType<typeof extractJobStatus>>;
+    try {
+      status = await extractJobStatus(job.job_id);
+    } catch (e: unknown) {
+      const message = errorText(e);
+      // The server forgets jobs on restart; stop polling those
+      if (/not found|404/i.test(message)) {
+        updateJob(job.job_id, { state: 'error', error: 'Job not found on the server (it may have restarted)' });
+      } else {
+        updateJob(job.job_id, { error: message });
+      }
+      return;
+    }
+
+    const terminal = status.state === 'done' || status.state === 'cancelled';
+    const lastFetched = fetchedAtRef.current.get(job.job_id) ?? 0;
+    let propertiesCount = job.properties_count;
+    if (terminal || status.count_done > lastFetched) {
+      try {
+        const offset = offsetRef.current.get(job.job_id) ?? 0;
+        const result = await extractJobResult(job.job_id, offset);
+        if (generation !== generationRef.current) return;
+        fetchedAtRef.current.set(job.job_id, status.count_done);
+        propertiesCount = offset + result.properties.length;
+        offsetRef.current.set(job.job_id, propertiesCount);
+        onPropertiesRef.current(job.job_id, result.properties, terminal);
+        if (terminal && (result.failures || []).length > 0) onFailuresRef.current?.(job.job_id, result.failures || []);
+      } catch (e) {
+        // Partial results may not be available until the job finishes
+        if (terminal) {
+          updateJob(job.job_id, { state: 'error', error: `Failed to fetch results: ${errorText(e)}` });
+          return;
+        }
+      }
+    }
+
+    updateJob(job.job_id, {
+      state: status.state,
+      progress: terminal ? 1 : status.progress || 0,
+      count_done: status.count_done,
+      count_total: status.count_total,
+      properties_count: propertiesCount,
+      error: status.error,
+    });
+  }, [updateJob]);
+
+  const resetFetchedResults = useCallback(() => {
+    generationRef.current += 1;
+    fetchedAtRef.current.clear();
+    offsetRef.current.clear();
+    refetchRef.current = new Set(jobsRef.current.filter(isActiveJob).map(j => j.job_id));
+  }, []);
+
+  // Whatever was merged before the data went away has to be fetched again
+  useEffect(() => {
+    if (!ready) resetFetchedResults();
+  }, [ready, resetFetchedResults]);
+
+  // Poll every active job, including ones restored on load, once there is data to merge into
+  const hasActiveJobs = jobs.some(isActiveJob);
+  useEffect(() => {
+    if (!hasActiveJobs || !ready) return;
+    const tick = async () => {
+      if (pollingRef.current) return;
+      pollingRef.current = true;
+      try {
+        const refetch = refetchRef.current;
+        refetchRef.current = new Set();
+        const polled = jobsRef.current.filter(j => isActiveJob(j) && (refetch.has(j.job_id) || !liveRef.current.has(j.job_id)));
+        await Promise.all(polled.map(pollJob));
+      } finally {
+        pollingRef.current = false;
+      }
+    };
+    void tick();
+    const t = setInterval(tick, POLL_INTERVAL_MS);
+    return () => clearInterval(t);
+  }, [hasActiveJobs, ready, pollJob]);
+
+  const stopStream = useCallback((jobId: string) => {
+    liveRef.current.delete(jobId);
+    setTransports(prev => ({ ...prev, [jobId]: 'polling' }));
+  }, []);
+
+  const handleEvent = useCallback((event: ExtractJobEvent) => {
+    const jobId = event.job_id;
+    setFeeds(prev => ({
+      ...prev,
+      [jobId]: [{ ...event, received_at: Date.now() }, ...(prev[jobId] || [])].slice(0, MAX_FEED_EVENTS),
+    }));
+
+    const patch: Partial<ExtractionJobRecord> = {};
+    if (event.state) patch.state = event.state;
+    if (typeof event.progress === 'number') patch.progress = event.progress;
+    if (typeof event.count_done === 'number') patch.count_done = event.count_done;
+    if (typeof event.count_total === 'number') patch.count_total = event.count_total;
+
+    if (event.type === 'row_properties' && event.properties && event.properties.length > 0) {
+      onPropertiesRef.current(jobId, event.properties, false);
+      const added = event.properties.length;
+      setJobs(prev => prev.map(j => j.job_id === jobId ? { ...j, properties_count: j.properties_count + added } : j));
+    }
+    if (event.type === 'row_failed') {
+      onFailuresRef.current?.(jobId, [{ question_id: event.question_id, model: event.model, error: event.error, raw_response: event.raw_response }]);
+    }
+    if (event.type === 'done') {
+      // Let the poller record the terminal status and merge the complete result
+      delete patch.state;
+      subscriptionsRef.current.get(jobId)?.();
+      stopStream(jobId);
+    }
+    if (Object.keys(patch).length > 0) updateJob(jobId, patch);
+  }, [updateJob, stopStream]);
+
+  // Keep one event subscription per active job
+  const activeIds = ready ? jobs.filter(isActiveJob).map(j => j.job_id).join(',') : '';
+  useEffect(() => {
+    const ids = new Set(activeIds ? activeIds.split(',') : []);
+    const subscriptions = subscriptionsRef.current;
+    for (const [jobId, unsubscribe] of subscriptions) {
+      if (!ids.has(jobId)) {
+        unsubscribe();
+        subscriptions.delete(jobId);
+        liveRef.current.delete(jobId);
+      }
+    }
+    for (const jobId of ids) {
+      if (subscriptions.has(jobId)) continue;
+      subscriptions.set(jobId, subscribeToJobEvents(jobId, {
+        onEvent: handleEvent,
+        onConnected: (transport) => {
+          liveRef.current.add(jobId);
+          setTransports(prev => ({ ...prev, [jobId]: transport }));
+        },
+        onFallback: () => stopStream(jobId),
+      }));
+    }
+  }, [activeIds, handleEvent, stopStream]);
+
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    const live = liveRef.current;
+    return () => {
+      subscriptions.forEach(unsubscribe => unsubscribe());
+      subscriptions.clear();
+      live.clear();
+    };
+  }, []);
+
+  const trackJob = useCallback((jobId: string, label: string, rowCount: number) => {
+    const now = Date.now();
+    setJobs(prev => [
+      {
+        job_id: jobId,
+        label,
+        row_count: rowCount,
+        started_at: now,
+        updated_at: now,
+        state: 'queued',
+        progress: 0,
+        count_done: 0,
+        count_total: rowCount,
+        properties_count: 0,
+      },
+      ...prev.filter(j => j.job_id !== jobId),
+    ]);
+  }, []);
+
+  // The next poll sees the cancelled state and merges whatever the job finished
+  const cancelJob = useCallback(async (jobId: string) => {
+    try {
+      await extractJobCancel(jobId);
+      updateJob(jobId, { state: 'cancelling' });
+    } catch (e: unknown) {
+      updateJob(jobId, { error: `Failed to cancel: ${errorText(e)}` });
+    }
+  }, [updateJob]);
+
+  const dismissJob = useCallback((jobId: string) => {
+    fetchedAtRef.current.delete(jobId);
+    offsetRef.current.delete(jobId);
+    setJobs(prev => prev.filter(j => j.job_id !== jobId));
+    setFeeds(prev => {
+      const next = { ...prev };
+      delete next[jobId];
+      return next;
+    });
+  }, []);
+
+  return { jobs, feeds, transports, trackJob, cancelJob, dismissJob, resetFetchedResults };
+}
+
+export default useExtractionJobs;
@@ -0,0 +1,169 @@
+/**
+ * useExtractionPrompt - the prompt used for property extraction.
+ *
+ * Built-in prompts are listed by the backend and resolved to text by name (with the
+ * optional task description); the resolved text is cached per prompt and method so
+ * local-endpoint extraction keeps working offline. User-defined prompts from the
+ * prompt library (lib/promptLibrary) are selected as `custom:<id>` plus a version and
+ * are sent as full prompt text. Selection and task description persist to localStorage.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { getPrompts, getPromptText } from '../lib/api';
+import { loadPromptLibrary, savePromptLibrary, getPromptVersion, CUSTOM_PROMPT_PREFIX, type LibraryPrompt } from '../lib/promptLibrary';
+
+export type PromptOption = Awaited<ReturnType<typeof getPrompts>>['prompts'][number];
+
+type PromptMethod = 'single_model' | 'side_by_side' | 'unknown';
+
+const errorText = (e: unknown) => String(e instanceof Error ? e.message : e);
+
+export function useExtractionPrompt(method: PromptMethod, onError: (message: string) => void) {
+  const [promptOptions, setPromptOptions] = useState<PromptOption[]>([]);
+  const [selectedPrompt, setSelectedPrompt] = useState<string>(
+    () => localStorage.getItem('stringsight.selectedPrompt') || 'default'
+  );
+  const [taskDescription, setTaskDescription] = useState<string>(
+    () => localStorage.getItem('stringsight.taskDescription') || ''
+  );
+  const [userEdited, setUserEdited] = useState<boolean>(
+    () => (localStorage.getItem('stringsight.taskDescriptionEdited') === 'true') || false
+  );
+  const [resolvedPrompt, setResolvedPrompt] = useState<string>('');
+  const onErrorRef = useRef(onError);
+
+  useEffect(() => {
+    onErrorRef.current = onError;
+  }, [onError]);
+
+  // User-defined prompts (selected as `custom:<id>`) are sent as full prompt text
+  const [promptLibrary, setPromptLibrary] = useState<LibraryPrompt[]>(() => loadPromptLibrary());
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(() => {
+    const v = Number(localStorage.getItem('stringsight.selectedPromptVersion'));
+    return Number.isFinite(v) && v > 0 ? v : null;
+  });
+  const customPrompt = selectedPrompt.startsWith(CUSTOM_PROMPT_PREFIX)
+    ? promptLibrary.find(p => `${CUSTOM_PROMPT_PREFIX}${p.id}` === selectedPrompt) || null
+    : null;
+  const customPromptVersion = customPrompt ? getPromptVersion(customPrompt, selectedVersion) : null;
+
+  const updatePromptLibrary = (next: LibraryPrompt[]) => {
+    setPromptLibrary(next);
+    savePromptLibrary(next);
+  };
+
+  const selectPrompt = (name: string, version: number | null = null) => {
+    setSelectedPrompt(name);
+    localStorage.setItem('stringsight.selectedPrompt', name);
+    setSelectedVersion(version);
+    if (version) localStorage.setItem('stringsight.selectedPromptVersion', String(version));
+    else localStorage.removeItem('stringsight.selectedPromptVersion');
+  };
+
+  // A deleted custom prompt falls back to the default prompt
+  useEffect(() => {
+    if (selectedPrompt.startsWith(CUSTOM_PROMPT_PREFIX) && !customPrompt) selectPrompt('default');
+  }, [selectedPrompt, customPrompt]);
+
+  const selectedPromptMeta = promptOptions.find(p => p.name === selectedPrompt);
+  const canTaskDescribe = selectedPromptMeta?.has_task_description || false;
+  // Built-in prompts are resolved by name on the backend; custom ones are sent verbatim
+  const systemPromptParam = customPromptVersion ? customPromptVersion.text : selectedPrompt;
+  const taskDescriptionParam = canTaskDescribe && taskDescription.trim().length > 0 ? taskDescription : undefined;
+
+  const defaultTaskDescription = () =>
+    method === 'side_by_side' ? (selectedPromptMeta?.default_task_description_sbs || '') : (selectedPromptMeta?.default_task_description_single || '');
+
+  const storeTaskDescription = (text: string, edited: boolean) => {
+    setTaskDescription(text);
+    setUserEdited(edited);
+    localStorage.setItem('stringsight.taskDescription', text);
+    localStorage.setItem('stringsight.taskDescriptionEdited', String(edited));
+  };
+
+  const editTaskDescription = (text: string) => storeTaskDescription(text, true);
+  const resetTaskDescription = () => storeTaskDescription(defaultTaskDescription(), false);
+
+  // Picking another prompt resets the edited flag so its default description applies
+  const choosePrompt = (name: string) => {
+    selectPrompt(name);
+    setUserEdited(false);
+    localStorage.setItem('stringsight.taskDescriptionEdited', 'false');
+  };
+
+  // Load prompts on mount
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        const res = await getPrompts();
+        const allowed = new Set(['default', 'agent']);
+        const filtered = (res.prompts || []).filter(p => allowed.has(p.name));
+        if (mounted) setPromptOptions(filtered);
+      } catch (e: unknown) {
+        if (mounted) onErrorRef.current(`Failed to load prompts: ${errorText(e)}`);
+      }
+    })();
+    return () => { mounted = false; };
+  }, []);
+
+  // When promptOptions load or selectedPrompt changes, prefill task description with default if supported and user hasn't edited.
+  useEffect(() => {
+    if (!selectedPromptMeta) return;
+    // Persist selected prompt
+    localStorage.setItem('stringsight.selectedPrompt', selectedPrompt);
+    // If prompt supports task description
+    if (selectedPromptMeta.has_task_description) {
+      if (!userEdited) storeTaskDescription(defaultTaskDescription(), false);
+    } else {
+      // Clear task description for prompts that don't support it
+      storeTaskDescription('', false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedPromptMeta?.name, selectedPromptMeta?.has_task_description]);
+
+  // Resolve prompt text when selection changes
+  useEffect(() => {
+    if (selectedPrompt.startsWith(CUSTOM_PROMPT_PREFIX)) {
+      setResolvedPrompt(customPromptVersion?.text || '');
+      return;
+    }
+    let mounted = true;
+    const methodParam = method === 'unknown' ? undefined : method;
+    const cacheKey = `stringsight.promptText.${selectedPrompt}.${methodParam || 'any'}`;
+    (async () => {
+      try {
+        const effectiveTaskDesc = canTaskDescribe && taskDescription.trim().length > 0 ? taskDescription : undefined;
+        const res = await getPromptText(selectedPrompt, effectiveTaskDesc, methodParam);
+        if (mounted) setResolvedPrompt(res.text);
+        // Cached so local-endpoint extraction keeps working when the backend is offline
+        localStorage.setItem(cacheKey, res.text);
+      } catch (e: unknown) {
+        if (mounted) {
+          const cached = localStorage.getItem(cacheKey);
+          setResolvedPrompt(cached || '');
+          if (!cached) onErrorRef.current(`Failed to load prompt '${selectedPrompt}': ${errorText(e)}`);
+        }
+      }
+    })();
+    return () => { mounted = false; };
+  }, [selectedPrompt, canTaskDescribe, taskDescription, customPromptVersion?.text]);
+
+  return {
+    promptOptions,
+    selectedPrompt,
+    selectPrompt,
+    choosePrompt,
+    taskDescription,
+    editTaskDescription,
+    resetTaskDescription,
+    canTaskDescribe,
+    resolvedPrompt,
+    promptLibrary,
+    updatePromptLibrary,
+    customPrompt,
+    customPromptVersion,
+    systemPromptParam,
+    taskDescriptionParam,
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * useFailureRetry - retry or hand-fix rows listed in the extraction failures panel.
+ *
+ * Retries run one row at a time through `extractRow` (the panel's current provider,
+ * with the model/temperature picked for the retry). Rows that succeed are resolved and
+ * their properties merged; rows that fail again are reported back with the new error.
+ * A hand-fixed JSON output is parsed like local-endpoint output (parsePropertiesFromText).
+ */
+
+import { useState } from 'react';
+import { normalizeFailures, findFailureRow, type ExtractionFailure } from '../lib/extractionFailures';
+import { parsePropertiesFromText, type ExtractionMethod } from '../lib/localLlm';
+import type { PropertyLike } from '../components/cards/PropertyCard';
+
+export interface RetryOverrides {
+  model: string;
+  temperature: number;
+}
+
+// Extraction of one row: properties plus the raw failure records the extractor reported
+export type RowExtractor = (
+  row: Record<string, unknown>,
+  method: ExtractionMethod,
+  overrides: RetryOverrides,
+) => Promise<{ properties: PropertyLike[]; failures: object[] }>;
+
+interface FailureRetryOptions {
+  method: 'single_model' | 'side_by_side' | 'unknown';
+  getRows: () => Record<string, unknown>[];
+  extractRow: RowExtractor;
+  onPropertiesMerged: (properties: PropertyLike[]) => void;
+  onFailures?: (failures: ExtractionFailure[]) => void;
+  onResolveFailures?: (ids: string[]) => void;
+  onError: (message: string | null) => void;
+}
+
+const errorText = (e: unknown) => String(e instanceof Error ? e.message : e);
+
+export function useFailureRetry({ method, getRows, extractRow, onPropertiesMerged, onFailures, onResolveFailures, onError }: FailureRetryOptions) {
+  const [retrying, setRetrying] = useState<boolean>(false);
+
+  // Retry failed rows one at a time, optionally with a different model/temperature
+  async function retryFailures(targets: ExtractionFailure[], overrides: RetryOverrides) {
+    if (method !== 'single_model' && method !== 'side_by_side') return;
+    const rows = getRows();
+    const resolved: string[] = [];
+    const stillFailing: ExtractionFailure[] = [];
+    const retried: PropertyLike[] = [];
+    setRetrying(true);
+    onError(null);
+    for (const failure of targets) {
+      const row = findFailureRow(rows, failure);
+      if (!row) {
+        stillFailing.push({ ...failure, error: 'Row is not in the current data view' });
+        continue;
+      }
+      try {
+        const res = await extractRow(row, method, overrides);
+        retried.push(...res.properties);
+        if ((res.failures || []).length > 0) {
+          stillFailing.push(...normalizeFailures(res.failures, failure.source, { question_id: failure.question_id, model: failure.model }));
+        } else {
+          resolved.push(failure.id);
+        }
+      } catch (e: unknown) {
+        const raw = (e as { raw_response?: string } | null)?.raw_response;
+        stillFailing.push({ ...failure, error: errorText(e), raw_response: raw ?? failure.raw_response });
+      }
+    }
+    if (retried.length > 0) onPropertiesMerged(retried);
+    if (resolved.length > 0) onResolveFailures?.(resolved);
+    if (stillFailing.length > 0) {
+      onFailures?.(stillFailing);
+      onError(`${stillFailing.length} of ${targets.length} retried rows failed again`);
+    }
+    setRetrying(false);
+  }
+
+  // Throws with a user-facing message when the JSON can't be parsed into properties
+  function mergeFixedFailure(failure: ExtractionFailure, json: string) {
+    if (method !== 'single_model' && method !== 'side_by_side') return;
+    const row = findFailureRow(getRows(), failure);
+    if (!row) throw new Error(`Row for question ${failure.question_id} is not in the current data view`);
+    const properties = parsePropertiesFromText(json, row, method);
+    if (properties.length === 0) throw new Error('No properties found (each item needs a property_description)');
+    onPropertiesMerged(properties);
+    onResolveFailures?.([failure.id]);
+  }
+
+  return { retrying, retryFailures, mergeFixedFailure };
+}
@@ -0,0 +1,116 @@
+/**
+ * useLocalLlm - settings and run control for extraction against a local
+ * OpenAI-compatible endpoint (see lib/localLlm).
+ *
+ * The provider choice, endpoint config and optional system prompt override are
+ * persisted to localStorage. `options` builds the request options for a run from
+ * the panel's LLM settings; `startRun`/`cancelRun` track the abortable batch run.
+ */
+
+import { useState, useRef, useCallback } from 'react';
+import {
+  loadLocalLlmConfig,
+  saveLocalLlmConfig,
+  listLocalModels,
+  localSystemPrompt,
+  type LocalLlmConfig,
+  type LocalLlmOptions,
+  type ExtractionMethod,
+} from '../lib/localLlm';
+
+// 'server' calls the StringSight backend; 'local' calls an OpenAI-compatible endpoint from the browser
+export type ExtractionProvider = 'server' | 'local';
+
+export interface LocalRunSettings {
+  model: string;
+  temperature: number;
+  top_p: number;
+  max_tokens: number;
+}
+
+export function useLocalLlm(resolvedPrompt: string) {
+  const [provider, setProviderState] = useState<ExtractionProvider>(
+    () => (localStorage.getItem('stringsight.extractionProvider') as ExtractionProvider) || 'server'
+  );
+  const [config, setConfig] = useState<LocalLlmConfig>(() => loadLocalLlmConfig());
+  const [models, setModels] = useState<string[]>([]);
+  // Optional system prompt used instead of the resolved prompt for local extraction
+  const [promptOverride, setPromptOverrideState] = useState<string>(
+    () => localStorage.getItem('stringsight.localSystemPrompt') || ''
+  );
+  const [connectionMsg, setConnectionMsg] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const setProvider = (next: ExtractionProvider) => {
+    setProviderState(next);
+    localStorage.setItem('stringsight.extractionProvider', next);
+  };
+
+  const setPromptOverride = (text: string) => {
+    setPromptOverrideState(text);
+    localStorage.setItem('stringsight.localSystemPrompt', text);
+  };
+
+  const updateConfig = (patch: Partial<LocalLlmConfig>) => {
+    const next = { ...config, ...patch };
+    setConfig(next);
+    saveLocalLlmConfig(next);
+  };
+
+  // Lists the endpoint's models; resolves to [] when the connection fails
+  const testConnection = useCallback(async (): Promise<string[]> => {
+    setConnectionMsg(null);
+    try {
+      const listed = await listLocalModels(config);
+      setModels(listed);
+      setConnectionMsg(`Connected • ${listed.length} model${listed.length === 1 ? '' : 's'} available`);
+      return listed;
+    } catch (e: unknown) {
+      setConnectionMsg(`Connection failed: ${String(e instanceof Error ? e.message : e)}`);
+      return [];
+    }
+  }, [config]);
+
+  // The prompt local extraction sends: the override, else the resolved prompt
+  const systemPrompt = localSystemPrompt(promptOverride, resolvedPrompt);
+
+  const options = (settings: LocalRunSettings, method: ExtractionMethod, signal?: AbortSignal): LocalLlmOptions => {
+    if (!systemPrompt) throw new Error('Prompt text is not loaded. Start the backend once or paste a system prompt under Advanced.');
+    return { ...config, ...settings, systemPrompt, method, signal };
+  };
+
+  const startRun = () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller;
+  };
+
+  const finishRun = () => {
+    abortRef.current = null;
+  };
+
+  // Returns false when no local run is in progress
+  const cancelRun = () => {
+    if (!abortRef.current) return false;
+    abortRef.current.abort();
+    return true;
+  };
+
+  return {
+    provider,
+    setProvider,
+    config,
+    updateConfig,
+    models,
+    promptOverride,
+    setPromptOverride,
+    systemPrompt,
+    connectionMsg,
+    testConnection,
+    options,
+    startRun,
+    finishRun,
+    cancelRun,
+    running: abortRef.current !== null,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * useOperationHistory - undo/redo stacks for the Data tab operation chain.
+ *
+ * The chain itself stays in App state; callers record the previous chain before
+ * committing a new one, and undo/redo hand back the chain to restore. The stacks
+ * themselves can be read and restored so saved sessions keep their history.
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import type { DataOperation } from '../types/operations';
+
+const DEFAULT_LIMIT = 100;
+
+export interface OperationHistoryStacks {
+  past: DataOperation[][];
+  future: DataOperation[][];
+}
+
+export function useOperationHistory(limit: number = DEFAULT_LIMIT) {
+  const [past, setPast] = useState<DataOperation[][]>([]);
+  const [future, setFuture] = useState<DataOperation[][]>([]);
+
+  // Record the chain being replaced; any redo history is discarded
+  const record = useCallback((previous: DataOperation[]) => {
+    setPast(p => [...p, previous].slice(-limit));
+    setFuture([]);
+  }, [limit]);
+
+  // Returns the chain to restore, or null when there is nothing to undo
+  const undo = useCallback((current: DataOperation[]): DataOperation[] | null => {
+    if (past.length === 0) return null;
+    const previous = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    setFuture(f => [current, ...f]);
+    return previous;
+  }, [past]);
+
+  const redo = useCallback((current: DataOperation[]): DataOperation[] | null => {
+    if (future.length === 0) return null;
+    const next = future[0];
+    setFuture(future.slice(1));
+    setPast(p => [...p, current].slice(-limit));
+    return next;
+  }, [future, limit]);
+
+  const clear = useCallback(() => {
+    setPast([]);
+    setFuture([]);
+  }, []);
+
+  const restore = useCallback((stacks: OperationHistoryStacks) => {
+    setPast(stacks.past.slice(-limit));
+    setFuture(stacks.future);
+  }, [limit]);
+
+  const stacks = useMemo<OperationHistoryStacks>(() => ({ past, future }), [past, future]);
+
+  return {
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    stacks,
+    record,
+    undo,
+    redo,
+    clear,
+    restore,
+  };
+}
+
+export default useOperationHistory;
@@ -1,3 +1,5 @@
+import type { PropertyLike } from "../components/cards/PropertyCard";
+
 export type Method = "single_model" | "side_by_side" | null;
 
 export interface DetectResponse {
@@ -234,11 +236,41 @@ export async function extractJobStatus(job_id: string) {
   return res.json() as Promise<{ job_id: string; state: string; progress: number; count_done: number; count_total: number; error?: string }>;
 }
 
-export async function extractJobResult(job_id: string) {
-  const u = `${API_BASE}/extract/jobs/result?job_id=${encodeURIComponent(job_id)}`;
+// `offset` skips properties already fetched. Backends that echo `offset` return only
+// the rest; older ones ignore it and return everything, so the list is sliced here.
+export async function extractJobResult(job_id: string, offset: number = 0) {
+  const u = `${API_BASE}/extract/jobs/result?job_id=${encodeURIComponent(job_id)}${offset > 0 ? `&offset=${offset}` : ''}`;
   const res = await fetch(u);
   if (!res.ok) throw new Error(await res.text());
-  return res.json() as Promise<{ properties: any[]; count: number; cancelled?: boolean }>;
+  const data = await res.json() as { properties: PropertyLike[]; count: number; offset?: number; cancelled?: boolean; failures?: Record<string, unknown>[] };
+  const properties = data.properties || [];
+  return { ...data, properties: offset > 0 && data.offset !== offset ? properties.slice(offset) : properties };
+}
+
+// Per-row job events pushed over SSE (/extract/jobs/events) or WebSocket (/extract/jobs/ws).
+// Older backends have neither; callers fall back to polling extractJobStatus.
+export type ExtractJobEvent = {
+  type: 'row_started' | 'row_properties' | 'row_failed' | 'row_retry' | 'status' | 'done';
+  job_id: string;
+  row_index?: number;
+  question_id?: string;
+  model?: string;
+  properties?: PropertyLike[];
+  error?: string;
+  raw_response?: string;
+  attempt?: number;
+  state?: string;
+  progress?: number;
+  count_done?: number;
+  count_total?: number;
+};
+
+export function extractJobEventsUrl(job_id: string, transport: 'sse' | 'ws'): string {
+  const path = transport === 'ws' ? 'ws' : 'events';
+  // API_BASE may be relative ('/api'); resolve it against the page for WebSocket URLs
+  const url = new URL(`${API_BASE}/extract/jobs/${path}?job_id=${encodeURIComponent(job_id)}`, window.location.href);
+  if (transport === 'ws') url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
 }
 
 export async function extractJobCancel(job_id: string) {
@@ -0,0 +1,70 @@
+/**
+ * Named operation-chain checkpoints persisted in localStorage.
+ *
+ * A checkpoint stores the serialized chain plus the columns it references, so it
+ * can be reapplied to any dataset that has those columns.
+ */
+
+import type { DataOperation, SerializedOperation } from '../types/operations';
+import { serializeOperation, deserializeOperation, getOperationColumns } from '../types/operations';
+
+const STORAGE_KEY = 'stringsight.operationCheckpoints';
+
+export interface OperationCheckpoint {
+  id: string;
+  name: string;
+  operations: SerializedOperation[];
+  columns: string[];
+  createdAt: number;
+}
+
+export function loadCheckpoints(): OperationCheckpoint[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeCheckpoints(checkpoints: OperationCheckpoint[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(checkpoints));
+}
+
+/**
+ * Save (or replace, when the name already exists) a checkpoint. Returns the updated list.
+ */
+export function saveCheckpoint(name: string, operations: DataOperation[]): OperationCheckpoint[] {
+  const trimmed = name.trim();
+  const checkpoint: OperationCheckpoint = {
+    id: `checkpoint_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: trimmed,
+    operations: operations.map(serializeOperation),
+    columns: Array.from(new Set(operations.flatMap(getOperationColumns))),
+    createdAt: Date.now(),
+  };
+  const next = [...loadCheckpoints().filter(c => c.name !== trimmed), checkpoint];
+  storeCheckpoints(next);
+  return next;
+}
+
+export function deleteCheckpoint(id: string): OperationCheckpoint[] {
+  const next = loadCheckpoints().filter(c => c.id !== id);
+  storeCheckpoints(next);
+  return next;
+}
+
+/**
+ * Rebuild a checkpoint's operations (with fresh ids) for the given dataset columns.
+ * Throws when the dataset is missing columns the checkpoint filters or sorts on.
+ */
+export function instantiateCheckpoint(checkpoint: OperationCheckpoint, availableColumns: string[]): DataOperation[] {
+  const missing = checkpoint.columns.filter(c => !availableColumns.includes(c));
+  if (missing.length > 0) {
+    throw new Error(`Checkpoint "${checkpoint.name}" needs column(s) not in this dataset: ${missing.join(', ')}`);
+  }
+  return checkpoint.operations
+    .map(deserializeOperation)
+    .filter((op): op is DataOperation => op !== null);
+}
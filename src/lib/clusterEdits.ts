@@ -0,0 +1,192 @@
+/**
+ * Manual cluster curation: merge, split, rename and move properties between clusters.
+ *
+ * Each edit is a pure function from the current clusters to the edited clusters plus
+ * a log entry describing it. Membership fields (`property_ids`, `property_descriptions`,
+ * `question_ids`, `size`, `meta.property_items`) are rebuilt from the property rows;
+ * metrics are stale until the caller recomputes them (`recomputeClusterMetrics`).
+ */
+
+import type { PropertyLike } from '../components/cards/PropertyCard';
+
+export type ClusterEditType = 'merge' | 'split' | 'rename' | 'move';
+
+// Entry of a cluster's `meta.property_items`
+export interface ClusterPropertyItem {
+  property_id?: unknown;
+  property_description?: unknown;
+  model?: unknown;
+  question_id?: unknown;
+}
+
+/** Cluster fields read and rebuilt here; anything else on a cluster is carried through unchanged. */
+export interface ClusterLike {
+  id?: string | number;
+  label?: string;
+  cluster_label?: string;
+  size?: number;
+  property_ids?: unknown[];
+  property_descriptions?: unknown[];
+  question_ids?: unknown[];
+  meta?: { group?: string; property_items?: ClusterPropertyItem[]; [key: string]: unknown };
+}
+
+export interface ClusterEdit {
+  type: ClusterEditType;
+  at: number;
+  cluster_ids: string[]; // clusters the edit read from
+  target_cluster_id?: string; // cluster the edit wrote to (new or existing)
+  label?: string;
+  previous_label?: string;
+  property_ids?: string[];
+}
+
+export interface ClusterEditResult<C extends ClusterLike = ClusterLike> {
+  clusters: C[];
+  edit: ClusterEdit;
+}
+
+export const clusterKey = (cluster: ClusterLike | null | undefined) => String(cluster?.id ?? cluster?.label);
+
+export function clusterLabel(cluster: ClusterLike | null | undefined): string {
+  return String(cluster?.label || cluster?.cluster_label || cluster?.id || '');
+}
+
+/** Property ids of a cluster, from `property_ids` or `meta.property_items`. */
+export function clusterPropertyIds(cluster: ClusterLike | null | undefined): string[] {
+  if (Array.isArray(cluster?.property_ids)) {
+    return cluster.property_ids.filter(pid => pid != null).map(String);
+  }
+  const items = cluster?.meta?.property_items;
+  return Array.isArray(items) ? items.filter(it => it?.property_id != null).map(it => String(it.property_id)) : [];
+}
+
+// Rebuild the membership fields of `cluster` for the given property ids
+function withMembers<C extends ClusterLike>(cluster: C, ids: string[], propertiesById: Map<string, PropertyLike>): C {
+  const previousItems: ClusterPropertyItem[] = Array.isArray(cluster?.meta?.property_items) ? cluster.meta.property_items : [];
+  const itemsById = new Map(previousItems.map(it => [String(it?.property_id), it]));
+  const descriptions = new Map<string, string>();
+  const oldIds = clusterPropertyIds(cluster);
+  const oldDescriptions: unknown[] = Array.isArray(cluster?.property_descriptions) ? cluster.property_descriptions : [];
+  oldIds.forEach((pid, i) => { if (oldDescriptions[i] != null) descriptions.set(pid, String(oldDescriptions[i])); });
+
+  const describe = (pid: string) => String(propertiesById.get(pid)?.property_description ?? itemsById.get(pid)?.property_description ?? descriptions.get(pid) ?? '');
+  const next: C = {
+    ...cluster,
+    property_ids: ids,
+    property_descriptions: ids.map(describe),
+    size: ids.length,
+  };
+  if (Array.isArray(cluster?.question_ids)) {
+    next.question_ids = ids.map(pid => propertiesById.get(pid)?.question_id ?? itemsById.get(pid)?.question_id).filter(q => q != null);
+  }
+  if (previousItems.length > 0 || Array.isArray(cluster?.meta?.property_items)) {
+    next.meta = {
+      ...cluster.meta,
+      property_items: ids.map(pid => itemsById.get(pid) ?? {
+        property_id: pid,
+        property_description: describe(pid),
+        model: propertiesById.get(pid)?.model,
+        question_id: propertiesById.get(pid)?.question_id,
+      }),
+    };
+  }
+  return next;
+}
+
+// Numeric ids continue the sequence; anything else gets a unique string id
+function nextClusterId(clusters: ClusterLike[]): string | number {
+  const ids = clusters.map(c => c?.id);
+  if (ids.length > 0 && ids.every(id => typeof id === 'number' || (typeof id === 'string' && /^-?\d+$/.test(id)))) {
+    const next = Math.max(...ids.map(Number)) + 1;
+    return typeof ids[0] === 'number' ? next : String(next);
+  }
+  return `edited_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function findCluster<C extends ClusterLike>(clusters: C[], key: string): C {
+  const cluster = clusters.find(c => clusterKey(c) === key);
+  if (!cluster) throw new Error(`Cluster ${key} not found`);
+  return cluster;
+}
+
+/** Merge clusters into the first one listed, which takes `label`. */
+export function mergeClusters<C extends ClusterLike>(clusters: C[], keys: string[], label: string, propertiesById: Map<string, PropertyLike>): ClusterEditResult<C> {
+  if (keys.length < 2) throw new Error('Select at least two clusters to merge');
+  const sources = keys.map(k => findCluster(clusters, k));
+  const ids = Array.from(new Set(sources.flatMap(clusterPropertyIds)));
+  const merged = { ...withMembers(sources[0], ids, propertiesById), label };
+  const removed = new Set(keys.slice(1));
+  return {
+    clusters: clusters.filter(c => !removed.has(clusterKey(c))).map(c => clusterKey(c) === keys[0] ? merged : c),
+    edit: { type: 'merge', at: Date.now(), cluster_ids: keys, target_cluster_id: keys[0], label, property_ids: ids },
+  };
+}
+
+/** Move the picked properties of a cluster into a new cluster called `label`. */
+export function splitCluster<C extends ClusterLike>(clusters: C[], key: string, propertyIds: string[], label: string, propertiesById: Map<string, PropertyLike>): ClusterEditResult<C> {
+  const source = findCluster(clusters, key);
+  const picked = new Set(propertyIds);
+  const remaining = clusterPropertyIds(source).filter(pid => !picked.has(pid));
+  if (picked.size === 0) throw new Error('Select the properties to split off');
+  if (remaining.length === 0) throw new Error('A split must leave at least one property in the original cluster');
+
+  const id = nextClusterId(clusters);
+  const created = { ...withMembers({ ...source, id, label }, Array.from(picked), propertiesById), label };
+  const index = clusters.indexOf(source);
+  const next = clusters.map(c => c === source ? withMembers(source, remaining, propertiesById) : c);
+  next.splice(index + 1, 0, created);
+  return {
+    clusters: next,
+    edit: { type: 'split', at: Date.now(), cluster_ids: [key], target_cluster_id: String(id), label, property_ids: Array.from(picked) },
+  };
+}
+
+export function renameCluster<C extends ClusterLike>(clusters: C[], key: string, label: string): ClusterEditResult<C> {
+  const cluster = findCluster(clusters, key);
+  return {
+    clusters: clusters.map(c => c === cluster ? { ...c, label } : c),
+    edit: { type: 'rename', at: Date.now(), cluster_ids: [key], target_cluster_id: key, label, previous_label: clusterLabel(cluster) },
+  };
+}
+
+/** Move properties from one cluster to another; a source left empty is removed. */
+export function moveProperties<C extends ClusterLike>(clusters: C[], fromKey: string, toKey: string, propertyIds: string[], propertiesById: Map<string, PropertyLike>): ClusterEditResult<C> {
+  if (fromKey === toKey) throw new Error('Properties are already in this cluster');
+  const source = findCluster(clusters, fromKey);
+  const target = findCluster(clusters, toKey);
+  const moving = new Set(propertyIds);
+  const remaining = clusterPropertyIds(source).filter(pid => !moving.has(pid));
+  const targetIds = clusterPropertyIds(target);
+  const added = propertyIds.filter(pid => !targetIds.includes(pid));
+  const next = clusters
+    .map(c => c === source ? withMembers(source, remaining, propertiesById) : c === target ? withMembers(target, [...targetIds, ...added], propertiesById) : c)
+    .filter(c => clusterKey(c) !== fromKey || remaining.length > 0);
+  return {
+    clusters: next,
+    edit: { type: 'move', at: Date.now(), cluster_ids: [fromKey], target_cluster_id: toKey, property_ids: propertyIds },
+  };
+}
+
+/**
+ * Keys (`clusterKey`) of the clusters any edit read from or wrote to. Their metrics come
+ * from the recompute; score rows loaded with the results describe the clusters as they were.
+ */
+export function editedClusterKeys(edits: ClusterEdit[]): Set<string> {
+  const keys = new Set<string>();
+  for (const edit of edits) {
+    edit.cluster_ids.forEach(key => keys.add(key));
+    if (edit.target_cluster_id != null) keys.add(edit.target_cluster_id);
+  }
+  return keys;
+}
+
+export function describeEdit(edit: ClusterEdit): string {
+  const count = edit.property_ids?.length ?? 0;
+  switch (edit.type) {
+    case 'merge': return `Merged ${edit.cluster_ids.length} clusters into "${edit.label}"`;
+    case 'split': return `Split ${count} properties into "${edit.label}"`;
+    case 'rename': return `Renamed "${edit.previous_label}" to "${edit.label}"`;
+    case 'move': return `Moved ${count} propert${count === 1 ? 'y' : 'ies'}`;
+  }
+}
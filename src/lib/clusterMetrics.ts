@@ -1,32 +1,66 @@
 /**
  * Compute cluster metrics on-the-fly from conversations, properties, and clusters
  * This avoids needing to load pre-computed model_cluster_scores_df.jsonl
+ *
+ * `bootstrapClusterMetrics` adds resampling-based confidence intervals (run it in
+ * `src/workers/metrics.worker.ts` via `src/lib/metricsBootstrap.ts`), and
+ * `toModelClusterScores` shapes both into `model_cluster_scores` rows for the Metrics tab.
  */
 
+import type { ModelClusterRow } from '../types/metrics';
+import { seededRandom, drawResample, percentileInterval } from './stats';
+
 export interface ClusterMetrics {
   cluster_id: string;
   cluster_label: string;
   total_unique_conversations: number;
   proportion_overall: number;
   proportion_by_model: Record<string, number>;
+  proportion_delta_by_model: Record<string, number>; // proportion − mean proportion across models
+  size_by_model: Record<string, number>; // unique conversations of the model in the cluster
   quality_by_model: Record<string, Record<string, number>>;
   quality_delta_by_model: Record<string, Record<string, number>>;
 }
 
+export interface Interval {
+  lower: number;
+  upper: number;
+}
+
+export interface SignificanceInterval extends Interval {
+  significant: boolean; // interval excludes zero
+}
+
+export interface ClusterMetricsIntervals {
+  cluster_id: string;
+  proportion_by_model: Record<string, Interval>;
+  proportion_delta_by_model: Record<string, SignificanceInterval>;
+  quality_by_model: Record<string, Record<string, Interval>>;
+  quality_delta_by_model: Record<string, Record<string, SignificanceInterval>>;
+}
+
+export interface BootstrapOptions {
+  samples: number;
+  seed: number;
+  confidence: number;
+}
+
+export const DEFAULT_BOOTSTRAP: BootstrapOptions = { samples: 500, seed: 0, confidence: 0.95 };
+
 interface ConversationRow {
   question_id: string;
   model: string;
   score?: Record<string, number>; // e.g., {Helpfulness: 5.0, Conciseness: 4.0}
 }
 
-interface PropertyRow {
+export interface PropertyRow {
   id: string;
   question_id: string;
   model: string;
   property_description?: string;
 }
 
-interface ClusterRow {
+export interface ClusterRow {
   id: string;
   label: string;
   property_ids: string[];
@@ -109,15 +143,31 @@ export function computeClusterMetrics(
 
     // Compute metrics per model
     const proportionByModel: Record<string, number> = {};
+    const sizeByModel: Record<string, number> = {};
     const qualityByModel: Record<string, Record<string, number>> = {};
     const qualityDeltaByModel: Record<string, Record<string, number>> = {};
 
-    byModel.forEach((convs, model) => {
-      // Proportion: # properties in cluster / total properties for this model
+    // Proportion: # properties in cluster / total properties for this model (scores not required)
+    const questionsByModel = new Map<string, Set<string>>();
+    clusterProperties.forEach(p => {
+      if (!questionsByModel.has(p.model)) questionsByModel.set(p.model, new Set());
+      questionsByModel.get(p.model)!.add(p.question_id);
+    });
+    questionsByModel.forEach((questions, model) => {
       const modelPropertiesInCluster = clusterProperties.filter(p => p.model === model).length;
       const totalModelProperties = totalPropertiesByModel.get(model) || 1;
       proportionByModel[model] = modelPropertiesInCluster / totalModelProperties;
+      sizeByModel[model] = questions.size;
+    });
 
+    // Proportion delta against the cross-model average (models absent from the cluster count as 0)
+    const meanProportion = allModels.reduce((sum, m) => sum + (proportionByModel[m] || 0), 0) / (allModels.length || 1);
+    const proportionDeltaByModel: Record<string, number> = {};
+    Object.keys(proportionByModel).forEach(model => {
+      proportionDeltaByModel[model] = proportionByModel[model] - meanProportion;
+    });
+
+    byModel.forEach((convs, model) => {
       // Average scores per metric for this model in this cluster
       const avgScores = computeAverageScores(convs);
       qualityByModel[model] = avgScores;
@@ -143,6 +193,8 @@ export function computeClusterMetrics(
       total_unique_conversations: totalUniqueConversationsInCluster,
       proportion_overall: totalUniqueConversationsInCluster / totalUniqueConversations,
       proportion_by_model: proportionByModel,
+      proportion_delta_by_model: proportionDeltaByModel,
+      size_by_model: sizeByModel,
       quality_by_model: qualityByModel,
       quality_delta_by_model: qualityDeltaByModel
     };
@@ -196,3 +248,225 @@ function computeAverageScores(conversations: ConversationRow[]): Record<string,
 
   return avgScores;
 }
+
+/**
+ * Bootstrap confidence intervals for `computeClusterMetrics`' proportions and quality
+ * scores. Conversations are resampled by `question_id` (shared across models, so
+ * side-by-side comparisons stay paired) and every statistic is recomputed on each
+ * resample; intervals are percentile intervals. Deltas are significant when their
+ * interval excludes zero. Returns one entry per cluster, in input order.
+ */
+export function bootstrapClusterMetrics(
+  conversations: ConversationRow[],
+  properties: PropertyRow[],
+  clusters: ClusterRow[],
+  options: BootstrapOptions = DEFAULT_BOOTSTRAP,
+  onProgress?: (done: number, total: number) => void
+): ClusterMetricsIntervals[] {
+  const questionIndex = new Map<string, number>();
+  conversations.forEach(c => {
+    if (!questionIndex.has(c.question_id)) questionIndex.set(c.question_id, questionIndex.size);
+  });
+  const n = questionIndex.size;
+  const models = Array.from(new Set(conversations.map(c => c.model)));
+  const modelIndex = new Map(models.map((m, i) => [m, i]));
+  const metrics = Array.from(new Set(conversations.flatMap(c => (c.score ? Object.keys(c.score) : []))));
+  const M = models.length;
+  const K = metrics.length;
+
+  const scoresOf = (conv: ConversationRow | undefined): Float64Array | null => {
+    if (!conv?.score) return null;
+    return Float64Array.from(metrics, m => (typeof conv.score![m] === 'number' ? conv.score![m] : NaN));
+  };
+
+  // Baseline units: every scored conversation, as in computeBaseline
+  const baselineUnits = conversations
+    .filter(c => c.score)
+    .map(c => ({ m: modelIndex.get(c.model)!, q: questionIndex.get(c.question_id)!, scores: scoresOf(c)! }));
+
+  const convByQuestionModel = new Map<string, ConversationRow>();
+  conversations.forEach(c => convByQuestionModel.set(`${c.question_id}|${c.model}`, c));
+
+  // Property units; properties whose conversation isn't in the data can't be resampled
+  type Unit = { m: number; q: number; scores: Float64Array | null };
+  const unitById = new Map<string, Unit>();
+  const propertyUnits: Unit[] = [];
+  properties.forEach(p => {
+    const m = modelIndex.get(p.model);
+    const q = questionIndex.get(p.question_id);
+    if (m === undefined || q === undefined) return;
+    const unit = { m, q, scores: scoresOf(convByQuestionModel.get(`${p.question_id}|${p.model}`)) };
+    unitById.set(p.id, unit);
+    propertyUnits.push(unit);
+  });
+  const clusterUnits = clusters.map(c => c.property_ids.map(id => unitById.get(id)).filter((u): u is Unit => !!u));
+
+  // Replicates per cluster, laid out [statistic][sample]: proportion, proportion delta, then quality and quality delta per metric
+  const S = options.samples;
+  const stride = M * (2 + 2 * K);
+  const replicates = clusters.map(() => new Float64Array(stride * S));
+  const weights = new Uint16Array(n);
+  const random = seededRandom(options.seed);
+  const totals = new Float64Array(M);
+  const baseSum = new Float64Array(M * K);
+  const baseCount = new Float64Array(M * K);
+  const inCluster = new Float64Array(M);
+  const qualitySum = new Float64Array(M * K);
+  const qualityCount = new Float64Array(M * K);
+  const proportions = new Float64Array(M);
+
+  for (let b = 0; b < S; b++) {
+    drawResample(random, n, weights);
+    totals.fill(0);
+    propertyUnits.forEach(u => { totals[u.m] += weights[u.q]; });
+    baseSum.fill(0);
+    baseCount.fill(0);
+    baselineUnits.forEach(u => {
+      const w = weights[u.q];
+      if (w === 0) return;
+      for (let k = 0; k < K; k++) {
+        const v = u.scores[k];
+        if (Number.isNaN(v)) continue;
+        baseSum[u.m * K + k] += w * v;
+        baseCount[u.m * K + k] += w;
+      }
+    });
+
+    clusterUnits.forEach((units, c) => {
+      inCluster.fill(0);
+      qualitySum.fill(0);
+      qualityCount.fill(0);
+      units.forEach(u => {
+        const w = weights[u.q];
+        if (w === 0) return;
+        inCluster[u.m] += w;
+        if (!u.scores) return;
+        for (let k = 0; k < K; k++) {
+          const v = u.scores[k];
+          if (Number.isNaN(v)) continue;
+          qualitySum[u.m * K + k] += w * v;
+          qualityCount[u.m * K + k] += w;
+        }
+      });
+      let mean = 0;
+      for (let m = 0; m < M; m++) {
+        proportions[m] = inCluster[m] / (totals[m] || 1);
+        mean += proportions[m] / M;
+      }
+      const out = replicates[c];
+      for (let m = 0; m < M; m++) {
+        const base = m * (2 + 2 * K);
+        out[base * S + b] = proportions[m];
+        out[(base + 1) * S + b] = proportions[m] - mean;
+        for (let k = 0; k < K; k++) {
+          const quality = qualityCount[m * K + k] > 0 ? qualitySum[m * K + k] / qualityCount[m * K + k] : NaN;
+          const baseline = baseCount[m * K + k] > 0 ? baseSum[m * K + k] / baseCount[m * K + k] : 0;
+          out[(base + 2 + 2 * k) * S + b] = quality;
+          out[(base + 3 + 2 * k) * S + b] = quality - baseline;
+        }
+      }
+    });
+    if (b % 25 === 0) onProgress?.(b, S);
+  }
+  onProgress?.(S, S);
+
+  const withSignificance = (interval: Interval): SignificanceInterval => ({
+    ...interval,
+    significant: interval.lower > 0 || interval.upper < 0,
+  });
+
+  return clusters.map((cluster, c) => {
+    const out = replicates[c];
+    const slice = (stat: number) => out.subarray(stat * S, (stat + 1) * S);
+    const result: ClusterMetricsIntervals = {
+      cluster_id: cluster.id,
+      proportion_by_model: {},
+      proportion_delta_by_model: {},
+      quality_by_model: {},
+      quality_delta_by_model: {},
+    };
+    models.forEach((model, m) => {
+      const base = m * (2 + 2 * K);
+      result.proportion_by_model[model] = percentileInterval(slice(base), options.confidence);
+      result.proportion_delta_by_model[model] = withSignificance(percentileInterval(slice(base + 1), options.confidence));
+      const quality: Record<string, Interval> = {};
+      const qualityDelta: Record<string, SignificanceInterval> = {};
+      metrics.forEach((metric, k) => {
+        const q = percentileInterval(slice(base + 2 + 2 * k), options.confidence);
+        if (Number.isNaN(q.lower)) return; // the model never has a scored conversation in this cluster
+        quality[metric] = q;
+        qualityDelta[metric] = withSignificance(percentileInterval(slice(base + 3 + 2 * k), options.confidence));
+      });
+      result.quality_by_model[model] = quality;
+      result.quality_delta_by_model[model] = qualityDelta;
+    });
+    return result;
+  });
+}
+
+/**
+ * Shape computed metrics (and optional intervals) like the backend's
+ * `model_cluster_scores` rows, so the Metrics tab reads them unchanged.
+ * `groups` maps cluster id to its `meta.group`, when clusters are grouped.
+ */
+export function toModelClusterScores(
+  metrics: ClusterMetrics[],
+  intervals?: ClusterMetricsIntervals[],
+  groups?: Record<string, string>
+): ModelClusterRow[] {
+  const intervalsById = new Map((intervals || []).map(i => [String(i.cluster_id), i]));
+  const rows: ModelClusterRow[] = [];
+  metrics.forEach(cluster => {
+    const ci = intervalsById.get(String(cluster.cluster_id));
+    const group = groups?.[String(cluster.cluster_id)];
+    Object.keys(cluster.proportion_by_model).forEach(model => {
+      const quality = { ...(cluster.quality_by_model[model] || {}) };
+      const row: ModelClusterRow & Record<string, unknown> = {
+        model,
+        cluster: cluster.cluster_label,
+        cluster_id: String(cluster.cluster_id),
+        size: cluster.size_by_model[model] || 0,
+        proportion: cluster.proportion_by_model[model],
+        proportion_delta: cluster.proportion_delta_by_model[model] ?? 0,
+        metadata: group != null ? { group } : {},
+        quality,
+        quality_delta: { ...(cluster.quality_delta_by_model[model] || {}) },
+      };
+      // Flat quality_<metric> columns are how the Metrics tab discovers metric names
+      Object.entries(quality).forEach(([metric, value]) => { row[`quality_${metric}`] = value; });
+
+      if (ci) {
+        const proportion = ci.proportion_by_model[model];
+        const delta = ci.proportion_delta_by_model[model];
+        if (proportion) {
+          row.proportion_ci_lower = proportion.lower;
+          row.proportion_ci_upper = proportion.upper;
+        }
+        if (delta) {
+          row.proportion_delta_ci_lower = delta.lower;
+          row.proportion_delta_ci_upper = delta.upper;
+          row.proportion_delta_significant = delta.significant;
+        }
+        // CIs stay flat: nested `quality_ci` keys would be mistaken for metric names
+        const qualityDeltaSignificant: Record<string, boolean> = {};
+        row.quality_delta_significant = qualityDeltaSignificant;
+        Object.keys(quality).forEach(metric => {
+          const q = ci.quality_by_model[model]?.[metric];
+          const d = ci.quality_delta_by_model[model]?.[metric];
+          if (q) {
+            row[`quality_${metric}_ci_lower`] = q.lower;
+            row[`quality_${metric}_ci_upper`] = q.upper;
+          }
+          if (d) {
+            qualityDeltaSignificant[metric] = d.significant;
+            row[`quality_delta_${metric}_ci_lower`] = d.lower;
+            row[`quality_delta_${metric}_ci_upper`] = d.upper;
+            row[`quality_delta_${metric}_significant`] = d.significant;
+          }
+        });
+      }
+      rows.push(row);
+    });
+  });
+  return rows;
+}
@@ -0,0 +1,93 @@
+/**
+ * Client-side readers for columnar formats (Parquet and Arrow IPC).
+ *
+ * Rows are converted to plain JSON-compatible objects so they match what JSONL
+ * parsing produces: nested structs (e.g. `score`) become objects, lists (e.g.
+ * message histories) become arrays, int64 becomes number and timestamps become
+ * ISO strings. Both libraries are loaded lazily since most uploads are JSONL/CSV.
+ */
+
+const PARQUET_EXTENSIONS = ['.parquet', '.pq'];
+const ARROW_EXTENSIONS = ['.arrow', '.arrows', '.feather', '.ipc'];
+
+export function isParquetFile(name: string): boolean {
+  const lower = name.toLowerCase();
+  return PARQUET_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+export function isArrowFile(name: string): boolean {
+  const lower = name.toLowerCase();
+  return ARROW_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+/**
+ * Read a Parquet file one row group at a time, passing converted rows to `onRows`.
+ * `onProgress` receives an approximate byte offset based on rows read so far.
+ */
+export async function readParquetFile(
+  file: File,
+  onRows: (rows: Record<string, any>[]) => void,
+  onProgress?: (bytesRead: number) => void
+): Promise<void> {
+  const [{ parquetMetadataAsync, parquetReadObjects, toJson }, { compressors }] = await Promise.all([
+    import('hyparquet'),
+    import('hyparquet-compressors'),
+  ]);
+  const asyncBuffer = {
+    byteLength: file.size,
+    slice: (start: number, end?: number) => file.slice(start, end).arrayBuffer(),
+  };
+  const metadata = await parquetMetadataAsync(asyncBuffer);
+  const totalRows = Number(metadata.num_rows);
+
+  let rowStart = 0;
+  for (const rowGroup of metadata.row_groups) {
+    const rowEnd = rowStart + Number(rowGroup.num_rows);
+    const rows = await parquetReadObjects({ file: asyncBuffer, metadata, rowStart, rowEnd, compressors });
+    onRows(rows.map(row => toJson(row) as Record<string, any>));
+    rowStart = rowEnd;
+    onProgress?.(totalRows > 0 ? Math.round((rowStart / totalRows) * file.size) : file.size);
+  }
+}
+
+/**
+ * Read an Arrow IPC file or stream one record batch at a time, passing converted rows to `onRows`.
+ */
+export async function readArrowFile(
+  file: File,
+  onRows: (rows: Record<string, any>[]) => void,
+  onProgress?: (bytesRead: number) => void
+): Promise<void> {
+  const { RecordBatchReader, Vector } = await import('apache-arrow');
+
+  const toPlain = (value: any): any => {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'bigint') return Number(value);
+    if (value instanceof Date) return value.toISOString();
+    if (value instanceof Vector) return Array.from(value, toPlain);
+    if (ArrayBuffer.isView(value)) return Array.from(value as unknown as ArrayLike<unknown>, toPlain);
+    if (Array.isArray(value)) return value.map(toPlain);
+    if (typeof value === 'object') {
+      // StructRow / MapRow expose their fields via toJSON(); plain objects pass through
+      const source = typeof value.toJSON === 'function' ? value.toJSON() : value;
+      const out: Record<string, any> = {};
+      for (const key of Object.keys(source)) out[key] = toPlain(source[key]);
+      return out;
+    }
+    return value;
+  };
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const reader = RecordBatchReader.from(bytes).open();
+  // Only the IPC file format knows its batch count up front; streams report progress at the end
+  const totalBatches = reader.isFile() ? reader.numRecordBatches : 0;
+  let batchesRead = 0;
+  for (const batch of reader) {
+    const rows: Record<string, any>[] = [];
+    for (let i = 0; i < batch.numRows; i++) rows.push(toPlain(batch.get(i)));
+    onRows(rows);
+    batchesRead += 1;
+    if (totalBatches > 0) onProgress?.(Math.round((batchesRead / totalBatches) * file.size));
+  }
+  onProgress?.(file.size);
+}
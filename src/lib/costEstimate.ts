@@ -0,0 +1,148 @@
+/**
+ * Pre-flight token, cost and duration estimates for batch property extraction.
+ *
+ * Token counts use the ~4 characters per token rule of thumb, applied to the
+ * messages built for each row (`buildExtractionMessages`): the system prompt plus
+ * the conversation, exactly as local extraction sends them. Prices are USD per 1M tokens and editable (persisted in localStorage).
+ */
+
+import { buildExtractionMessages, type ExtractionMethod } from './localLlm';
+
+export interface ModelPrice {
+  model: string;
+  input: number; // USD per 1M input tokens
+  output: number; // USD per 1M output tokens
+}
+
+export interface ExtractionEstimate {
+  requests: number;
+  inputTokens: number;
+  typicalOutputTokens: number;
+  maxOutputTokens: number;
+  typicalCost: number | null; // null when the model has no price
+  maxCost: number | null;
+  seconds: number;
+}
+
+const PRICES_KEY = 'stringsight.modelPrices';
+const BUDGET_KEY = 'stringsight.extractionBudget';
+
+const CHARS_PER_TOKEN = 4;
+// Typical length of an extraction response (a JSON list of a few properties)
+const TYPICAL_OUTPUT_TOKENS = 500;
+// Rough per-request throughput used for wall-clock estimates
+const OUTPUT_TOKENS_PER_SECOND = 60;
+const REQUEST_OVERHEAD_SECONDS = 1.5;
+// Rows measured when averaging conversation length on large datasets
+const MAX_MEASURED_ROWS = 2000;
+
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { model: 'gpt-4o', input: 2.5, output: 10 },
+  { model: 'gpt-4.1', input: 2, output: 8 },
+  { model: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { model: 'gpt-4.1-nano', input: 0.1, output: 0.4 },
+  { model: 'o3-mini', input: 1.1, output: 4.4 },
+];
+
+export function loadModelPrices(): ModelPrice[] {
+  try {
+    const raw = localStorage.getItem(PRICES_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return Array.isArray(parsed) ? parsed : DEFAULT_MODEL_PRICES;
+  } catch {
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+export function saveModelPrices(prices: ModelPrice[]) {
+  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+}
+
+export function loadBudget(): number | null {
+  const raw = localStorage.getItem(BUDGET_KEY);
+  const n = raw ? Number(raw) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+export function saveBudget(budget: number | null) {
+  if (budget === null) localStorage.removeItem(BUDGET_KEY);
+  else localStorage.setItem(BUDGET_KEY, String(budget));
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Exact match first, then the longest price entry the model name starts with (e.g. dated snapshots)
+export function findModelPrice(prices: ModelPrice[], model: string): ModelPrice | null {
+  const name = model.trim().toLowerCase();
+  const exact = prices.find(p => p.model.toLowerCase() === name);
+  if (exact) return exact;
+  const prefixed = prices
+    .filter(p => name.startsWith(p.model.toLowerCase()))
+    .sort((a, b) => b.model.length - a.model.length);
+  return prefixed[0] || null;
+}
+
+/**
+ * Estimate a batch run over `rows` (one request per row). With `sampleSize`, only
+ * that many prompts (question_ids) are run, so the request count scales accordingly.
+ */
+export function estimateExtraction(params: {
+  rows: Record<string, unknown>[];
+  method: ExtractionMethod;
+  systemPrompt: string;
+  model: string;
+  prices: ModelPrice[];
+  maxTokens: number;
+  maxWorkers: number;
+  sampleSize?: number | null;
+}): ExtractionEstimate {
+  const { rows, method, systemPrompt, model, prices, maxTokens, maxWorkers, sampleSize } = params;
+
+  let requests = rows.length;
+  if (sampleSize && sampleSize > 0) {
+    const prompts = new Set(rows.map(r => String(r.question_id ?? r.prompt))).size;
+    if (prompts > sampleSize) requests = Math.round(rows.length * (sampleSize / prompts));
+  }
+
+  // Average request size over an evenly spaced subset of rows
+  const step = Math.max(1, Math.ceil(rows.length / MAX_MEASURED_ROWS));
+  let measured = 0;
+  let requestTokens = 0;
+  for (let i = 0; i < rows.length; i += step) {
+    buildExtractionMessages(systemPrompt, rows[i], method).forEach(m => { requestTokens += estimateTokens(m.content); });
+    measured += 1;
+  }
+  const inputTokens = Math.round(requests * (measured > 0 ? requestTokens / measured : 0));
+
+  const typicalPerRequest = Math.min(maxTokens, TYPICAL_OUTPUT_TOKENS);
+  const typicalOutputTokens = requests * typicalPerRequest;
+  const maxOutputTokens = requests * maxTokens;
+
+  const price = findModelPrice(prices, model);
+  const cost = (output: number) => price ? (inputTokens * price.input + output * price.output) / 1_000_000 : null;
+
+  const secondsPerRequest = REQUEST_OVERHEAD_SECONDS + typicalPerRequest / OUTPUT_TOKENS_PER_SECOND;
+  const seconds = Math.ceil(requests / Math.max(1, maxWorkers)) * secondsPerRequest;
+
+  return {
+    requests,
+    inputTokens,
+    typicalOutputTokens,
+    maxOutputTokens,
+    typicalCost: cost(typicalOutputTokens),
+    maxCost: cost(maxOutputTokens),
+    seconds,
+  };
+}
+
+/** Warning to confirm before a batch run whose typical cost exceeds the saved budget; null when within it. */
+export function budgetWarning(params: Omit<Parameters<typeof estimateExtraction>[0], 'prices'>): string | null {
+  const budget = loadBudget();
+  if (budget === null) return null;
+  const estimate = estimateExtraction({ ...params, prices: loadModelPrices() });
+  if (estimate.typicalCost === null || estimate.typicalCost <= budget) return null;
+  return `Estimated cost $${estimate.typicalCost.toFixed(2)} exceeds your budget of $${budget.toFixed(2)}. Run anyway?`;
+}
@@ -0,0 +1,70 @@
+/**
+ * Export the current analysis as a StringSight results directory bundle (zip).
+ *
+ * The file names match what the "Load Results" folder loader reads, so an
+ * exported bundle can be unzipped and loaded back without losing data.
+ */
+
+import JSZip from 'jszip';
+
+export interface ResultsBundle {
+  conversations: Record<string, unknown>[];
+  properties: unknown[];
+  clusters: unknown[];
+  metrics: { model_cluster_scores?: unknown[]; cluster_scores?: unknown[]; model_scores?: unknown[] } | null;
+}
+
+function toJsonl(rows: unknown[]): string {
+  return rows.map(row => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : '');
+}
+
+/**
+ * Build a zip containing a single results directory:
+ *   conversation.jsonl, properties.jsonl, clusters.jsonl,
+ *   model_cluster_scores_df.jsonl, cluster_scores_df.jsonl, model_scores_df.jsonl
+ * Files for empty layers are omitted so the loader falls back to recomputing metrics.
+ */
+export async function buildResultsZip(bundle: ResultsBundle, folderName: string): Promise<Blob> {
+  const zip = new JSZip();
+  const folder = zip.folder(folderName)!;
+
+  folder.file('conversation.jsonl', toJsonl(bundle.conversations));
+  if (bundle.properties.length > 0) folder.file('properties.jsonl', toJsonl(bundle.properties));
+  if (bundle.clusters.length > 0) folder.file('clusters.jsonl', toJsonl(bundle.clusters));
+
+  const metrics = bundle.metrics || {};
+  if (Array.isArray(metrics.model_cluster_scores) && metrics.model_cluster_scores.length > 0) {
+    folder.file('model_cluster_scores_df.jsonl', toJsonl(metrics.model_cluster_scores));
+  }
+  if (Array.isArray(metrics.cluster_scores) && metrics.cluster_scores.length > 0) {
+    folder.file('cluster_scores_df.jsonl', toJsonl(metrics.cluster_scores));
+  }
+  if (Array.isArray(metrics.model_scores) && metrics.model_scores.length > 0) {
+    folder.file('model_scores_df.jsonl', toJsonl(metrics.model_scores));
+  }
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', compressionOptions: { level: 6 } });
+}
+
+/**
+ * Zip of hand-edited clusters: clusters.jsonl (same format as the results directory)
+ * and cluster_edits.jsonl, the ordered log of merges, splits, renames and moves.
+ */
+export async function buildClusterEditsZip(clusters: unknown[], edits: unknown[], folderName: string): Promise<Blob> {
+  const zip = new JSZip();
+  const folder = zip.folder(folderName)!;
+  folder.file('clusters.jsonl', toJsonl(clusters));
+  folder.file('cluster_edits.jsonl', toJsonl(edits));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', compressionOptions: { level: 6 } });
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,55 @@
+/**
+ * Extraction failures (rows whose LLM output could not be parsed or whose request
+ * failed), normalized from the different sources that report them: the backend's
+ * `failures` lists, job stream `row_failed` events and local-endpoint extraction.
+ */
+
+export type FailureSource = 'single' | 'job' | 'local';
+
+export interface ExtractionFailure {
+  id: string;
+  question_id: string;
+  model?: string;
+  error: string;
+  raw_response?: string;
+  source: FailureSource;
+  createdAt: number;
+}
+
+function asText(value: unknown): string | undefined {
+  if (value == null) return undefined;
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+/** Normalize backend/local failure records (field names vary between sources). */
+export function normalizeFailures(raw: object[] | undefined, source: FailureSource, fallback?: { question_id?: unknown; model?: unknown }): ExtractionFailure[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(record => {
+    const f = record as Record<string, unknown> | null;
+    const model = f?.model ?? fallback?.model;
+    return {
+      id: `failure_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      question_id: String(f?.question_id ?? fallback?.question_id ?? ''),
+      model: model != null ? String(model) : undefined,
+      error: String(f?.error ?? f?.parse_error ?? f?.message ?? f?.reason ?? 'Unknown error'),
+      raw_response: asText(f?.raw_response ?? f?.raw_output ?? f?.response ?? f?.output),
+      source,
+      createdAt: Date.now(),
+    };
+  });
+}
+
+const failureKey = (f: ExtractionFailure) => `${f.question_id}-${f.model ?? ''}`;
+
+/** Add failures, replacing older entries for the same row (question_id + model). */
+export function mergeFailures(existing: ExtractionFailure[], incoming: ExtractionFailure[]): ExtractionFailure[] {
+  const keys = new Set(incoming.map(failureKey));
+  return [...existing.filter(f => !keys.has(failureKey(f))), ...incoming];
+}
+
+/** Find the data row a failure belongs to. */
+export function findFailureRow<R extends Record<string, unknown>>(rows: R[], failure: ExtractionFailure): R | undefined {
+  const matches = rows.filter(r => String(r.question_id) === failure.question_id);
+  if (matches.length <= 1 || !failure.model) return matches[0];
+  return matches.find(r => r.model === failure.model || r.model_a === failure.model || r.model_b === failure.model) || matches[0];
+}
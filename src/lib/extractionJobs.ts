@@ -0,0 +1,76 @@
+/**
+ * Persisted records of backend extraction jobs, so a reload or closed sidebar
+ * doesn't lose the handle to a running job. Polling lives in useExtractionJobs.
+ */
+
+const STORAGE_KEY = 'stringsight.extractionJobs';
+
+export interface ExtractionJobRecord {
+  job_id: string;
+  label: string;
+  row_count: number;
+  started_at: number;
+  updated_at: number;
+  state: string; // queued | running | done | error | cancelled
+  progress: number; // 0..1
+  count_done: number;
+  count_total: number;
+  properties_count: number; // properties merged into the workspace so far
+  error?: string;
+}
+
+const TERMINAL_STATES = new Set(['done', 'error', 'cancelled']);
+
+export function isActiveJob(job: ExtractionJobRecord): boolean {
+  return !TERMINAL_STATES.has(job.state);
+}
+
+export function loadExtractionJobs(): ExtractionJobRecord[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveExtractionJobs(jobs: ExtractionJobRecord[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+}
+
+/** Remaining time in ms, extrapolated from progress so far (null until there is progress). */
+export function estimateRemainingMs(job: ExtractionJobRecord, now: number = Date.now()): number | null {
+  if (!isActiveJob(job) || job.progress <= 0 || job.progress >= 1) return null;
+  const elapsed = now - job.started_at;
+  return (elapsed / job.progress) * (1 - job.progress);
+}
+
+export function formatDuration(ms: number): string {
+  const s = Math.max(0, Math.round(ms / 1000));
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m}m ${s % 60}s`;
+  return `${Math.floor(m / 60)}h ${m % 60}m`;
+}
+
+type PropertyKeyFields = { id?: unknown; question_id?: unknown; model?: unknown; property_description?: unknown };
+
+/** Merge properties by id (falling back to question/model/description), replacing earlier copies. */
+export function mergePropertiesById<P extends PropertyKeyFields>(existing: P[], incoming: P[]): P[] {
+  const keyOf = (p: P) => String(p?.id ?? `${p?.question_id}-${p?.model}-${p?.property_description}`);
+  const index = new Map<string, number>();
+  const out = [...existing];
+  out.forEach((p, i) => index.set(keyOf(p), i));
+  for (const p of incoming) {
+    const key = keyOf(p);
+    const at = index.get(key);
+    if (at === undefined) {
+      index.set(key, out.length);
+      out.push(p);
+    } else {
+      out[at] = p;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,200 @@
+/**
+ * Client-side evaluation and parsing of Data tab filter operations.
+ *
+ * Filter expressions use a small language so score filters don't need the
+ * Python `dfCustom` round trip:
+ *
+ *   score_helpfulness < 3            numeric: <, <=, >, >=, =, !=
+ *   score_helpfulness between 1 and 3   inclusive range (also "not between")
+ *   model = gpt-4o                   exact value (non-numeric right-hand side)
+ *   prompt contains "refund"         substring, case-insensitive (also "not contains")
+ *   prompt matches /refund|return/i  regular expression (also "not matches", ~ and !~)
+ *   model_response is empty          null, blank string, empty list/object (also "is not empty")
+ *
+ * Column names with spaces or symbols can be wrapped in backticks: `my column` < 3.
+ */
+
+import type { DataOperation, RowFilterOperation, NumericOperator } from '../types/operations';
+import {
+  createFilterOperation,
+  createNumericFilterOperation,
+  createTextFilterOperation,
+  createEmptyFilterOperation,
+} from '../types/operations';
+
+export function isEmptyValue(value: any): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'number') return Number.isNaN(value);
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+function toNumber(value: any): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+function toText(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Build a row predicate for a filter operation. Regexes are compiled once per operation.
+ * Rows whose value is not numeric never match a numeric filter (in either direction).
+ */
+export function buildRowPredicate(operation: RowFilterOperation): (row: Record<string, any>) => boolean {
+  const { column } = operation;
+  switch (operation.type) {
+    case 'filter': {
+      const values = new Set(operation.values);
+      return (row) => {
+        const matches = values.has(String(row[column] ?? ''));
+        return operation.negated ? !matches : matches;
+      };
+    }
+    case 'numeric_filter': {
+      const { operator, value, upper, negated } = operation;
+      const compare = (n: number): boolean => {
+        switch (operator) {
+          case '<': return n < value;
+          case '<=': return n <= value;
+          case '>': return n > value;
+          case '>=': return n >= value;
+          case '=': return n === value;
+          case '!=': return n !== value;
+          case 'between': return n >= value && n <= (upper ?? value);
+        }
+      };
+      return (row) => {
+        const n = toNumber(row[column]);
+        if (n === null) return false;
+        return negated ? !compare(n) : compare(n);
+      };
+    }
+    case 'text_filter': {
+      const { mode, pattern, caseSensitive, negated } = operation;
+      let test: (text: string) => boolean;
+      if (mode === 'regex') {
+        const re = new RegExp(pattern, caseSensitive ? '' : 'i');
+        test = (text) => re.test(text);
+      } else {
+        const needle = caseSensitive ? pattern : pattern.toLowerCase();
+        test = (text) => (caseSensitive ? text : text.toLowerCase()).includes(needle);
+      }
+      return (row) => {
+        const matches = test(toText(row[column]));
+        return negated ? !matches : matches;
+      };
+    }
+    case 'empty_filter':
+      return (row) => {
+        const empty = isEmptyValue(row[column]);
+        return operation.negated ? !empty : empty;
+      };
+  }
+}
+
+// -------- Expression parsing ---------
+
+const COLUMN_RE = /^(`[^`]+`|[A-Za-z_][\w.-]*)\s*/;
+
+function unquote(text: string): string {
+  const t = text.trim();
+  if (t.length >= 2 && ((t.startsWith('"') && t.endsWith('"')) || (t.startsWith("'") && t.endsWith("'")))) {
+    return t.slice(1, -1);
+  }
+  return t;
+}
+
+function parseNumber(text: string): number | null {
+  const t = text.trim();
+  if (t === '') return null;
+  const n = Number(t);
+  return Number.isFinite(n) ? n : null;
+}
+
+function parseRegexLiteral(text: string): { pattern: string; caseSensitive: boolean } {
+  const t = text.trim();
+  const literal = t.match(/^\/(.*)\/([a-z]*)$/s);
+  const pattern = literal ? literal[1] : unquote(t);
+  const flags = literal ? literal[2] : '';
+  if (flags && flags.replace('i', '') !== '') {
+    throw new Error(`Unsupported regex flags "${flags}" (only "i" is supported)`);
+  }
+  // Validate now so the user sees the error instead of a silently empty table
+  new RegExp(pattern);
+  // Bare patterns (no /.../ literal) default to case-insensitive, like "contains"
+  return { pattern, caseSensitive: literal ? !flags.includes('i') : false };
+}
+
+/**
+ * Parse a filter expression (see module docs) into an operation.
+ * Throws an Error with a user-facing message when the expression is invalid.
+ * When `columns` is provided, the column must be one of them.
+ */
+export function parseFilterExpression(expression: string, columns?: string[]): DataOperation {
+  const text = expression.trim();
+  if (!text) throw new Error('Enter a filter expression, e.g. score_helpfulness < 3');
+
+  const colMatch = text.match(COLUMN_RE);
+  if (!colMatch) throw new Error('Expression must start with a column name');
+  const column = colMatch[1].startsWith('`') ? colMatch[1].slice(1, -1) : colMatch[1];
+  if (columns && !columns.includes(column)) {
+    throw new Error(`Unknown column "${column}"`);
+  }
+  const rest = text.slice(colMatch[0].length);
+  let m: RegExpMatchArray | null;
+
+  // is [not] empty
+  if ((m = rest.match(/^is\s+(not\s+)?empty$/i))) {
+    return createEmptyFilterOperation(column, Boolean(m[1]));
+  }
+
+  // [not] between a and b
+  if ((m = rest.match(/^(not\s+)?between\s+(\S+)\s+and\s+(\S+)$/i))) {
+    const lower = parseNumber(m[2]);
+    const upper = parseNumber(m[3]);
+    if (lower === null || upper === null) throw new Error('"between" needs two numbers, e.g. score between 1 and 3');
+    return createNumericFilterOperation(column, 'between', Math.min(lower, upper), Math.max(lower, upper), Boolean(m[1]));
+  }
+
+  // [not] contains text
+  if ((m = rest.match(/^(not\s+)?contains\s+(.+)$/i))) {
+    const pattern = unquote(m[2]);
+    if (!pattern) throw new Error('"contains" needs some text');
+    return createTextFilterOperation(column, 'contains', pattern, false, Boolean(m[1]));
+  }
+
+  // [not] matches /re/ , ~ /re/ , !~ /re/
+  if ((m = rest.match(/^(?:(not\s+)?matches|(!?)~)\s+(.+)$/i))) {
+    const negated = Boolean(m[1]) || m[2] === '!';
+    const { pattern, caseSensitive } = parseRegexLiteral(m[3]);
+    return createTextFilterOperation(column, 'regex', pattern, caseSensitive, negated);
+  }
+
+  // comparison operators
+  if ((m = rest.match(/^(<=|>=|==|!=|<>|<|>|=)\s*(.+)$/))) {
+    const rawOp = m[1];
+    const operator: NumericOperator = rawOp === '==' ? '=' : rawOp === '<>' ? '!=' : (rawOp as NumericOperator);
+    const rhs = m[2].trim();
+    const quoted = /^(["']).*\1$/.test(rhs);
+    const num = quoted ? null : parseNumber(rhs);
+    if (num !== null) return createNumericFilterOperation(column, operator, num);
+    // Non-numeric right-hand side: exact value match
+    if (operator === '=' || operator === '!=') {
+      return createFilterOperation(column, [unquote(rhs)], operator === '!=');
+    }
+    throw new Error(`"${rawOp}" needs a number, e.g. ${column} ${rawOp} 3`);
+  }
+
+  throw new Error('Unrecognized filter. Try: col < 3, col between 1 and 3, col contains "x", col matches /x/i, col is empty');
+}
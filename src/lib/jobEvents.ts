@@ -0,0 +1,117 @@
+/**
+ * Subscribe to per-row extraction job events.
+ *
+ * Tries Server-Sent Events first, then a WebSocket; if neither connects (older
+ * backends), `onFallback` is called once and the caller keeps polling instead.
+ * A stream that drops after connecting also falls back, except that EventSource
+ * reconnects on its own while the server keeps the job.
+ */
+
+import { extractJobEventsUrl, type ExtractJobEvent } from './api';
+
+export type JobEventTransport = 'sse' | 'ws' | 'polling';
+
+const CONNECT_TIMEOUT_MS = 5000;
+
+interface JobEventHandlers {
+  onEvent: (event: ExtractJobEvent) => void;
+  onConnected?: (transport: 'sse' | 'ws') => void;
+  onFallback: () => void;
+}
+
+function parseEvent(data: string, jobId: string): ExtractJobEvent | null {
+  try {
+    const parsed = JSON.parse(data);
+    if (!parsed || typeof parsed.type !== 'string') return null;
+    return { job_id: jobId, ...parsed };
+  } catch {
+    return null;
+  }
+}
+
+/** Returns a function that closes the subscription. */
+export function subscribeToJobEvents(jobId: string, handlers: JobEventHandlers): () => void {
+  let closed = false;
+  let close: () => void = () => {};
+
+  const fallback = () => {
+    if (closed) return;
+    closed = true;
+    close();
+    handlers.onFallback();
+  };
+
+  const connectWebSocket = () => {
+    if (closed) return;
+    let opened = false;
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(extractJobEventsUrl(jobId, 'ws'));
+    } catch {
+      fallback();
+      return;
+    }
+    const timer = setTimeout(() => { if (!opened) fallback(); }, CONNECT_TIMEOUT_MS);
+    close = () => { clearTimeout(timer); socket.close(); };
+    socket.onopen = () => {
+      opened = true;
+      clearTimeout(timer);
+      handlers.onConnected?.('ws');
+    };
+    socket.onmessage = (msg) => {
+      const event = parseEvent(String(msg.data), jobId);
+      if (event) handlers.onEvent(event);
+    };
+    socket.onerror = () => fallback();
+    socket.onclose = () => fallback();
+  };
+
+  const connectEventSource = () => {
+    if (typeof EventSource === 'undefined') {
+      connectWebSocket();
+      return;
+    }
+    let opened = false;
+    const source = new EventSource(extractJobEventsUrl(jobId, 'sse'));
+    const timer = setTimeout(() => {
+      if (opened) return;
+      source.close();
+      connectWebSocket();
+    }, CONNECT_TIMEOUT_MS);
+    close = () => { clearTimeout(timer); source.close(); };
+    source.onopen = () => {
+      opened = true;
+      clearTimeout(timer);
+      handlers.onConnected?.('sse');
+    };
+    source.onmessage = (msg) => {
+      const event = parseEvent(msg.data, jobId);
+      if (event) handlers.onEvent(event);
+    };
+    source.onerror = () => {
+      if (closed) return;
+      if (!opened) {
+        // Endpoint missing (404) or not an event stream: try the WebSocket
+        clearTimeout(timer);
+        source.close();
+        connectWebSocket();
+      } else if (source.readyState === EventSource.CLOSED) {
+        fallback();
+      }
+    };
+  };
+
+  connectEventSource();
+  return () => {
+    closed = true;
+    close();
+  };
+}
+
+/** The data row an event refers to: by question (and model, for single-model data), else by row index. */
+export function findEventRow<R extends Record<string, unknown>>(rows: R[], event: ExtractJobEvent, method: string): R | undefined {
+  return rows.find(r =>
+    String(r.question_id) === String(event.question_id) &&
+    (method !== 'single_model' || !event.model || String(r.model) === String(event.model))
+  ) ?? (event.row_index !== undefined ? rows.find(r => r.__index === event.row_index) : undefined);
+}
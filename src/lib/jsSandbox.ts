@@ -0,0 +1,44 @@
+/**
+ * Run client-side custom code operations in a sandboxed Web Worker.
+ * See src/workers/customCode.worker.ts for how code is compiled and applied.
+ */
+
+export type JsCustomMode = 'predicate' | 'transform';
+
+export type JsSandboxRequest = { rows: Record<string, any>[]; code: string; mode: JsCustomMode };
+// Same shape as the /df/custom response: `rows` on success, `error` on failure
+export type JsSandboxResponse = { rows?: Record<string, any>[]; error?: string; rowIndex?: number };
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Apply `code` to every row. Resolves with the resulting rows or an error message;
+ * never rejects. A fresh worker is used per run and terminated afterwards, so
+ * runaway code (infinite loops) is stopped by the timeout.
+ */
+export function runJsCustomCode(
+  rows: Record<string, any>[],
+  code: string,
+  mode: JsCustomMode,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<JsSandboxResponse> {
+  return new Promise((resolve) => {
+    const worker = new Worker(new URL('../workers/customCode.worker.ts', import.meta.url), { type: 'module' });
+    const timer = setTimeout(() => {
+      worker.terminate();
+      resolve({ error: `Custom code timed out after ${Math.round(timeoutMs / 1000)}s` });
+    }, timeoutMs);
+
+    worker.onmessage = (event: MessageEvent<JsSandboxResponse>) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve({ error: event.message || 'Custom code worker failed' });
+    };
+    worker.postMessage({ rows, code, mode } satisfies JsSandboxRequest);
+  });
+}
@@ -0,0 +1,225 @@
+/**
+ * In-browser clustering fallback for when the backend is unavailable.
+ *
+ * Property descriptions are clustered in `src/workers/clustering.worker.ts`; the
+ * result is shaped like the backend's `/cluster/run` clusters and enriched with
+ * `computeClusterMetrics`, so the Clusters and Metrics tabs read it unchanged.
+ */
+
+import type { PropertyLike } from '../components/cards/PropertyCard';
+import { computeClusterMetrics } from './clusterMetrics';
+import { clusterLabel, clusterPropertyIds } from './clusterEdits';
+import { clusterTexts, type TextClusteringOptions, type TextClusteringResult } from './textClustering';
+
+export type LocalGroupBy = 'none' | 'category' | 'behavior_type';
+
+export interface LocalClusteringParams extends TextClusteringOptions {
+  groupBy: LocalGroupBy;
+}
+
+// A cluster built here, shaped like the backend's `/cluster/run` clusters
+export interface LocalCluster {
+  id: number;
+  label: string;
+  size: number;
+  property_descriptions: string[];
+  property_ids: string[];
+  question_ids: string[];
+  meta: { group?: string; top_terms?: string[]; clustering: 'local'; [key: string]: unknown };
+}
+
+export interface LocalClusteringResult {
+  clusters: LocalCluster[];
+  // The input properties, with an id assigned to any that lacked one; clusters refer to these ids
+  properties: PropertyLike[];
+  total_conversations_by_model: Record<string, number>;
+  total_unique_conversations: number;
+}
+
+export type LocalClusteringProgress = { done: number; total: number };
+
+// Messages exchanged with src/workers/clustering.worker.ts
+export type LocalClusteringWorkerRequest = {
+  groups: { group: string | null; texts: string[] }[];
+  options: TextClusteringOptions;
+};
+export type LocalClusteringWorkerMessage =
+  | ({ type: 'progress' } & LocalClusteringProgress)
+  | { type: 'done'; results: ({ group: string | null } & TextClusteringResult)[] }
+  | { type: 'error'; error: string };
+
+export const DEFAULT_LOCAL_CLUSTERING: Omit<LocalClusteringParams, 'minClusterSize' | 'groupBy'> = {
+  vectorizer: 'tfidf',
+  algorithm: 'agglomerative',
+  similarityThreshold: 0.35,
+};
+
+function toScore(value: unknown): Record<string, number> | undefined {
+  if (typeof value === 'number') return { score: value };
+  if (value && typeof value === 'object' && !Array.isArray(value)) return value as Record<string, number>;
+  return undefined;
+}
+
+/** One conversation row per (question, model); side-by-side rows are split into their two models. */
+export function conversationsForMetrics(operationalRows: Record<string, unknown>[]): { question_id: string; model: string; score?: Record<string, number> }[] {
+  const out: { question_id: string; model: string; score?: Record<string, number> }[] = [];
+  for (const row of operationalRows) {
+    const qid = String(row?.question_id ?? '');
+    if (row?.model_a != null && row?.model_b != null) {
+      out.push({ question_id: qid, model: String(row.model_a), score: toScore(row.score_a) });
+      out.push({ question_id: qid, model: String(row.model_b), score: toScore(row.score_b) });
+    } else if (row?.model != null) {
+      out.push({ question_id: qid, model: String(row.model), score: toScore(row.score) });
+    }
+  }
+  return out;
+}
+
+async function clusterGroups(request: LocalClusteringWorkerRequest, onProgress?: (progress: LocalClusteringProgress) => void) {
+  // Main-thread fallback where Web Workers are unavailable
+  if (typeof Worker === 'undefined') {
+    return request.groups.map(g => ({ group: g.group, ...clusterTexts(g.texts, request.options) }));
+  }
+
+  return new Promise<({ group: string | null } & TextClusteringResult)[]>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/clustering.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<LocalClusteringWorkerMessage>) => {
+      const msg = event.data;
+      if (msg.type === 'progress') {
+        onProgress?.(msg);
+      } else if (msg.type === 'done') {
+        worker.terminate();
+        resolve(msg.results);
+      } else if (msg.type === 'error') {
+        worker.terminate();
+        reject(new Error(msg.error));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Clustering worker failed'));
+    };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Cluster property descriptions without the backend. Clusters below `minClusterSize`
+ * are collected into an "Outliers" cluster per group. Properties without an `id` get
+ * `local_<index>`; callers should replace their properties with the returned ones.
+ */
+export async function runLocalClustering(
+  operationalRows: Record<string, unknown>[],
+  properties: PropertyLike[],
+  params: LocalClusteringParams,
+  onProgress?: (progress: LocalClusteringProgress) => void,
+): Promise<LocalClusteringResult> {
+  const withIds: PropertyLike[] = properties.map((p, i) => p?.id != null ? p : { ...p, id: `local_${i}` });
+  const usable = withIds
+    .filter(p => typeof p?.property_description === 'string' && p.property_description.trim())
+    .map(p => ({ ...p, id: String(p.id) }));
+  if (usable.length === 0) throw new Error('No property descriptions to cluster');
+
+  const byGroup = new Map<string | null, PropertyLike[]>();
+  for (const p of usable) {
+    const group = params.groupBy === 'none' ? null : String(p[params.groupBy] ?? 'unknown');
+    if (!byGroup.has(group)) byGroup.set(group, []);
+    byGroup.get(group)!.push(p);
+  }
+  const grouped = Array.from(byGroup.entries());
+
+  const results = await clusterGroups({
+    groups: grouped.map(([group, items]) => ({ group, texts: items.map(p => String(p.property_description)) })),
+    options: {
+      vectorizer: params.vectorizer,
+      algorithm: params.algorithm,
+      minClusterSize: params.minClusterSize,
+      similarityThreshold: params.similarityThreshold,
+    },
+  }, onProgress);
+
+  const clusters: LocalCluster[] = [];
+  const build = (id: number, label: string, members: PropertyLike[], group: string | null, topTerms?: string[]): LocalCluster => ({
+    id,
+    label,
+    size: members.length,
+    property_descriptions: members.map(p => String(p.property_description)),
+    property_ids: members.map(p => p.id),
+    question_ids: members.map(p => p.question_id),
+    meta: {
+      ...(group != null ? { group } : {}),
+      ...(topTerms ? { top_terms: topTerms } : {}),
+      clustering: 'local',
+    },
+  });
+  results.forEach((result, g) => {
+    const items = grouped[g][1];
+    for (const c of result.clusters) {
+      clusters.push(build(clusters.length, String(items[c.medoid].property_description), c.members.map(m => items[m]), result.group, c.topTerms));
+    }
+  });
+  // Outliers go last, with negative ids so they never collide with cluster ids
+  results.forEach((result, g) => {
+    if (result.outliers.length === 0) return;
+    const items = grouped[g][1];
+    const label = result.group != null ? `Outliers (${result.group})` : 'Outliers';
+    clusters.push(build(-(g + 1), label, result.outliers.map(m => items[m]), result.group));
+  });
+
+  return { properties: withIds, ...recomputeClusterMetricsLocally({ clusters, properties: usable, operationalRows }) };
+}
+
+/**
+ * Browser counterpart of the backend's `/cluster/metrics` (`recomputeClusterMetrics`):
+ * refresh each cluster's `meta` proportions and quality from `computeClusterMetrics`.
+ * With `included_property_ids`, only those properties count toward the clusters.
+ */
+export function recomputeClusterMetricsLocally<C extends { id?: string | number; meta?: Record<string, unknown> }>(body: {
+  clusters: C[];
+  properties: PropertyLike[];
+  operationalRows: Record<string, unknown>[];
+  included_property_ids?: string[];
+}): Omit<LocalClusteringResult, 'properties' | 'clusters'> & { clusters: C[] } {
+  const included = body.included_property_ids ? new Set(body.included_property_ids.map(String)) : null;
+  const conversations = conversationsForMetrics(body.operationalRows);
+  const clusterRows = body.clusters.map((c, i) => ({
+    id: String(c?.id ?? i),
+    label: clusterLabel(c),
+    property_ids: clusterPropertyIds(c),
+    question_ids: [] as string[],
+  }));
+  const metrics = computeClusterMetrics(
+    conversations,
+    body.properties
+      .filter(p => p?.id != null && (!included || included.has(String(p.id))))
+      .map(p => ({ id: String(p.id), question_id: String(p.question_id), model: String(p.model) })),
+    clusterRows,
+  );
+  const metricsById = new Map(metrics.map(m => [String(m.cluster_id), m]));
+
+  const questionsByModel = new Map<string, Set<string>>();
+  for (const c of conversations) {
+    if (!questionsByModel.has(c.model)) questionsByModel.set(c.model, new Set());
+    questionsByModel.get(c.model)!.add(c.question_id);
+  }
+
+  return {
+    clusters: body.clusters.map((c, i) => {
+      const m = metricsById.get(clusterRows[i].id);
+      if (!m) return c;
+      return {
+        ...c,
+        meta: {
+          ...c.meta,
+          proportion_overall: m.proportion_overall,
+          proportion_by_model: m.proportion_by_model,
+          quality_by_model: m.quality_by_model,
+          quality_delta_by_model: m.quality_delta_by_model,
+          total_unique_conversations: m.total_unique_conversations,
+        },
+      };
+    }),
+    total_conversations_by_model: Object.fromEntries(Array.from(questionsByModel.entries()).map(([model, qs]) => [model, qs.size])),
+    total_unique_conversations: new Set(conversations.map(c => c.question_id)).size,
+  };
+}
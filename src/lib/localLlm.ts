@@ -0,0 +1,280 @@
+/**
+ * Property extraction against an OpenAI-compatible endpoint (vLLM, llama.cpp server,
+ * Ollama, ...) called directly from the browser, without the StringSight backend.
+ *
+ * The system prompt is the resolved prompt text (`getPromptText`); each row is rendered
+ * into the user message and the model's JSON output is normalized into the same
+ * property objects the backend returns (`property_description`, `category`, ...).
+ * The endpoint must allow CORS requests from this origin.
+ */
+
+import type { PropertyLike } from '../components/cards/PropertyCard';
+
+export type ExtractionMethod = 'single_model' | 'side_by_side';
+
+export interface LocalLlmConfig {
+  baseUrl: string; // e.g. http://localhost:8000/v1
+  apiKey?: string;
+}
+
+export interface LocalLlmOptions extends LocalLlmConfig {
+  model: string;
+  systemPrompt: string;
+  method: ExtractionMethod;
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LocalExtractionFailure {
+  question_id: string;
+  model?: string;
+  error: string;
+  raw_response?: string;
+}
+
+export type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+const STORAGE_KEY = 'stringsight.localLlm';
+const DEFAULT_CONFIG: LocalLlmConfig = { baseUrl: 'http://localhost:8000/v1' };
+
+export function loadLocalLlmConfig(): LocalLlmConfig {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_CONFIG, ...JSON.parse(raw) } : { ...DEFAULT_CONFIG };
+  } catch {
+    return { ...DEFAULT_CONFIG };
+  }
+}
+
+export function saveLocalLlmConfig(config: LocalLlmConfig) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+}
+
+function endpoint(baseUrl: string, path: string): string {
+  return `${baseUrl.trim().replace(/\/+$/, '')}${path}`;
+}
+
+function headers(config: LocalLlmConfig): Record<string, string> {
+  const h: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) h['Authorization'] = `Bearer ${config.apiKey}`;
+  return h;
+}
+
+/** List model ids served by the endpoint (also works as a connection check). */
+export async function listLocalModels(config: LocalLlmConfig): Promise<string[]> {
+  const res = await fetch(endpoint(config.baseUrl, '/models'), { headers: headers(config) });
+  if (!res.ok) throw new Error(await res.text());
+  const data: { data?: { id?: unknown }[] } = await res.json();
+  return (data?.data || []).map(m => String(m?.id)).filter(Boolean);
+}
+
+export async function chatCompletion(options: LocalLlmOptions, messages: ChatMessage[]): Promise<string> {
+  const res = await fetch(endpoint(options.baseUrl, '/chat/completions'), {
+    method: 'POST',
+    headers: headers(options),
+    signal: options.signal,
+    body: JSON.stringify({
+      model: options.model,
+      messages,
+      temperature: options.temperature,
+      top_p: options.top_p,
+      max_tokens: options.max_tokens,
+    }),
+  });
+  if (!res.ok) throw new Error(`LLM request failed (${res.status}): ${await res.text()}`);
+  const data = await res.json();
+  const content = data?.choices?.[0]?.message?.content;
+  if (typeof content !== 'string') throw new Error('LLM response has no message content');
+  return content;
+}
+
+// -------- Prompt construction ---------
+
+// Responses may be plain strings or OpenAI-style message lists
+export function formatResponse(response: unknown): string {
+  if (response == null) return '';
+  if (typeof response === 'string') return response;
+  if (Array.isArray(response)) {
+    return response.map((m: unknown) => {
+      if (m && typeof m === 'object' && 'role' in m) {
+        const message = m as { role: unknown; content?: unknown };
+        const content = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+        return `${message.role}: ${content}`;
+      }
+      return typeof m === 'string' ? m : JSON.stringify(m);
+    }).join('\n\n');
+  }
+  return JSON.stringify(response, null, 2);
+}
+
+/** Render a data row into the user message for the extraction prompt. */
+export function formatConversation(row: Record<string, unknown>, method: ExtractionMethod): string {
+  const prompt = formatResponse(row.prompt);
+  if (method === 'side_by_side') {
+    return [
+      `# Prompt\n${prompt}`,
+      `# Model A (${row.model_a ?? 'model_a'}) response\n${formatResponse(row.model_a_response)}`,
+      `# Model B (${row.model_b ?? 'model_b'}) response\n${formatResponse(row.model_b_response)}`,
+    ].join('\n\n');
+  }
+  return `# Prompt\n${prompt}\n\n# Model response\n${formatResponse(row.model_response)}`;
+}
+
+/** The system prompt local extraction sends: the user's override, else the resolved prompt ('' when neither is available). */
+export function localSystemPrompt(override: string, resolvedPrompt: string): string {
+  return override.trim() || resolvedPrompt;
+}
+
+export function buildExtractionMessages(systemPrompt: string, row: Record<string, unknown>, method: ExtractionMethod): ChatMessage[] {
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: formatConversation(row, method) },
+  ];
+}
+
+// -------- Response parsing ---------
+
+// Pull the JSON payload out of a completion (reasoning blocks, code fences, surrounding prose)
+function extractJson(text: string): unknown {
+  const cleaned = text.replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
+  const fenced = cleaned.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidates = [fenced?.[1], cleaned];
+  for (const c of candidates) {
+    if (!c) continue;
+    try {
+      return JSON.parse(c.trim());
+    } catch {
+      // fall through to bracket search
+    }
+  }
+  const start = cleaned.search(/[[{]/);
+  const end = Math.max(cleaned.lastIndexOf(']'), cleaned.lastIndexOf('}'));
+  if (start >= 0 && end > start) {
+    return JSON.parse(cleaned.slice(start, end + 1));
+  }
+  throw new Error('No JSON found in model output');
+}
+
+function toBool(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const v = value.trim().toLowerCase();
+    if (v === 'true' || v === 'yes') return true;
+    if (v === 'false' || v === 'no') return false;
+  }
+  return undefined;
+}
+
+// Side-by-side outputs name the model as "Model A"/"A" or by its actual name
+function resolveModel(raw: unknown, row: Record<string, unknown>, method: ExtractionMethod, fallbackModel?: string): string {
+  if (method === 'single_model') return String(row.model ?? fallbackModel ?? '');
+  const value = String(raw ?? '').trim();
+  const key = value.toLowerCase().replace(/^model\s*/, '').replace(/[^a-z0-9]/g, '');
+  if (key === 'a') return String(row.model_a ?? value);
+  if (key === 'b') return String(row.model_b ?? value);
+  return value || String(row.model_a ?? '');
+}
+
+function isPropertyLike(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') return false;
+  const item = value as Record<string, unknown>;
+  return Boolean(item.property_description || item.description);
+}
+
+const optionalString = (value: unknown) => value != null ? String(value) : undefined;
+
+function toEvidence(value: unknown): string | string[] | undefined {
+  if (Array.isArray(value)) return value.map(String);
+  return optionalString(value);
+}
+
+/**
+ * Normalize the model's output into property objects for `row`.
+ * Accepts a JSON list, a single object, or an object wrapping the list (e.g. {"properties": [...]}).
+ * Throws when the output is not parseable.
+ */
+export function parsePropertiesFromText(text: string, row: Record<string, unknown>, method: ExtractionMethod): PropertyLike[] {
+  const parsed = extractJson(text);
+  let items: unknown[];
+  if (Array.isArray(parsed)) items = parsed;
+  else if (parsed && typeof parsed === 'object') {
+    // A single property has array fields of its own (evidence), so check for one first
+    const list = isPropertyLike(parsed) ? null : Object.values(parsed).find(v => Array.isArray(v));
+    items = Array.isArray(list) ? list : [parsed];
+  } else {
+    throw new Error('Model output is not a JSON object or list');
+  }
+
+  const questionId = String(row.question_id ?? row.__index ?? '');
+  return items
+    .filter(isPropertyLike)
+    .map(item => ({
+      ...item,
+      id: `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      question_id: questionId,
+      model: resolveModel(item.model, row, method),
+      property_description: String(item.property_description ?? item.description),
+      category: optionalString(item.category),
+      behavior_type: optionalString(item.behavior_type ?? item.type),
+      reason: optionalString(item.reason),
+      evidence: toEvidence(item.evidence),
+      contains_errors: toBool(item.contains_errors),
+      unexpected_behavior: toBool(item.unexpected_behavior),
+    }));
+}
+
+// -------- Extraction ---------
+
+/** Parse errors carry the model's output as `raw_response` so it can be inspected and fixed. */
+export async function extractSingleLocal(row: Record<string, unknown>, options: LocalLlmOptions): Promise<{ properties: PropertyLike[]; raw_response: string }> {
+  const raw = await chatCompletion(options, buildExtractionMessages(options.systemPrompt, row, options.method));
+  try {
+    return { properties: parsePropertiesFromText(raw, row, options.method), raw_response: raw };
+  } catch (e: unknown) {
+    throw Object.assign(new Error(e instanceof Error ? e.message : String(e)), { raw_response: raw });
+  }
+}
+
+/**
+ * Extract properties for many rows with at most `concurrency` requests in flight.
+ * Per-row failures (request or parse errors) are collected instead of aborting the run;
+ * aborting `options.signal` stops scheduling new rows and returns what finished.
+ */
+export async function extractBatchLocal(
+  rows: Record<string, unknown>[],
+  options: LocalLlmOptions,
+  concurrency: number,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ properties: PropertyLike[]; failures: LocalExtractionFailure[]; cancelled: boolean }> {
+  const properties: PropertyLike[] = [];
+  const failures: LocalExtractionFailure[] = [];
+  let next = 0;
+  let done = 0;
+
+  const runWorker = async () => {
+    while (next < rows.length && !options.signal?.aborted) {
+      const row = rows[next++];
+      let raw: string | undefined;
+      try {
+        raw = await chatCompletion(options, buildExtractionMessages(options.systemPrompt, row, options.method));
+        properties.push(...parsePropertiesFromText(raw, row, options.method));
+      } catch (e: unknown) {
+        if (!(e instanceof Error && e.name === 'AbortError')) {
+          failures.push({
+            question_id: String(row.question_id ?? row.__index ?? ''),
+            model: optionalString(row.model),
+            error: e instanceof Error ? e.message : String(e),
+            raw_response: raw,
+          });
+        }
+      }
+      done += 1;
+      onProgress?.(done, rows.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, rows.length)) }, runWorker));
+  return { properties, failures, cancelled: Boolean(options.signal?.aborted) };
+}
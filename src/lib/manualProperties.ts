@@ -0,0 +1,110 @@
+/**
+ * Human-authored properties, created from a text selection in the trace drawer.
+ *
+ * They use the same shape as extracted properties (`PropertyLike`) so they flow into
+ * the properties table, clustering and metrics recomputation unchanged; the
+ * `human_authored` flag tells them apart and makes them editable and deletable.
+ */
+
+import type { PropertyLike } from '../components/cards/PropertyCard';
+
+export const BEHAVIOR_TYPES = ['Positive', 'Negative (non-critical)', 'Negative (critical)', 'Style'];
+
+export interface ManualPropertyDraft {
+  property_description: string;
+  category: string;
+  behavior_type: string;
+  reason: string;
+  evidence: string[];
+  model: string;
+  contains_errors: boolean;
+  unexpected_behavior: boolean;
+}
+
+export type ManualProperty = PropertyLike & { human_authored: true; created_at: number; updated_at: number };
+
+// Category/behavior type of the last authored property, reused to pre-fill the next one
+const DEFAULTS_KEY = 'stringsight.manualPropertyDefaults';
+const MAX_DESCRIPTION_CHARS = 200;
+
+function loadDefaults(): { category: string; behavior_type: string } {
+  try {
+    const raw = localStorage.getItem(DEFAULTS_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return { category: String(parsed.category ?? ''), behavior_type: String(parsed.behavior_type ?? BEHAVIOR_TYPES[0]) };
+  } catch {
+    return { category: '', behavior_type: BEHAVIOR_TYPES[0] };
+  }
+}
+
+export function isHumanAuthored(property: { human_authored?: unknown } | null | undefined): boolean {
+  return Boolean(property?.human_authored);
+}
+
+/** Draft pre-filled from a selected span: the span becomes the evidence and a starting description. */
+export function draftFromSelection(text: string, model: string): ManualPropertyDraft {
+  const span = text.replace(/\s+/g, ' ').trim();
+  const { category, behavior_type } = loadDefaults();
+  return {
+    property_description: span.length > MAX_DESCRIPTION_CHARS ? `${span.slice(0, MAX_DESCRIPTION_CHARS)}…` : span,
+    category,
+    behavior_type,
+    reason: '',
+    evidence: span ? [text.trim()] : [],
+    model,
+    contains_errors: false,
+    unexpected_behavior: false,
+  };
+}
+
+export function draftFromProperty(property: PropertyLike): ManualPropertyDraft {
+  const evidence = Array.isArray(property.evidence) ? property.evidence : property.evidence ? [String(property.evidence)] : [];
+  return {
+    property_description: String(property.property_description ?? ''),
+    category: String(property.category ?? ''),
+    behavior_type: String(property.behavior_type ?? ''),
+    reason: String(property.reason ?? ''),
+    evidence,
+    model: String(property.model ?? ''),
+    contains_errors: Boolean(property.contains_errors),
+    unexpected_behavior: Boolean(property.unexpected_behavior),
+  };
+}
+
+function draftFields(draft: ManualPropertyDraft) {
+  return {
+    property_description: draft.property_description.trim(),
+    category: draft.category.trim() || undefined,
+    behavior_type: draft.behavior_type.trim() || undefined,
+    reason: draft.reason.trim() || undefined,
+    evidence: draft.evidence.map(e => e.trim()).filter(Boolean),
+    model: draft.model,
+    contains_errors: draft.contains_errors,
+    unexpected_behavior: draft.unexpected_behavior,
+  };
+}
+
+export function createManualProperty(row: Record<string, unknown>, draft: ManualPropertyDraft): ManualProperty {
+  localStorage.setItem(DEFAULTS_KEY, JSON.stringify({ category: draft.category, behavior_type: draft.behavior_type }));
+  const now = Date.now();
+  return {
+    id: `manual_${now}_${Math.random().toString(36).substr(2, 9)}`,
+    question_id: String(row.question_id ?? row.__index ?? ''),
+    ...draftFields(draft),
+    human_authored: true,
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+export function updateManualProperty<T extends object>(property: T, draft: ManualPropertyDraft): T {
+  return { ...property, ...draftFields(draft), updated_at: Date.now() };
+}
+
+/** Human-authored properties attached to a data row (either model for side-by-side rows). */
+export function manualPropertiesForRow<P extends PropertyLike>(properties: P[], row: Record<string, unknown> | null): P[] {
+  if (!row) return [];
+  const qid = String(row.question_id ?? row.__index ?? '');
+  const models = new Set([row.model, row.model_a, row.model_b].filter(m => m != null).map(String));
+  return properties.filter(p => isHumanAuthored(p) && String(p.question_id) === qid && models.has(String(p.model)));
+}
@@ -0,0 +1,201 @@
+/**
+ * Client-side `model_cluster_scores` with bootstrap confidence intervals, for when
+ * metrics are computed in the browser rather than loaded from the backend,
+ * side-by-side win rates / preference shifts per cluster, and the model-version
+ * regression report.
+ *
+ * Resampling runs in `src/workers/metrics.worker.ts`; see `bootstrapClusterMetrics`
+ * in `src/lib/clusterMetrics.ts`, `src/lib/pairwiseMetrics.ts` and
+ * `src/lib/modelRegression.ts` for the statistics.
+ */
+
+import { bootstrapClusterMetrics, computeClusterMetrics, toModelClusterScores, type BootstrapOptions, type ClusterMetricsIntervals, type ClusterRow, type PropertyRow } from './clusterMetrics';
+import { clusterLabel, clusterPropertyIds, type ClusterLike } from './clusterEdits';
+import { conversationsForMetrics } from './localClustering';
+import { battlesFromRows, computePairwiseClusterMetrics, type PairwiseClusterMetrics } from './pairwiseMetrics';
+import { computeRegressionReport, type RegressionOptions, type RegressionReport } from './modelRegression';
+import type { ModelClusterRow } from '../types/metrics';
+import type { PropertyLike } from '../components/cards/PropertyCard';
+
+export type MetricsBootstrapProgress = { done: number; total: number };
+
+// Messages exchanged with src/workers/metrics.worker.ts
+export type MetricsBootstrapWorkerRequest =
+  | {
+      kind: 'cluster_metrics';
+      conversations: Parameters<typeof bootstrapClusterMetrics>[0];
+      properties: Parameters<typeof bootstrapClusterMetrics>[1];
+      clusters: Parameters<typeof bootstrapClusterMetrics>[2];
+      options: BootstrapOptions;
+    }
+  | {
+      kind: 'pairwise';
+      battles: Parameters<typeof computePairwiseClusterMetrics>[0];
+      properties: Parameters<typeof computePairwiseClusterMetrics>[1];
+      clusters: Parameters<typeof computePairwiseClusterMetrics>[2];
+      options: BootstrapOptions;
+    }
+  | {
+      kind: 'regression';
+      rows: Parameters<typeof computeRegressionReport>[0];
+      properties: Parameters<typeof computeRegressionReport>[1];
+      clusters: Parameters<typeof computeRegressionReport>[2];
+      baseline: string;
+      candidate: string;
+      options: RegressionOptions;
+    };
+type MetricsBootstrapResults = {
+  cluster_metrics: ClusterMetricsIntervals[];
+  pairwise: PairwiseClusterMetrics[];
+  regression: RegressionReport;
+};
+export type MetricsBootstrapWorkerMessage =
+  | ({ type: 'progress' } & MetricsBootstrapProgress)
+  | { type: 'done'; result: MetricsBootstrapResults[keyof MetricsBootstrapResults] }
+  | { type: 'error'; error: string };
+
+// Same dispatch as the worker, for the main-thread fallback
+function runMetricsRequest(request: MetricsBootstrapWorkerRequest, onProgress?: (done: number, total: number) => void) {
+  switch (request.kind) {
+    case 'pairwise':
+      return computePairwiseClusterMetrics(request.battles, request.properties, request.clusters, request.options, onProgress);
+    case 'regression':
+      return computeRegressionReport(request.rows, request.properties, request.clusters, request.baseline, request.candidate, request.options, onProgress);
+    default:
+      return bootstrapClusterMetrics(request.conversations, request.properties, request.clusters, request.options, onProgress);
+  }
+}
+
+function runBootstrap<K extends MetricsBootstrapWorkerRequest['kind']>(
+  request: Extract<MetricsBootstrapWorkerRequest, { kind: K }>,
+  onProgress?: (progress: MetricsBootstrapProgress) => void,
+  signal?: AbortSignal,
+): Promise<MetricsBootstrapResults[K]> {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(runMetricsRequest(request, (done, total) => onProgress?.({ done, total })) as MetricsBootstrapResults[K]);
+  }
+
+  return new Promise<MetricsBootstrapResults[K]>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/metrics.worker.ts', import.meta.url), { type: 'module' });
+    const abort = () => {
+      worker.terminate();
+      reject(new DOMException('Bootstrap cancelled', 'AbortError'));
+    };
+    if (signal?.aborted) return abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    const finish = () => {
+      signal?.removeEventListener('abort', abort);
+      worker.terminate();
+    };
+    worker.onmessage = (event: MessageEvent<MetricsBootstrapWorkerMessage>) => {
+      const msg = event.data;
+      if (msg.type === 'progress') {
+        onProgress?.(msg);
+      } else if (msg.type === 'done') {
+        finish();
+        resolve(msg.result as MetricsBootstrapResults[K]);
+      } else if (msg.type === 'error') {
+        finish();
+        reject(new Error(msg.error));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Metrics worker failed'));
+    };
+    worker.postMessage(request);
+  });
+}
+
+function metricsPropertyRows(properties: PropertyLike[]): PropertyRow[] {
+  return properties
+    .filter(p => p?.id != null)
+    .map(p => ({ id: String(p.id), question_id: String(p.question_id), model: String(p.model) }));
+}
+
+function metricsClusterRows(clusters: ClusterLike[]): ClusterRow[] {
+  return clusters.map((c, i) => ({
+    id: String(c?.id ?? i),
+    label: clusterLabel(c),
+    property_ids: clusterPropertyIds(c),
+    question_ids: [],
+  }));
+}
+
+/**
+ * Compute `model_cluster_scores` rows for the current clusters, with proportion and
+ * quality CIs and significance flags. Aborting `signal` stops the worker and rejects.
+ */
+export async function computeModelClusterScores(
+  operationalRows: Record<string, unknown>[],
+  properties: PropertyLike[],
+  clusters: ClusterLike[],
+  options: BootstrapOptions,
+  onProgress?: (progress: MetricsBootstrapProgress) => void,
+  signal?: AbortSignal,
+): Promise<ModelClusterRow[]> {
+  const conversations = conversationsForMetrics(operationalRows);
+  const propertyRows = metricsPropertyRows(properties);
+  const clusterRows = metricsClusterRows(clusters);
+
+  const metrics = computeClusterMetrics(conversations, propertyRows, clusterRows);
+  const intervals = await runBootstrap({ kind: 'cluster_metrics', conversations, properties: propertyRows, clusters: clusterRows, options }, onProgress, signal);
+
+  const groups: Record<string, string> = {};
+  clusters.forEach((c, i) => {
+    if (c?.meta?.group != null) groups[clusterRows[i].id] = String(c.meta.group);
+  });
+  return toModelClusterScores(metrics, intervals, groups);
+}
+
+/**
+ * Win/tie/loss rates and preference shifts per cluster and model for side-by-side
+ * rows, keyed by cluster id (`id`, or index when missing). Rows without a winner are
+ * decided by `metric` (see `pairwiseDecidingMetric`). Empty when no row has a winner.
+ */
+export async function computePairwiseMetrics(
+  operationalRows: Record<string, unknown>[],
+  properties: PropertyLike[],
+  clusters: ClusterLike[],
+  metric: string | undefined,
+  options: BootstrapOptions,
+  onProgress?: (progress: MetricsBootstrapProgress) => void,
+  signal?: AbortSignal,
+): Promise<PairwiseClusterMetrics[]> {
+  const battles = battlesFromRows(operationalRows, metric);
+  if (battles.length === 0) return [];
+  return runBootstrap({ kind: 'pairwise', battles, properties: metricsPropertyRows(properties), clusters: metricsClusterRows(clusters), options }, onProgress, signal);
+}
+
+/**
+ * Model-version regression report (see `computeRegressionReport`), resampled in the
+ * worker. Rejects with the report's error (e.g. no shared questions) or on abort.
+ */
+export async function computeModelRegression(
+  operationalRows: Record<string, unknown>[],
+  properties: PropertyLike[],
+  clusters: ClusterLike[],
+  baseline: string,
+  candidate: string,
+  options: RegressionOptions,
+  onProgress?: (progress: MetricsBootstrapProgress) => void,
+  signal?: AbortSignal,
+): Promise<RegressionReport> {
+  // Only the fields the report reads, to keep the copy into the worker small
+  const rows = operationalRows.map(r => ({
+    question_id: r?.question_id, prompt: r?.prompt,
+    model: r?.model, model_response: r?.model_response, score: r?.score,
+    model_a: r?.model_a, model_b: r?.model_b, model_a_response: r?.model_a_response, model_b_response: r?.model_b_response,
+    score_a: r?.score_a, score_b: r?.score_b,
+  }));
+  const propertyRows = properties
+    .filter(p => p?.id != null)
+    .map(p => ({ id: String(p.id), question_id: String(p.question_id), model: String(p.model), behavior_type: p.behavior_type }));
+  const clusterRows = clusters.map((c, i) => ({
+    id: c?.id ?? i,
+    label: clusterLabel(c),
+    property_ids: clusterPropertyIds(c),
+    meta: { group: c?.meta?.group },
+  }));
+  return runBootstrap({ kind: 'regression', rows, properties: propertyRows, clusters: clusterRows, baseline, candidate, options }, onProgress, signal);
+}
@@ -0,0 +1,218 @@
+/**
+ * Model-version regression report: pair two models' answers to the same prompts
+ * (by `question_id`) and test, per cluster, whether the candidate shows the
+ * behavior more or less often than the baseline.
+ *
+ * The unit is a paired question: for each cluster, d = [candidate has a property in
+ * the cluster] − [baseline has one]. The proportion change is mean(d), with a paired
+ * bootstrap CI over questions at the same level as the significance test (1 − alpha).
+ * p-values come from an exact sign test on the questions that gained vs lost the
+ * behavior, Benjamini–Hochberg-corrected across clusters.
+ */
+
+import { clusterLabel, clusterPropertyIds, type ClusterLike } from './clusterEdits';
+import { seededRandom, drawResample, percentileInterval, benjaminiHochberg, pairedSignTest } from './stats';
+import type { PropertyLike } from '../components/cards/PropertyCard';
+
+interface PairedAnswer {
+  model: string;
+  response: unknown;
+  score?: unknown;
+}
+
+export interface PairedConversation {
+  question_id: string;
+  prompt: unknown;
+  baseline: PairedAnswer;
+  candidate: PairedAnswer;
+}
+
+// The property fields the report reads
+export type RegressionPropertyRow = Pick<PropertyLike, 'id' | 'question_id' | 'model' | 'behavior_type'>;
+
+export type BehaviorValence = 'negative' | 'positive' | 'neutral';
+export type RegressionKind = 'regression' | 'improvement' | 'shift';
+
+export interface RegressionEntry {
+  cluster_id: string;
+  label: string;
+  valence: BehaviorValence;
+  kind: RegressionKind;
+  baseline_proportion: number;
+  candidate_proportion: number;
+  change: number; // candidate − baseline
+  ci_lower: number;
+  ci_upper: number;
+  p_value: number;
+  q_value: number; // Benjamini–Hochberg adjusted
+  significant: boolean;
+  gained: string[]; // question ids where only the candidate shows the behavior
+  lost: string[]; // question ids where only the baseline shows it
+}
+
+export interface RegressionReport {
+  baseline: string;
+  candidate: string;
+  pairs: PairedConversation[];
+  entries: RegressionEntry[];
+  samples: number;
+  alpha: number;
+}
+
+export interface RegressionOptions {
+  samples: number;
+  alpha: number;
+  seed: number;
+}
+
+export const DEFAULT_REGRESSION: RegressionOptions = { samples: 1000, alpha: 0.05, seed: 0 };
+
+/** Models present in operational rows (single-model `model` or side-by-side `model_a`/`model_b`). */
+export function modelsInRows(rows: Record<string, unknown>[]): string[] {
+  const models = new Set<string>();
+  for (const r of rows) {
+    if (r?.model != null) models.add(String(r.model));
+    if (r?.model_a != null) models.add(String(r.model_a));
+    if (r?.model_b != null) models.add(String(r.model_b));
+  }
+  return Array.from(models).sort();
+}
+
+/** Questions answered by both models; the first answer per (question, model) wins. */
+export function pairModels(rows: Record<string, unknown>[], baseline: string, candidate: string): PairedConversation[] {
+  const byQuestion = new Map<string, { prompt: unknown; answers: Map<string, Omit<PairedAnswer, 'model'>> }>();
+  const add = (qid: string, prompt: unknown, model: string, response: unknown, score: unknown) => {
+    if (model !== baseline && model !== candidate) return;
+    if (!byQuestion.has(qid)) byQuestion.set(qid, { prompt, answers: new Map() });
+    const entry = byQuestion.get(qid)!;
+    if (!entry.answers.has(model)) entry.answers.set(model, { response, score });
+  };
+  for (const r of rows) {
+    const qid = String(r?.question_id ?? '');
+    if (r?.model_a != null && r?.model_b != null) {
+      add(qid, r.prompt, String(r.model_a), r.model_a_response, r.score_a);
+      add(qid, r.prompt, String(r.model_b), r.model_b_response, r.score_b);
+    } else if (r?.model != null) {
+      add(qid, r.prompt, String(r.model), r.model_response, r.score);
+    }
+  }
+
+  const pairs: PairedConversation[] = [];
+  byQuestion.forEach(({ prompt, answers }, qid) => {
+    const a = answers.get(baseline);
+    const b = answers.get(candidate);
+    if (a && b) {
+      pairs.push({
+        question_id: qid,
+        prompt,
+        baseline: { model: baseline, response: a.response, score: a.score },
+        candidate: { model: candidate, response: b.response, score: b.score },
+      });
+    }
+  });
+  return pairs;
+}
+
+/** Majority valence of a cluster's properties from `behavior_type` (or the cluster's group). */
+export function clusterValence(cluster: ClusterLike, propertiesById: Map<string, RegressionPropertyRow>): BehaviorValence {
+  let negative = 0, positive = 0;
+  const members = clusterPropertyIds(cluster).map(pid => propertiesById.get(pid)).filter((p): p is RegressionPropertyRow => Boolean(p));
+  const labels = members.length > 0 ? members.map(p => p.behavior_type) : [cluster?.meta?.group];
+  for (const raw of labels) {
+    const t = String(raw ?? '').toLowerCase();
+    if (t.includes('negative')) negative += 1;
+    else if (t.includes('positive')) positive += 1;
+  }
+  if (negative > positive) return 'negative';
+  if (positive > negative) return 'positive';
+  return 'neutral';
+}
+
+function kindOf(valence: BehaviorValence, change: number): RegressionKind {
+  if (valence === 'neutral' || change === 0) return 'shift';
+  const worse = valence === 'negative' ? change > 0 : change < 0;
+  return worse ? 'regression' : 'improvement';
+}
+
+export function computeRegressionReport(
+  rows: Record<string, unknown>[],
+  properties: RegressionPropertyRow[],
+  clusters: ClusterLike[],
+  baseline: string,
+  candidate: string,
+  options: RegressionOptions = DEFAULT_REGRESSION,
+  onProgress?: (done: number, total: number) => void,
+): RegressionReport {
+  if (baseline === candidate) throw new Error('Pick two different models');
+  const pairs = pairModels(rows, baseline, candidate);
+  if (pairs.length === 0) throw new Error(`No questions were answered by both ${baseline} and ${candidate}`);
+
+  const questionIndex = new Map(pairs.map((p, i) => [p.question_id, i]));
+  const propertiesById = new Map(properties.filter(p => p?.id != null).map(p => [String(p.id), p]));
+  const n = pairs.length;
+
+  const raw = clusters.map(cluster => {
+    const withBaseline = new Set<number>();
+    const withCandidate = new Set<number>();
+    for (const pid of clusterPropertyIds(cluster)) {
+      const p = propertiesById.get(pid);
+      const qi = p ? questionIndex.get(String(p.question_id)) : undefined;
+      if (!p || qi === undefined) continue;
+      if (String(p.model) === baseline) withBaseline.add(qi);
+      else if (String(p.model) === candidate) withCandidate.add(qi);
+    }
+    const diff = new Map<number, number>();
+    withCandidate.forEach(qi => { if (!withBaseline.has(qi)) diff.set(qi, 1); });
+    withBaseline.forEach(qi => { if (!withCandidate.has(qi)) diff.set(qi, -1); });
+    let total = 0;
+    diff.forEach(d => { total += d; });
+    const gained: string[] = [];
+    const lost: string[] = [];
+    diff.forEach((d, qi) => (d > 0 ? gained : lost).push(pairs[qi].question_id));
+    const pValue = pairedSignTest(gained.length, lost.length);
+    return { cluster, withBaseline, withCandidate, diff, estimate: total / n, pValue, gained, lost };
+  });
+
+  // Paired bootstrap over questions: one resample at a time, shared by every cluster
+  const S = options.samples;
+  const replicates = raw.map(() => new Float64Array(S));
+  const random = seededRandom(options.seed);
+  const counts = new Uint16Array(n);
+  for (let b = 0; b < S; b++) {
+    drawResample(random, n, counts);
+    raw.forEach((r, c) => {
+      let sum = 0;
+      r.diff.forEach((d, qi) => { sum += counts[qi] * d; });
+      replicates[c][b] = sum / n;
+    });
+    if (b % 25 === 0) onProgress?.(b, S);
+  }
+  onProgress?.(S, S);
+
+  const qValues = benjaminiHochberg(raw.map(r => r.pValue));
+  const entries: RegressionEntry[] = raw.map((r, i) => {
+    const valence = clusterValence(r.cluster, propertiesById);
+    const change = r.estimate;
+    const ci = percentileInterval(replicates[i], 1 - options.alpha);
+    return {
+      cluster_id: String(r.cluster?.id ?? i),
+      label: clusterLabel(r.cluster),
+      valence,
+      kind: kindOf(valence, change),
+      baseline_proportion: r.withBaseline.size / n,
+      candidate_proportion: r.withCandidate.size / n,
+      change,
+      ci_lower: ci.lower,
+      ci_upper: ci.upper,
+      p_value: r.pValue,
+      q_value: qValues[i],
+      significant: qValues[i] < options.alpha && change !== 0,
+      gained: r.gained,
+      lost: r.lost,
+    };
+  });
+
+  // Significant changes first, then by size of the change
+  entries.sort((a, b) => Number(b.significant) - Number(a.significant) || Math.abs(b.change) - Math.abs(a.change));
+  return { baseline, candidate, pairs, entries, samples: options.samples, alpha: options.alpha };
+}
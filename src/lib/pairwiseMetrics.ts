@@ -0,0 +1,281 @@
+/**
+ * Side-by-side ("battle") metrics per cluster: for each model, how often it wins,
+ * ties or loses the comparisons in which it shows the cluster's behavior, and how
+ * far that preference shifts from the model's overall preference.
+ *
+ * Preference is (wins + ½ ties) / battles. The shift for a cluster is its in-cluster
+ * preference minus the model's overall preference, with a bootstrap CI over battles
+ * (`src/lib/stats.ts`); it is significant when the interval excludes zero.
+ *
+ * A battle's winner comes from a `winner` column when the row has one, otherwise from
+ * the higher score on a chosen metric; every battle records which of the two decided it.
+ */
+
+import type { ModelClusterRow } from '../types/metrics';
+import type { BootstrapOptions, SignificanceInterval } from './clusterMetrics';
+import { seededRandom, drawResample, percentileInterval } from './stats';
+
+export type BattleOutcome = 'a' | 'b' | 'tie';
+
+export interface Battle {
+  question_id: string;
+  model_a: string;
+  model_b: string;
+  outcome: BattleOutcome;
+  decided_by: string; // WINNER_COLUMN, or the score metric compared
+}
+
+/** `decided_by` for battles whose outcome came from the row's winner field. */
+export const WINNER_COLUMN = 'winner';
+
+export interface PairwiseModelStats {
+  battles: number;
+  wins: number;
+  ties: number;
+  losses: number;
+  win_rate: number;
+  tie_rate: number;
+  loss_rate: number;
+  preference: number; // (wins + ½ ties) / battles, within the cluster
+  overall_preference: number; // same, over all of the model's battles
+  preference_delta: number;
+  preference_delta_ci?: SignificanceInterval;
+}
+
+export interface PairwiseClusterMetrics {
+  cluster_id: string;
+  cluster_label: string;
+  by_model: Record<string, PairwiseModelStats>;
+  decided_by: Record<string, number>; // battles in the cluster per winner source
+}
+
+interface PropertyRow {
+  id: string;
+  question_id: string;
+  model: string;
+}
+
+interface ClusterRow {
+  id: string;
+  label: string;
+  property_ids: string[];
+}
+
+function numericScores(score: unknown): Record<string, number> {
+  if (typeof score === 'number') return { score };
+  if (!score || typeof score !== 'object' || Array.isArray(score)) return {};
+  const out: Record<string, number> = {};
+  Object.entries(score).forEach(([k, v]) => { if (typeof v === 'number' && isFinite(v)) out[k] = v; });
+  return out;
+}
+
+// Explicit winner field: a model name, "model_a"/"model_b"/"a"/"b", or "tie"
+function explicitOutcome(winner: unknown, modelA: string, modelB: string): BattleOutcome | null {
+  if (winner == null) return null;
+  const w = String(winner).trim();
+  if (w === modelA || w === 'model_a' || w.toLowerCase() === 'a') return 'a';
+  if (w === modelB || w === 'model_b' || w.toLowerCase() === 'b') return 'b';
+  if (/^tie/i.test(w)) return 'tie';
+  return null;
+}
+
+/** Metrics both sides of side-by-side rows are scored on, usable to decide a winner. */
+export function pairwiseScoreMetrics(rows: Record<string, unknown>[]): string[] {
+  const metrics = new Set<string>();
+  for (const r of rows) {
+    if (r?.model_a == null || r?.model_b == null) continue;
+    const a = numericScores(r.score_a);
+    const b = numericScores(r.score_b);
+    Object.keys(a).forEach(k => { if (k in b) metrics.add(k); });
+  }
+  return Array.from(metrics).sort();
+}
+
+/**
+ * The score metric that decides battles without a winner: `preferred` when both sides
+ * are scored on it, else the first shared metric. Undefined when there is none.
+ */
+export function pairwiseDecidingMetric(rows: Record<string, unknown>[], preferred?: string): string | undefined {
+  const metrics = pairwiseScoreMetrics(rows);
+  return preferred && metrics.includes(preferred) ? preferred : metrics[0];
+}
+
+/** Human-readable summary of what decided a set of battles, e.g. "winner column (12), higher helpfulness score (30)". */
+export function describeDecidedBy(decidedBy: Record<string, number>): string {
+  const entries = Object.entries(decidedBy).filter(([, count]) => count > 0);
+  const label = (source: string) => source === WINNER_COLUMN ? 'winner column' : `higher ${source} score`;
+  if (entries.length === 1) return label(entries[0][0]);
+  return entries.map(([source, count]) => `${label(source)} (${count})`).join(', ');
+}
+
+/**
+ * Battles from side-by-side rows. The winner comes from a `winner` column (or
+ * `score.winner`) when present; otherwise the higher `score_a`/`score_b` value of
+ * `metric` wins (see `pairwiseDecidingMetric`).
+ */
+export function battlesFromRows(rows: Record<string, unknown>[], metric?: string): Battle[] {
+  const scoreMetric = pairwiseDecidingMetric(rows, metric);
+  const battles: Battle[] = [];
+  for (const r of rows) {
+    if (r?.model_a == null || r?.model_b == null) continue;
+    const modelA = String(r.model_a);
+    const modelB = String(r.model_b);
+    let outcome = explicitOutcome(r.winner ?? (r.score as { winner?: unknown } | null | undefined)?.winner, modelA, modelB);
+    let decidedBy = WINNER_COLUMN;
+    if (!outcome && scoreMetric) {
+      const a = numericScores(r.score_a)[scoreMetric];
+      const b = numericScores(r.score_b)[scoreMetric];
+      if (a !== undefined && b !== undefined) outcome = a > b ? 'a' : a < b ? 'b' : 'tie';
+      decidedBy = scoreMetric;
+    }
+    if (outcome) battles.push({ question_id: String(r.question_id ?? ''), model_a: modelA, model_b: modelB, outcome, decided_by: decidedBy });
+  }
+  return battles;
+}
+
+/**
+ * Per-cluster win/tie/loss rates and preference shifts for every model. A battle
+ * counts toward a cluster for a model when that model has a property in the
+ * cluster for the battle's question.
+ */
+export function computePairwiseClusterMetrics(
+  battles: Battle[],
+  properties: PropertyRow[],
+  clusters: ClusterRow[],
+  options: BootstrapOptions,
+  onProgress?: (done: number, total: number) => void
+): PairwiseClusterMetrics[] {
+  const n = battles.length;
+  // Each battle seen from both sides: (battle, model, points) with points 1 / ½ / 0
+  type Side = { battle: number; model: string; points: number };
+  const sidesByQuestionModel = new Map<string, Side[]>();
+  const sidesByModel = new Map<string, Side[]>();
+  battles.forEach((b, i) => {
+    const sides: Side[] = [
+      { battle: i, model: b.model_a, points: b.outcome === 'a' ? 1 : b.outcome === 'tie' ? 0.5 : 0 },
+      { battle: i, model: b.model_b, points: b.outcome === 'b' ? 1 : b.outcome === 'tie' ? 0.5 : 0 },
+    ];
+    sides.forEach(s => {
+      const key = `${b.question_id}|${s.model}`;
+      if (!sidesByQuestionModel.has(key)) sidesByQuestionModel.set(key, []);
+      sidesByQuestionModel.get(key)!.push(s);
+      if (!sidesByModel.has(s.model)) sidesByModel.set(s.model, []);
+      sidesByModel.get(s.model)!.push(s);
+    });
+  });
+
+  const propertyById = new Map(properties.map(p => [p.id, p]));
+  // Sides each cluster's behavior shows up in, grouped by model (each battle side once)
+  const clusterSides = clusters.map(cluster => {
+    const byModel = new Map<string, Side[]>();
+    const seen = new Set<string>();
+    cluster.property_ids.forEach(pid => {
+      const p = propertyById.get(pid);
+      if (!p) return;
+      const key = `${p.question_id}|${p.model}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      (sidesByQuestionModel.get(key) || []).forEach(s => {
+        if (!byModel.has(s.model)) byModel.set(s.model, []);
+        byModel.get(s.model)!.push(s);
+      });
+    });
+    return byModel;
+  });
+
+  const preferenceOf = (sides: Side[], weights?: Uint16Array) => {
+    let points = 0, count = 0;
+    sides.forEach(s => {
+      const w = weights ? weights[s.battle] : 1;
+      points += w * s.points;
+      count += w;
+    });
+    return count > 0 ? points / count : NaN;
+  };
+
+  // Bootstrap over battles; replicates[c] maps model -> preference-delta replicates
+  const S = n > 0 ? options.samples : 0;
+  const replicates = clusterSides.map(byModel => new Map(Array.from(byModel.keys()).map(m => [m, new Float64Array(S)])));
+  const weights = new Uint16Array(n);
+  const random = seededRandom(options.seed);
+  for (let b = 0; b < S; b++) {
+    drawResample(random, n, weights);
+    const overall = new Map<string, number>();
+    sidesByModel.forEach((sides, model) => overall.set(model, preferenceOf(sides, weights)));
+    clusterSides.forEach((byModel, c) => {
+      byModel.forEach((sides, model) => {
+        replicates[c].get(model)![b] = preferenceOf(sides, weights) - overall.get(model)!;
+      });
+    });
+    if (b % 25 === 0) onProgress?.(b, S);
+  }
+  onProgress?.(S, S);
+
+  const overallPreference = new Map<string, number>();
+  sidesByModel.forEach((sides, model) => overallPreference.set(model, preferenceOf(sides)));
+
+  return clusters.map((cluster, c) => {
+    const byModel: Record<string, PairwiseModelStats> = {};
+    const decidedBy: Record<string, number> = {};
+    new Set(Array.from(clusterSides[c].values()).flat().map(s => s.battle)).forEach(i => {
+      decidedBy[battles[i].decided_by] = (decidedBy[battles[i].decided_by] || 0) + 1;
+    });
+    clusterSides[c].forEach((sides, model) => {
+      const wins = sides.filter(s => s.points === 1).length;
+      const ties = sides.filter(s => s.points === 0.5).length;
+      const losses = sides.length - wins - ties;
+      const preference = preferenceOf(sides);
+      const overall = overallPreference.get(model) ?? NaN;
+      const stats: PairwiseModelStats = {
+        battles: sides.length,
+        wins,
+        ties,
+        losses,
+        win_rate: wins / sides.length,
+        tie_rate: ties / sides.length,
+        loss_rate: losses / sides.length,
+        preference,
+        overall_preference: overall,
+        preference_delta: preference - overall,
+      };
+      if (S > 0) {
+        const interval = percentileInterval(replicates[c].get(model)!, options.confidence);
+        stats.preference_delta_ci = { ...interval, significant: interval.lower > 0 || interval.upper < 0 };
+      }
+      byModel[model] = stats;
+    });
+    return { cluster_id: cluster.id, cluster_label: cluster.label, by_model: byModel, decided_by: decidedBy };
+  });
+}
+
+/**
+ * Add win/tie/loss and preference-shift columns to `model_cluster_scores` rows, matched
+ * on cluster id and model. Rows without a `cluster_id` (loaded score files) fall back to
+ * the cluster label, but only when no two clusters share it.
+ */
+export function withPairwiseScores(rows: ModelClusterRow[], pairwise: PairwiseClusterMetrics[]): ModelClusterRow[] {
+  const byId = new Map(pairwise.map(p => [String(p.cluster_id), p]));
+  const labelCounts = new Map<string, number>();
+  pairwise.forEach(p => labelCounts.set(p.cluster_label, (labelCounts.get(p.cluster_label) || 0) + 1));
+  const byLabel = new Map(pairwise.filter(p => labelCounts.get(p.cluster_label) === 1).map(p => [p.cluster_label, p]));
+  return rows.map(row => {
+    const cluster = row.cluster_id != null ? byId.get(String(row.cluster_id)) : byLabel.get(row.cluster);
+    const stats = cluster?.by_model[row.model];
+    if (!cluster || !stats) return row;
+    return {
+      ...row,
+      battles_decided_by: describeDecidedBy(cluster.decided_by),
+      battles: stats.battles,
+      win_rate: stats.win_rate,
+      tie_rate: stats.tie_rate,
+      loss_rate: stats.loss_rate,
+      preference: stats.preference,
+      preference_delta: stats.preference_delta,
+      ...(stats.preference_delta_ci ? {
+        preference_delta_ci_lower: stats.preference_delta_ci.lower,
+        preference_delta_ci_upper: stats.preference_delta_ci.upper,
+        preference_delta_significant: stats.preference_delta_ci.significant,
+      } : {}),
+    };
+  });
+}
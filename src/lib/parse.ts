@@ -1,29 +1,95 @@
 import Papa from "papaparse";
+import { isParquetFile, isArrowFile, readParquetFile, readArrowFile } from "./columnar";
 
 export type ParsedData = { rows: Record<string, any>[]; columns: string[] };
 
-export async function parseFile(file: File): Promise<ParsedData> {
+// A line that could not be parsed; `line` is 1-based
+export type MalformedLine = { line: number; error: string; preview?: string };
+
+export type ParseProgress = { rowsParsed: number; bytesRead: number; totalBytes: number; malformedCount: number };
+
+export type ParseResult = ParsedData & { malformedLines: MalformedLine[]; malformedCount: number };
+
+// Messages exchanged with src/workers/parse.worker.ts
+export type ParseWorkerRequest = { file: File };
+export type ParseWorkerMessage =
+  | ({ type: 'progress' } & ParseProgress)
+  | { type: 'rows'; rows: Record<string, any>[] }
+  | { type: 'done'; rowsParsed: number; malformedLines: MalformedLine[]; malformedCount: number }
+  | { type: 'error'; error: string };
+
+/**
+ * Parse an uploaded JSONL/JSON/CSV/Parquet/Arrow file in a Web Worker, streaming progress via `onProgress`.
+ * Malformed lines are skipped and returned in `malformedLines` rather than failing the load.
+ * Falls back to parsing on the main thread where Workers are unavailable.
+ */
+export async function parseFile(file: File, onProgress?: (progress: ParseProgress) => void): Promise<ParseResult> {
+  if (typeof Worker === "undefined") return parseFileSync(file);
+
+  return new Promise<ParseResult>((resolve, reject) => {
+    const worker = new Worker(new URL("../workers/parse.worker.ts", import.meta.url), { type: "module" });
+    const rows: Record<string, any>[] = [];
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerMessage>) => {
+      const msg = event.data;
+      if (msg.type === "rows") {
+        for (const row of msg.rows) rows.push(row);
+      } else if (msg.type === "progress") {
+        onProgress?.(msg);
+      } else if (msg.type === "done") {
+        worker.terminate();
+        resolve({ rows, columns: inferColumns(rows), malformedLines: msg.malformedLines, malformedCount: msg.malformedCount });
+      } else if (msg.type === "error") {
+        worker.terminate();
+        reject(new Error(msg.error));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "File parsing worker failed"));
+    };
+    worker.postMessage({ file } satisfies ParseWorkerRequest);
+  });
+}
+
+// Main-thread parser (used when Web Workers are unavailable)
+export async function parseFileSync(file: File): Promise<ParseResult> {
   const name = file.name.toLowerCase();
+  if (isParquetFile(name) || isArrowFile(name)) {
+    const rows: Record<string, any>[] = [];
+    const read = isParquetFile(name) ? readParquetFile : readArrowFile;
+    await read(file, (batch) => { for (const row of batch) rows.push(row); });
+    return { rows, columns: inferColumns(rows), malformedLines: [], malformedCount: 0 };
+  }
   const text = await file.text();
   if (name.endsWith(".jsonl")) {
-    const rows = text
-      .split(/\r?\n/)
-      .map((l) => l.trim())
-      .filter(Boolean)
-      .map((l) => JSON.parse(l));
-    return { rows, columns: inferColumns(rows) };
+    const rows: Record<string, any>[] = [];
+    const malformedLines: MalformedLine[] = [];
+    text.split(/\r?\n/).forEach((raw, idx) => {
+      const l = raw.trim();
+      if (!l) return;
+      try {
+        rows.push(JSON.parse(l));
+      } catch (e: any) {
+        malformedLines.push({ line: idx + 1, error: String(e?.message || e), preview: l.slice(0, 200) });
+      }
+    });
+    return { rows, columns: inferColumns(rows), malformedLines, malformedCount: malformedLines.length };
   }
   if (name.endsWith(".json")) {
     const data = JSON.parse(text);
     const rows = Array.isArray(data) ? data : [data];
-    return { rows, columns: inferColumns(rows) };
+    return { rows, columns: inferColumns(rows), malformedLines: [], malformedCount: 0 };
   }
   if (name.endsWith(".csv")) {
     const res = Papa.parse<Record<string, any>>(text, { header: true, skipEmptyLines: true });
     const rows = res.data as Record<string, any>[];
-    return { rows, columns: inferColumns(rows) };
+    const malformedLines = res.errors
+      .filter((err) => typeof err.row === "number")
+      .map((err) => ({ line: err.row + 2, error: err.message }));
+    return { rows, columns: inferColumns(rows), malformedLines, malformedCount: malformedLines.length };
   }
-  throw new Error("Unsupported file type. Use JSONL, JSON, or CSV.");
+  throw new Error("Unsupported file type. Use JSONL, JSON, CSV, Parquet, or Arrow.");
 }
 
 export function inferColumns(rows: Record<string, any>[]): string[] {
@@ -33,5 +99,3 @@ export function inferColumns(rows: Record<string, any>[]): string[] {
   }
   return Array.from(cols);
 }
-
-
@@ -0,0 +1,220 @@
+/**
+ * User-defined extraction prompts with version history, persisted in localStorage.
+ *
+ * Every save appends a version; versions are never edited in place, so any of
+ * them can be selected for extraction or compared with `diffLines`. A library
+ * (or part of it) round-trips through JSON for sharing between team members.
+ */
+
+const STORAGE_KEY = 'stringsight.promptLibrary';
+const EXPORT_FORMAT = 'stringsight-prompts';
+
+// Selection keys used in the prompt picker: `custom:<id>` (built-in prompts use their plain name)
+export const CUSTOM_PROMPT_PREFIX = 'custom:';
+
+export interface PromptVersion {
+  version: number;
+  text: string;
+  note?: string;
+  createdAt: number;
+}
+
+export interface LibraryPrompt {
+  id: string;
+  name: string;
+  // Where the first version came from: a built-in prompt name or `custom:<id>@<version>`
+  forkedFrom?: string;
+  versions: PromptVersion[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export function loadPromptLibrary(): LibraryPrompt[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePromptLibrary(prompts: LibraryPrompt[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(prompts));
+}
+
+function newPromptId(): string {
+  return `prompt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function latestVersion(prompt: LibraryPrompt): PromptVersion {
+  return prompt.versions[prompt.versions.length - 1];
+}
+
+export function getPromptVersion(prompt: LibraryPrompt, version?: number | null): PromptVersion {
+  return prompt.versions.find(v => v.version === version) || latestVersion(prompt);
+}
+
+export function createPrompt(prompts: LibraryPrompt[], name: string, text: string, forkedFrom?: string): { prompts: LibraryPrompt[]; prompt: LibraryPrompt } {
+  const now = Date.now();
+  const prompt: LibraryPrompt = {
+    id: newPromptId(),
+    name: name.trim() || 'Untitled prompt',
+    forkedFrom,
+    versions: [{ version: 1, text, note: forkedFrom ? `Forked from ${forkedFrom}` : undefined, createdAt: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+  return { prompts: [...prompts, prompt], prompt };
+}
+
+/** Append a version unless the text is unchanged from the latest one. */
+export function addPromptVersion(prompts: LibraryPrompt[], id: string, text: string, note?: string): LibraryPrompt[] {
+  return prompts.map(p => {
+    if (p.id !== id || latestVersion(p).text === text) return p;
+    const now = Date.now();
+    return {
+      ...p,
+      versions: [...p.versions, { version: latestVersion(p).version + 1, text, note: note?.trim() || undefined, createdAt: now }],
+      updatedAt: now,
+    };
+  });
+}
+
+export function renamePrompt(prompts: LibraryPrompt[], id: string, name: string): LibraryPrompt[] {
+  return prompts.map(p => p.id === id ? { ...p, name: name.trim() || p.name, updatedAt: Date.now() } : p);
+}
+
+export function deletePrompt(prompts: LibraryPrompt[], id: string): LibraryPrompt[] {
+  return prompts.filter(p => p.id !== id);
+}
+
+// -------- Import / export ---------
+
+export function exportPromptLibrary(prompts: LibraryPrompt[]): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: 1, prompts }, null, 2);
+}
+
+// Prompts and versions as read from an export file, before validation
+type ImportedVersion = { version?: unknown; text?: unknown; note?: unknown; createdAt?: unknown };
+type ImportedPrompt = { id?: unknown; name?: unknown; forkedFrom?: unknown; versions?: unknown; createdAt?: unknown };
+
+/**
+ * Merge prompts from an exported JSON file. Prompts with a known id gain any versions
+ * whose text they don't already have; unknown prompts are added as-is.
+ * Throws with a user-facing message when the file isn't a prompt export.
+ */
+export function importPromptLibrary(json: string, existing: LibraryPrompt[]): { prompts: LibraryPrompt[]; added: number; updated: number } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  const file = parsed as { format?: unknown; prompts?: unknown } | null;
+  const incoming: unknown = Array.isArray(parsed) ? parsed : file?.prompts;
+  if (!Array.isArray(incoming) || (file?.format && file.format !== EXPORT_FORMAT)) {
+    throw new Error('File is not a StringSight prompt export');
+  }
+
+  let added = 0;
+  let updated = 0;
+  const result = [...existing];
+  for (const raw of incoming as (ImportedPrompt | null)[]) {
+    if (!raw || typeof raw.name !== 'string' || !Array.isArray(raw.versions) || raw.versions.length === 0) continue;
+    const versions: PromptVersion[] = (raw.versions as (ImportedVersion | null)[])
+      .filter((v): v is ImportedVersion & { text: string } => !!v && typeof v.text === 'string')
+      .map((v, i) => ({
+        version: Number(v.version) || i + 1,
+        text: v.text,
+        note: typeof v.note === 'string' ? v.note : undefined,
+        createdAt: Number(v.createdAt) || Date.now(),
+      }));
+    if (versions.length === 0) continue;
+
+    const at = result.findIndex(p => p.id === raw.id);
+    if (at === -1) {
+      result.push({
+        id: typeof raw.id === 'string' ? raw.id : newPromptId(),
+        name: raw.name,
+        forkedFrom: typeof raw.forkedFrom === 'string' ? raw.forkedFrom : undefined,
+        versions,
+        createdAt: Number(raw.createdAt) || Date.now(),
+        updatedAt: Date.now(),
+      });
+      added += 1;
+      continue;
+    }
+    const current = result[at];
+    const known = new Set(current.versions.map(v => v.text));
+    const fresh = versions.filter(v => !known.has(v.text));
+    if (fresh.length === 0) continue;
+    let next = latestVersion(current).version;
+    result[at] = {
+      ...current,
+      versions: [...current.versions, ...fresh.map(v => ({ ...v, version: ++next, note: v.note || 'Imported' }))],
+      updatedAt: Date.now(),
+    };
+    updated += 1;
+  }
+  return { prompts: result, added, updated };
+}
+
+// -------- Diff ---------
+
+export type DiffLine = { type: 'same' | 'add' | 'del'; text: string };
+
+/** Line diff (longest common subsequence) from `before` to `after`. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const n = a.length;
+  const m = b.length;
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      out.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ type: 'del', text: a[i++] });
+    } else {
+      out.push({ type: 'add', text: b[j++] });
+    }
+  }
+  while (i < n) out.push({ type: 'del', text: a[i++] });
+  while (j < m) out.push({ type: 'add', text: b[j++] });
+  return out;
+}
+
+/** Pair diff lines into left/right rows for a side-by-side view (deletions next to additions). */
+export function sideBySideRows(diff: DiffLine[]): { left: DiffLine | null; right: DiffLine | null }[] {
+  const rows: { left: DiffLine | null; right: DiffLine | null }[] = [];
+  let k = 0;
+  while (k < diff.length) {
+    if (diff[k].type === 'same') {
+      rows.push({ left: diff[k], right: diff[k] });
+      k++;
+      continue;
+    }
+    const dels: DiffLine[] = [];
+    const adds: DiffLine[] = [];
+    while (k < diff.length && diff[k].type !== 'same') {
+      (diff[k].type === 'del' ? dels : adds).push(diff[k]);
+      k++;
+    }
+    for (let r = 0; r < Math.max(dels.length, adds.length); r++) {
+      rows.push({ left: dels[r] || null, right: adds[r] || null });
+    }
+  }
+  return rows;
+}
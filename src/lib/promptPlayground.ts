@@ -0,0 +1,129 @@
+/**
+ * Prompt A/B playground: run the same rows through two extraction variants
+ * (prompt and/or model) with `extractSingle` and compare what comes back.
+ */
+
+import { extractSingle } from './api';
+import { formatResponse, type ExtractionMethod } from './localLlm';
+import type { PropertyLike } from '../components/cards/PropertyCard';
+
+export interface PlaygroundVariant {
+  system_prompt: string; // built-in prompt name or full prompt text
+  task_description?: string;
+  model_name: string;
+}
+
+export interface PlaygroundRowResult {
+  properties: PropertyLike[];
+  error?: string;
+  debug?: unknown; // `return_debug` payload (raw model output, parse failures)
+}
+
+export interface PlaygroundStats {
+  rows: number;
+  failedRows: number;
+  propertyCount: number;
+  propertiesPerRow: number;
+  categories: Record<string, number>;
+  evidenceItems: number;
+  evidenceMatched: number;
+  evidenceMatchRate: number | null; // null when no evidence was quoted
+}
+
+/** Evidence may be a list or a single string of quoted snippets. */
+export function normalizeEvidence(raw: unknown): string[] {
+  if (Array.isArray(raw)) return raw.map((s: unknown) => String(s || '').trim()).filter(Boolean);
+  if (typeof raw === 'string') {
+    return raw.trim()
+      .split(/"\s*,\s*"|\n|,\s(?=[\w\d])/g)
+      .map(s => s.replace(/^"|"$/g, '').trim())
+      .filter(Boolean);
+  }
+  return [];
+}
+
+const squash = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Text the property's evidence should quote: the response of the model it describes
+function responseTextFor(row: Record<string, unknown>, property: PropertyLike, method: ExtractionMethod): string {
+  if (method === 'side_by_side') {
+    if (property?.model === row.model_b) return formatResponse(row.model_b_response);
+    if (property?.model === row.model_a) return formatResponse(row.model_a_response);
+    return `${formatResponse(row.model_a_response)}\n${formatResponse(row.model_b_response)}`;
+  }
+  return formatResponse(row.model_response);
+}
+
+export async function runPlaygroundRow(
+  row: Record<string, unknown>,
+  method: ExtractionMethod,
+  variant: PlaygroundVariant,
+  settings: { temperature: number; top_p: number; max_tokens: number }
+): Promise<PlaygroundRowResult> {
+  try {
+    const res = await extractSingle({
+      row,
+      method,
+      system_prompt: variant.system_prompt,
+      task_description: variant.task_description,
+      model_name: variant.model_name,
+      ...settings,
+      return_debug: true,
+    });
+    const failures = res.failures || [];
+    return {
+      properties: res.properties || [],
+      error: failures.length > 0 ? `${failures.length} parse failure${failures.length === 1 ? '' : 's'}` : undefined,
+      debug: res.debug ?? (failures.length > 0 ? failures : undefined),
+    };
+  } catch (e: unknown) {
+    return { properties: [], error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+export function computePlaygroundStats(
+  rows: Record<string, unknown>[],
+  results: (PlaygroundRowResult | undefined)[],
+  method: ExtractionMethod
+): PlaygroundStats {
+  const categories: Record<string, number> = {};
+  let propertyCount = 0;
+  let failedRows = 0;
+  let finished = 0;
+  let evidenceItems = 0;
+  let evidenceMatched = 0;
+
+  results.forEach((result, i) => {
+    if (!result) return;
+    finished += 1;
+    if (result.error && result.properties.length === 0) failedRows += 1;
+    for (const p of result.properties) {
+      propertyCount += 1;
+      const category = p?.category ? String(p.category) : 'uncategorized';
+      categories[category] = (categories[category] || 0) + 1;
+      const text = squash(responseTextFor(rows[i], p, method));
+      for (const e of normalizeEvidence(p?.evidence)) {
+        evidenceItems += 1;
+        if (text.includes(squash(e))) evidenceMatched += 1;
+      }
+    }
+  });
+
+  return {
+    rows: finished,
+    failedRows,
+    propertyCount,
+    propertiesPerRow: finished > 0 ? propertyCount / finished : 0,
+    categories,
+    evidenceItems,
+    evidenceMatched,
+    evidenceMatchRate: evidenceItems > 0 ? evidenceMatched / evidenceItems : null,
+  };
+}
+
+/** Evenly spaced sample of `n` rows (deterministic, so A and B always see the same rows). */
+export function sampleRows<T>(rows: T[], n: number, offset: number = 0): T[] {
+  if (n >= rows.length) return rows.slice();
+  const step = rows.length / n;
+  return Array.from({ length: n }, (_, i) => rows[(Math.floor(i * step) + offset) % rows.length]);
+}
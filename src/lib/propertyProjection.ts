@@ -0,0 +1,107 @@
+/**
+ * 2D "behavior map" of properties: vectors (property embeddings when present,
+ * otherwise TF-IDF over `property_description`) projected with t-SNE in
+ * `src/workers/projection.worker.ts`.
+ */
+
+import { DEFAULT_TSNE, type TsneOptions } from './tsne';
+import { seededRandom } from './stats';
+import { projectVectors } from './vectorProjection';
+import type { PropertyLike } from '../components/cards/PropertyCard';
+
+export type ProjectionSource = 'tfidf' | 'embedding';
+
+// Properties may carry an embedding vector from the backend
+export type ProjectableProperty = PropertyLike & { embedding?: unknown };
+
+export interface ProjectionPoint {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export type ProjectionProgress = { done: number; total: number };
+
+// Messages exchanged with src/workers/projection.worker.ts
+export type ProjectionWorkerRequest = {
+  ids: string[];
+  texts?: string[];
+  embeddings?: number[][];
+  options: TsneOptions;
+};
+export type ProjectionWorkerMessage =
+  | ({ type: 'progress' } & ProjectionProgress)
+  | { type: 'done'; points: ProjectionPoint[] }
+  | { type: 'error'; error: string };
+
+// Exact t-SNE is O(n²); larger property sets are sampled down to this many points
+export const MAX_PROJECTION_POINTS = 2000;
+
+function embeddingOf(property: ProjectableProperty): unknown[] | null {
+  return Array.isArray(property.embedding) && property.embedding.length > 0 ? property.embedding : null;
+}
+
+export function hasEmbeddings(properties: ProjectableProperty[]): boolean {
+  return properties.some(p => embeddingOf(p) !== null);
+}
+
+// Main-thread fallback where Web Workers are unavailable
+function projectInline(request: ProjectionWorkerRequest, onProgress?: (progress: ProjectionProgress) => void): ProjectionPoint[] {
+  const coords = projectVectors(request, request.options, (done, total) => onProgress?.({ done, total }));
+  return request.ids.map((id, i) => ({ id, x: coords[i * 2], y: coords[i * 2 + 1] }));
+}
+
+/**
+ * Project properties to 2D. Returns one point per projected property; when there are more than
+ * `MAX_PROJECTION_POINTS` properties a seeded random sample is projected instead.
+ */
+export async function projectProperties(
+  properties: ProjectableProperty[],
+  source: ProjectionSource,
+  onProgress?: (progress: ProjectionProgress) => void,
+  options: TsneOptions = DEFAULT_TSNE,
+): Promise<ProjectionPoint[]> {
+  let usable = properties.filter(p => p?.id != null && (source === 'embedding'
+    ? embeddingOf(p) !== null
+    : typeof p.property_description === 'string' && p.property_description.trim()));
+  if (usable.length === 0) throw new Error(source === 'embedding' ? 'No properties have embeddings' : 'No property descriptions to project');
+  if (usable.length > MAX_PROJECTION_POINTS) {
+    const random = seededRandom(options.seed);
+    usable = usable
+      .map(p => ({ p, r: random() }))
+      .sort((a, b) => a.r - b.r)
+      .slice(0, MAX_PROJECTION_POINTS)
+      .map(({ p }) => p);
+  }
+
+  const request: ProjectionWorkerRequest = {
+    ids: usable.map(p => String(p.id)),
+    ...(source === 'embedding'
+      ? { embeddings: usable.map(p => (embeddingOf(p) || []).map(Number)) }
+      : { texts: usable.map(p => String(p.property_description)) }),
+    options,
+  };
+
+  if (typeof Worker === 'undefined') return projectInline(request, onProgress);
+
+  return new Promise<ProjectionPoint[]>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/projection.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ProjectionWorkerMessage>) => {
+      const msg = event.data;
+      if (msg.type === 'progress') {
+        onProgress?.(msg);
+      } else if (msg.type === 'done') {
+        worker.terminate();
+        resolve(msg.points);
+      } else if (msg.type === 'error') {
+        worker.terminate();
+        reject(new Error(msg.error));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Projection worker failed'));
+    };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * Property review: accept / reject / needs-edit verdicts stored on the property
+ * itself (`review_verdict`, `review_note`, `reviewed_at`), plus rejection rates
+ * per category and per cluster.
+ */
+
+import type { PropertyLike } from '../components/cards/PropertyCard';
+
+export type ReviewVerdict = 'accepted' | 'rejected' | 'needs_edit';
+
+// Clusters as loaded with the results; only their label and members are read
+export interface ReviewedCluster {
+  id?: unknown;
+  label?: string;
+  cluster_label?: string;
+  property_ids?: unknown;
+}
+
+export const REVIEW_VERDICTS: { value: ReviewVerdict; label: string; shortcut: string; color: 'success' | 'error' | 'warning' }[] = [
+  { value: 'accepted', label: 'Accept', shortcut: 'a', color: 'success' },
+  { value: 'rejected', label: 'Reject', shortcut: 'r', color: 'error' },
+  { value: 'needs_edit', label: 'Needs edit', shortcut: 'e', color: 'warning' },
+];
+
+export interface RejectionRate {
+  key: string;
+  total: number;
+  reviewed: number;
+  rejected: number;
+  rate: number | null; // rejected / reviewed; null until something is reviewed
+}
+
+export interface ReviewStats {
+  total: number;
+  reviewed: number;
+  counts: Record<ReviewVerdict, number>;
+  byCategory: RejectionRate[];
+  byCluster: RejectionRate[];
+}
+
+/** Set (or clear, with `verdict = null`) the verdict and note of one property. */
+export function applyVerdict<T extends object>(property: T, verdict: ReviewVerdict | null, note?: string): T {
+  if (!verdict) {
+    const next = { ...property } as Record<string, unknown>;
+    delete next.review_verdict;
+    delete next.review_note;
+    delete next.reviewed_at;
+    return next as T;
+  }
+  return {
+    ...property,
+    review_verdict: verdict,
+    review_note: note?.trim() ? note.trim() : undefined,
+    reviewed_at: Date.now(),
+  };
+}
+
+export function acceptedPropertyIds(properties: PropertyLike[]): string[] {
+  return properties.filter(p => p?.review_verdict === 'accepted' && p?.id != null).map(p => String(p.id));
+}
+
+function rates(groups: Map<string, PropertyLike[]>): RejectionRate[] {
+  return Array.from(groups.entries())
+    .map(([key, items]) => {
+      const reviewed = items.filter(p => p?.review_verdict).length;
+      const rejected = items.filter(p => p?.review_verdict === 'rejected').length;
+      return { key, total: items.length, reviewed, rejected, rate: reviewed > 0 ? rejected / reviewed : null };
+    })
+    .sort((a, b) => (b.rate ?? -1) - (a.rate ?? -1) || b.total - a.total);
+}
+
+export function computeReviewStats(properties: PropertyLike[], clusters: ReviewedCluster[] = []): ReviewStats {
+  const counts: Record<ReviewVerdict, number> = { accepted: 0, rejected: 0, needs_edit: 0 };
+  const byCategory = new Map<string, PropertyLike[]>();
+  for (const p of properties) {
+    const verdict = p?.review_verdict;
+    if (verdict && verdict in counts) counts[verdict] += 1;
+    const category = p?.category ? String(p.category) : 'uncategorized';
+    if (!byCategory.has(category)) byCategory.set(category, []);
+    byCategory.get(category)!.push(p);
+  }
+
+  const propertiesById = new Map(properties.filter(p => p?.id != null).map(p => [String(p.id), p]));
+  const byCluster = new Map<string, PropertyLike[]>();
+  for (const c of clusters) {
+    const ids: unknown[] = Array.isArray(c?.property_ids) ? c.property_ids : [];
+    const members = ids.map(id => propertiesById.get(String(id))).filter((p): p is PropertyLike => p !== undefined);
+    if (members.length > 0) byCluster.set(String(c.label || c.cluster_label || c.id), members);
+  }
+
+  return {
+    total: properties.length,
+    reviewed: counts.accepted + counts.rejected + counts.needs_edit,
+    counts,
+    byCategory: rates(byCategory),
+    byCluster: rates(byCluster),
+  };
+}
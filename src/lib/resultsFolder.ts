@@ -0,0 +1,142 @@
+/**
+ * Read a pipeline results folder picked in the browser (conversation.jsonl,
+ * properties.jsonl, clusters.jsonl, *_scores_df.jsonl, or a legacy full_dataset.json).
+ */
+
+import type { ClusterLike } from './clusterEdits';
+
+export interface ResultsFolderMetrics {
+  model_cluster_scores?: Record<string, unknown>[];
+  cluster_scores?: Record<string, unknown>[];
+  model_scores?: Record<string, unknown>[];
+}
+
+export interface ResultsFolderData {
+  conversations: Record<string, unknown>[];
+  properties: Record<string, unknown>[];
+  clusters: ClusterLike[];
+  metrics: ResultsFolderMetrics | null;
+}
+
+export async function readResultsFolder(files: FileList | File[]): Promise<ResultsFolderData> {
+  // Parse all JSON/JSONL files from the folder
+  const fileArray = Array.from(files);
+  const jsonFiles = fileArray.filter(f => f.name.endsWith('.json') || f.name.endsWith('.jsonl'));
+  
+  console.log('📁 All files in folder:', fileArray.map(f => f.name));
+  console.log('📄 JSON/JSONL files found:', jsonFiles.map(f => f.name));
+
+  if (jsonFiles.length === 0) {
+    throw new Error('No JSON or JSONL files found in selected folder');
+  }
+
+  let conversations: Record<string, unknown>[] = [];
+  let properties: Record<string, unknown>[] = [];
+  let clusters: ClusterLike[] = [];
+  let metrics: ResultsFolderMetrics | null = null;
+
+  // Load each file based on name
+  for (const file of jsonFiles) {
+    const text = await file.text();
+    const name = file.name.toLowerCase();
+
+    console.log(`🔍 Processing file: ${file.name} (${text.length} bytes)`);
+
+    try {
+      if (name === 'conversation.jsonl') {
+        // New primary format: conversation.jsonl
+        const lines = text.split('\n').filter(l => l.trim());
+        conversations = lines.map(line => JSON.parse(line));
+        console.log(`✅ Loaded ${conversations.length} conversations from ${file.name}`);
+        console.log(`📊 Sample conversation:`, conversations[0]);
+      } else if (name === 'full_dataset.json' || name === 'conversations.json') {
+        // Only load if we don't already have conversations from conversation.jsonl
+        if (conversations.length > 0) {
+          console.log(`⏭️ Skipping ${file.name} - already loaded conversations from conversation.jsonl`);
+          continue;
+        }
+
+        const data = JSON.parse(text);
+
+        // Handle different data structures
+        if (Array.isArray(data)) {
+          conversations = data;
+        } else if (data && typeof data === 'object') {
+          // Extract conversations
+          if (Array.isArray(data.conversations)) {
+            conversations = data.conversations;
+          } else if (Array.isArray(data.data)) {
+            conversations = data.data;
+          } else if (Array.isArray(data.rows)) {
+            conversations = data.rows;
+          } else if (Array.isArray(data.results)) {
+            conversations = data.results;
+          } else {
+            // If it's a single object, wrap it in an array
+            conversations = [data];
+          }
+          
+          // Also extract properties and clusters from full_dataset.json
+          if (Array.isArray(data.properties) && properties.length === 0) {
+            properties = data.properties;
+            console.log(`✅ Loaded ${properties.length} properties from ${file.name}`);
+          }
+          if (Array.isArray(data.clusters) && clusters.length === 0) {
+            clusters = data.clusters;
+            console.log(`✅ Loaded ${clusters.length} clusters from ${file.name}`);
+          }
+        }
+        
+        console.log(`✅ Loaded ${conversations.length} conversations from ${file.name}`);
+        console.log(`📊 Sample conversation:`, conversations[0]);
+        console.log(`📊 Sample conversation keys:`, Object.keys(conversations[0] || {}));
+      } else if (name === 'properties.jsonl') {
+        // New primary format: properties.jsonl
+        const lines = text.split('\n').filter(l => l.trim());
+        properties = lines.map(line => JSON.parse(line));
+        console.log(`✅ Loaded ${properties.length} properties from ${file.name}`);
+      } else if (name === 'parsed_properties.jsonl') {
+        // Legacy format fallback
+        if (properties.length === 0) {
+          const lines = text.split('\n').filter(l => l.trim());
+          properties = lines.map(line => JSON.parse(line));
+          console.log(`✅ Loaded ${properties.length} properties from ${file.name} (legacy format)`);
+        }
+      } else if (name === 'clusters.jsonl') {
+        // New primary format: clusters.jsonl
+        const lines = text.split('\n').filter(l => l.trim());
+        clusters = lines.map(line => JSON.parse(line));
+        console.log(`✅ Loaded ${clusters.length} clusters from ${file.name}`);
+      } else if (name === 'model_cluster_scores_df.jsonl') {
+        const lines = text.split('\n').filter(l => l.trim());
+        const scores = lines.map(line => JSON.parse(line));
+        if (!metrics) metrics = {};
+        metrics.model_cluster_scores = scores;
+        console.log(`✅ Loaded ${scores.length} model_cluster_scores from ${file.name}`);
+      } else if (name === 'cluster_scores_df.jsonl') {
+        const lines = text.split('\n').filter(l => l.trim());
+        const scores = lines.map(line => JSON.parse(line));
+        if (!metrics) metrics = {};
+        metrics.cluster_scores = scores;
+        console.log(`✅ Loaded ${scores.length} cluster_scores from ${file.name}`);
+      } else if (name === 'model_scores_df.jsonl') {
+        const lines = text.split('\n').filter(l => l.trim());
+        const scores = lines.map(line => JSON.parse(line));
+        if (!metrics) metrics = {};
+        metrics.model_scores = scores;
+        console.log(`✅ Loaded ${scores.length} model_scores from ${file.name}`);
+      } else {
+        console.log(`⚠️ Skipping unrecognized file: ${file.name}`);
+      }
+    } catch (e) {
+      console.error(`❌ Failed to parse ${file.name}:`, e);
+      throw new Error(`Failed to parse ${file.name}: ${e}`);
+    }
+  }
+
+  if (conversations.length === 0) {
+    throw new Error('No conversation data found. Expected file named "conversation.jsonl", "full_dataset.json", or "conversations.json"');
+  }
+
+  return { conversations, properties, clusters, metrics };
+}
@@ -0,0 +1,228 @@
+/**
+ * Cross-run cluster diff: match the clusters of the current run against a
+ * baseline run and report which appeared, disappeared or changed in size, with
+ * per-model proportion and quality-delta changes.
+ *
+ * Clusters are matched one-to-one, greedily by a score combining property
+ * overlap, conversation overlap and label similarity. Both runs' stats are
+ * computed the same way from their own conversations and properties, so
+ * differences come from the runs rather than from how metrics were produced.
+ */
+
+import { computeClusterMetrics } from './clusterMetrics';
+import { conversationsForMetrics } from './localClustering';
+import { clusterLabel, clusterPropertyIds, type ClusterLike } from './clusterEdits';
+import { vectorize, dot } from './textClustering';
+
+export interface ResultsRun {
+  name: string;
+  conversations: Record<string, unknown>[];
+  properties: Record<string, unknown>[];
+  clusters: ClusterLike[];
+  metrics?: unknown;
+}
+
+export type ClusterDiffStatus = 'appeared' | 'disappeared' | 'changed' | 'unchanged';
+
+export interface ClusterRunStats {
+  size: number;
+  proportion_by_model: Record<string, number>; // share of the model's conversations in the cluster
+  quality_delta_by_model: Record<string, Record<string, number>>;
+}
+
+export interface ModelDiff {
+  model: string;
+  proportion: { current: number | null; baseline: number | null; change: number | null };
+  quality_delta: { metric: string; current: number | null; baseline: number | null; change: number | null }[];
+}
+
+export interface ClusterDiffRow {
+  key: string;
+  status: ClusterDiffStatus;
+  label: string;
+  current?: ClusterLike;
+  baseline?: ClusterLike;
+  match?: { score: number; propertyOverlap: number; conversationOverlap: number; labelSimilarity: number };
+  size: { current: number; baseline: number; change: number };
+  models: ModelDiff[];
+}
+
+export interface RunDiff {
+  rows: ClusterDiffRow[];
+  counts: Record<ClusterDiffStatus, number>;
+  models: string[];
+}
+
+export interface RunDiffOptions {
+  minMatchScore: number;
+  sizeTolerance: number; // relative size change below which a matched cluster counts as unchanged
+}
+
+export const DEFAULT_RUN_DIFF: RunDiffOptions = { minMatchScore: 0.15, sizeTolerance: 0.2 };
+
+const MATCH_WEIGHTS = { property: 0.45, conversation: 0.25, label: 0.3 };
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(k => { if (b.has(k)) shared += 1; });
+  return shared / (a.size + b.size - shared);
+}
+
+function normalizeText(text: unknown): string {
+  return String(text ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/** Properties of a cluster, from the run's property rows or, failing that, the cluster's own descriptions. */
+export function clusterProperties(cluster: ClusterLike, propertiesById: Map<string, Record<string, unknown>>): Record<string, unknown>[] {
+  const ids = clusterPropertyIds(cluster);
+  const found = ids.map(pid => propertiesById.get(pid)).filter((p): p is Record<string, unknown> => Boolean(p));
+  if (found.length > 0) return found;
+  const descriptions: unknown[] = Array.isArray(cluster?.property_descriptions) ? cluster.property_descriptions : [];
+  return descriptions.map((d, i) => ({ id: ids[i] ?? `${cluster?.id}_${i}`, property_description: d, question_id: cluster?.question_ids?.[i] }));
+}
+
+/** Per-cluster size, per-model proportion and quality delta for one run, keyed by cluster index. */
+export function runClusterStats(run: ResultsRun): ClusterRunStats[] {
+  const conversations = conversationsForMetrics(run.conversations);
+  const questionsByModel = new Map<string, Set<string>>();
+  for (const c of conversations) {
+    if (!questionsByModel.has(c.model)) questionsByModel.set(c.model, new Set());
+    questionsByModel.get(c.model)!.add(c.question_id);
+  }
+  const propertiesById = new Map(run.properties.filter(p => p?.id != null).map(p => [String(p.id), p]));
+
+  const canCompute = conversations.length > 0 && propertiesById.size > 0;
+  const metrics = canCompute
+    ? computeClusterMetrics(
+        conversations,
+        Array.from(propertiesById.values()).map(p => ({ id: String(p.id), question_id: String(p.question_id), model: String(p.model) })),
+        run.clusters.map((c, i) => ({ id: String(i), label: clusterLabel(c), property_ids: clusterPropertyIds(c), question_ids: [] })),
+      )
+    : [];
+
+  return run.clusters.map((cluster, i) => {
+    const members = clusterPropertyIds(cluster).map(pid => propertiesById.get(pid)).filter((p): p is Record<string, unknown> => Boolean(p));
+    const size = members.length || Number(cluster?.size ?? clusterPropertyIds(cluster).length) || 0;
+
+    if (!canCompute || members.length === 0) {
+      return {
+        size,
+        proportion_by_model: { ...(cluster?.meta?.proportion_by_model as ClusterRunStats['proportion_by_model'] | undefined) },
+        quality_delta_by_model: { ...(cluster?.meta?.quality_delta_by_model as ClusterRunStats['quality_delta_by_model'] | undefined) },
+      };
+    }
+
+    const questionsInCluster = new Map<string, Set<string>>();
+    for (const p of members) {
+      const model = String(p.model);
+      if (!questionsInCluster.has(model)) questionsInCluster.set(model, new Set());
+      questionsInCluster.get(model)!.add(String(p.question_id));
+    }
+    const proportion: Record<string, number> = {};
+    questionsByModel.forEach((qs, model) => {
+      proportion[model] = (questionsInCluster.get(model)?.size || 0) / (qs.size || 1);
+    });
+    return { size, proportion_by_model: proportion, quality_delta_by_model: metrics[i]?.quality_delta_by_model || {} };
+  });
+}
+
+function modelDiffs(current: ClusterRunStats | undefined, baseline: ClusterRunStats | undefined, models: string[]): ModelDiff[] {
+  return models.map(model => {
+    const pc = current ? current.proportion_by_model[model] ?? 0 : null;
+    const pb = baseline ? baseline.proportion_by_model[model] ?? 0 : null;
+    const qc = current?.quality_delta_by_model[model] || {};
+    const qb = baseline?.quality_delta_by_model[model] || {};
+    const metrics = Array.from(new Set([...Object.keys(qc), ...Object.keys(qb)])).sort();
+    return {
+      model,
+      proportion: { current: pc, baseline: pb, change: pc != null && pb != null ? pc - pb : null },
+      quality_delta: metrics.map(metric => {
+        const c = typeof qc[metric] === 'number' ? qc[metric] : null;
+        const b = typeof qb[metric] === 'number' ? qb[metric] : null;
+        return { metric, current: c, baseline: b, change: c != null && b != null ? c - b : null };
+      }),
+    };
+  });
+}
+
+export function diffRuns(current: ResultsRun, baseline: ResultsRun, options: RunDiffOptions = DEFAULT_RUN_DIFF): RunDiff {
+  const currentStats = runClusterStats(current);
+  const baselineStats = runClusterStats(baseline);
+  const currentProps = new Map(current.properties.filter(p => p?.id != null).map(p => [String(p.id), p]));
+  const baselineProps = new Map(baseline.properties.filter(p => p?.id != null).map(p => [String(p.id), p]));
+
+  // Reruns usually mint new property ids; fall back to matching on (question, model, description)
+  let sharedIds = 0;
+  currentProps.forEach((_, id) => { if (baselineProps.has(id)) sharedIds += 1; });
+  const useIds = sharedIds >= 0.1 * Math.min(currentProps.size, baselineProps.size) && sharedIds > 0;
+  const propertyKeys = (cluster: ClusterLike, byId: Map<string, Record<string, unknown>>) => new Set(clusterProperties(cluster, byId).map(p =>
+    useIds ? String(p.id) : `${p.question_id}|${p.model}|${normalizeText(p.property_description)}`));
+  const conversationKeys = (cluster: ClusterLike, byId: Map<string, Record<string, unknown>>) => new Set(clusterProperties(cluster, byId)
+    .filter(p => p.question_id != null)
+    .map(p => `${p.question_id}|${p.model ?? ''}`));
+
+  const cur = current.clusters.map(c => ({ props: propertyKeys(c, currentProps), convs: conversationKeys(c, currentProps) }));
+  const base = baseline.clusters.map(c => ({ props: propertyKeys(c, baselineProps), convs: conversationKeys(c, baselineProps) }));
+
+  const labels = [...current.clusters, ...baseline.clusters].map(c => clusterLabel(c));
+  const { vectors } = vectorize(labels, 'tfidf');
+  const offset = current.clusters.length;
+
+  const candidates: { i: number; j: number; score: number; propertyOverlap: number; conversationOverlap: number; labelSimilarity: number }[] = [];
+  for (let i = 0; i < cur.length; i++) {
+    for (let j = 0; j < base.length; j++) {
+      const propertyOverlap = jaccard(cur[i].props, base[j].props);
+      const conversationOverlap = jaccard(cur[i].convs, base[j].convs);
+      const labelSimilarity = normalizeText(labels[i]) === normalizeText(labels[offset + j]) ? 1 : dot(vectors[i], vectors[offset + j]);
+      const score = MATCH_WEIGHTS.property * propertyOverlap + MATCH_WEIGHTS.conversation * conversationOverlap + MATCH_WEIGHTS.label * labelSimilarity;
+      if (score >= options.minMatchScore) candidates.push({ i, j, score, propertyOverlap, conversationOverlap, labelSimilarity });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const matchedCurrent = new Map<number, typeof candidates[number]>();
+  const matchedBaseline = new Set<number>();
+  for (const c of candidates) {
+    if (matchedCurrent.has(c.i) || matchedBaseline.has(c.j)) continue;
+    matchedCurrent.set(c.i, c);
+    matchedBaseline.add(c.j);
+  }
+
+  const models = Array.from(new Set([
+    ...currentStats.flatMap(s => Object.keys(s.proportion_by_model)),
+    ...baselineStats.flatMap(s => Object.keys(s.proportion_by_model)),
+  ])).sort();
+
+  const rows: ClusterDiffRow[] = [];
+  current.clusters.forEach((cluster, i) => {
+    const m = matchedCurrent.get(i);
+    const cs = currentStats[i];
+    if (!m) {
+      rows.push({ key: `current:${i}`, status: 'appeared', label: labels[i], current: cluster, size: { current: cs.size, baseline: 0, change: cs.size }, models: modelDiffs(cs, undefined, models) });
+      return;
+    }
+    const bs = baselineStats[m.j];
+    const change = cs.size - bs.size;
+    const relative = bs.size > 0 ? Math.abs(change) / bs.size : 1;
+    rows.push({
+      key: `current:${i}|baseline:${m.j}`,
+      status: change !== 0 && relative >= options.sizeTolerance ? 'changed' : 'unchanged',
+      label: labels[i],
+      current: cluster,
+      baseline: baseline.clusters[m.j],
+      match: { score: m.score, propertyOverlap: m.propertyOverlap, conversationOverlap: m.conversationOverlap, labelSimilarity: m.labelSimilarity },
+      size: { current: cs.size, baseline: bs.size, change },
+      models: modelDiffs(cs, bs, models),
+    });
+  });
+  baseline.clusters.forEach((cluster, j) => {
+    if (matchedBaseline.has(j)) return;
+    const bs = baselineStats[j];
+    rows.push({ key: `baseline:${j}`, status: 'disappeared', label: labels[offset + j], baseline: cluster, size: { current: 0, baseline: bs.size, change: -bs.size }, models: modelDiffs(undefined, bs, models) });
+  });
+
+  const counts: Record<ClusterDiffStatus, number> = { appeared: 0, disappeared: 0, changed: 0, unchanged: 0 };
+  rows.forEach(r => { counts[r.status] += 1; });
+  return { rows, counts, models };
+}
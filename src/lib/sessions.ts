@@ -0,0 +1,158 @@
+/**
+ * Named workspace sessions persisted in IndexedDB.
+ *
+ * Sessions are split across two object stores: a small `sessions` store holding
+ * metadata (name, timestamps, counts) and a `snapshots` store holding the full
+ * data. Listing sessions only touches metadata, so the picker opens instantly
+ * even when snapshots contain hundreds of thousands of rows. Snapshots are
+ * stored as structured clones (no JSON round-trip), which keeps save/restore fast.
+ */
+
+import type { ColumnMapping } from '../components/ColumnSelector';
+import type { DataOperation } from '../types/operations';
+import type { OperationHistoryStacks } from '../hooks/useOperationHistory';
+import type { ClusterEdit } from './clusterEdits';
+
+const DB_NAME = 'stringsight';
+const DB_VERSION = 1;
+const META_STORE = 'sessions';
+const SNAPSHOT_STORE = 'snapshots';
+
+export interface SessionMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  method: 'single_model' | 'side_by_side' | 'unknown';
+  rowCount: number;
+  propertyCount: number;
+  clusterCount: number;
+}
+
+export interface SessionSnapshot {
+  // Three data layers
+  originalRows: Record<string, any>[];
+  operationalRows: Record<string, any>[];
+  currentRows: Record<string, any>[];
+  availableColumns: string[];
+  columnMapping: ColumnMapping | null;
+  method: 'single_model' | 'side_by_side' | 'unknown';
+  operationChain: DataOperation[];
+  sortColumn: string | null;
+  sortDirection: 'asc' | 'desc' | null;
+  // Undo/redo stacks for the operation chain (absent in sessions saved before they were kept)
+  operationHistory?: OperationHistoryStacks;
+  // Extraction and clustering outputs
+  propertiesRows: any[];
+  clusters: any[];
+  clusterEdits?: ClusterEdit[]; // manual edit log since clustering; absent in older sessions
+  resultsMetrics: { model_cluster_scores?: any; cluster_scores?: any; model_scores?: any } | null;
+  clientMetrics?: boolean; // metrics computed (and bootstrapped) in the browser; absent in older sessions
+  isResultsMode: boolean;
+  resultsDir: string | null;
+  totalConversationsByModel: Record<string, number> | null;
+  totalUniqueConversations: number | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        db.createObjectStore(SNAPSHOT_STORE);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error || new Error('Failed to open session database'));
+  });
+  // Allow a retry after a failed open (e.g. private browsing)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Session transaction aborted'));
+  });
+}
+
+/**
+ * List saved sessions, most recently updated first. Reads metadata only.
+ */
+export async function listSessions(): Promise<SessionMeta[]> {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const all = await requestToPromise(tx.objectStore(META_STORE).getAll() as IDBRequest<SessionMeta[]>);
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Save a snapshot under the given name. Pass an existing id to overwrite that session.
+ */
+export async function saveSession(name: string, snapshot: SessionSnapshot, id?: string): Promise<SessionMeta> {
+  const db = await openDb();
+  const now = Date.now();
+  const sessionId = id || `session_${now}_${Math.random().toString(36).substr(2, 9)}`;
+
+  let createdAt = now;
+  if (id) {
+    const existing = await requestToPromise(
+      db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(id) as IDBRequest<SessionMeta | undefined>
+    );
+    if (existing) createdAt = existing.createdAt;
+  }
+
+  const meta: SessionMeta = {
+    id: sessionId,
+    name: name.trim() || 'Untitled session',
+    createdAt,
+    updatedAt: now,
+    method: snapshot.method,
+    rowCount: snapshot.originalRows.length,
+    propertyCount: snapshot.propertiesRows.length,
+    clusterCount: snapshot.clusters.length,
+  };
+
+  // Write metadata and snapshot atomically so the list never points at a missing snapshot
+  const tx = db.transaction([META_STORE, SNAPSHOT_STORE], 'readwrite');
+  tx.objectStore(SNAPSHOT_STORE).put(snapshot, sessionId);
+  tx.objectStore(META_STORE).put(meta);
+  await transactionDone(tx);
+  return meta;
+}
+
+export async function loadSession(id: string): Promise<SessionSnapshot> {
+  const db = await openDb();
+  const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+  const snapshot = await requestToPromise(tx.objectStore(SNAPSHOT_STORE).get(id) as IDBRequest<SessionSnapshot | undefined>);
+  if (!snapshot) throw new Error('Session snapshot not found');
+  return snapshot;
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([META_STORE, SNAPSHOT_STORE], 'readwrite');
+  tx.objectStore(META_STORE).delete(id);
+  tx.objectStore(SNAPSHOT_STORE).delete(id);
+  await transactionDone(tx);
+}
@@ -0,0 +1,74 @@
+/**
+ * Small statistics helpers: a seeded RNG, paired bootstrap over questions, an exact
+ * paired sign test, and Benjamini–Hochberg false-discovery-rate correction.
+ */
+
+// mulberry32
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Linear-interpolated quantile of an ascending-sorted array. */
+export function quantile(sorted: ArrayLike<number>, q: number): number {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/** One bootstrap resample of `n` units, written into `out` as multiplicity counts. */
+export function drawResample(random: () => number, n: number, out: Uint16Array): Uint16Array {
+  out.fill(0);
+  for (let k = 0; k < n; k++) out[Math.floor(random() * n)] += 1;
+  return out;
+}
+
+/** Percentile interval of bootstrap replicates, ignoring non-finite ones (e.g. empty resamples). */
+export function percentileInterval(replicates: ArrayLike<number>, confidence = 0.95): { lower: number; upper: number } {
+  const values: number[] = [];
+  for (let i = 0; i < replicates.length; i++) if (Number.isFinite(replicates[i])) values.push(replicates[i]);
+  const finite = Float64Array.from(values).sort();
+  const alpha = (1 - confidence) / 2;
+  return { lower: quantile(finite, alpha), upper: quantile(finite, 1 - alpha) };
+}
+
+/**
+ * Exact two-sided sign test (exact McNemar) for paired binary outcomes: `gained` units
+ * changed 0 → 1 and `lost` changed 1 → 0. Unlike a bootstrap p-value it is not bounded
+ * below by the number of resamples, so it survives multiple-testing correction.
+ */
+export function pairedSignTest(gained: number, lost: number): number {
+  const total = gained + lost;
+  if (total === 0) return 1;
+  const k = Math.min(gained, lost);
+  // Binomial(total, ½) tail P(X ≤ k), accumulated in log space to avoid underflow of 0.5^total
+  let logTerm = -total * Math.LN2;
+  let tail = Math.exp(logTerm);
+  for (let i = 1; i <= k; i++) {
+    logTerm += Math.log((total - i + 1) / i);
+    tail += Math.exp(logTerm);
+  }
+  return Math.min(1, 2 * tail);
+}
+
+/** Benjamini–Hochberg adjusted p-values (q-values), in the input order. */
+export function benjaminiHochberg(pValues: number[]): number[] {
+  const m = pValues.length;
+  const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+  let running = 1;
+  for (let rank = m; rank >= 1; rank--) {
+    const { p, i } = order[rank - 1];
+    running = Math.min(running, (p * m) / rank);
+    adjusted[i] = Math.min(1, running);
+  }
+  return adjusted;
+}
@@ -0,0 +1,255 @@
+/**
+ * Text clustering that runs without a backend or embedding model.
+ *
+ * Descriptions are turned into sparse, L2-normalised vectors (TF-IDF over word
+ * unigrams/bigrams, or hashed character n-grams) and grouped either by density
+ * (DBSCAN over cosine similarity) or by agglomerative merging of centroids.
+ * Used by `src/workers/clustering.worker.ts`; see `runLocalClustering` in
+ * `src/lib/localClustering.ts` for the caller.
+ */
+
+export type LocalVectorizer = 'tfidf' | 'hashed';
+export type LocalAlgorithm = 'agglomerative' | 'density';
+
+export interface TextClusteringOptions {
+  vectorizer: LocalVectorizer;
+  algorithm: LocalAlgorithm;
+  minClusterSize: number;
+  similarityThreshold: number; // cosine similarity needed to join (0-1)
+}
+
+export interface TextCluster {
+  members: number[]; // indices into the input texts
+  medoid: number; // member closest to the centroid
+  topTerms: string[];
+}
+
+export interface TextClusteringResult {
+  clusters: TextCluster[];
+  outliers: number[]; // indices left out of any cluster of at least `minClusterSize`
+}
+
+// Sparse vector: parallel arrays sorted by index
+export interface SparseVector { idx: number[]; val: number[] }
+
+const HASH_DIMS = 1 << 14;
+const STOP_WORDS = new Set((
+  'a an and are as at be been being but by can could did do does for from had has have how if in into is it its ' +
+  'may might more most no not of on or other over so some such than that the their them then there these they this ' +
+  'those to too very was were what when where which while who will with would you your model models response responses'
+).split(' '));
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1 && !STOP_WORDS.has(t));
+}
+
+function normalize(weights: Map<number, number>): SparseVector {
+  const entries = Array.from(weights.entries()).sort((a, b) => a[0] - b[0]);
+  const norm = Math.sqrt(entries.reduce((s, [, w]) => s + w * w, 0)) || 1;
+  return { idx: entries.map(e => e[0]), val: entries.map(e => e[1] / norm) };
+}
+
+export function dot(a: SparseVector, b: SparseVector): number {
+  let i = 0, j = 0, sum = 0;
+  while (i < a.idx.length && j < b.idx.length) {
+    if (a.idx[i] === b.idx[j]) { sum += a.val[i] * b.val[j]; i++; j++; }
+    else if (a.idx[i] < b.idx[j]) i++;
+    else j++;
+  }
+  return sum;
+}
+
+// FNV-1a, folded into HASH_DIMS buckets
+function hashTerm(term: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    h ^= term.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0) % HASH_DIMS;
+}
+
+/** Vectorise texts; `terms` maps a vector index back to a readable term (TF-IDF only). */
+export function vectorize(texts: string[], vectorizer: LocalVectorizer): { vectors: SparseVector[]; terms: Map<number, string> } {
+  const terms = new Map<number, string>();
+
+  if (vectorizer === 'hashed') {
+    const vectors = texts.map(text => {
+      const counts = new Map<number, number>();
+      for (const word of tokenize(text)) {
+        const padded = ` ${word} `;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+          const h = hashTerm(padded.slice(i, i + 3));
+          counts.set(h, (counts.get(h) || 0) + 1);
+        }
+        const h = hashTerm(word);
+        counts.set(h, (counts.get(h) || 0) + 1);
+        if (!terms.has(h)) terms.set(h, word);
+      }
+      // Sublinear term frequency keeps long descriptions from dominating
+      counts.forEach((c, k) => counts.set(k, 1 + Math.log(c)));
+      return normalize(counts);
+    });
+    return { vectors, terms };
+  }
+
+  const docs = texts.map(text => {
+    const tokens = tokenize(text);
+    const grams = [...tokens];
+    for (let i = 0; i + 1 < tokens.length; i++) grams.push(`${tokens[i]} ${tokens[i + 1]}`);
+    return grams;
+  });
+  const vocab = new Map<string, number>();
+  const df: number[] = [];
+  for (const grams of docs) {
+    for (const g of new Set(grams)) {
+      let id = vocab.get(g);
+      if (id === undefined) {
+        id = vocab.size;
+        vocab.set(g, id);
+        terms.set(id, g);
+        df.push(0);
+      }
+      df[id] += 1;
+    }
+  }
+  const n = texts.length;
+  const vectors = docs.map(grams => {
+    const counts = new Map<number, number>();
+    for (const g of grams) {
+      const id = vocab.get(g)!;
+      counts.set(id, (counts.get(id) || 0) + 1);
+    }
+    // Smoothed idf, as in scikit-learn's TfidfVectorizer
+    counts.forEach((c, id) => counts.set(id, (1 + Math.log(c)) * (Math.log((1 + n) / (1 + df[id])) + 1)));
+    return normalize(counts);
+  });
+  return { vectors, terms };
+}
+
+function centroid(members: number[], vectors: SparseVector[]): SparseVector {
+  const sum = new Map<number, number>();
+  for (const m of members) {
+    const v = vectors[m];
+    for (let i = 0; i < v.idx.length; i++) sum.set(v.idx[i], (sum.get(v.idx[i]) || 0) + v.val[i]);
+  }
+  return normalize(sum);
+}
+
+// DBSCAN with cosine similarity: core points have at least `minClusterSize` neighbours (themselves included)
+function densityClusters(vectors: SparseVector[], options: TextClusteringOptions, onProgress?: (done: number, total: number) => void): number[][] {
+  const n = vectors.length;
+  const neighbours: number[][] = vectors.map((_, i) => [i]);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (dot(vectors[i], vectors[j]) >= options.similarityThreshold) {
+        neighbours[i].push(j);
+        neighbours[j].push(i);
+      }
+    }
+    if (i % 200 === 0) onProgress?.(i, n);
+  }
+
+  const minPts = Math.max(2, options.minClusterSize);
+  const assigned = new Int32Array(n).fill(-1);
+  const groups: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    if (assigned[i] !== -1 || neighbours[i].length < minPts) continue;
+    const id = groups.length;
+    const members: number[] = [];
+    const queue = [i];
+    assigned[i] = id;
+    while (queue.length > 0) {
+      const p = queue.pop()!;
+      members.push(p);
+      if (neighbours[p].length < minPts) continue; // border point: joins but does not expand
+      for (const q of neighbours[p]) {
+        if (assigned[q] === -1) {
+          assigned[q] = id;
+          queue.push(q);
+        }
+      }
+    }
+    groups.push(members);
+  }
+  return groups;
+}
+
+// Agglomerative clustering with centroid linkage: each round merges mutual nearest
+// neighbours above the threshold, until no pair is similar enough
+function agglomerativeClusters(vectors: SparseVector[], options: TextClusteringOptions, onProgress?: (done: number, total: number) => void): number[][] {
+  let groups = vectors.map((_, i) => [i]);
+  let centroids = vectors.slice();
+  for (let round = 0; groups.length > 1; round++) {
+    const k = groups.length;
+    const nearest = new Int32Array(k).fill(-1);
+    const best = new Float64Array(k).fill(-Infinity);
+    for (let i = 0; i < k; i++) {
+      for (let j = i + 1; j < k; j++) {
+        const s = dot(centroids[i], centroids[j]);
+        if (s > best[i]) { best[i] = s; nearest[i] = j; }
+        if (s > best[j]) { best[j] = s; nearest[j] = i; }
+      }
+    }
+
+    const merged = new Set<number>();
+    const nextGroups: number[][] = [];
+    const nextCentroids: SparseVector[] = [];
+    for (let i = 0; i < k; i++) {
+      if (merged.has(i)) continue;
+      const j = nearest[i];
+      if (j > i && nearest[j] === i && best[i] >= options.similarityThreshold) {
+        const members = [...groups[i], ...groups[j]];
+        merged.add(j);
+        nextGroups.push(members);
+        nextCentroids.push(centroid(members, vectors));
+      } else {
+        nextGroups.push(groups[i]);
+        nextCentroids.push(centroids[i]);
+      }
+    }
+    onProgress?.(vectors.length - nextGroups.length, vectors.length);
+    if (nextGroups.length === k) break;
+    groups = nextGroups;
+    centroids = nextCentroids;
+  }
+  return groups;
+}
+
+/**
+ * Cluster texts; groups smaller than `minClusterSize` are returned as outliers.
+ * Clusters are sorted largest first.
+ */
+export function clusterTexts(texts: string[], options: TextClusteringOptions, onProgress?: (done: number, total: number) => void): TextClusteringResult {
+  if (texts.length === 0) return { clusters: [], outliers: [] };
+  const { vectors, terms } = vectorize(texts, options.vectorizer);
+  const groups = options.algorithm === 'density'
+    ? densityClusters(vectors, options, onProgress)
+    : agglomerativeClusters(vectors, options, onProgress);
+
+  const minSize = Math.max(1, options.minClusterSize);
+  const clustered = new Set<number>();
+  const clusters: TextCluster[] = [];
+  for (const members of groups) {
+    if (members.length < minSize) continue;
+    members.forEach(m => clustered.add(m));
+    const c = centroid(members, vectors);
+    let medoid = members[0];
+    let bestSim = -Infinity;
+    for (const m of members) {
+      const s = dot(vectors[m], c);
+      if (s > bestSim) { bestSim = s; medoid = m; }
+    }
+    const topTerms = c.idx
+      .map((id, i) => ({ id, w: c.val[i] }))
+      .sort((a, b) => b.w - a.w)
+      .map(t => terms.get(t.id))
+      .filter((t): t is string => !!t)
+      .filter((t, i, all) => all.indexOf(t) === i)
+      .slice(0, 5);
+    clusters.push({ members, medoid, topTerms });
+  }
+  clusters.sort((a, b) => b.members.length - a.members.length);
+  const outliers = texts.map((_, i) => i).filter(i => !clustered.has(i));
+  return { clusters, outliers };
+}
@@ -0,0 +1,127 @@
+/**
+ * Exact t-SNE (van der Maaten & Hinton, 2008) over a precomputed distance matrix.
+ *
+ * O(n²) per iteration, so callers should cap the number of points (a couple of
+ * thousand stays interactive in a worker). Seeded, so the same input gives the same map.
+ */
+
+import { seededRandom } from './stats';
+
+export interface TsneOptions {
+  perplexity: number;
+  iterations: number;
+  seed: number;
+}
+
+export const DEFAULT_TSNE: TsneOptions = { perplexity: 30, iterations: 500, seed: 42 };
+
+// Row-wise Gaussian affinities whose entropy matches log(perplexity), then symmetrised
+function affinities(distances: Float64Array, n: number, perplexity: number): Float64Array {
+  const P = new Float64Array(n * n);
+  const target = Math.log(perplexity);
+  const row = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let beta = 1, lo = -Infinity, hi = Infinity;
+    for (let step = 0; step < 50; step++) {
+      let sum = 0;
+      for (let j = 0; j < n; j++) {
+        row[j] = j === i ? 0 : Math.exp(-distances[i * n + j] * beta);
+        sum += row[j];
+      }
+      sum = sum || 1e-12;
+      let entropy = 0;
+      for (let j = 0; j < n; j++) {
+        const p = row[j] / sum;
+        row[j] = p;
+        if (p > 1e-12) entropy -= p * Math.log(p);
+      }
+      if (Math.abs(entropy - target) < 1e-5) break;
+      if (entropy > target) {
+        lo = beta;
+        beta = hi === Infinity ? beta * 2 : (beta + hi) / 2;
+      } else {
+        hi = beta;
+        beta = lo === -Infinity ? beta / 2 : (beta + lo) / 2;
+      }
+    }
+    for (let j = 0; j < n; j++) P[i * n + j] = row[j];
+  }
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const p = Math.max((P[i * n + j] + P[j * n + i]) / (2 * n), 1e-12);
+      P[i * n + j] = p;
+      P[j * n + i] = p;
+    }
+  }
+  return P;
+}
+
+/**
+ * Embed `n` points in 2D from their pairwise squared distances (row-major `n * n`).
+ * Returns interleaved coordinates `[x0, y0, x1, y1, ...]`.
+ */
+export function tsne(distances: Float64Array, n: number, options: TsneOptions = DEFAULT_TSNE, onProgress?: (iteration: number, total: number) => void): Float64Array {
+  const Y = new Float64Array(n * 2);
+  if (n <= 1) return Y;
+  const random = seededRandom(options.seed);
+  for (let i = 0; i < n * 2; i++) Y[i] = (random() - 0.5) * 1e-2;
+  if (n === 2) {
+    Y.set([-1, 0, 1, 0]);
+    return Y;
+  }
+
+  const P = affinities(distances, n, Math.min(options.perplexity, (n - 1) / 3));
+  const gains = new Float64Array(n * 2).fill(1);
+  const velocity = new Float64Array(n * 2);
+  const grad = new Float64Array(n * 2);
+  const num = new Float64Array(n * n);
+  const learningRate = Math.max(n / 12, 50);
+  const exaggerationEnd = Math.min(100, Math.floor(options.iterations / 4));
+
+  for (let iter = 0; iter < options.iterations; iter++) {
+    const exaggeration = iter < exaggerationEnd ? 12 : 1;
+    const momentum = iter < exaggerationEnd ? 0.5 : 0.8;
+
+    // Student-t kernel
+    let sumQ = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const dx = Y[i * 2] - Y[j * 2];
+        const dy = Y[i * 2 + 1] - Y[j * 2 + 1];
+        const q = 1 / (1 + dx * dx + dy * dy);
+        num[i * n + j] = q;
+        num[j * n + i] = q;
+        sumQ += 2 * q;
+      }
+    }
+
+    grad.fill(0);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue;
+        const q = num[i * n + j];
+        const mult = 4 * (exaggeration * P[i * n + j] - q / sumQ) * q;
+        grad[i * 2] += mult * (Y[i * 2] - Y[j * 2]);
+        grad[i * 2 + 1] += mult * (Y[i * 2 + 1] - Y[j * 2 + 1]);
+      }
+    }
+
+    let meanX = 0, meanY = 0;
+    for (let k = 0; k < n * 2; k++) {
+      const sameSign = Math.sign(grad[k]) === Math.sign(velocity[k]);
+      gains[k] = Math.max(sameSign ? gains[k] * 0.8 : gains[k] + 0.2, 0.01);
+      velocity[k] = momentum * velocity[k] - learningRate * gains[k] * grad[k];
+      Y[k] += velocity[k];
+      if (k % 2 === 0) meanX += Y[k]; else meanY += Y[k];
+    }
+    meanX /= n;
+    meanY /= n;
+    for (let i = 0; i < n; i++) {
+      Y[i * 2] -= meanX;
+      Y[i * 2 + 1] -= meanY;
+    }
+    if (iter % 25 === 0) onProgress?.(iter, options.iterations);
+  }
+  onProgress?.(options.iterations, options.iterations);
+  return Y;
+}
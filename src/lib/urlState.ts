@@ -0,0 +1,171 @@
+/**
+ * Shareable view state encoded in the URL query string.
+ *
+ * Only the parts of the UI that describe *what* is being looked at are encoded:
+ * the results directory, active tab, Data tab operation chain, Clusters search,
+ * Metrics filters, and the conversation open in the trace drawer. Defaults are
+ * omitted so links stay short.
+ *
+ * Custom code operations are never encoded or decoded: opening a link would
+ * otherwise run its author's code (Python on the viewer's backend, JavaScript in
+ * the browser) without the viewer asking for it.
+ */
+
+import type { DataOperation } from '../types/operations';
+import { serializeOperation, deserializeOperation } from '../types/operations';
+import type { MetricsFilters, MetricsSortOption } from '../types/metrics';
+
+export type ViewTab = 'table' | 'properties' | 'clusters' | 'metrics';
+
+export interface TraceRef {
+  questionId: string;
+  model?: string;
+}
+
+export interface ViewState {
+  resultsDir?: string | null;
+  activeTab?: ViewTab;
+  operations?: DataOperation[];
+  clusterSearchQuery?: string;
+  metricsFilters?: Partial<MetricsFilters>;
+  trace?: TraceRef | null;
+}
+
+export const DEFAULT_METRICS_FILTERS: MetricsFilters = {
+  selectedModels: [],
+  selectedGroups: [],
+  qualityMetric: '',
+  sortBy: 'proportion_delta_desc',
+  topN: 15,
+  significanceOnly: false,
+  showCI: false,
+};
+
+const TABS: ViewTab[] = ['table', 'properties', 'clusters', 'metrics'];
+
+const SORT_OPTIONS: MetricsSortOption[] = [
+  'proportion_desc', 'proportion_asc', 'proportion_delta_desc', 'proportion_delta_asc',
+  'quality_desc', 'quality_asc', 'quality_delta_desc', 'quality_delta_asc', 'size_desc', 'size_asc',
+];
+
+// Whether a decoded `mf` value has the shape the Metrics tab expects for `key`
+function isValidMetricsFilter(key: keyof MetricsFilters, value: unknown): boolean {
+  switch (key) {
+    case 'selectedModels':
+    case 'selectedGroups':
+      return Array.isArray(value) && value.every(v => typeof v === 'string');
+    case 'topN':
+      return typeof value === 'number' && Number.isInteger(value) && value > 0;
+    case 'sortBy':
+      return SORT_OPTIONS.includes(value as MetricsSortOption);
+    case 'qualityMetric':
+      return typeof value === 'string';
+    case 'significanceOnly':
+    case 'showCI':
+      return typeof value === 'boolean';
+  }
+}
+
+function parseJson(value: string | null): unknown {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Operations that may travel in a link (everything except custom code). */
+export function shareableOperations(operations: DataOperation[]): DataOperation[] {
+  return operations.filter(op => op.type !== 'custom');
+}
+
+/**
+ * Encode view state into a query string (without the leading '?').
+ */
+export function encodeViewState(state: ViewState): string {
+  const params = new URLSearchParams();
+  if (state.resultsDir) params.set('results', state.resultsDir);
+  if (state.activeTab && state.activeTab !== 'table') params.set('tab', state.activeTab);
+  const operations = shareableOperations(state.operations || []);
+  if (operations.length > 0) {
+    params.set('ops', JSON.stringify(operations.map(serializeOperation)));
+  }
+  if (state.clusterSearchQuery) params.set('cq', state.clusterSearchQuery);
+  if (state.metricsFilters) {
+    // Keep only fields that differ from defaults
+    const diff: Partial<MetricsFilters> = {};
+    (Object.keys(state.metricsFilters) as (keyof MetricsFilters)[]).forEach((key) => {
+      const value = state.metricsFilters![key];
+      if (JSON.stringify(value) !== JSON.stringify(DEFAULT_METRICS_FILTERS[key])) {
+        (diff as Record<string, unknown>)[key] = value;
+      }
+    });
+    if (Object.keys(diff).length > 0) params.set('mf', JSON.stringify(diff));
+  }
+  if (state.trace?.questionId) {
+    params.set('trace', state.trace.questionId);
+    if (state.trace.model) params.set('trace_model', state.trace.model);
+  }
+  return params.toString();
+}
+
+/**
+ * Decode view state from a query string. Unknown or malformed values are dropped.
+ */
+export function decodeViewState(search: string): ViewState {
+  const params = new URLSearchParams(search);
+  const state: ViewState = {};
+
+  const results = params.get('results');
+  if (results) state.resultsDir = results;
+
+  const tab = params.get('tab') as ViewTab | null;
+  if (tab && TABS.includes(tab)) state.activeTab = tab;
+
+  const ops = parseJson(params.get('ops'));
+  if (Array.isArray(ops)) {
+    state.operations = shareableOperations(
+      ops.map(deserializeOperation).filter((op): op is DataOperation => op !== null)
+    );
+  }
+
+  const cq = params.get('cq');
+  if (cq) state.clusterSearchQuery = cq;
+
+  const mf = parseJson(params.get('mf'));
+  if (mf && typeof mf === 'object' && !Array.isArray(mf)) {
+    const raw = mf as Record<string, unknown>;
+    const filters: Partial<MetricsFilters> = {};
+    // Malformed values fall back to the default rather than reaching the Metrics tab
+    (Object.keys(DEFAULT_METRICS_FILTERS) as (keyof MetricsFilters)[]).forEach((key) => {
+      if (key in raw) {
+        (filters as Record<string, unknown>)[key] = isValidMetricsFilter(key, raw[key]) ? raw[key] : DEFAULT_METRICS_FILTERS[key];
+      }
+    });
+    state.metricsFilters = filters;
+  }
+
+  const trace = params.get('trace');
+  if (trace) state.trace = { questionId: trace, model: params.get('trace_model') || undefined };
+
+  return state;
+}
+
+export function hasViewState(state: ViewState): boolean {
+  return Object.keys(state).length > 0;
+}
+
+export function readViewStateFromUrl(): ViewState {
+  return decodeViewState(window.location.search);
+}
+
+/**
+ * Replace the current URL's query string without adding a history entry.
+ */
+export function writeViewStateToUrl(state: ViewState): void {
+  const query = encodeViewState(state);
+  const next = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+  const current = `${window.location.pathname}${window.location.search}${window.location.hash}`;
+  if (next !== current) window.history.replaceState(null, '', next);
+}
@@ -0,0 +1,41 @@
+/**
+ * Pure projection pipeline shared by the projection worker and its main-thread
+ * fallback: vectors → pairwise distances → t-SNE coordinates.
+ */
+
+import { vectorize, dot, type SparseVector } from './textClustering';
+import { tsne, type TsneOptions } from './tsne';
+
+function denseToSparse(values: number[]): SparseVector {
+  const norm = Math.sqrt(values.reduce((s, v) => s + v * v, 0)) || 1;
+  return { idx: values.map((_, i) => i), val: values.map(v => v / norm) };
+}
+
+/** Squared-Euclidean distances between unit vectors (2 - 2·cosine), row-major. */
+export function pairwiseDistances(vectors: SparseVector[]): Float64Array {
+  const n = vectors.length;
+  const out = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const d = Math.max(0, 2 - 2 * dot(vectors[i], vectors[j]));
+      out[i * n + j] = d;
+      out[j * n + i] = d;
+    }
+  }
+  return out;
+}
+
+/**
+ * Project dense embeddings, or texts via TF-IDF, to 2D.
+ * Returns interleaved coordinates `[x0, y0, x1, y1, ...]`.
+ */
+export function projectVectors(
+  input: { texts?: string[]; embeddings?: number[][] },
+  options: TsneOptions,
+  onProgress?: (done: number, total: number) => void,
+): Float64Array {
+  const vectors = input.embeddings
+    ? input.embeddings.map(denseToSparse)
+    : vectorize(input.texts || [], 'tfidf').vectors;
+  return tsne(pairwiseDistances(vectors), vectors.length, options, onProgress);
+}
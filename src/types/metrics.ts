@@ -13,6 +13,7 @@
 export interface ModelClusterRow {
   model: string;
   cluster: string;
+  cluster_id?: string;  // Set on client-computed rows; labels need not be unique
   size: number;
   proportion: number;
   proportion_delta: number;
@@ -39,6 +40,18 @@ export interface ModelClusterRow {
   
   // Significance flags
   proportion_delta_significant?: boolean;
+
+  // Side-by-side data only: outcomes of the model's battles that show this behavior
+  battles?: number;
+  battles_decided_by?: string;  // What picked each battle's winner, e.g. "higher helpfulness score"
+  win_rate?: number;
+  tie_rate?: number;
+  loss_rate?: number;
+  preference?: number;  // (wins + ½ ties) / battles
+  preference_delta?: number;  // preference − the model's overall preference
+  preference_delta_ci_lower?: number;
+  preference_delta_ci_upper?: number;
+  preference_delta_significant?: boolean;
 }
 
 /**
@@ -149,7 +162,9 @@ export type MetricsPlotType =
   | "frequency"        // Absolute proportion
   | "frequency_delta"  // Proportion delta (with zero line)
   | "quality"          // Absolute quality
-  | "quality_delta";   // Quality delta (with zero line)
+  | "quality_delta"    // Quality delta (with zero line)
+  | "preference_delta" // Side-by-side win/tie/loss and preference shift (with zero line)
+  | "heatmap";         // Model × cluster grid colored by any of the above
 
 /**
  * Configuration for individual chart components.
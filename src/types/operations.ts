@@ -3,6 +3,7 @@
 export interface BaseOperation {
   id: string;
   timestamp: number;
+  disabled?: boolean; // kept in the chain but skipped when applying
 }
 
 export interface FilterOperation extends BaseOperation {
@@ -15,6 +16,10 @@ export interface FilterOperation extends BaseOperation {
 export interface CustomCodeOperation extends BaseOperation {
   type: 'custom';
   code: string;
+  // 'python' runs on the backend via /df/custom (default); 'javascript' runs in a browser Web Worker
+  runtime?: 'python' | 'javascript';
+  // For JavaScript: keep rows where the code is truthy, or replace each row with the returned object
+  jsMode?: 'predicate' | 'transform';
 }
 
 export interface SortOperation extends BaseOperation {
@@ -23,7 +28,38 @@ export interface SortOperation extends BaseOperation {
   direction: 'asc' | 'desc';
 }
 
-export type DataOperation = FilterOperation | CustomCodeOperation | SortOperation;
+// Numeric comparison on a column, e.g. score_helpfulness < 3 or score between 1 and 3 (inclusive)
+export type NumericOperator = '<' | '<=' | '>' | '>=' | '=' | '!=' | 'between';
+
+export interface NumericFilterOperation extends BaseOperation {
+  type: 'numeric_filter';
+  column: string;
+  operator: NumericOperator;
+  value: number;
+  upper?: number; // only for 'between'
+  negated: boolean;
+}
+
+// Substring or regular-expression match on a column's string value
+export interface TextFilterOperation extends BaseOperation {
+  type: 'text_filter';
+  column: string;
+  mode: 'contains' | 'regex';
+  pattern: string;
+  caseSensitive: boolean;
+  negated: boolean;
+}
+
+// Null / empty-string / empty-collection check (negated = "is not empty")
+export interface EmptyFilterOperation extends BaseOperation {
+  type: 'empty_filter';
+  column: string;
+  negated: boolean;
+}
+
+export type RowFilterOperation = FilterOperation | NumericFilterOperation | TextFilterOperation | EmptyFilterOperation;
+
+export type DataOperation = RowFilterOperation | CustomCodeOperation | SortOperation;
 
 export interface OperationChain {
   operations: DataOperation[];
@@ -43,10 +79,15 @@ export const createFilterOperation = (
   timestamp: Date.now()
 });
 
-export const createCustomCodeOperation = (code: string): CustomCodeOperation => ({
+export const createCustomCodeOperation = (
+  code: string,
+  runtime: 'python' | 'javascript' = 'python',
+  jsMode: 'predicate' | 'transform' = 'predicate'
+): CustomCodeOperation => ({
   id: `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
   type: 'custom',
   code,
+  ...(runtime === 'javascript' ? { runtime, jsMode } : {}),
   timestamp: Date.now()
 });
 
@@ -61,16 +102,144 @@ export const createSortOperation = (
   timestamp: Date.now()
 });
 
+export const createNumericFilterOperation = (
+  column: string,
+  operator: NumericOperator,
+  value: number,
+  upper?: number,
+  negated: boolean = false
+): NumericFilterOperation => ({
+  id: `numeric_filter_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  type: 'numeric_filter',
+  column,
+  operator,
+  value,
+  ...(operator === 'between' ? { upper } : {}),
+  negated,
+  timestamp: Date.now()
+});
+
+export const createTextFilterOperation = (
+  column: string,
+  mode: 'contains' | 'regex',
+  pattern: string,
+  caseSensitive: boolean = false,
+  negated: boolean = false
+): TextFilterOperation => ({
+  id: `text_filter_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  type: 'text_filter',
+  column,
+  mode,
+  pattern,
+  caseSensitive,
+  negated,
+  timestamp: Date.now()
+});
+
+export const createEmptyFilterOperation = (
+  column: string,
+  negated: boolean = false
+): EmptyFilterOperation => ({
+  id: `empty_filter_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  type: 'empty_filter',
+  column,
+  negated,
+  timestamp: Date.now()
+});
+
+export const isRowFilterOperation = (operation: DataOperation): operation is RowFilterOperation =>
+  operation.type === 'filter' ||
+  operation.type === 'numeric_filter' ||
+  operation.type === 'text_filter' ||
+  operation.type === 'empty_filter';
+
 // Operation display helpers
 export const getOperationDescription = (operation: DataOperation): string => {
   switch (operation.type) {
     case 'filter':
       return `${operation.column}: ${operation.negated ? 'NOT ' : ''}${operation.values.join(', ')}`;
-    case 'custom':
-      return operation.code.length > 50 ? `${operation.code.slice(0, 50)}...` : operation.code;
+    case 'numeric_filter':
+      return operation.operator === 'between'
+        ? `${operation.column} ${operation.negated ? 'not ' : ''}between ${operation.value} and ${operation.upper}`
+        : `${operation.negated ? 'NOT ' : ''}${operation.column} ${operation.operator} ${operation.value}`;
+    case 'text_filter':
+      return operation.mode === 'regex'
+        ? `${operation.column} ${operation.negated ? 'not ' : ''}matches /${operation.pattern}/${operation.caseSensitive ? '' : 'i'}`
+        : `${operation.column} ${operation.negated ? 'not ' : ''}contains "${operation.pattern}"${operation.caseSensitive ? ' (case-sensitive)' : ''}`;
+    case 'empty_filter':
+      return `${operation.column} is ${operation.negated ? 'not ' : ''}empty`;
+    case 'custom': {
+      const code = operation.code.length > 50 ? `${operation.code.slice(0, 50)}...` : operation.code;
+      return operation.runtime === 'javascript'
+        ? `[JS ${operation.jsMode === 'transform' ? 'transform' : 'filter'}] ${code}`
+        : code;
+    }
     case 'sort':
       return `Sort by ${operation.column} (${operation.direction})`;
     default:
       return 'Unknown operation';
   }
 };
+
+// Columns an operation reads (custom code is opaque and reports none)
+export const getOperationColumns = (operation: DataOperation): string[] =>
+  operation.type === 'custom' ? [] : [operation.column];
+
+// Serialization helpers (used for shareable URLs); ids and timestamps are regenerated on restore
+type WithoutMeta<T> = T extends DataOperation ? Omit<T, 'id' | 'timestamp'> : never;
+export type SerializedOperation = WithoutMeta<DataOperation>;
+
+const NUMERIC_OPERATORS: NumericOperator[] = ['<', '<=', '>', '>=', '=', '!=', 'between'];
+
+export const serializeOperation = (operation: DataOperation): SerializedOperation => {
+  const rest: Record<string, unknown> = { ...operation };
+  delete rest.id;
+  delete rest.timestamp;
+  return rest as unknown as SerializedOperation;
+};
+
+export const deserializeOperation = (value: unknown): DataOperation | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  const operation = deserializeOperationBody(raw);
+  if (operation && raw.disabled === true) operation.disabled = true;
+  return operation;
+};
+
+const deserializeOperationBody = (raw: Record<string, unknown>): DataOperation | null => {
+  switch (raw.type) {
+    case 'filter':
+      if (typeof raw.column !== 'string' || !Array.isArray(raw.values)) return null;
+      return createFilterOperation(raw.column, raw.values.map(String), Boolean(raw.negated));
+    case 'numeric_filter':
+      if (typeof raw.column !== 'string' || typeof raw.value !== 'number') return null;
+      if (!NUMERIC_OPERATORS.includes(raw.operator as NumericOperator)) return null;
+      if (raw.operator === 'between' && typeof raw.upper !== 'number') return null;
+      return createNumericFilterOperation(
+        raw.column,
+        raw.operator as NumericOperator,
+        raw.value,
+        typeof raw.upper === 'number' ? raw.upper : undefined,
+        Boolean(raw.negated)
+      );
+    case 'text_filter':
+      if (typeof raw.column !== 'string' || typeof raw.pattern !== 'string') return null;
+      if (raw.mode !== 'contains' && raw.mode !== 'regex') return null;
+      return createTextFilterOperation(raw.column, raw.mode, raw.pattern, Boolean(raw.caseSensitive), Boolean(raw.negated));
+    case 'empty_filter':
+      if (typeof raw.column !== 'string') return null;
+      return createEmptyFilterOperation(raw.column, Boolean(raw.negated));
+    case 'custom':
+      if (typeof raw.code !== 'string') return null;
+      return createCustomCodeOperation(
+        raw.code,
+        raw.runtime === 'javascript' ? 'javascript' : 'python',
+        raw.jsMode === 'transform' ? 'transform' : 'predicate'
+      );
+    case 'sort':
+      if (typeof raw.column !== 'string' || (raw.direction !== 'asc' && raw.direction !== 'desc')) return null;
+      return createSortOperation(raw.column, raw.direction);
+    default:
+      return null;
+  }
+};
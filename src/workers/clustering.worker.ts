@@ -0,0 +1,33 @@
+/**
+ * Web Worker that clusters property descriptions in the browser, so the Clusters
+ * tab works without the Python backend. Each group (see `groupBy`) is clustered
+ * separately. See `runLocalClustering` in `src/lib/localClustering.ts` for the client side.
+ */
+
+import { clusterTexts } from '../lib/textClustering';
+import type { LocalClusteringWorkerRequest, LocalClusteringWorkerMessage } from '../lib/localClustering';
+
+const ctx = self as unknown as Worker;
+
+function post(message: LocalClusteringWorkerMessage) {
+  ctx.postMessage(message);
+}
+
+ctx.onmessage = (event: MessageEvent<LocalClusteringWorkerRequest>) => {
+  const { groups, options } = event.data;
+  try {
+    const total = groups.reduce((s, g) => s + g.texts.length, 0);
+    let done = 0;
+    const results = groups.map(group => {
+      const result = clusterTexts(group.texts, options, (n) => {
+        post({ type: 'progress', done: done + n, total });
+      });
+      done += group.texts.length;
+      post({ type: 'progress', done, total });
+      return { group: group.group, ...result };
+    });
+    post({ type: 'done', results });
+  } catch (e: unknown) {
+    post({ type: 'error', error: e instanceof Error ? e.message : String(e) });
+  }
+};
@@ -0,0 +1,142 @@
+/**
+ * Web Worker sandbox for client-side custom code operations (JS/TS).
+ *
+ * The user's code runs once per row as either a predicate (truthy keeps the row)
+ * or a transform (returns the new row object). Code may be a bare expression
+ * (`row.score.helpfulness > 3`) or a function body with `return`. TypeScript
+ * annotations are stripped with sucrase before compiling.
+ *
+ * The worker has no DOM access. Shadowing globals inside the compiled function
+ * only hides names (`Function('return this')()` still reaches the real global),
+ * so before any user code runs the worker also removes its network entry points
+ * from the global scope and its prototypes, and disables code generation from
+ * strings. Dynamic `import()` is rejected at compile time by looking for the
+ * `import` keyword token, so comments or whitespace can't hide it. The main thread
+ * enforces a timeout.
+ */
+
+import type { JsSandboxRequest, JsSandboxResponse } from '../lib/jsSandbox';
+
+const ctx: Worker = self as any;
+
+// Globals hidden from user code (passed as undefined parameters)
+const SHADOWED_GLOBALS = [
+  'self', 'globalThis', 'postMessage', 'close', 'fetch', 'XMLHttpRequest', 'WebSocket',
+  'EventSource', 'importScripts', 'indexedDB', 'caches', 'navigator', 'location', 'Worker',
+];
+
+// Globals that can send data off the machine; removed before user code runs
+const NETWORK_GLOBALS = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'WebTransport',
+  'Worker', 'SharedWorker', 'caches',
+];
+
+// Replace `name` with undefined on the global and on every prototype that defines it
+// (`Object.getPrototypeOf(self).fetch.call(self, ...)` would otherwise still work)
+function removeGlobal(name: string) {
+  for (let target: object | null = self; target; target = Object.getPrototypeOf(target)) {
+    if (Object.prototype.hasOwnProperty.call(target, name) || target === self) {
+      try {
+        Object.defineProperty(target, name, { value: undefined, writable: false, configurable: false });
+      } catch {
+        // Non-configurable properties that cannot be redefined stay as they are
+      }
+    }
+  }
+}
+
+function refuseCodeGeneration(): never {
+  throw new EvalError('Code generation from strings is disabled in custom code');
+}
+
+// Called after compiling and before running user code; the worker is discarded after one run
+function lockDown() {
+  NETWORK_GLOBALS.forEach(removeGlobal);
+  // Without these, user code could build a fresh function around `import()` or a removed global
+  const functionPrototypes = [
+    Function.prototype,
+    Object.getPrototypeOf(async function () {}),
+    Object.getPrototypeOf(function* () {}),
+    Object.getPrototypeOf(async function* () {}),
+  ];
+  for (const proto of functionPrototypes) {
+    Object.defineProperty(proto, 'constructor', { value: refuseCodeGeneration, writable: false, configurable: false });
+  }
+  for (const name of ['Function', 'eval']) {
+    Object.defineProperty(self, name, { value: refuseCodeGeneration, writable: false, configurable: false });
+  }
+  // String handlers are evaluated like eval
+  const { setTimeout: timeout, setInterval: interval } = self;
+  Object.defineProperty(self, 'setTimeout', {
+    value: (handler: TimerHandler, ms?: number, ...args: unknown[]) => (typeof handler === 'function' ? timeout(handler, ms, ...args) : refuseCodeGeneration()),
+  });
+  Object.defineProperty(self, 'setInterval', {
+    value: (handler: TimerHandler, ms?: number, ...args: unknown[]) => (typeof handler === 'function' ? interval(handler, ms, ...args) : refuseCodeGeneration()),
+  });
+}
+
+// True when the compiled source uses the `import` keyword (dynamic `import()` or `import.meta`).
+// sucrase's token table has one line per token with its type label in the second column;
+// a property named `import` is a `name` token and string contents are `string`/`template`.
+function usesImportKeyword(tokenTable: string): boolean {
+  return tokenTable.split('\n').slice(1).some(line => line.split(/\s+/)[1] === 'import');
+}
+
+async function compile(code: string): Promise<(row: Record<string, any>, index: number, rows: Record<string, any>[]) => any> {
+  const { transform, getFormattedTokens } = await import('sucrase');
+  const strip = (source: string) => transform(source, { transforms: ['typescript'] }).code;
+
+  // Prefer treating the code as a single expression; fall back to a function body
+  const trimmed = code.trim().replace(/;\s*$/, '');
+  let body: string;
+  try {
+    body = strip(`return (${trimmed});`);
+    new Function('row', 'index', 'rows', body);
+  } catch {
+    body = strip(code);
+  }
+  if (usesImportKeyword(getFormattedTokens(body, { transforms: [] }))) throw new Error('import() is not allowed in custom code');
+  const fn = new Function(...SHADOWED_GLOBALS, 'row', 'index', 'rows', `"use strict";\n${body}`);
+  const shadows = SHADOWED_GLOBALS.map(() => undefined);
+  return (row, index, rows) => fn(...shadows, row, index, rows);
+}
+
+function post(message: JsSandboxResponse) {
+  ctx.postMessage(message);
+}
+
+ctx.onmessage = async (event: MessageEvent<JsSandboxRequest>) => {
+  const { rows, code, mode } = event.data;
+  let fn: Awaited<ReturnType<typeof compile>>;
+  try {
+    fn = await compile(code);
+  } catch (e: any) {
+    post({ error: `Syntax error: ${e?.message || e}` });
+    return;
+  }
+  lockDown();
+
+  const out: Record<string, any>[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    let result: any;
+    try {
+      result = fn(row, i, rows);
+    } catch (e: any) {
+      post({ error: `Row ${i}: ${e?.name || 'Error'}: ${e?.message || e}`, rowIndex: i });
+      return;
+    }
+    if (mode === 'predicate') {
+      if (result) out.push(row);
+    } else {
+      // Transforms may mutate `row` in place and return nothing
+      const next = result === undefined ? row : result;
+      if (!next || typeof next !== 'object' || Array.isArray(next)) {
+        post({ error: `Row ${i}: transform must return an object (got ${Array.isArray(next) ? 'array' : typeof next})`, rowIndex: i });
+        return;
+      }
+      out.push(next);
+    }
+  }
+  post({ rows: out });
+};
@@ -0,0 +1,36 @@
+/**
+ * Web Worker that bootstraps confidence intervals for client-computed cluster
+ * metrics, side-by-side preference shifts and the model-version regression report,
+ * keeping thousands of resamples off the main thread. See
+ * `src/lib/metricsBootstrap.ts` for the client side.
+ */
+
+import { bootstrapClusterMetrics } from '../lib/clusterMetrics';
+import { computePairwiseClusterMetrics } from '../lib/pairwiseMetrics';
+import { computeRegressionReport } from '../lib/modelRegression';
+import type { MetricsBootstrapWorkerRequest, MetricsBootstrapWorkerMessage } from '../lib/metricsBootstrap';
+
+const ctx = self as unknown as Worker;
+
+function post(message: MetricsBootstrapWorkerMessage) {
+  ctx.postMessage(message);
+}
+
+ctx.onmessage = (event: MessageEvent<MetricsBootstrapWorkerRequest>) => {
+  const request = event.data;
+  const onProgress = (done: number, total: number) => post({ type: 'progress', done, total });
+  try {
+    switch (request.kind) {
+      case 'pairwise':
+        post({ type: 'done', result: computePairwiseClusterMetrics(request.battles, request.properties, request.clusters, request.options, onProgress) });
+        break;
+      case 'regression':
+        post({ type: 'done', result: computeRegressionReport(request.rows, request.properties, request.clusters, request.baseline, request.candidate, request.options, onProgress) });
+        break;
+      default:
+        post({ type: 'done', result: bootstrapClusterMetrics(request.conversations, request.properties, request.clusters, request.options, onProgress) });
+    }
+  } catch (e: unknown) {
+    post({ type: 'error', error: e instanceof Error ? e.message : String(e) });
+  }
+};
@@ -0,0 +1,170 @@
+/**
+ * Web Worker that parses uploaded JSONL/JSON/CSV/Parquet/Arrow files off the main thread.
+ *
+ * JSONL is streamed line by line and CSV is parsed in chunks, so memory stays
+ * bounded by the parsed rows and the UI receives progress while large files load.
+ * Malformed lines are collected with their (1-based) line numbers instead of
+ * aborting the load. See `parseFile` in `src/lib/parse.ts` for the client side.
+ */
+
+import Papa from 'papaparse';
+import type { MalformedLine, ParseWorkerRequest, ParseWorkerMessage } from '../lib/parse';
+import { isParquetFile, isArrowFile, readParquetFile, readArrowFile } from '../lib/columnar';
+
+const ctx: Worker = self as any;
+
+// Rows are shipped to the main thread in batches to avoid one huge structured clone at the end
+const BATCH_SIZE = 2000;
+const PROGRESS_INTERVAL_MS = 100;
+// Cap collected errors so a file of garbage does not balloon memory
+const MAX_MALFORMED = 1000;
+
+function post(message: ParseWorkerMessage) {
+  ctx.postMessage(message);
+}
+
+function createEmitter(totalBytes: number) {
+  let batch: Record<string, any>[] = [];
+  let rowsParsed = 0;
+  let malformedCount = 0;
+  const malformed: MalformedLine[] = [];
+  let lastProgress = 0;
+
+  return {
+    addRow(row: Record<string, any>) {
+      batch.push(row);
+      rowsParsed += 1;
+      if (batch.length >= BATCH_SIZE) this.flush();
+    },
+    addMalformed(entry: MalformedLine) {
+      malformedCount += 1;
+      if (malformed.length < MAX_MALFORMED) malformed.push(entry);
+    },
+    progress(bytesRead: number, force = false) {
+      const now = Date.now();
+      if (!force && now - lastProgress < PROGRESS_INTERVAL_MS) return;
+      lastProgress = now;
+      post({ type: 'progress', rowsParsed, bytesRead, totalBytes, malformedCount });
+    },
+    flush() {
+      if (batch.length === 0) return;
+      post({ type: 'rows', rows: batch });
+      batch = [];
+    },
+    done() {
+      this.flush();
+      post({ type: 'done', rowsParsed, malformedLines: malformed, malformedCount });
+    },
+  };
+}
+
+async function parseJsonl(file: File) {
+  const emitter = createEmitter(file.size);
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let lineNumber = 0;
+  let bytesRead = 0;
+
+  const handleLine = (raw: string) => {
+    lineNumber += 1;
+    const line = raw.trim();
+    if (!line) return;
+    try {
+      emitter.addRow(JSON.parse(line));
+    } catch (e: any) {
+      emitter.addMalformed({ line: lineNumber, error: String(e?.message || e), preview: line.slice(0, 200) });
+    }
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    buffer += decoder.decode(value, { stream: true });
+    let start = 0;
+    let newline = buffer.indexOf('\n', start);
+    while (newline !== -1) {
+      handleLine(buffer.slice(start, newline));
+      start = newline + 1;
+      newline = buffer.indexOf('\n', start);
+    }
+    buffer = buffer.slice(start);
+    emitter.progress(bytesRead);
+  }
+  buffer += decoder.decode();
+  if (buffer.length > 0) handleLine(buffer);
+  emitter.progress(bytesRead, true);
+  emitter.done();
+}
+
+async function parseJson(file: File) {
+  const emitter = createEmitter(file.size);
+  const data = JSON.parse(await file.text());
+  const rows = Array.isArray(data) ? data : [data];
+  for (const row of rows) emitter.addRow(row);
+  emitter.progress(file.size, true);
+  emitter.done();
+}
+
+function parseCsv(file: File) {
+  return new Promise<void>((resolve, reject) => {
+    const emitter = createEmitter(file.size);
+    // Rows seen before the current chunk; Papa reports error rows relative to the chunk
+    let rowOffset = 0;
+    Papa.parse<Record<string, any>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      chunk: (results) => {
+        // Papa still returns a best-effort row for malformed records; keep it (as before) and report the error
+        for (const err of results.errors) {
+          if (typeof err.row !== 'number') continue;
+          // +2: 1-based line numbers plus the header line (approximate when fields contain newlines)
+          emitter.addMalformed({ line: rowOffset + err.row + 2, error: err.message });
+        }
+        for (const row of results.data) emitter.addRow(row);
+        rowOffset += results.data.length;
+        emitter.progress(results.meta.cursor);
+      },
+      complete: () => {
+        emitter.progress(file.size, true);
+        emitter.done();
+        resolve();
+      },
+      error: (err) => reject(err),
+    });
+  });
+}
+
+async function parseColumnar(file: File, read: typeof readParquetFile) {
+  const emitter = createEmitter(file.size);
+  await read(
+    file,
+    (rows) => { for (const row of rows) emitter.addRow(row); },
+    (bytesRead) => emitter.progress(bytesRead),
+  );
+  emitter.progress(file.size, true);
+  emitter.done();
+}
+
+ctx.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  const { file } = event.data;
+  const name = file.name.toLowerCase();
+  try {
+    if (name.endsWith('.jsonl')) {
+      await parseJsonl(file);
+    } else if (name.endsWith('.json')) {
+      await parseJson(file);
+    } else if (name.endsWith('.csv')) {
+      await parseCsv(file);
+    } else if (isParquetFile(name)) {
+      await parseColumnar(file, readParquetFile);
+    } else if (isArrowFile(name)) {
+      await parseColumnar(file, readArrowFile);
+    } else {
+      throw new Error('Unsupported file type. Use JSONL, JSON, CSV, Parquet, or Arrow.');
+    }
+  } catch (e: any) {
+    post({ type: 'error', error: String(e?.message || e) });
+  }
+};
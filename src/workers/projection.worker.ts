@@ -0,0 +1,23 @@
+/**
+ * Web Worker that projects property vectors to 2D with t-SNE for the behavior map.
+ * See `projectProperties` in `src/lib/propertyProjection.ts` for the client side.
+ */
+
+import { projectVectors } from '../lib/vectorProjection';
+import type { ProjectionWorkerRequest, ProjectionWorkerMessage } from '../lib/propertyProjection';
+
+const ctx = self as unknown as Worker;
+
+function post(message: ProjectionWorkerMessage) {
+  ctx.postMessage(message);
+}
+
+ctx.onmessage = (event: MessageEvent<ProjectionWorkerRequest>) => {
+  const request = event.data;
+  try {
+    const coords = projectVectors(request, request.options, (done, total) => post({ type: 'progress', done, total }));
+    post({ type: 'done', points: request.ids.map((id, i) => ({ id, x: coords[i * 2], y: coords[i * 2 + 1] })) });
+  } catch (e: unknown) {
+    post({ type: 'error', error: e instanceof Error ? e.message : String(e) });
+  }
+};
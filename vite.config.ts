@@ -7,6 +7,10 @@ export default defineConfig(({ mode }) => {
 
   return {
     plugins: [react()],
+    // Module workers so worker code can lazy-load heavy parsers (Parquet/Arrow) via dynamic import
+    worker: {
+      format: 'es',
+    },
     server: {
       host: true,
       port: 5180,